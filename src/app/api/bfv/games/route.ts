@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from "next/server";
+import { adminForRequest } from "@/lib/supabaseServer";
+import { BfvIcsError, checkBfvUrl, fetchBfvIcs, normalizeBfvEvents } from "@/lib/bfvIcs";
+import { BfvGameJson, BfvGamesResponse, BfvTeamFeedStatus } from "@/lib/bfvGame";
+import { loadVenues, matchVenue, Venue } from "@/lib/venues";
+
+/**
+ * POST /api/bfv/games  (admin bearer token)
+ *   body: { bfvTeamIds: string[], from?: ISO, to?: ISO }
+ *   -> { games: BfvGameJson[], teams: BfvTeamFeedStatus[] }
+ *
+ * Fetches the ICS feeds of the given bfv_teams (cached, see src/lib/icsCache.ts), runs the
+ * BFV normalizer (locations, festival detection) and returns the games as JSON, sorted by
+ * start; is_home / venue_id come from the configured venues (src/lib/venues.ts). from/to keep games overlapping [from, to). A failing feed only marks its team.
+ */
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const maxDuration = 60;
+
+const MAX_TEAMS = 100;
+const CONCURRENCY = 4;
+
+type BfvTeamRow = { id: string; ics_url: string | null };
+
+function parseInstant(v: unknown) {
+  if (v === undefined || v === null || v === "") return null;
+  const d = new Date(String(v));
+  return Number.isFinite(d.getTime()) ? d : undefined;
+}
+
+export async function POST(req: NextRequest) {
+  const auth = await adminForRequest(req);
+  if ("error" in auth) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const body = (await req.json().catch(() => null)) as { bfvTeamIds?: unknown; from?: unknown; to?: unknown } | null;
+  const ids = body?.bfvTeamIds;
+  if (!Array.isArray(ids) || !ids.every((x) => typeof x === "string")) {
+    return NextResponse.json({ error: "bfvTeamIds must be an array of ids" }, { status: 400 });
+  }
+  if (ids.length > MAX_TEAMS) {
+    return NextResponse.json({ error: `At most ${MAX_TEAMS} teams per request` }, { status: 400 });
+  }
+  const from = parseInstant(body?.from);
+  const to = parseInstant(body?.to);
+  if (from === undefined || to === undefined) {
+    return NextResponse.json({ error: "from/to must be ISO timestamps" }, { status: 400 });
+  }
+
+  const uniqueIds = [...new Set(ids as string[])];
+  const { data, error } = uniqueIds.length
+    ? await auth.supabase.from("bfv_teams").select("id,ics_url").in("id", uniqueIds)
+    : { data: [], error: null };
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+  const teamById = new Map(((data ?? []) as BfvTeamRow[]).map((t) => [t.id, t]));
+
+  let venues: Venue[];
+  try {
+    venues = await loadVenues(auth.supabase);
+  } catch (e) {
+    return NextResponse.json({ error: (e as { message?: string })?.message || String(e) }, { status: 500 });
+  }
+
+  const games: BfvGameJson[] = [];
+  const teams: BfvTeamFeedStatus[] = [];
+
+  async function loadTeam(id: string) {
+    const status: BfvTeamFeedStatus = { bfv_team_id: id, ok: false, error: null, cache: null, fetched_at: null, games: 0 };
+    teams.push(status);
+
+    const team = teamById.get(id);
+    if (!team?.ics_url) {
+      status.error = team ? "Kein ICS-Link hinterlegt." : "Unbekannte Mannschaft.";
+      return;
+    }
+
+    try {
+      const fetched = await fetchBfvIcs(checkBfvUrl(team.ics_url));
+      status.cache = fetched.status;
+      status.fetched_at = fetched.fetchedAt.toISOString();
+
+      for (const e of normalizeBfvEvents(fetched.body, venues)) {
+        // BFV liefert teils "SPIELFREI"-Einträge – keine Spiele
+        if (/spielfrei/i.test(e.summary)) continue;
+        if ((from && e.end <= from) || (to && e.start >= to)) continue;
+        const venue = matchVenue(e.location, venues);
+        games.push({
+          uid: e.uid,
+          bfv_team_id: id,
+          summary: e.summary,
+          location: e.location,
+          start_at: e.start.toISOString(),
+          end_at: e.end.toISOString(),
+          all_day: e.allDay,
+          status: e.status,
+          cancelled: /cancelled/i.test(e.status),
+          is_home: venue !== null,
+          venue_id: venue?.id ?? null,
+        });
+        status.games++;
+      }
+      status.ok = true;
+    } catch (e) {
+      status.error = e instanceof BfvIcsError ? `${e.message} (${e.status})` : (e as Error)?.message || String(e);
+    }
+  }
+
+  const queue = [...uniqueIds];
+  await Promise.all(
+    Array.from({ length: Math.min(CONCURRENCY, queue.length) }, async () => {
+      while (queue.length) await loadTeam(queue.shift()!);
+    })
+  );
+
+  games.sort((a, b) => a.start_at.localeCompare(b.start_at) || a.bfv_team_id.localeCompare(b.bfv_team_id));
+  teams.sort((a, b) => uniqueIds.indexOf(a.bfv_team_id) - uniqueIds.indexOf(b.bfv_team_id));
+
+  const response: BfvGamesResponse = { games, teams };
+  return NextResponse.json(response);
+}
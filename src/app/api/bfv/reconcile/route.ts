@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from "next/server";
+import { adminForRequest } from "@/lib/supabaseServer";
+import { loadBfvEvents } from "@/lib/bfvIcs";
+import { FeedGame, feedGames, LeagueBooking, reconcileLeagueBookings } from "@/lib/bfvReconcile";
+import { loadVenues, Venue } from "@/lib/venues";
+
+/**
+ * GET /api/bfv/reconcile  (admin bearer token)
+ * Compares all upcoming league bookings with the current BFV feeds (see src/lib/bfvReconcile.ts).
+ *   -> { rows: [{ booking, game, kind }], errors: [{ bfv_team, message }] }
+ * Only rows that differ from the feed are returned (?all=1 includes unchanged ones).
+ */
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const maxDuration = 120;
+
+type BfvTeamRow = { id: string; name: string; ics_url: string | null };
+
+export async function GET(req: NextRequest) {
+  const auth = await adminForRequest(req);
+  if ("error" in auth) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  const { supabase } = auth;
+
+  const { data: leagueData, error: leagueErr } = await supabase
+    .from("bookings")
+    .select("id,external_uid,bfv_team_id,team_id,pitch_id,segment,start_at,end_at")
+    .eq("source", "BFV")
+    .not("external_uid", "is", null)
+    .in("status", ["REQUESTED", "APPROVED"])
+    .gt("end_at", new Date().toISOString())
+    .order("start_at", { ascending: true });
+  if (leagueErr) {
+    return NextResponse.json({ error: leagueErr.message }, { status: 500 });
+  }
+  const league = (leagueData ?? []) as LeagueBooking[];
+
+  const teamIds = [...new Set(league.map((b) => b.bfv_team_id).filter((id): id is string => !!id))];
+  const { data: teamData, error: teamErr } = teamIds.length
+    ? await supabase.from("bfv_teams").select("id,name,ics_url").in("id", teamIds)
+    : { data: [], error: null };
+  if (teamErr) {
+    return NextResponse.json({ error: teamErr.message }, { status: 500 });
+  }
+
+  let venues: Venue[];
+  try {
+    venues = await loadVenues(supabase);
+  } catch (e) {
+    return NextResponse.json({ error: (e as { message?: string })?.message || String(e) }, { status: 500 });
+  }
+
+  const games: FeedGame[] = [];
+  const fetched = new Set<string>();
+  const errors: { bfv_team: string; message: string }[] = [];
+
+  for (const team of (teamData ?? []) as BfvTeamRow[]) {
+    if (!team.ics_url) {
+      errors.push({ bfv_team: team.name, message: "Kein ICS-Link hinterlegt." });
+      continue;
+    }
+    try {
+      games.push(...feedGames(team.id, await loadBfvEvents(team.ics_url, venues)));
+      fetched.add(team.id);
+    } catch (e) {
+      errors.push({ bfv_team: team.name, message: (e as { message?: string })?.message || String(e) });
+    }
+  }
+
+  const all = req.nextUrl.searchParams.get("all") === "1";
+  const rows = reconcileLeagueBookings(league, games, fetched, venues).filter((r) => all || r.kind !== "OK");
+
+  return NextResponse.json({ rows, errors });
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from "next/server";
+import { adminForRequest, supabaseService } from "@/lib/supabaseServer";
+import { bfvSyncUserId, runBfvSync, saveSyncRun, SyncReport } from "@/lib/bfvSync";
+
+/**
+ * Scheduled BFV sync (see src/lib/bfvSync.ts).
+ *
+ * GET  — cron trigger, expects "Authorization: Bearer <CRON_SECRET>" (Vercel Cron sends it).
+ * POST — manual run from /bfv, expects the admin's access token as bearer.
+ *   -> { runId, status, counts }
+ *
+ * Runs with SUPABASE_SERVICE_ROLE_KEY and stores the report in bfv_sync_runs. New bookings belong
+ * to BFV_SYNC_USER_ID; the cron run refuses to start without it, a manual run falls back to the admin.
+ */
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const maxDuration = 300;
+
+async function run(trigger: "CRON" | "MANUAL", triggeredBy: string | null) {
+  const service = supabaseService();
+  if (!service) {
+    return NextResponse.json({ error: "SUPABASE_SERVICE_ROLE_KEY is not configured" }, { status: 500 });
+  }
+  const createdBy = bfvSyncUserId() ?? triggeredBy;
+  if (!createdBy) {
+    return NextResponse.json(
+      { error: "BFV_SYNC_USER_ID is not configured (owner of the synced bookings)" },
+      { status: 500 }
+    );
+  }
+
+  const startedAt = new Date();
+  let report: SyncReport;
+  try {
+    report = await runBfvSync(service, createdBy, startedAt);
+  } catch (e) {
+    const message = (e as { message?: string })?.message || "Sync failed";
+    report = {
+      status: "FAILED",
+      counts: { CREATED: 0, MOVED: 0, CANCELLED: 0, CONFLICT: 0, SKIPPED: 0, ERROR: 1 },
+      actions: [{ kind: "ERROR", bfv_team: "", message }],
+    };
+  }
+
+  try {
+    const runId = await saveSyncRun(service, { startedAt, trigger, triggeredBy, report });
+    return NextResponse.json(
+      { runId, status: report.status, counts: report.counts },
+      { status: report.status === "FAILED" ? 500 : 200 }
+    );
+  } catch (e) {
+    return NextResponse.json({ error: (e as { message?: string })?.message || "Save failed" }, { status: 500 });
+  }
+}
+
+export async function GET(req: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || req.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  return run("CRON", null);
+}
+
+export async function POST(req: NextRequest) {
+  const auth = await adminForRequest(req);
+  if ("error" in auth) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  return run("MANUAL", auth.userId);
+}
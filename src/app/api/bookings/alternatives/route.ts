@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseForRequest } from "@/lib/supabaseServer";
+import { isPitchSegment } from "@/lib/bookingRules";
+import { SEARCH_RANGE_MINUTES, suggestAlternatives } from "@/lib/conflictAssistant";
+import { isProposalInput, loadLeagueBookingIds, loadRuleData, RuleData } from "@/lib/ruleData";
+
+/**
+ * Alternatives for a colliding booking (src/lib/conflictAssistant.ts).
+ *
+ * POST { proposal: { id?, team_id, pitch_id, segment?, start_at, end_at } }
+ *   -> { alternatives: [{ kind, pitch_id, pitch_name, segment, start_at, end_at }] }
+ */
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function POST(req: NextRequest) {
+  const supabase = supabaseForRequest(req);
+  if (!supabase) {
+    return NextResponse.json({ error: "Missing bearer token" }, { status: 401 });
+  }
+
+  let body: { proposal?: unknown };
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const p = body.proposal;
+  if (!isProposalInput(p)) {
+    return NextResponse.json(
+      { error: "Expected { proposal: { team_id, pitch_id, start_at, end_at } }" },
+      { status: 400 }
+    );
+  }
+
+  const start = new Date(p.start_at);
+  const end = new Date(p.end_at);
+  if (!Number.isFinite(start.getTime()) || !Number.isFinite(end.getTime()) || end <= start) {
+    return NextResponse.json({ alternatives: [] });
+  }
+
+  // Suchfenster: verschobene Slots liegen höchstens SEARCH_RANGE_MINUTES daneben
+  const margin = SEARCH_RANGE_MINUTES * 60_000;
+
+  let data: RuleData;
+  let leagueIds: Set<string>;
+  try {
+    [data, leagueIds] = await Promise.all([
+      loadRuleData(supabase, [p.team_id], new Date(start.getTime() - margin), new Date(end.getTime() + margin)),
+      loadLeagueBookingIds(supabase, p.id ? [p.id] : []),
+    ]);
+  } catch (e) {
+    return NextResponse.json({ error: (e as { message?: string })?.message || "Load failed" }, { status: 500 });
+  }
+
+  const team = data.teamById.get(p.team_id);
+  const alternatives = suggestAlternatives(
+    {
+      id: p.id ?? null,
+      pitch_id: p.pitch_id,
+      segment: isPitchSegment(p.segment) ? p.segment : null,
+      start_at: p.start_at,
+      end_at: p.end_at,
+      age_u: team?.age_u ?? null,
+      units: team?.pitch_units ?? null,
+      league: p.id != null && leagueIds.has(p.id),
+    },
+    data.pitches,
+    data.bookings
+  );
+
+  return NextResponse.json({ alternatives });
+}
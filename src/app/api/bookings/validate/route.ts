@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseForRequest } from "@/lib/supabaseServer";
+import { isPitchSegment, ValidationResult, validateBooking } from "@/lib/bookingRules";
+import { isProposalInput, loadLeagueBookingIds, loadRuleData, RuleData } from "@/lib/ruleData";
+
+/**
+ * Booking validation against the shared pitch rules (src/lib/bookingRules.ts).
+ *
+ * POST { proposals: [{ id?, team_id, pitch_id, segment?, start_at, end_at }] }
+ *   -> { results: [{ ok, violations }] }   (same order as proposals)
+ *
+ * `id` is set when an existing booking is re-checked (approve), so it is not
+ * counted as its own conflict. League games (an existing booking with source
+ * 'BFV') are exempt from opening hours and dusk; new proposals never are.
+ */
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function POST(req: NextRequest) {
+  const supabase = supabaseForRequest(req);
+  if (!supabase) {
+    return NextResponse.json({ error: "Missing bearer token" }, { status: 401 });
+  }
+
+  let body: { proposals?: unknown };
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const proposals = Array.isArray(body.proposals) ? body.proposals : null;
+  if (!proposals || proposals.length === 0 || !proposals.every(isProposalInput)) {
+    return NextResponse.json(
+      { error: "Expected { proposals: [{ team_id, pitch_id, start_at, end_at }] }" },
+      { status: 400 }
+    );
+  }
+
+  const starts = proposals.map((p) => new Date(p.start_at).getTime()).filter(Number.isFinite);
+  const ends = proposals.map((p) => new Date(p.end_at).getTime()).filter(Number.isFinite);
+  const teamIds = Array.from(new Set(proposals.map((p) => p.team_id)));
+
+  const bookingIds = proposals.map((p) => p.id).filter((id): id is string => typeof id === "string");
+
+  let data: RuleData;
+  let leagueIds: Set<string>;
+  try {
+    [data, leagueIds] = await Promise.all([
+      loadRuleData(
+        supabase,
+        teamIds,
+        starts.length ? new Date(Math.min(...starts)) : null,
+        ends.length ? new Date(Math.max(...ends)) : null
+      ),
+      loadLeagueBookingIds(supabase, bookingIds),
+    ]);
+  } catch (e) {
+    return NextResponse.json({ error: (e as { message?: string })?.message || "Load failed" }, { status: 500 });
+  }
+
+  const { pitches, teamById, bookings } = data;
+
+  const results: ValidationResult[] = proposals.map((p) =>
+    validateBooking(
+      {
+        id: p.id ?? null,
+        pitch_id: p.pitch_id,
+        segment: isPitchSegment(p.segment) ? p.segment : null,
+        start_at: p.start_at,
+        end_at: p.end_at,
+        age_u: teamById.get(p.team_id)?.age_u ?? null,
+        units: teamById.get(p.team_id)?.pitch_units ?? null,
+        league: p.id != null && leagueIds.has(p.id),
+      },
+      pitches,
+      bookings
+    )
+  );
+
+  return NextResponse.json({ results });
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server";
+import { adminForRequest, supabaseService } from "@/lib/supabaseServer";
+import { syncExternalSources } from "@/lib/externalIcs";
+
+/**
+ * Import of external ICS calendars as pitch closures (see src/lib/externalIcs.ts).
+ *
+ * GET  — cron trigger, expects "Authorization: Bearer <CRON_SECRET>" (Vercel Cron sends it).
+ * POST — manual run from /closures, expects the admin's access token as bearer.
+ *   body (optional): { sourceId } — only this source (also when inactive)
+ *   -> { results: SourceSyncResult[] }
+ *
+ * Runs with SUPABASE_SERVICE_ROLE_KEY; the outcome is stored on each source row.
+ */
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const maxDuration = 300;
+
+async function run(sourceId: string | null) {
+  const service = supabaseService();
+  if (!service) {
+    return NextResponse.json({ error: "SUPABASE_SERVICE_ROLE_KEY is not configured" }, { status: 500 });
+  }
+
+  try {
+    const results = await syncExternalSources(service, sourceId);
+    return NextResponse.json({ results }, { status: results.some((r) => !r.ok) ? 207 : 200 });
+  } catch (e) {
+    return NextResponse.json({ error: (e as { message?: string })?.message || "Sync failed" }, { status: 500 });
+  }
+}
+
+export async function GET(req: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || req.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  return run(null);
+}
+
+export async function POST(req: NextRequest) {
+  const auth = await adminForRequest(req);
+  if ("error" in auth) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  const body = (await req.json().catch(() => null)) as { sourceId?: unknown } | null;
+  return run(typeof body?.sourceId === "string" ? body.sourceId : null);
+}
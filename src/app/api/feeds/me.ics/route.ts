@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseService } from "@/lib/supabaseServer";
+import { feedForToken } from "@/lib/calendarFeeds";
+
+/**
+ * GET /api/feeds/me.ics?token=<feed token>
+ * Subscribable ICS feed of the token owner: the approved bookings of the teams they
+ * train (trainer_teams), see src/lib/calendarFeeds.ts.
+ */
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(req: NextRequest) {
+  const service = supabaseService();
+  if (!service) {
+    return NextResponse.json({ error: "Feeds need SUPABASE_SERVICE_ROLE_KEY" }, { status: 503 });
+  }
+
+  const result = await feedForToken(service, "me", null, req.nextUrl.searchParams.get("token"));
+  if ("error" in result) {
+    return NextResponse.json({ error: result.error }, { status: result.status });
+  }
+
+  return new NextResponse(result.ics, {
+    status: 200,
+    headers: {
+      "content-type": "text/calendar; charset=utf-8",
+      "cache-control": "no-store",
+      "content-disposition": `inline; filename="${result.filename}"`,
+    },
+  });
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseService } from "@/lib/supabaseServer";
+import { feedForToken, feedIdFromFile } from "@/lib/calendarFeeds";
+
+/**
+ * GET /api/feeds/team/<id>.ics?token=<feed token>
+ * Subscribable ICS feed: approved bookings of one team (trainings and home games), see src/lib/calendarFeeds.ts.
+ */
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(req: NextRequest, { params }: { params: Promise<{ file: string }> }) {
+  const service = supabaseService();
+  if (!service) {
+    return NextResponse.json({ error: "Feeds need SUPABASE_SERVICE_ROLE_KEY" }, { status: 503 });
+  }
+
+  const { file } = await params;
+  const result = await feedForToken(service, "team", feedIdFromFile(file), req.nextUrl.searchParams.get("token"));
+  if ("error" in result) {
+    return NextResponse.json({ error: result.error }, { status: result.status });
+  }
+
+  return new NextResponse(result.ics, {
+    status: 200,
+    headers: {
+      "content-type": "text/calendar; charset=utf-8",
+      "cache-control": "no-store",
+      "content-disposition": `inline; filename="${result.filename}"`,
+    },
+  });
+}
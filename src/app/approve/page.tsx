@@ -3,6 +3,23 @@
 import { useEffect, useMemo, useState } from "react";
 import Link from "next/link";
 import { supabase } from "@/lib/supabaseClient";
+import { isBlockingStatus, isPitchSegment, SEGMENT_LABELS } from "@/lib/bookingRules";
+import {
+  fetchAlternatives,
+  isOverlapError,
+  ProposalPayload,
+  slotRuleErrorCode,
+  validateBooking,
+  validateBookings,
+  violationsText,
+} from "@/lib/bookingValidation";
+import type { Alternative } from "@/lib/conflictAssistant";
+import AlternativesPanel from "@/components/AlternativesPanel";
+import BookingHistoryDrawer from "@/components/BookingHistoryDrawer";
+import DecisionDialog from "@/components/DecisionDialog";
+import { withAuditReason } from "@/lib/audit";
+import { Decision, decisionFields, decisionText, needsDecisionReason } from "@/lib/decisionReasons";
+import { SeriesRule, seriesLabel } from "@/lib/recurrence";
 
 type BookingRow = {
   id: string;
@@ -10,12 +27,48 @@ type BookingRow = {
   created_by?: string | null;
   team_id: string;
   pitch_id: string;
+  segment?: string | null;
   start_at: string;
   end_at: string;
   status: string;
   note: string | null;
+  series_id?: string | null;
+  waitlist_for?: string | null;
+  waitlisted_at?: string | null;
+  decision_code?: string | null;
+  decision_comment?: string | null;
+  source?: string | null;
 };
 
+type Series = Pick<SeriesRule, "weekdays" | "start_time" | "end_time" | "valid_from" | "valid_to"> & {
+  id: string;
+  team_id: string;
+  pitch_id: string;
+};
+
+type SeriesReport = { seriesId: string; text: string };
+
+type PendingChange = {
+  id: string;
+  created_at: string;
+  booking_id: string;
+  reason: string | null;
+  old_pitch_id: string;
+  old_segment: string | null;
+  old_start_at: string;
+  old_end_at: string;
+  new_pitch_id: string;
+  new_segment: string | null;
+  new_start_at: string;
+  new_end_at: string;
+};
+
+// Buchung + Zielstatus, für den der Entscheidungsdialog offen ist
+type PendingDecision = { rowId: string; status: string };
+
+// kollidierende Buchung + Zielstatus + vorgeschlagene Alternativen (null = lädt)
+type Conflict = { rowId: string; status: string; alternatives: Alternative[] | null };
+
 type Pitch = { id: string; name: string };
 type Team = { id: string; name: string; age_u: number };
 
@@ -28,7 +81,7 @@ type Profile = {
 
 function fmtDE(dt: string) {
   try {
-    return new Date(dt).toLocaleString("de-DE");
+    return new Date(dt).toLocaleString("de-DE", { timeZone: "Europe/Berlin" });
   } catch {
     return dt;
   }
@@ -41,9 +94,15 @@ export default function ApprovePage() {
   const [pitches, setPitches] = useState<Pitch[]>([]);
   const [teams, setTeams] = useState<Team[]>([]);
   const [rows, setRows] = useState<BookingRow[]>([]);
+  const [series, setSeries] = useState<Series[]>([]);
+  const [seriesReport, setSeriesReport] = useState<SeriesReport | null>(null);
 
   const [error, setError] = useState<string | null>(null);
   const [busyId, setBusyId] = useState<string | null>(null);
+  const [conflict, setConflict] = useState<Conflict | null>(null);
+  const [changes, setChanges] = useState<PendingChange[]>([]);
+  const [historyId, setHistoryId] = useState<string | null>(null);
+  const [decisionFor, setDecisionFor] = useState<PendingDecision | null>(null);
 
   const isAdmin = useMemo(() => (profile?.role || "TRAINER").toUpperCase() === "ADMIN", [profile]);
 
@@ -77,23 +136,35 @@ export default function ApprovePage() {
   async function loadAll() {
     setError(null);
 
-    const [p, t, b] = await Promise.all([
+    const [p, t, b, s, c] = await Promise.all([
       supabase.from("pitches").select("id,name").order("name"),
       supabase.from("teams").select("id,name,age_u").order("age_u").order("name"),
       supabase
         .from("bookings")
-        .select("id,created_at,created_by,team_id,pitch_id,start_at,end_at,status,note")
+        .select(
+          "id,created_at,created_by,team_id,pitch_id,segment,start_at,end_at,status,note,series_id,waitlist_for,waitlisted_at,decision_code,decision_comment,source"
+        )
         .order("created_at", { ascending: false })
         .order("start_at", { ascending: false }),
+      supabase.from("booking_series").select("id,team_id,pitch_id,weekdays,start_time,end_time,valid_from,valid_to"),
+      supabase
+        .from("booking_changes")
+        .select("id,created_at,booking_id,reason,old_pitch_id,old_segment,old_start_at,old_end_at,new_pitch_id,new_segment,new_start_at,new_end_at")
+        .eq("status", "PENDING")
+        .order("created_at"),
     ]);
 
     if (p.error) return setError(p.error.message);
     if (t.error) return setError(t.error.message);
     if (b.error) return setError(b.error.message);
+    if (s.error) return setError(s.error.message);
+    if (c.error) return setError(c.error.message);
 
     setPitches((p.data ?? []) as Pitch[]);
     setTeams((t.data ?? []) as Team[]);
     setRows((b.data ?? []) as BookingRow[]);
+    setSeries((s.data ?? []) as Series[]);
+    setChanges((c.data ?? []) as PendingChange[]);
   }
 
   useEffect(() => {
@@ -103,6 +174,7 @@ export default function ApprovePage() {
     const ch = supabase
       .channel("bookings-approve-realtime")
       .on("postgres_changes", { event: "*", schema: "public", table: "bookings" }, () => loadAll())
+      .on("postgres_changes", { event: "*", schema: "public", table: "booking_changes" }, () => loadAll())
       .subscribe();
 
     return () => {
@@ -112,24 +184,148 @@ export default function ApprovePage() {
 
   const pitchById = useMemo(() => new Map(pitches.map((x) => [x.id, x.name])), [pitches]);
   const teamById = useMemo(() => new Map(teams.map((x) => [x.id, x])), [teams]);
+  const historyNames = useMemo(
+    () => ({ pitches: pitchById, teams: new Map(teams.map((x) => [x.id, `${x.name} (U${x.age_u})`])) }),
+    [pitchById, teams]
+  );
+  const historyRow = historyId ? rows.find((r) => r.id === historyId) : undefined;
+
+  // Warteliste: Position je Eintrag in der Schlange hinter seiner blockierenden Buchung
+  const waitlistQueue = useMemo(() => {
+    const rowById = new Map(rows.map((r) => [r.id, r]));
+    const byBlocker = new Map<string, BookingRow[]>();
+    for (const r of rows) {
+      if (String(r.status).toUpperCase() !== "WAITLISTED" || !r.waitlist_for) continue;
+      byBlocker.set(r.waitlist_for, [...(byBlocker.get(r.waitlist_for) ?? []), r]);
+    }
+
+    const out = new Map<string, { position: number; blocker: BookingRow | null }>();
+    for (const [blockerId, queue] of byBlocker) {
+      queue
+        .sort((a, b) => (a.waitlisted_at ?? a.created_at ?? "").localeCompare(b.waitlisted_at ?? b.created_at ?? ""))
+        .forEach((r, i) => out.set(r.id, { position: i + 1, blocker: rowById.get(blockerId) ?? null }));
+    }
+    return out;
+  }, [rows]);
+
+  // Serien mit offenen (REQUESTED) Terminen
+  const pendingSeries = useMemo(() => {
+    const countBySeries = new Map<string, number>();
+    for (const r of rows) {
+      if (!r.series_id || String(r.status).toUpperCase() !== "REQUESTED") continue;
+      countBySeries.set(r.series_id, (countBySeries.get(r.series_id) ?? 0) + 1);
+    }
+    return series
+      .filter((s) => countBySeries.has(s.id))
+      .map((s) => ({ series: s, open: countBySeries.get(s.id) ?? 0 }));
+  }, [rows, series]);
+
+  /** Genehmigt alle offenen Termine einer Serie in einem Schritt; Kollisionen bleiben REQUESTED und werden gemeldet. */
+  async function approveSeries(seriesId: string) {
+    if (!isAdmin) return;
+
+    setError(null);
+    setSeriesReport(null);
+    setBusyId(seriesId);
+
+    try {
+      const open = rows
+        .filter((r) => r.series_id === seriesId && String(r.status).toUpperCase() === "REQUESTED")
+        .sort((a, b) => a.start_at.localeCompare(b.start_at));
+      if (open.length === 0) return;
+
+      const results = await validateBookings(
+        open.map((r) => ({
+          id: r.id,
+          team_id: r.team_id,
+          pitch_id: r.pitch_id,
+          segment: isPitchSegment(r.segment) ? r.segment : null,
+          start_at: r.start_at,
+          end_at: r.end_at,
+        }))
+      );
+
+      const okIds = open.filter((_, i) => results[i]?.ok).map((r) => r.id);
+      const conflicts = open
+        .map((r, i) => ({ r, violations: results[i]?.violations ?? [] }))
+        .filter((_, i) => !results[i]?.ok);
+
+      if (okIds.length) {
+        const { error } = await withAuditReason(
+          supabase
+            .from("bookings")
+            .update({ status: "APPROVED", ...decisionFields("APPROVED", null, profile?.id ?? null) })
+            .in("id", okIds),
+          "Serie genehmigt"
+        );
+        if (error) throw error;
+      }
+
+      const lines = [`${okIds.length} von ${open.length} Terminen genehmigt.`];
+      if (conflicts.length) {
+        lines.push(`${conflicts.length} Termine kollidieren (bleiben angefragt):`);
+        for (const c of conflicts) {
+          lines.push(`• ${fmtDE(c.r.start_at)}: ${violationsText(c.violations)}`);
+        }
+      }
+      setSeriesReport({ seriesId, text: lines.join("\n") });
 
-  async function setStatus(id: string, status: string) {
+      await loadAll();
+    } catch (e) {
+      console.error(e);
+      const msg = e instanceof Error ? e.message : String((e as { message?: string })?.message || "");
+      if (isOverlapError(msg)) {
+        setError("Mindestens ein Termin ist inzwischen belegt (Überschneidung). Bitte aktualisieren und erneut versuchen.");
+      } else {
+        setError(msg || "Fehler beim Speichern.");
+      }
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function setStatus(id: string, status: string, decision: Decision | null = null) {
     if (!isAdmin) return;
 
+    // Ablehnen/Absagen nur mit Grund -> erst Dialog
+    if (needsDecisionReason(status) && !decision) {
+      setDecisionFor({ rowId: id, status });
+      return;
+    }
+
     setError(null);
+    setConflict(null);
+    setDecisionFor(null);
     setBusyId(id);
 
     try {
-      const { error } = await supabase.from("bookings").update({ status }).eq("id", id);
+      // ✅ Vor dem (Re-)Aktivieren dieselben Platzregeln wie im BFV-Planer prüfen
+      const row = rows.find((r) => r.id === id);
+      if (row && (status === "APPROVED" || (isBlockingStatus(status) && !isBlockingStatus(row.status)))) {
+        const check = await validateBooking(rowProposal(row));
+        if (!check.ok) {
+          setError(violationsText(check.violations));
+          await loadAlternatives(row, status);
+          return;
+        }
+      }
 
-      if (error) {
-        const msg = String(error.message || "");
+      const fields = decisionFields(status, decision, profile?.id ?? null);
+      const { error } = await withAuditReason(
+        supabase
+          .from("bookings")
+          .update({ status, ...fields })
+          .eq("id", id),
+        decisionText(fields.decision_code, fields.decision_comment)
+      );
 
+      if (error) {
         // ✅ verständliche Meldung bei Overlap Constraint
-        if (msg.includes("bookings_no_overlap") || msg.toLowerCase().includes("exclusion constraint")) {
+        if (isOverlapError(error.message)) {
           setError(
             "Der Slot ist inzwischen belegt (Überschneidung). Bitte Terminzeit ändern oder den anderen Termin prüfen."
           );
+          if (row) await loadAlternatives(row, status);
           return;
         }
 
@@ -137,7 +333,7 @@ export default function ApprovePage() {
       }
 
       // sofort sichtbar (optimistic)
-      setRows((prev) => prev.map((r) => (r.id === id ? { ...r, status } : r)));
+      setRows((prev) => prev.map((r) => (r.id === id ? { ...r, status, ...fields } : r)));
 
       // und einmal sicher reloaden
       await loadAll();
@@ -149,6 +345,139 @@ export default function ApprovePage() {
     }
   }
 
+  /** Änderungsantrag übernehmen: neue Werte prüfen, dann Buchung + Antrag in einer Transaktion (RPC). */
+  async function approveChange(change: PendingChange) {
+    if (!isAdmin) return;
+    const row = rows.find((r) => r.id === change.booking_id);
+    if (!row) return;
+
+    setError(null);
+    setBusyId(change.id);
+
+    try {
+      const check = await validateBooking({
+        ...rowProposal(row),
+        pitch_id: change.new_pitch_id,
+        segment: isPitchSegment(change.new_segment) ? change.new_segment : null,
+        start_at: change.new_start_at,
+        end_at: change.new_end_at,
+      });
+      if (!check.ok) {
+        setError(violationsText(check.violations));
+        return;
+      }
+
+      const { error } = await supabase.rpc("approve_booking_change", { change_id: change.id });
+      if (error) {
+        if (isOverlapError(error.message)) {
+          setError("Der neue Slot ist inzwischen belegt (Überschneidung).");
+          return;
+        }
+        const code = slotRuleErrorCode(error.message);
+        if (code) {
+          setError(`Der neue Slot verstößt inzwischen gegen die Platzregeln (${code}).`);
+          return;
+        }
+        throw error;
+      }
+
+      await loadAll();
+    } catch (e) {
+      console.error(e);
+      setError(e instanceof Error ? e.message : String((e as { message?: string })?.message || "Fehler beim Speichern."));
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function rejectChange(change: PendingChange) {
+    if (!isAdmin) return;
+    setError(null);
+    setBusyId(change.id);
+
+    const { data: s } = await supabase.auth.getSession();
+    const { error } = await supabase
+      .from("booking_changes")
+      .update({ status: "REJECTED", decided_by: s.session?.user.id ?? null, decided_at: new Date().toISOString() })
+      .eq("id", change.id);
+
+    if (error) setError(error.message);
+    else await loadAll();
+    setBusyId(null);
+  }
+
+  function pitchText(pitchId: string, segment: string | null | undefined) {
+    const name = pitchById.get(pitchId) ?? pitchId;
+    return isPitchSegment(segment) ? `${name} (${SEGMENT_LABELS[segment]})` : name;
+  }
+
+  function rowProposal(row: BookingRow): ProposalPayload {
+    return {
+      id: row.id,
+      team_id: row.team_id,
+      pitch_id: row.pitch_id,
+      segment: isPitchSegment(row.segment) ? row.segment : null,
+      start_at: row.start_at,
+      end_at: row.end_at,
+    };
+  }
+
+  // ✅ Konflikt-Assistent: Alternativen für die kollidierende Buchung
+  async function loadAlternatives(row: BookingRow, status: string) {
+    setConflict({ rowId: row.id, status, alternatives: null });
+    try {
+      const alternatives = await fetchAlternatives(rowProposal(row));
+      setConflict({ rowId: row.id, status, alternatives });
+    } catch (e) {
+      console.error(e);
+      setConflict({ rowId: row.id, status, alternatives: [] });
+    }
+  }
+
+  /** Ein Klick: Buchung auf die Alternative umlegen und den gewünschten Status setzen. */
+  async function acceptAlternative(a: Alternative) {
+    if (!isAdmin || !conflict) return;
+    const row = rows.find((r) => r.id === conflict.rowId);
+    if (!row) return;
+
+    setError(null);
+    setBusyId(row.id);
+
+    try {
+      const moved = { pitch_id: a.pitch_id, segment: a.segment, start_at: a.start_at, end_at: a.end_at };
+      const check = await validateBooking({ ...rowProposal(row), ...moved });
+      if (!check.ok) {
+        setError(violationsText(check.violations));
+        await loadAlternatives(row, conflict.status);
+        return;
+      }
+
+      const { error } = await withAuditReason(
+        supabase
+          .from("bookings")
+          .update({ ...moved, status: conflict.status, ...decisionFields(conflict.status, null, profile?.id ?? null) })
+          .eq("id", row.id),
+        "Konflikt-Assistent: Alternative übernommen"
+      );
+      if (error) {
+        if (isOverlapError(error.message)) {
+          setError("Auch die Alternative ist inzwischen belegt.");
+          await loadAlternatives(row, conflict.status);
+          return;
+        }
+        throw error;
+      }
+
+      setConflict(null);
+      await loadAll();
+    } catch (e) {
+      console.error(e);
+      setError(e instanceof Error ? e.message : String((e as { message?: string })?.message || "Fehler beim Speichern."));
+    } finally {
+      setBusyId(null);
+    }
+  }
+
   if (!sessionChecked) return null;
 
   const role = (profile?.role || "TRAINER").toUpperCase();
@@ -174,7 +503,79 @@ export default function ApprovePage() {
         </div>
       </div>
 
-      {error && <p style={{ color: "crimson", marginTop: 12 }}>{error}</p>}
+      {error && <p style={{ color: "crimson", marginTop: 12, whiteSpace: "pre-line" }}>{error}</p>}
+
+      {canEdit && conflict && (
+        <div style={{ marginTop: 8 }}>
+          <AlternativesPanel
+            alternatives={conflict.alternatives}
+            loading={conflict.alternatives === null}
+            busy={busyId === conflict.rowId}
+            acceptText={conflict.status === "APPROVED" ? "Umlegen & genehmigen" : "Umlegen"}
+            onAccept={acceptAlternative}
+          />
+        </div>
+      )}
+
+      {canEdit && changes.length > 0 && (
+        <div className="card" style={{ marginTop: 12, display: "grid", gap: 10 }}>
+          <div style={{ fontWeight: 800 }}>Änderungsanträge</div>
+          {changes.map((c) => {
+            const row = rows.find((r) => r.id === c.booking_id);
+            const team = row ? teamById.get(row.team_id) : undefined;
+            return (
+              <div key={c.id} style={{ display: "flex", gap: 12, alignItems: "center", flexWrap: "wrap" }}>
+                <div style={{ display: "grid", gap: 2, fontSize: 14 }}>
+                  <div style={{ fontWeight: 700 }}>{team ? `${team.name} (U${team.age_u})` : c.booking_id}</div>
+                  <div style={{ opacity: 0.75 }}>
+                    alt: {pitchText(c.old_pitch_id, c.old_segment)} • {fmtDE(c.old_start_at)} – {fmtDE(c.old_end_at)}
+                  </div>
+                  <div>
+                    neu: {pitchText(c.new_pitch_id, c.new_segment)} • {fmtDE(c.new_start_at)} – {fmtDE(c.new_end_at)}
+                  </div>
+                  {c.reason && <div style={{ opacity: 0.75 }}>Grund: {c.reason}</div>}
+                </div>
+                <div style={{ display: "inline-flex", gap: 8 }}>
+                  <button disabled={busyId === c.id} onClick={() => approveChange(c)}>
+                    Änderung übernehmen
+                  </button>
+                  <button disabled={busyId === c.id} onClick={() => rejectChange(c)}>
+                    Ablehnen
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {canEdit && (pendingSeries.length > 0 || seriesReport) && (
+        <div className="card" style={{ marginTop: 12, display: "grid", gap: 10 }}>
+          <div style={{ fontWeight: 800 }}>Offene Trainingsserien</div>
+          {pendingSeries.map(({ series: s, open }) => {
+            const team = teamById.get(s.team_id);
+            const report = seriesReport?.seriesId === s.id ? seriesReport.text : null;
+            return (
+              <div key={s.id} style={{ display: "grid", gap: 6 }}>
+                <div style={{ display: "flex", gap: 12, alignItems: "center", flexWrap: "wrap" }}>
+                  <div>
+                    {team ? `${team.name} (U${team.age_u})` : s.team_id} • {pitchById.get(s.pitch_id) ?? s.pitch_id} •{" "}
+                    {seriesLabel(s)} • {new Date(s.valid_from).toLocaleDateString("de-DE", { timeZone: "Europe/Berlin" })} –{" "}
+                    {new Date(s.valid_to).toLocaleDateString("de-DE", { timeZone: "Europe/Berlin" })}
+                  </div>
+                  <button disabled={busyId === s.id} onClick={() => approveSeries(s.id)}>
+                    Serie genehmigen ({open} Termine)
+                  </button>
+                </div>
+                {report && <div style={{ whiteSpace: "pre-line", fontSize: 13, opacity: 0.9 }}>{report}</div>}
+              </div>
+            );
+          })}
+          {seriesReport && !pendingSeries.some((p) => p.series.id === seriesReport.seriesId) && (
+            <div style={{ whiteSpace: "pre-line", fontSize: 13, opacity: 0.9 }}>{seriesReport.text}</div>
+          )}
+        </div>
+      )}
 
       <div style={{ marginTop: 12, overflowX: "auto" }}>
         <table style={{ width: "100%", borderCollapse: "collapse" }}>
@@ -187,19 +588,22 @@ export default function ApprovePage() {
               <th style={{ padding: 10, borderBottom: "1px solid #273243" }}>Bis</th>
               <th style={{ padding: 10, borderBottom: "1px solid #273243" }}>Status</th>
               <th style={{ padding: 10, borderBottom: "1px solid #273243" }}>Notiz</th>
+              <th style={{ padding: 10, borderBottom: "1px solid #273243" }}>Verlauf</th>
               {canEdit && <th style={{ padding: 10, borderBottom: "1px solid #273243" }}>Aktion</th>}
             </tr>
           </thead>
 
           <tbody>
             {rows.map((r) => {
-              const pitch = pitchById.get(r.pitch_id) ?? r.pitch_id;
+              const pitchName = pitchById.get(r.pitch_id) ?? r.pitch_id;
+              const pitch = isPitchSegment(r.segment) ? `${pitchName} (${SEGMENT_LABELS[r.segment]})` : pitchName;
               const team = teamById.get(r.team_id);
               const teamText = team ? `${team.name} (U${team.age_u})` : r.team_id;
 
               const status = String(r.status || "").toUpperCase();
               const incoming = r.created_at ? fmtDE(r.created_at) : fmtDE(r.start_at);
               const busy = busyId === r.id;
+              const queue = status === "WAITLISTED" ? waitlistQueue.get(r.id) : undefined;
 
               return (
                 <tr key={r.id}>
@@ -208,10 +612,28 @@ export default function ApprovePage() {
                   <td style={{ padding: 10, borderBottom: "1px solid rgba(255,255,255,0.08)" }}>{teamText}</td>
                   <td style={{ padding: 10, borderBottom: "1px solid rgba(255,255,255,0.08)" }}>{fmtDE(r.start_at)}</td>
                   <td style={{ padding: 10, borderBottom: "1px solid rgba(255,255,255,0.08)" }}>{fmtDE(r.end_at)}</td>
-                  <td style={{ padding: 10, borderBottom: "1px solid rgba(255,255,255,0.08)" }}>{status}</td>
+                  <td style={{ padding: 10, borderBottom: "1px solid rgba(255,255,255,0.08)" }}>
+                    {status}
+                    {needsDecisionReason(status) && r.decision_code && (
+                      <div style={{ fontSize: 12, opacity: 0.8 }}>
+                        Grund: {decisionText(r.decision_code, r.decision_comment)}
+                      </div>
+                    )}
+                    {queue && (
+                      <div style={{ fontSize: 12, opacity: 0.8 }}>
+                        #{queue.position} hinter{" "}
+                        {queue.blocker
+                          ? `${teamById.get(queue.blocker.team_id)?.name ?? "—"} (${String(queue.blocker.status).toUpperCase()})`
+                          : "—"}
+                      </div>
+                    )}
+                  </td>
                   <td style={{ padding: 10, borderBottom: "1px solid rgba(255,255,255,0.08)", maxWidth: 360 }}>
                     {r.note ?? "—"}
                   </td>
+                  <td style={{ padding: 10, borderBottom: "1px solid rgba(255,255,255,0.08)" }}>
+                    <button onClick={() => setHistoryId(r.id)}>Verlauf</button>
+                  </td>
 
                   {canEdit && (
                     <td style={{ padding: 10, borderBottom: "1px solid rgba(255,255,255,0.08)" }}>
@@ -243,8 +665,18 @@ export default function ApprovePage() {
                           }}
                         >
                           <button disabled={busy} onClick={() => setStatus(r.id, "REQUESTED")}>
-                            Zurück auf Angefragt
+                            {status === "WAITLISTED" ? "Vorziehen (Angefragt)" : "Zurück auf Angefragt"}
                           </button>
+                          {status === "WAITLISTED" && (
+                            <button disabled={busy} onClick={() => setStatus(r.id, "REJECTED")}>
+                              Ablehnen
+                            </button>
+                          )}
+                          {status === "APPROVED" && (
+                            <button disabled={busy} onClick={() => setStatus(r.id, "CANCELLED")}>
+                              Absagen
+                            </button>
+                          )}
                         </div>
                       )}
                     </td>
@@ -255,7 +687,7 @@ export default function ApprovePage() {
 
             {rows.length === 0 && (
               <tr>
-                <td colSpan={canEdit ? 8 : 7} style={{ padding: 14, opacity: 0.8 }}>
+                <td colSpan={canEdit ? 9 : 8} style={{ padding: 14, opacity: 0.8 }}>
                   Keine Einträge.
                 </td>
               </tr>
@@ -263,6 +695,35 @@ export default function ApprovePage() {
           </tbody>
         </table>
       </div>
+
+      {decisionFor && (
+        <DecisionDialog
+          title={decisionFor.status === "CANCELLED" ? "Buchung absagen" : "Buchung ablehnen"}
+          subtitle={(() => {
+            const row = rows.find((r) => r.id === decisionFor.rowId);
+            return row
+              ? `${historyNames.teams.get(row.team_id) ?? row.team_id} • ${fmtDE(row.start_at)}`
+              : undefined;
+          })()}
+          confirmText={decisionFor.status === "CANCELLED" ? "Absagen" : "Ablehnen"}
+          busy={busyId === decisionFor.rowId}
+          onConfirm={(d) => setStatus(decisionFor.rowId, decisionFor.status, d)}
+          onCancel={() => setDecisionFor(null)}
+        />
+      )}
+
+      {historyId && (
+        <BookingHistoryDrawer
+          bookingId={historyId}
+          title={
+            historyRow
+              ? `${historyNames.teams.get(historyRow.team_id) ?? historyRow.team_id} • ${fmtDE(historyRow.start_at)}`
+              : undefined
+          }
+          names={historyNames}
+          onClose={() => setHistoryId(null)}
+        />
+      )}
     </div>
   );
 }
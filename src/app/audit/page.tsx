@@ -0,0 +1,204 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { supabase } from "@/lib/supabaseClient";
+import { AUDIT_ACTION_LABELS, AUDIT_SELECT, AuditAction, AuditEntry, auditSnapshot, auditValueText } from "@/lib/audit";
+import BookingHistoryDrawer, { AuditEntryItem } from "@/components/BookingHistoryDrawer";
+import { addDaysYmd, berlinDayRange, berlinDayStart, berlinYmd } from "@/lib/berlinTime";
+
+type Profile = { id: string; role: string | null };
+type Pitch = { id: string; name: string };
+type Team = { id: string; name: string; age_u: number };
+
+const PAGE_SIZE = 200;
+
+function ymdDaysAgo(days: number) {
+  return addDaysYmd(berlinYmd(new Date()), -days);
+}
+
+export default function AuditPage() {
+  const [sessionChecked, setSessionChecked] = useState(false);
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [pitches, setPitches] = useState<Pitch[]>([]);
+  const [teams, setTeams] = useState<Team[]>([]);
+
+  // Filter
+  const [from, setFrom] = useState(ymdDaysAgo(30));
+  const [to, setTo] = useState("");
+  const [action, setAction] = useState<AuditAction | "">("");
+  const [teamId, setTeamId] = useState("");
+  const [actor, setActor] = useState("");
+  const [text, setText] = useState("");
+
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [historyId, setHistoryId] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isAdmin = useMemo(() => (profile?.role || "TRAINER").toUpperCase() === "ADMIN", [profile]);
+
+  useEffect(() => {
+    (async () => {
+      const { data } = await supabase.auth.getSession();
+      const session = data.session;
+      if (!session) {
+        window.location.href = "/login";
+        return;
+      }
+
+      const { data: prof } = await supabase.from("profiles").select("id,role").eq("id", session.user.id).maybeSingle();
+      setProfile((prof ?? null) as Profile | null);
+      setSessionChecked(true);
+    })();
+  }, []);
+
+  const names = useMemo(
+    () => ({
+      pitches: new Map(pitches.map((p) => [p.id, p.name])),
+      teams: new Map(teams.map((t) => [t.id, `${t.name} (U${t.age_u})`])),
+    }),
+    [pitches, teams]
+  );
+
+  async function search() {
+    setError(null);
+    setBusy(true);
+
+    let q = supabase.from("booking_audit").select(AUDIT_SELECT).order("at", { ascending: false }).limit(PAGE_SIZE);
+    const fromStart = from ? berlinDayStart(from) : null;
+    const toEnd = to ? berlinDayRange(to)?.end : null;
+    if (fromStart) q = q.gte("at", fromStart.toISOString());
+    if (toEnd) q = q.lt("at", toEnd.toISOString());
+    if (action) q = q.eq("action", action);
+    if (teamId) q = q.or(`new_row->>team_id.eq.${teamId},old_row->>team_id.eq.${teamId}`);
+    if (actor.trim()) q = q.ilike("actor_name", `%${actor.trim()}%`);
+    if (text.trim()) {
+      // Buchungs-ID (exakt) oder Text im Grund
+      const t = text.trim();
+      q = /^[0-9a-f-]{36}$/i.test(t) ? q.eq("booking_id", t) : q.ilike("reason", `%${t}%`);
+    }
+
+    const { data, error } = await q;
+    if (error) setError(error.message);
+    else setEntries((data ?? []) as AuditEntry[]);
+    setBusy(false);
+  }
+
+  useEffect(() => {
+    if (!sessionChecked || !isAdmin) return;
+    (async () => {
+      const [p, t] = await Promise.all([
+        supabase.from("pitches").select("id,name").order("name"),
+        supabase.from("teams").select("id,name,age_u").order("age_u").order("name"),
+      ]);
+      if (p.error) return setError(p.error.message);
+      if (t.error) return setError(t.error.message);
+      setPitches((p.data ?? []) as Pitch[]);
+      setTeams((t.data ?? []) as Team[]);
+      await search();
+    })();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [sessionChecked, isAdmin]);
+
+  if (!sessionChecked) return null;
+
+  if (!isAdmin) {
+    return (
+      <div style={{ maxWidth: 720, margin: "24px auto", padding: 16 }}>
+        <p>Nur für Admins.</p>
+        <Link href="/calendar">← Kalender</Link>
+      </div>
+    );
+  }
+
+  return (
+    <div style={{ maxWidth: 1200, margin: "24px auto", padding: 16 }}>
+      <div className="card" style={{ display: "flex", justifyContent: "space-between", gap: 12, alignItems: "center" }}>
+        <div>
+          <div style={{ fontSize: 18, fontWeight: 800 }}>Protokoll</div>
+          <div style={{ opacity: 0.8, fontSize: 13 }}>Alle Änderungen an Buchungen: wer, wann, was, warum</div>
+        </div>
+        <Link href="/calendar" style={{ padding: "8px 10px", borderRadius: 10, border: "1px solid #273243" }}>
+          ← Kalender
+        </Link>
+      </div>
+
+      <form
+        className="card"
+        onSubmit={(e) => {
+          e.preventDefault();
+          search();
+        }}
+        style={{ marginTop: 12, display: "flex", gap: 10, flexWrap: "wrap", alignItems: "end" }}
+      >
+        <label>
+          Von
+          <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+        </label>
+        <label>
+          Bis
+          <input type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+        </label>
+        <label>
+          Aktion
+          <select value={action} onChange={(e) => setAction(e.target.value as AuditAction | "")}>
+            <option value="">alle</option>
+            {(Object.keys(AUDIT_ACTION_LABELS) as AuditAction[]).map((a) => (
+              <option key={a} value={a}>
+                {AUDIT_ACTION_LABELS[a]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          Team
+          <select value={teamId} onChange={(e) => setTeamId(e.target.value)}>
+            <option value="">alle</option>
+            {teams.map((t) => (
+              <option key={t.id} value={t.id}>
+                {t.name} (U{t.age_u})
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          Wer
+          <input value={actor} onChange={(e) => setActor(e.target.value)} placeholder="Name" />
+        </label>
+        <label>
+          Grund / Buchungs-ID
+          <input value={text} onChange={(e) => setText(e.target.value)} />
+        </label>
+        <button type="submit" disabled={busy}>
+          Suchen
+        </button>
+      </form>
+
+      {error && <p style={{ color: "crimson", marginTop: 12 }}>{error}</p>}
+
+      <div className="card" style={{ marginTop: 12, display: "grid", gap: 10 }}>
+        <div style={{ opacity: 0.8, fontSize: 13 }}>
+          {entries.length} Einträge{entries.length === PAGE_SIZE ? ` (nur die neuesten ${PAGE_SIZE})` : ""}
+        </div>
+        {entries.map((e) => {
+          const snap = auditSnapshot(e);
+          return (
+            <div key={e.id} style={{ display: "grid", gap: 4 }}>
+              <div style={{ display: "flex", gap: 10, alignItems: "center", justifyContent: "space-between" }}>
+                <div style={{ fontWeight: 700 }}>
+                  {auditValueText("team_id", snap.team_id, names)} • {auditValueText("pitch_id", snap.pitch_id, names)} •{" "}
+                  {auditValueText("start_at", snap.start_at, names)}
+                </div>
+                <button onClick={() => setHistoryId(e.booking_id)}>Verlauf</button>
+              </div>
+              <AuditEntryItem entry={e} names={names} />
+            </div>
+          );
+        })}
+      </div>
+
+      {historyId && <BookingHistoryDrawer bookingId={historyId} names={names} onClose={() => setHistoryId(null)} />}
+    </div>
+  );
+}
@@ -3,6 +3,28 @@
 import { useEffect, useMemo, useRef, useState } from "react";
 import Link from "next/link";
 import { supabase } from "@/lib/supabaseClient";
+import {
+  allowedPitchesForAge as allowedPitchesForAgeRule,
+  availablePitches,
+  isBlockingStatus,
+  isPitchSegment,
+  RuleBooking,
+  RuleClosure,
+  toULabel,
+} from "@/lib/bookingRules";
+import { loadClosures } from "@/lib/closures";
+import { withAuditReason } from "@/lib/audit";
+import BfvSyncPanel from "@/components/BfvSyncPanel";
+import { berlinDayRange, berlinYmd, formatBerlinDate, formatBerlinTime } from "@/lib/berlinTime";
+import {
+  ageSourceFromEnv,
+  BfvBookingMeta,
+  bfvBookingMeta,
+  BfvGameJson,
+  BfvGamesResponse,
+  resolveBfvAgeU,
+  resolveLocalTeamId,
+} from "@/lib/bfvGame";
 
 type Profile = {
   id: string;
@@ -15,10 +37,12 @@ type Pitch = {
   id: string;
   name: string;
   type: "GROSSFELD" | "KOMPAKT";
-  // optional: some queries fetch this from DB
+  // Einheiten (Großfeld 4 Viertel, Kompakt 2 Hälften) – siehe bookingRules
   capacity_units?: number | null;
+  venue_id?: string | null;
 };
-type Team = { id: string; name: string; age_u: number };
+type Venue = { id: string; name: string };
+type Team = { id: string; name: string; age_u: number; pitch_units?: number | null };
 
 type BfvClub = { id: string; name: string };
 type BfvTeam = {
@@ -30,7 +54,7 @@ type BfvTeam = {
   home_only: boolean | null;
 };
 
-type BookingTeam = { age_u: number | null; name?: string | null };
+type BookingTeam = { age_u: number | null; name?: string | null; pitch_units?: number | null };
 
 type Booking = {
   id: string;
@@ -40,7 +64,11 @@ type Booking = {
   note: string | null;
   team_id: string;
   pitch_id: string;
+  segment?: string | null;
   created_by?: string | null;
+  source?: BfvBookingMeta["source"] | null;
+  external_uid?: string | null;
+  force_overlap?: boolean | null;
   // joined from teams via FK (optional, depending on select)
   // Supabase relations can come back as object OR array depending on how the
   // relationship is defined in PostgREST. We support both.
@@ -54,6 +82,7 @@ type IcsGame = {
   end: Date;
   location?: string | null;
   isHome?: boolean | null; // true/false/unknown
+  venueId?: string | null; // Anlage laut LOCATION (venues), null = auswärts/unbekannt
 };
 
 type GameRow = IcsGame & {
@@ -75,214 +104,34 @@ function bookingTeamAgeU(b: Booking): number | null {
   return obj && typeof (obj as any).age_u === "number" ? (obj as any).age_u : null;
 }
 
-function pad(n: number) {
-  return String(n).padStart(2, "0");
+function bookingTeamUnits(b: Booking): number | null {
+  const obj = Array.isArray(b.team) ? b.team[0] : b.team;
+  return typeof obj?.pitch_units === "number" ? obj.pitch_units : null;
 }
 
-// Supabase returns timestamptz fields as ISO strings by default.
-// For date arithmetic/comparisons we convert them to Date objects.
-function toDate(iso: string): Date {
-  // Be tolerant if we ever get a non-string at runtime.
-  const s = typeof iso === "string" ? iso : String(iso);
-  return new Date(s);
-}
-function toYMDLocal(d: Date) {
-  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
-}
-function fmtDateDE(d: Date) {
-  return d.toLocaleDateString("de-DE");
-}
-function fmtTimeDE(d: Date) {
-  return d.toLocaleTimeString("de-DE", { hour: "2-digit", minute: "2-digit" });
-}
-
-
-function normalizeTeamName(name: string) {
-  return (name || "")
-    .toLowerCase()
-    .replace(/\s+/g, " ")
-    .replace(/\./g, "")
-    .replace(/\s*-\s*/g, "-")
-    .trim();
-}
-
-function toULabel(ageU: number | null | undefined): number | null {
-  return typeof ageU === "number" ? ageU + 1 : null;
-}
-
-
-function unfoldIcsLines(raw: string) {
-  const lines = raw.replace(/\r\n/g, "\n").split("\n");
-  const out: string[] = [];
-  for (const line of lines) {
-    if (/^[ \t]/.test(line) && out.length) out[out.length - 1] += line.trimStart();
-    else out.push(line);
-  }
-  return out;
-}
-
-function parseIcs(icsText: string): IcsGame[] {
-  const lines = unfoldIcsLines(icsText);
-
-  const games: IcsGame[] = [];
-  let inEvent = false;
-
-  let uid = "";
-  let summary = "";
-  let location = "";
-  let dtStart: Date | null = null;
-  let dtEnd: Date | null = null;
-
-  const parseDt = (v: string) => {
-    const m = v.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(Z)?$/);
-    if (!m) return null;
-    const [_, Y, Mo, D, H, Mi, S, z] = m;
-    if (z) return new Date(Date.UTC(+Y, +Mo - 1, +D, +H, +Mi, +S));
-    return new Date(+Y, +Mo - 1, +D, +H, +Mi, +S);
-  };
-
-  for (const line of lines) {
-    if (line.startsWith("BEGIN:VEVENT")) {
-      inEvent = true;
-      uid = "";
-      summary = "";
-      location = "";
-      dtStart = null;
-      dtEnd = null;
-      continue;
-    }
-    if (line.startsWith("END:VEVENT")) {
-      if (inEvent && uid && summary && dtStart && dtEnd) {
-        // BFV liefert teils "SPIELFREI"-Einträge. Diese sollen nicht in der Planung auftauchen.
-        const sum = summary.toLowerCase();
-        if (!sum.includes("spielfrei")) {
-          games.push({
-            uid,
-            summary,
-            start: dtStart,
-            end: dtEnd,
-            location: location || null,
-            isHome: null,
-          });
-        }
-      }
-      inEvent = false;
-      continue;
-    }
-    if (!inEvent) continue;
-
-    if (line.startsWith("UID:")) uid = line.slice(4).trim();
-    else if (line.startsWith("SUMMARY:")) summary = line.slice(8).trim();
-    else if (line.startsWith("LOCATION:")) location = line.slice(9).trim();
-    else if (line.startsWith("DTSTART")) {
-      const v = line.split(":").slice(1).join(":").trim();
-      dtStart = parseDt(v);
-    } else if (line.startsWith("DTEND")) {
-      const v = line.split(":").slice(1).join(":").trim();
-      dtEnd = parseDt(v);
-    }
-  }
-
-  return games;
-}
-
-/** Normalisiert für robustes "contains"-Matching (umlaute, sonderzeichen, mehrfach-spaces). */
-function normalizeForMatch(s: string) {
-  return (s || "")
-    .toLowerCase()
-    .normalize("NFKD")
-    .replace(/[\u0300-\u036f]/g, "")
-    .replace(/ä/g, "ae")
-    .replace(/ö/g, "oe")
-    .replace(/ü/g, "ue")
-    .replace(/ß/g, "ss")
-    .replace(/[^a-z0-9]+/g, " ")
-    .replace(/\s+/g, " ")
-    .trim();
-}
-
-function isHomeLocation(loc?: string | null): boolean {
-  // BFV: "Heimspiel" im Kontext dieser App = Spiel findet an der Feldbergstraße statt
-  const n = normalizeForMatch(loc ?? "");
-  return n.includes("feldbergstr"); // match Feldbergstr, Feldbergstraße, Feldbergstrasse, Feldbergstr.
-}
-
-
-const STOPWORDS = new Set([
-  "fc",
-  "tsv",
-  "sv",
-  "sc",
-  "sg",
-  "jfg",
-  "ev",
-  "e",
-  "v",
-  "muenchen",
-  "munchen",
-  "muench",
-  "m",
-  "ii",
-  "iii",
-  "iv",
-  "i",
-  "u",
-  "junioren",
-  "juniorinnen",
-]);
-
-function buildMatchTokens(...names: string[]) {
-  const tokens: string[] = [];
-  for (const n of names) {
-    const norm = normalizeForMatch(n);
-    for (const w of norm.split(" ")) {
-      if (!w) continue;
-      if (STOPWORDS.has(w)) continue;
-      if (/^u\d{1,2}$/.test(w)) continue;
-      if (w.length < 3) continue;
-      tokens.push(w);
-    }
-  }
-  return Array.from(new Set(tokens));
-}
-
-function splitHomeAway(summary: string): { left: string; right: string } | null {
-  const teamPart = summary.split(",")[0] || summary;
-
-  if (teamPart.includes(" - ")) {
-    const [l, r] = teamPart.split(" - ");
-    if (l && r) return { left: l.trim(), right: r.trim() };
-  }
-  if (teamPart.includes(" – ")) {
-    const [l, r] = teamPart.split(" – ");
-    if (l && r) return { left: l.trim(), right: r.trim() };
-  }
-
-  const m = teamPart.match(/^(.*?)[\s]*[-–][\s]*(.*)$/);
-  if (m?.[1] && m?.[2]) return { left: m[1].trim(), right: m[2].trim() };
-
-  return null;
-}
-
-function findBfvUid(note: string | null) {
-  if (!note) return null;
-  const m = note.match(/\[BFV_UID:([^\]]+)\]/i);
-  return m ? m[1] : null;
-}
-
-async function mapLimit<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
-  const results: R[] = [];
-  let idx = 0;
-
-  const workers = Array.from({ length: Math.max(1, limit) }, async () => {
-    while (idx < items.length) {
-      const i = idx++;
-      results[i] = await fn(items[i]);
-    }
+// Anzeige und Tageszuordnung immer in Vereinszeit (Europe/Berlin), unabhängig vom Browser
+const fmtDateDE = formatBerlinDate;
+const fmtTimeDE = formatBerlinTime;
+
+/** Spiele mehrerer BFV-Mannschaften in einem Aufruf (Server liest + normalisiert die ICS, mit Cache). */
+async function fetchBfvGames(bfvTeamIds: string[], range?: { start: Date; end: Date }): Promise<BfvGamesResponse> {
+  const { data } = await supabase.auth.getSession();
+  const token = data.session?.access_token;
+  if (!token) throw new Error("Session fehlt – bitte neu einloggen.");
+
+  const res = await fetch("/api/bfv/games", {
+    method: "POST",
+    cache: "no-store",
+    headers: { authorization: `Bearer ${token}`, "content-type": "application/json" },
+    body: JSON.stringify({
+      bfvTeamIds,
+      from: range?.start.toISOString(),
+      to: range?.end.toISOString(),
+    }),
   });
-
-  await Promise.all(workers);
-  return results;
+  const json = await res.json().catch(() => null);
+  if (!res.ok) throw new Error(json?.error || `Spiele konnten nicht geladen werden (${res.status}).`);
+  return json as BfvGamesResponse;
 }
 
 export default function BfvPage() {
@@ -295,48 +144,23 @@ export default function BfvPage() {
   const [bfvTeams, setBfvTeams] = useState<BfvTeam[]>([]);
 
   const [pitches, setPitches] = useState<Pitch[]>([]);
+  const [closuresByPitch, setClosuresByPitch] = useState<Map<string, RuleClosure[]>>(new Map());
+  const [venues, setVenues] = useState<Venue[]>([]);
   const [teams, setTeams] = useState<Team[]>([]);
   const [bookings, setBookings] = useState<Booking[]>([]);
 
   // Altersquelle (nur eine nutzen, um Logik stabil zu halten)
   // Default: "teams" (dort ist age_u laut dir vollständig gepflegt)
-  const AGE_SOURCE: "teams" | "bfv_teams" =
-    process.env.NEXT_PUBLIC_AGE_SOURCE === "bfv_teams" ? "bfv_teams" : "teams";
+  const AGE_SOURCE = ageSourceFromEnv();
 
-  const ageMapTeams = useMemo(() => {
-    const m = new Map<string, number | null>();
-    for (const t of teams) {
-      m.set(normalizeTeamName(t.name), typeof t.age_u === "number" ? t.age_u : null);
-    }
-    return m;
-  }, [teams]);
-
-  const ageMapBfv = useMemo(() => {
-    const m = new Map<string, number | null>();
-    for (const t of bfvTeams) {
-      m.set(normalizeTeamName(t.name), typeof t.age_u === "number" ? t.age_u : null);
-    }
-    return m;
-  }, [bfvTeams]);
-
-  function resolveAgeU(team: BfvTeam): { ageU: number | null; source: "teams" | "bfv_teams" | "none" } {
-    const key = normalizeTeamName(team.name);
-    if (AGE_SOURCE === "teams") {
-      const v = ageMapTeams.get(key);
-      return typeof v === "number" ? { ageU: v, source: "teams" } : { ageU: null, source: "none" };
-    }
-    const v = ageMapBfv.get(key);
-    return typeof v === "number" ? { ageU: v, source: "bfv_teams" } : { ageU: null, source: "none" };
+  function resolveAgeU(team: BfvTeam) {
+    return resolveBfvAgeU(team, AGE_SOURCE === "teams" ? teams : bfvTeams, AGE_SOURCE);
   }
 
   const missingAgeCount = useMemo(() => {
-    let c = 0;
-    for (const t of bfvTeams) {
-      const r = resolveAgeU(t);
-      if (r.ageU == null) c++;
-    }
-    return c;
-  }, [bfvTeams, ageMapTeams, ageMapBfv]);
+    const candidates = AGE_SOURCE === "teams" ? teams : bfvTeams;
+    return bfvTeams.filter((t) => resolveBfvAgeU(t, candidates, AGE_SOURCE).ageU == null).length;
+  }, [bfvTeams, teams, AGE_SOURCE]);
 
 
   const [selectedClubId, setSelectedClubId] = useState<string>("");
@@ -377,6 +201,7 @@ export default function BfvPage() {
 
   const clubsById = useMemo(() => new Map(clubs.map((c) => [c.id, c.name])), [clubs]);
   const pitchesById = useMemo(() => new Map(pitches.map((p) => [p.id, p])), [pitches]);
+  const venueNameById = useMemo(() => new Map(venues.map((v) => [v.id, v.name])), [venues]);
 
   // ---------- Session/Profile ----------
   useEffect(() => {
@@ -413,22 +238,25 @@ export default function BfvPage() {
     (async () => {
       setError(null);
 
-      const [clubsRes, teamsRes, pitchesRes, localTeamsRes] = await Promise.all([
+      const [clubsRes, teamsRes, pitchesRes, localTeamsRes, venuesRes] = await Promise.all([
         supabase.from("bfv_clubs").select("id,name").order("name"),
         supabase.from("bfv_teams").select("id,club_id,name,age_u,ics_url,home_only").order("name"),
-        supabase.from("pitches").select("id,name,type").order("name"),
-        supabase.from("teams").select("id,name,age_u").order("age_u").order("name"),
+        supabase.from("pitches").select("id,name,type,capacity_units,venue_id").order("name"),
+        supabase.from("teams").select("id,name,age_u,pitch_units").order("age_u").order("name"),
+        supabase.from("venues").select("id,name").order("name"),
       ]);
 
       if (clubsRes.error) return setError(clubsRes.error.message);
       if (teamsRes.error) return setError(teamsRes.error.message);
       if (pitchesRes.error) return setError(pitchesRes.error.message);
       if (localTeamsRes.error) return setError(localTeamsRes.error.message);
+      if (venuesRes.error) return setError(venuesRes.error.message);
 
       setClubs((clubsRes.data ?? []) as BfvClub[]);
       setBfvTeams((teamsRes.data ?? []) as BfvTeam[]);
       setPitches((pitchesRes.data ?? []) as Pitch[]);
       setTeams((localTeamsRes.data ?? []) as Team[]);
+      setVenues((venuesRes.data ?? []) as Venue[]);
 
       const firstClub = (clubsRes.data ?? [])[0] as BfvClub | undefined;
       if (firstClub?.id) {
@@ -492,15 +320,15 @@ export default function BfvPage() {
   }, [isDayPlanning]);
 
   // ---------- Bookings fetch + bookedMap rebuild ----------
-  const BLOCKING_STATUSES = useMemo(() => new Set(["REQUESTED", "APPROVED"]), []);
-
   async function loadBookingsForRange(rangeStart: Date, rangeEnd: Date) {
     const startISO = rangeStart.toISOString();
     const endISO = rangeEnd.toISOString();
 
     const { data, error } = await supabase
       .from("bookings")
-      .select("id,start_at,end_at,status,note,team_id,pitch_id,created_by,team:team_id(age_u,name)")
+      .select(
+        "id,start_at,end_at,status,note,team_id,pitch_id,segment,created_by,source,external_uid,force_overlap,team:team_id(age_u,name,pitch_units)"
+      )
       .gte("start_at", startISO)
       .lt("end_at", endISO);
 
@@ -508,22 +336,23 @@ export default function BfvPage() {
 
     const list = (data ?? []) as Booking[];
     setBookings(list);
+    // Platzsperrungen (externe Kalender) blockieren wie Buchungen
+    setClosuresByPitch(await loadClosures(supabase, rangeStart, rangeEnd));
 
     const map: Record<string, string> = {};
     const pitchMap: Record<string, string> = {};
     const forcedMap: Record<string, boolean> = {};
 
     for (const b of list) {
-      const uid = findBfvUid(b.note);
+      const uid = b.source === "BFV" ? b.external_uid : null;
       if (!uid) continue;
 
-      const st = String(b.status || "").toUpperCase();
       // Nur REQUESTED/APPROVED als "gebucht" zählen
-      if (!BLOCKING_STATUSES.has(st)) continue;
+      if (!isBlockingStatus(b.status)) continue;
 
       map[uid] = b.id;
       pitchMap[uid] = b.pitch_id;
-      forcedMap[uid] = Boolean((b as any).force_overlap) || String(b.note || "").includes("[FORCE_OVERLAP:true]");
+      forcedMap[uid] = Boolean(b.force_overlap);
     }
 
     setBookedMap(map);
@@ -535,156 +364,92 @@ export default function BfvPage() {
 
   // ---------- Local team mapping ----------
   function resolveLocalTeamIdFor(bfvTeam: { age_u: number | null; name: string }) {
-    const targetAge = bfvTeam.age_u ?? null;
-
-    if (targetAge != null) {
-      const best = teams.find((t) => t.age_u === targetAge);
-      if (best?.id) return best.id;
-    }
-
-    const bfvName = (bfvTeam.name || "").toLowerCase();
-    const byName = teams.find((t) => (t.name || "").toLowerCase().includes(bfvName));
-    return byName?.id ?? null;
+    return resolveLocalTeamId(teams, bfvTeam);
   }
 
   // ---------- Availability ----------
-  function overlaps(aStart: Date, aEnd: Date, bStart: Date, bEnd: Date) {
-    return aStart < bEnd && bStart < aEnd;
-  }
+  // Regeln liegen in src/lib/bookingRules.ts (gleiche Prüfung wie /api/bookings/validate)
+  const ruleBookings = useMemo<RuleBooking[]>(
+    () =>
+      bookings.map((b) => ({
+        id: b.id,
+        pitch_id: b.pitch_id,
+        start_at: b.start_at,
+        end_at: b.end_at,
+        status: b.status,
+        segment: isPitchSegment(b.segment) ? b.segment : null,
+        age_u: bookingTeamAgeU(b),
+        units: bookingTeamUnits(b),
+      })),
+    [bookings]
+  );
+
+  const rulePitches = useMemo(
+    () => pitches.map((p) => ({ ...p, closures: closuresByPitch.get(p.id) ?? [] })),
+    [pitches, closuresByPitch]
+  );
 
   function allowedPitchesForAge(ageU: number | null) {
-    // WICHTIG: age_u ist in unserem Datenmodell um 1 verschoben (U9 -> 8).
-    // Deshalb immer mit dem "U-Label" arbeiten.
-    const uLabel = toULabel(ageU);
-
-    // Grob-Filter für die UI:
-    // - U14+ (oder unbekannt): kein Kompaktfeld
-    // - bis inkl. U13: alle Plätze anzeigen
-    //   (die Kombinations-/Exklusivregeln werden in isAvailable geprüft)
-    if (uLabel == null || uLabel >= 14) return pitches.filter((p) => p.type !== "KOMPAKT");
-    return pitches;
+    return allowedPitchesForAgeRule(pitches, ageU);
   }
 
-
   function getAvailablePitches(game: GameRow) {
-    const candidates = allowedPitchesForAge(game.bfvAgeU);
-
-    const gStart = game.start;
-    const gEnd = game.end;
-
-    const gameULabel = toULabel(game.bfvAgeU);
-    const isUnknown = gameULabel == null;
-    const isU12orYounger = gameULabel != null ? gameULabel <= 12 : false;
-    const isU13 = gameULabel === 13;
-    const isU14Plus = gameULabel != null ? gameULabel >= 14 : false;
-
-    const blockingBookings = bookings.filter(
-      (b) =>
-        BLOCKING_STATUSES.has(String(b.status)) &&
-        toDate(b.start_at) < gEnd &&
-        toDate(b.end_at) > gStart
+    const localTeamId = resolveLocalTeamIdFor({ age_u: game.bfvAgeU, name: game.bfvTeamName });
+    const units = teams.find((t) => t.id === localTeamId)?.pitch_units ?? null;
+    return availablePitches(
+      { start_at: game.start.toISOString(), end_at: game.end.toISOString(), age_u: game.bfvAgeU, units },
+      // Heimspiel: nur Plätze der Anlage laut BFV; auswärts/unbekannt entscheidet der Admin
+      game.venueId ? rulePitches.filter((p) => p.venue_id === game.venueId) : rulePitches,
+      ruleBookings
     );
+  }
 
-    function bookingULabel(b: Booking): number | null {
-      return toULabel(bookingTeamAgeU(b));
-    }
-
-    function overlapsForPitch(pitchId: string) {
-      return blockingBookings.filter((b) => b.pitch_id === pitchId);
-    }
-
-    function isAvailable(p: Pitch) {
-      const ovs = overlapsForPitch(p.id);
-
-      const overlapsAnyU13Plus = ovs.some((b) => {
-        const u = bookingULabel(b);
-        return u == null ? true : u >= 13;
-      });
-
-      // -----------------
-      // KOMPAKTFELD Regeln
-      // -----------------
-      if (p.type === "KOMPAKT") {
-        // U14+ oder unbekannt: darf nicht aufs Kompaktfeld (außer Force-Option im UI)
-        if (isUnknown || isU14Plus) return false;
-
-        // U13: darf Kompaktfeld, aber nur exklusiv (keine Kombination mit anderen)
-        if (isU13) return ovs.length === 0;
-
-        // <=U12: bis zu 2 parallele, aber nur mit <=U12
-        if (isU12orYounger) {
-          if (overlapsAnyU13Plus) return false; // keine Mischung <=U12 mit U13+
-          return ovs.length < 2;
-        }
-
-        return false;
-      }
 
-      // -----------------
-      // GROSSFELD / RASEN Regeln
-      // -----------------
-      // Ab U13 (inkl.) und unbekannt: exklusiv (keine weiteren überlappenden Buchungen)
-      if (isUnknown || isU13 || isU14Plus) {
-        return ovs.length === 0;
-      }
+  // Heimspiel = ICS-LOCATION passt zu einem Spielort (is_home/venue_id kommen vom Server, siehe src/lib/venues.ts)
+  function toGameRow(g: BfvGameJson, team: BfvTeam, clubName: string): GameRow {
+    const r = resolveAgeU(team);
+    return {
+      uid: g.uid,
+      summary: g.summary,
+      start: new Date(g.start_at),
+      end: new Date(g.end_at),
+      location: g.location || null,
+      isHome: g.is_home,
+      venueId: g.venue_id,
+      bfvTeamId: team.id,
+      bfvTeamName: team.name,
+      bfvClubId: team.club_id,
+      bfvClubName: clubName,
+      bfvAgeU: r.ageU,
+      bfvAgeSource: r.source,
+      icsUrl: team.ics_url ?? "",
+    };
+  }
 
-      // <=U12: bis zu 2 parallele, aber nur wenn auch die Overlaps <=U12 sind
-      if (isU12orYounger) {
-        if (overlapsAnyU13Plus) return false;
-        return ovs.length < 2;
+  function pitchDefaults(rows: GameRow[]) {
+    // Defaults: gebucht -> gebuchter Platz, sonst erster freier
+    const defaults: Record<string, string> = {};
+    for (const g of rows) {
+      const bookedPitch = bookedPitchMap[g.uid];
+      if (bookedPitch) {
+        defaults[g.uid] = bookedPitch;
+      } else {
+        const avail = getAvailablePitches(g);
+        if (avail[0]) defaults[g.uid] = avail[0].id;
       }
-
-      return ovs.length === 0;
     }
-
-    return candidates.filter(isAvailable);
-  }
-
-
-  // ---------- Home/Away marker ----------
-  function addHomeInfo(rawGames: IcsGame[], clubName: string, teamName: string) {
-    // Heimspiele (für diese App) = Spiele, deren ICS-LOCATION die Feldbergstraße enthält.
-    // Damit vermeiden wir falsche Heimspiel-Erkennung über Team-/Vereinsnamen.
-    // clubName/teamName bleiben als Parameter (falls wir das später erweitern wollen).
-    return rawGames.map((g) => {
-      // Heimspiel ausschließlich über LOCATION (Feldbergstraße) bestimmen.
-      // Wenn LOCATION fehlt, behandeln wir es als "nicht Heim", damit keine falschen Heimspiele entstehen.
-      const isHome = isHomeLocation(g.location);
-      return { ...g, isHome };
-    });
+    return defaults;
   }
 
 // ---------- Load games (single) ----------
   async function loadGamesSingle(team: BfvTeam, clubName: string) {
-    const url = team.ics_url;
-    if (!url) throw new Error("Für diese Mannschaft ist kein ICS-Link hinterlegt.");
+    if (!team.ics_url) throw new Error("Für diese Mannschaft ist kein ICS-Link hinterlegt.");
 
-    const res = await fetch(`/api/bfv/ics?url=${encodeURIComponent(url)}`, { cache: "no-store" });
-    if (!res.ok) {
-      const txt = await res.text().catch(() => "");
-      throw new Error(`ICS fetch failed (${res.status}): ${txt || "—"}`);
-    }
+    const { games: list, teams: feeds } = await fetchBfvGames([team.id]);
+    if (!feeds[0]?.ok) throw new Error(`Spielplan nicht lesbar: ${feeds[0]?.error || "—"}`);
 
-    const icsText = await res.text();
-    let parsed = parseIcs(icsText);
-    parsed = addHomeInfo(parsed, clubName, team.name);
-
-    // Filter (nur Feldbergstraße/Heimspiele): nur g.isHome === true
-    const filtered = homeOnly ? parsed.filter((g) => g.isHome === true) : parsed;
-
-    const rows: GameRow[] = filtered.map((g) => {
-      const r = resolveAgeU(team);
-      return {
-        ...g,
-        bfvTeamId: team.id,
-        bfvTeamName: team.name,
-        bfvClubId: team.club_id,
-        bfvClubName: clubName,
-        bfvAgeU: r.ageU,
-        bfvAgeSource: r.source,
-        icsUrl: url,
-      };
-    });
+    // Filter (nur Heimspiele auf unseren Anlagen)
+    const rows = list.filter((g) => !homeOnly || g.is_home).map((g) => toGameRow(g, team, clubName));
 
     // Range bestimmen
     let min = rows[0]?.start;
@@ -699,22 +464,7 @@ export default function BfvPage() {
 
     await loadBookingsForRange(rangeStart, rangeEnd);
 
-    // Defaults: gebucht -> gebuchter Platz, sonst erster freier
-    const defaults: Record<string, string> = {};
-    for (const g of rows) {
-      const bookedPitch = bookedPitchMap[g.uid];
-      if (bookedPitch) {
-        defaults[g.uid] = bookedPitch;
-      } else {
-        const avail = getAvailablePitches(g);
-        if (avail[0]) defaults[g.uid] = avail[0].id;
-      }
-    }
-    setSelectedPitchByUid(defaults);
-
-    // Sort by start
-    rows.sort((a, b) => a.start.getTime() - b.start.getTime());
-
+    setSelectedPitchByUid(pitchDefaults(rows));
     setGames(rows);
   }
 
@@ -727,57 +477,28 @@ export default function BfvPage() {
       throw new Error("Es gibt keine Mannschaften mit ICS-Link (bfv_teams.ics_url).");
     }
 
-    const startDayLocal = new Date(`${dayStr}T00:00:00`);
-    const endDayLocal = new Date(startDayLocal);
-    endDayLocal.setDate(endDayLocal.getDate() + 1);
+    const dayRange = berlinDayRange(dayStr);
+    if (!dayRange) throw new Error("Ungültiges Datum.");
 
-    setRange({ start: startDayLocal, end: endDayLocal });
+    setRange(dayRange);
 
     // Bookings des Tages laden (damit Verfügbarkeiten & bookedMap stimmen)
-    await loadBookingsForRange(startDayLocal, endDayLocal);
-
-    const results = await mapLimit(teamsWithIcs, 4, async (t) => {
-      const clubName = clubsById.get(t.club_id) ?? t.club_id;
-      const url = t.ics_url!;
-      const res = await fetch(`/api/bfv/ics?url=${encodeURIComponent(url)}`, { cache: "no-store" });
-      if (!res.ok) return [] as GameRow[];
-
-      const icsText = await res.text().catch(() => "");
-      let parsed = parseIcs(icsText);
-      parsed = addHomeInfo(parsed, clubName, t.name);
-
-      const filteredHome = homeOnly ? parsed.filter((g) => g.isHome !== false) : parsed;
-      const dayGames = filteredHome.filter((g) => toYMDLocal(g.start) === dayStr);
-
-      return dayGames.map((g) => {
-        const r = resolveAgeU(t);
-        return {
-          ...g,
-          bfvTeamId: t.id,
-          bfvTeamName: t.name,
-          bfvClubId: t.club_id,
-          bfvClubName: clubName,
-          bfvAgeU: r.ageU,
-          bfvAgeSource: r.source,
-          icsUrl: url,
-        };
-      });
-    });
+    await loadBookingsForRange(dayRange.start, dayRange.end);
 
-    const rows = results.flat();
+    const { games: list, teams: feeds } = await fetchBfvGames(
+      teamsWithIcs.map((t) => t.id),
+      dayRange
+    );
+    const teamById = new Map(teamsWithIcs.map((t) => [t.id, t]));
 
-    // Defaults: gebucht -> gebuchter Platz, sonst erster freier
-    const defaults: Record<string, string> = {};
-    for (const g of rows) {
-      const bookedPitch = bookedPitchMap[g.uid];
-      if (bookedPitch) {
-        defaults[g.uid] = bookedPitch;
-      } else {
-        const avail = getAvailablePitches(g);
-        if (avail[0]) defaults[g.uid] = avail[0].id;
-      }
-    }
-    setSelectedPitchByUid(defaults);
+    const rows = list
+      .filter((g) => (!homeOnly || g.is_home) && berlinYmd(new Date(g.start_at)) === dayStr)
+      .map((g) => {
+        const t = teamById.get(g.bfv_team_id)!;
+        return toGameRow(g, t, clubsById.get(t.club_id) ?? t.club_id);
+      });
+
+    setSelectedPitchByUid(pitchDefaults(rows));
 
     rows.sort((a, b) => {
       const t = a.start.getTime() - b.start.getTime();
@@ -788,6 +509,9 @@ export default function BfvPage() {
     });
 
     setGames(rows);
+
+    const failed = feeds.filter((f) => !f.ok).map((f) => teamById.get(f.bfv_team_id)?.name ?? f.bfv_team_id);
+    if (failed.length) setError(`Spielplan nicht lesbar: ${failed.join(", ")}`);
   }
 
   // ---------- Main load ----------
@@ -862,20 +586,17 @@ export default function BfvPage() {
         );
       }
 
-      const noteBase = `[BFV] ${game.bfvClubName} – ${game.bfvTeamName}\n${game.summary}\n[BFV_TEAM_ID:${game.bfvTeamId}]\n[BFV_UID:${game.uid}]`;
-      const note = forceOverlap ? `${noteBase}\n[FORCE_OVERLAP:true]` : noteBase;
-
-      const insertRow: any = {
+      // Spieldaten als eigene Spalten (source/external_uid/...), note bleibt reiner Spieltext
+      const insertRow = {
         start_at: game.start.toISOString(),
         end_at: game.end.toISOString(),
         status: "APPROVED",
-        note,
+        note: game.summary,
         pitch_id: pitchId,
         team_id: localTeamId,
         created_by: uid,
+        ...bfvBookingMeta(game, forceOverlap),
       };
-      // Optional: erlaubt bewusstes Buchen trotz Überlappung (DB-Änderung erforderlich: force_overlap boolean)
-      if (forceOverlap) insertRow.force_overlap = true;
 
       const { data: ins, error: insErr } = await supabase
         .from("bookings")
@@ -921,7 +642,10 @@ export default function BfvPage() {
     setError(null);
 
     try {
-      const { error } = await supabase.from("bookings").delete().eq("id", bookingId);
+      const { error } = await withAuditReason(
+        supabase.from("bookings").delete().eq("id", bookingId),
+        "BFV-Planer: Spielbuchung zurückgenommen"
+      );
       if (error) throw error;
 
       if (range) await loadBookingsForRange(range.start, range.end);
@@ -1000,12 +724,20 @@ export default function BfvPage() {
             {isDayPlanning ? `Tagesplanung: ${dayPlanDate}` : "Einzelplanung"}
           </div>
         </div>
-        <Link
-          href="/calendar"
-          style={{ padding: "8px 12px", borderRadius: 12, border: "1px solid #273243", textDecoration: "none" }}
-        >
-          ← Kalender
-        </Link>
+        <div style={{ display: "flex", gap: 8 }}>
+          <Link
+            href="/bfv/reconcile"
+            style={{ padding: "8px 12px", borderRadius: 12, border: "1px solid #273243", textDecoration: "none" }}
+          >
+            Spielplan-Änderungen
+          </Link>
+          <Link
+            href="/calendar"
+            style={{ padding: "8px 12px", borderRadius: 12, border: "1px solid #273243", textDecoration: "none" }}
+          >
+            ← Kalender
+          </Link>
+        </div>
       </div>
 
       <div className="card" style={{ marginTop: 12, padding: 16 }}>
@@ -1062,7 +794,7 @@ export default function BfvPage() {
 
           <label style={{ display: "flex", gap: 10, alignItems: "center", paddingBottom: 6 }}>
             <input type="checkbox" checked={homeOnly} onChange={(e) => setHomeOnly(e.target.checked)} />
-            nur Feldbergstraße
+            nur Heimspiele
           </label>
 
           <button
@@ -1092,6 +824,8 @@ export default function BfvPage() {
         </div>
       </div>
 
+      <BfvSyncPanel onSynced={loadGames} />
+
       <div className="card" style={{ marginTop: 12, padding: 16 }}>
         <div style={{ overflowX: "auto" }}>
           <table style={{ width: "100%", borderCollapse: "collapse" }}>
@@ -1150,7 +884,11 @@ export default function BfvPage() {
                     <td style={{ padding: 10, borderBottom: "1px solid rgba(255,255,255,0.08)" }}>{g.summary}</td>
 
                     <td style={{ padding: 10, borderBottom: "1px solid rgba(255,255,255,0.08)" }}>
-                      {g.isHome === true ? "Ja" : g.isHome === false ? "Nein" : "?"}
+                      {g.isHome === true
+                        ? (venueNameById.get(g.venueId ?? "") ?? "Ja")
+                        : g.isHome === false
+                          ? "Nein"
+                          : "?"}
                     </td>
 
                     <td style={{ padding: 10, borderBottom: "1px solid rgba(255,255,255,0.08)", whiteSpace: "nowrap" }}>
@@ -1347,9 +1085,9 @@ background: "rgba(40, 160, 80, 0.25)",
 
         <div style={{ marginTop: 10, opacity: 0.75, fontSize: 13 }}>
           <div>
-            Hinweis: Wenn ein Spiel kollidiert, kommt ggf. ein Overlap-Fehler. In der UI gilt:
-            <b> U12 oder jünger</b> = bis zu <b>2</b> parallele Buchungen (nur mit U12/≤), <b>U13+</b> = exklusiv (und nur
-            Großfeld). <span style={{ opacity: 0.9 }}>Altersquelle: <b>{AGE_SOURCE}</b>{missingAgeCount ? ` (fehlend bei ${missingAgeCount} BFV-Mannschaften)` : ""}</span>.
+            Hinweis: Wenn ein Spiel kollidiert, kommt ggf. ein Overlap-Fehler. In der UI gilt: Plätze haben
+            Einheiten (Großfeld <b>4</b>, Kompakt <b>2</b>), <b>U12 oder jünger</b> belegt standardmäßig die Hälfte,
+            <b> U13+</b> den ganzen Platz (und U14+ nur Großfeld), sofern am Team nichts anderes hinterlegt ist. <span style={{ opacity: 0.9 }}>Altersquelle: <b>{AGE_SOURCE}</b>{missingAgeCount ? ` (fehlend bei ${missingAgeCount} BFV-Mannschaften)` : ""}</span>.
           </div>
           <div style={{ marginTop: 6 }}>
             In der UI blocken nur REQUESTED/APPROVED – wenn deine DB-Exclusion-Constraint aber noch REJECTED/CANCELLED blockt,
@@ -0,0 +1,293 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { supabase } from "@/lib/supabaseClient";
+import { isPitchSegment, SEGMENT_LABELS } from "@/lib/bookingRules";
+import { validateBooking, violationsText } from "@/lib/bookingValidation";
+import { decisionFields } from "@/lib/decisionReasons";
+import { withAuditReason } from "@/lib/audit";
+import { LeagueBooking, RECONCILE_LABELS, ReconcileKind } from "@/lib/bfvReconcile";
+import { formatBerlin, formatBerlinTime } from "@/lib/berlinTime";
+
+type Profile = { id: string; role: string | null };
+type Pitch = { id: string; name: string };
+type Team = { id: string; name: string; age_u: number };
+
+// FeedGame kommt als JSON (Datum als ISO-String)
+type Row = {
+  booking: LeagueBooking;
+  game: { uid: string; summary: string; location: string; start: string; end: string; cancelled: boolean } | null;
+  kind: ReconcileKind;
+};
+
+const KIND_COLORS: Record<ReconcileKind, string> = {
+  OK: "rgba(0,255,170,0.8)",
+  TIME_CHANGED: "rgba(250,204,21,0.95)",
+  NOW_AWAY: "rgba(251,146,60,0.95)",
+  MISSING: "crimson",
+  UNKNOWN: "rgba(255,255,255,0.6)",
+};
+
+function fmtRange(start: string, end: string) {
+  const day = formatBerlin(start, { weekday: "short", day: "2-digit", month: "2-digit", year: "2-digit" });
+  return `${day} ${formatBerlinTime(start)}–${formatBerlinTime(end)}`;
+}
+
+// Abgleich: gebuchte Ligaspiele vs. aktueller BFV-Spielplan
+export default function BfvReconcilePage() {
+  const [sessionChecked, setSessionChecked] = useState(false);
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [pitches, setPitches] = useState<Pitch[]>([]);
+  const [teams, setTeams] = useState<Team[]>([]);
+
+  const [rows, setRows] = useState<Row[]>([]);
+  const [feedErrors, setFeedErrors] = useState<{ bfv_team: string; message: string }[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [info, setInfo] = useState<string | null>(null);
+
+  const isAdmin = useMemo(() => (profile?.role || "TRAINER").toUpperCase() === "ADMIN", [profile]);
+
+  const pitchById = useMemo(() => new Map(pitches.map((p) => [p.id, p.name])), [pitches]);
+  const teamById = useMemo(() => new Map(teams.map((t) => [t.id, `${t.name} (U${t.age_u})`])), [teams]);
+
+  useEffect(() => {
+    (async () => {
+      const { data } = await supabase.auth.getSession();
+      const session = data.session;
+      if (!session) {
+        window.location.href = "/login";
+        return;
+      }
+
+      const { data: prof } = await supabase.from("profiles").select("id,role").eq("id", session.user.id).maybeSingle();
+      setProfile((prof ?? null) as Profile | null);
+      setSessionChecked(true);
+    })();
+  }, []);
+
+  async function loadRows() {
+    setError(null);
+    setLoading(true);
+    try {
+      const { data } = await supabase.auth.getSession();
+      const token = data.session?.access_token;
+      if (!token) throw new Error("Session fehlt – bitte neu einloggen.");
+
+      const res = await fetch("/api/bfv/reconcile", {
+        cache: "no-store",
+        headers: { authorization: `Bearer ${token}` },
+      });
+      const json = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(json?.error || `Abgleich fehlgeschlagen (${res.status}).`);
+
+      setRows((json?.rows ?? []) as Row[]);
+      setFeedErrors(json?.errors ?? []);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Abgleich fehlgeschlagen.");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    if (!sessionChecked || !isAdmin) return;
+    (async () => {
+      const [p, t] = await Promise.all([
+        supabase.from("pitches").select("id,name").order("name"),
+        supabase.from("teams").select("id,name,age_u").order("age_u").order("name"),
+      ]);
+      if (p.error) return setError(p.error.message);
+      if (t.error) return setError(t.error.message);
+      setPitches((p.data ?? []) as Pitch[]);
+      setTeams((t.data ?? []) as Team[]);
+      await loadRows();
+    })();
+  }, [sessionChecked, isAdmin]);
+
+  async function run(id: string, fn: () => Promise<void>, okText: string) {
+    setError(null);
+    setInfo(null);
+    setBusyId(id);
+    try {
+      await fn();
+      setInfo(okText);
+      setRows((prev) => prev.filter((r) => r.booking.id !== id));
+    } catch (e) {
+      console.error(e);
+      setError(e instanceof Error ? e.message : "Fehler beim Speichern.");
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  /** Neue BFV-Zeit auf die Buchung übernehmen (gleicher Platz, mit Regelprüfung). */
+  function applyTime(r: Row) {
+    const game = r.game;
+    if (!game) return;
+    const b = r.booking;
+
+    return run(
+      b.id,
+      async () => {
+        const check = await validateBooking({
+          id: b.id,
+          team_id: b.team_id,
+          pitch_id: b.pitch_id,
+          segment: isPitchSegment(b.segment) ? b.segment : null,
+          start_at: game.start,
+          end_at: game.end,
+        });
+        if (!check.ok) throw new Error(`Neue Zeit nicht buchbar: ${violationsText(check.violations)}`);
+
+        const { error } = await withAuditReason(
+          supabase.from("bookings").update({ start_at: game.start, end_at: game.end }).eq("id", b.id),
+          "BFV-Abgleich: Spiel verlegt"
+        );
+        if (error) throw error;
+      },
+      "Neue Zeit übernommen."
+    );
+  }
+
+  async function cancelBooking(r: Row) {
+    const { data } = await supabase.auth.getSession();
+    const userId = data.session?.user.id ?? null;
+    const comment =
+      r.kind === "NOW_AWAY"
+        ? "Spiel laut BFV nicht mehr auf unserer Anlage."
+        : r.kind === "MISSING"
+          ? "Spiel nicht mehr im BFV-Spielplan."
+          : null;
+
+    return run(
+      r.booking.id,
+      async () => {
+        const { error } = await withAuditReason(
+          supabase
+            .from("bookings")
+            .update({
+              status: "CANCELLED",
+              ...decisionFields("CANCELLED", { code: "BFV_CANCELLED", comment }, userId),
+            })
+            .eq("id", r.booking.id),
+          `BFV-Abgleich: ${RECONCILE_LABELS[r.kind]}`
+        );
+        if (error) throw error;
+      },
+      "Buchung abgesagt."
+    );
+  }
+
+  if (!sessionChecked) return null;
+
+  if (!isAdmin) {
+    return (
+      <div style={{ maxWidth: 720, margin: "24px auto", padding: 16 }}>
+        <p>Nur für Admins.</p>
+        <Link href="/calendar">← Kalender</Link>
+      </div>
+    );
+  }
+
+  return (
+    <div style={{ maxWidth: 1200, margin: "24px auto", padding: 16 }}>
+      <div className="card" style={{ display: "flex", justifyContent: "space-between", gap: 12, alignItems: "center" }}>
+        <div>
+          <div style={{ fontSize: 18, fontWeight: 800 }}>Spielplan-Änderungen</div>
+          <div style={{ opacity: 0.8, fontSize: 13 }}>
+            Gebuchte Ligaspiele, die vom aktuellen BFV-Spielplan abweichen (Zeit, Spielort, entfallen)
+          </div>
+        </div>
+        <div style={{ display: "flex", gap: 8 }}>
+          <button onClick={loadRows} disabled={loading}>
+            {loading ? "Prüfe…" : "Neu prüfen"}
+          </button>
+          <Link href="/bfv" style={{ padding: "8px 10px", borderRadius: 10, border: "1px solid #273243" }}>
+            ← BFV-Planer
+          </Link>
+        </div>
+      </div>
+
+      {error && <div style={{ color: "crimson", marginTop: 12, fontWeight: 600 }}>{error}</div>}
+      {info && <div style={{ color: "rgba(0,255,170,0.8)", marginTop: 12 }}>{info}</div>}
+
+      {feedErrors.length > 0 && (
+        <div className="card" style={{ marginTop: 12, fontSize: 13, color: "rgba(250,204,21,0.95)" }}>
+          {feedErrors.map((e, i) => (
+            <div key={i}>
+              Spielplan {e.bfv_team} nicht lesbar: {e.message}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="card" style={{ marginTop: 12, overflowX: "auto" }}>
+        {!loading && rows.length === 0 && !error && (
+          <div style={{ opacity: 0.8 }}>Alle gebuchten Ligaspiele stimmen mit dem BFV-Spielplan überein.</div>
+        )}
+        {rows.length > 0 && (
+          <table style={{ width: "100%", borderCollapse: "collapse" }}>
+            <thead>
+              <tr style={{ textAlign: "left" }}>
+                <th>Abweichung</th>
+                <th>Mannschaft</th>
+                <th>Gebucht</th>
+                <th>Laut BFV</th>
+                <th>Aktion</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((r) => {
+                const b = r.booking;
+                const pitchName = pitchById.get(b.pitch_id) ?? b.pitch_id;
+                const busy = busyId === b.id;
+                return (
+                  <tr key={b.id} style={{ borderTop: "1px solid rgba(255,255,255,0.08)", verticalAlign: "top" }}>
+                    <td style={{ color: KIND_COLORS[r.kind], fontWeight: 700 }}>{RECONCILE_LABELS[r.kind]}</td>
+                    <td>
+                      {teamById.get(b.team_id) ?? b.team_id}
+                      {r.game && <div style={{ opacity: 0.8, fontSize: 12 }}>{r.game.summary}</div>}
+                    </td>
+                    <td>
+                      {fmtRange(b.start_at, b.end_at)}
+                      <div style={{ opacity: 0.8, fontSize: 12 }}>
+                        {isPitchSegment(b.segment) ? `${pitchName} (${SEGMENT_LABELS[b.segment]})` : pitchName}
+                      </div>
+                    </td>
+                    <td>
+                      {r.game ? (
+                        <>
+                          {r.kind === "TIME_CHANGED" ? <b>{fmtRange(r.game.start, r.game.end)}</b> : fmtRange(r.game.start, r.game.end)}
+                          <div style={{ opacity: 0.8, fontSize: 12 }}>
+                            {r.game.cancelled ? "abgesagt" : r.game.location || "kein Spielort"}
+                          </div>
+                        </>
+                      ) : (
+                        <span style={{ opacity: 0.8 }}>–</span>
+                      )}
+                    </td>
+                    <td style={{ whiteSpace: "nowrap" }}>
+                      {r.kind === "TIME_CHANGED" && (
+                        <button onClick={() => applyTime(r)} disabled={busy} style={{ marginRight: 6 }}>
+                          BFV-Änderung übernehmen
+                        </button>
+                      )}
+                      {r.kind !== "UNKNOWN" && (
+                        <button onClick={() => cancelBooking(r)} disabled={busy}>
+                          Buchung absagen
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -4,7 +4,7 @@ import "./calendar.css";
 
 
 // All selectable statuses for the status filter UI
-const ALL_STATUSES = ["REQUESTED", "APPROVED", "REJECTED", "CANCELLED"] as const;
+const ALL_STATUSES = ["REQUESTED", "APPROVED", "REJECTED", "CANCELLED", "WAITLISTED"] as const;
 
 import { useEffect, useMemo, useRef, useState, Fragment } from "react";
 import Link from "next/link";
@@ -16,6 +16,17 @@ import interactionPlugin from "@fullcalendar/interaction";
 import { DateSelectArg } from "@fullcalendar/core";
 import deLocale from "@fullcalendar/core/locales/de";
 import { supabase } from "@/lib/supabaseClient";
+import { BookingStatus, isPitchSegment, SEGMENT_LABELS, segmentsForPitch } from "@/lib/bookingRules";
+import { decisionText, needsDecisionReason } from "@/lib/decisionReasons";
+import { BookingSource, bfvGameLabel } from "@/lib/bfvGame";
+import { addDaysYmd, berlinDayRange, berlinDayStart, berlinParts, berlinYmd } from "@/lib/berlinTime";
+import { closureLabel, loadPitchClosures, PitchClosure } from "@/lib/closures";
+import { loadOpeningHours } from "@/lib/ruleData";
+import { minutesToTime, OpeningWindow, timeGridBounds, windowsForDay } from "@/lib/openingHours";
+import { civilDusk } from "@/lib/solar";
+import { loadTrainerTeamIds } from "@/lib/trainerTeams";
+import FieldMap from "@/components/FieldMap";
+import NotificationsPanel from "@/components/NotificationsPanel";
 
 type Profile = {
   id: string;
@@ -24,11 +35,15 @@ type Profile = {
   active: boolean | null;
 };
 
-type Pitch = { id: string; name: string; type: "GROSSFELD" | "KOMPAKT" };
+type Pitch = {
+  id: string;
+  name: string;
+  type: "GROSSFELD" | "KOMPAKT";
+  capacity_units?: number | null;
+  has_floodlight?: boolean;
+};
 type Team = { id: string; name: string; age_u: number };
 
-type BookingStatus = "REQUESTED" | "APPROVED" | "REJECTED" | "CANCELLED";
-
 type PitchRef = { id: string; name: string; type: "GROSSFELD" | "KOMPAKT" };
 type TeamRef = { id: string; name: string };
 
@@ -40,6 +55,12 @@ type Booking = {
   note: string | null;
   pitch_id: string;
   team_id: string;
+  segment: string | null;
+  decision_code: string | null;
+  decision_comment: string | null;
+  source: BookingSource | null;
+  opponent: string | null;
+  competition: string | null;
   // embedded via select: pitches:pitch_id (...), teams:team_id (...)
   pitches: PitchRef | null;
   teams: TeamRef | null;
@@ -55,9 +76,6 @@ function bookingLabelLikeDashboard(b: any) {
   const cleanup = (raw: string) =>
     String(raw || "")
       .replace(/\\,/g, ",")
-      .replace(/\[(?:BFV_[^\]]+|BFVTEAM_ID:[^\]]+|BFV_UID:[^\]]+)\]/gi, "")
-      .replace(/\bBFV_UID:[^\s,\]]+/gi, "")
-      .replace(/\bBFVTEAM_ID:[^\s,\]]+/gi, "")
       .replace(/\\n/g, " ")
       .replace(/\s+/g, " ")
       .trim();
@@ -69,7 +87,7 @@ function bookingLabelLikeDashboard(b: any) {
   };
 
   const isTimeLine = (s: string) => /^\d{1,2}:\d{2}\s*[–-]\s*\d{1,2}:\d{2}$/.test(s.trim());
-  const isStatusLine = (s: string) => /^(REQUESTED|APPROVED|REJECTED|CANCELLED)$/i.test(s.trim());
+  const isStatusLine = (s: string) => /^(REQUESTED|APPROVED|REJECTED|CANCELLED|WAITLISTED)$/i.test(s.trim());
 
   const pickBestTooltipLine = (tt: string) => {
     const parts = String(tt || "")
@@ -88,6 +106,12 @@ function bookingLabelLikeDashboard(b: any) {
     return best || "";
   };
 
+  // 0) Ligaspiel: Label aus den Spieldaten (Gegner, Wettbewerb)
+  if (b?.source === "BFV") {
+    const label = bfvGameLabel(b?.teams?.name, b?.opponent ?? null, b?.competition ?? null);
+    if (label) return label;
+  }
+
   // 1) note (BFV-Spieltext) ist meist am besten
   const note = typeof b?.note === "string" ? b.note.trim() : "";
   if (note) {
@@ -129,9 +153,16 @@ export default function CalendarPage() {
   const [pitches, setPitches] = useState<Pitch[]>([]);
   const [teams, setTeams] = useState<Team[]>([]);
   const [bookings, setBookings] = useState<Booking[]>([]);
+  const [closures, setClosures] = useState<PitchClosure[]>([]);
+  const [openingHours, setOpeningHours] = useState<Map<string, OpeningWindow[]>>(new Map());
+  // sichtbare Tage der Wochenansicht (für die Dämmerungslinie)
+  const [weekDays, setWeekDays] = useState<string[]>([]);
 
   const [pitchFilterIds, setPitchFilterIds] = useState<string[]>([]);
   const [statusFilter, setStatusFilter] = useState<BookingStatus[]>(["REQUESTED", "APPROVED"]);
+  // "Meine Teams": nur Buchungen der eigenen Mannschaften (trainer_teams)
+  const [myTeamIds, setMyTeamIds] = useState<string[]>([]);
+  const [myTeamsOnly, setMyTeamsOnly] = useState(false);
 
   const [pitchPickerOpen, setPitchPickerOpen] = useState(false);
   const [statusPickerOpen, setStatusPickerOpen] = useState(false);
@@ -157,18 +188,10 @@ export default function CalendarPage() {
   const [viewMode, setViewMode] = useState<"week" | "month" | "list" | "dashboard" | "mobile">("week");
 
   // List view range (von/bis, inkl. Tage)
-  const [listFrom, setListFrom] = useState<string>(() => {
-    const d = new Date();
-    d.setHours(0, 0, 0, 0);
-    d.setDate(d.getDate() - 1);
-    return d.toISOString().slice(0, 10);
-  });
-const [listTo, setListTo] = useState<string>(() => {
-    const d = new Date();
-    d.setHours(0, 0, 0, 0);
-    return d.toISOString().slice(0, 10);
-  });
-  const [mobileDay, setMobileDay] = useState<string>(() => new Date().toISOString().slice(0, 10));
+  // Tage als YYYY-MM-DD in Vereinszeit (toISOString() wäre UTC und kippt nachts auf den Vortag)
+  const [listFrom, setListFrom] = useState<string>(() => addDaysYmd(berlinYmd(new Date()), -1));
+  const [listTo, setListTo] = useState<string>(() => berlinYmd(new Date()));
+  const [mobileDay, setMobileDay] = useState<string>(() => berlinYmd(new Date()));
 function hideTip() {
     setTip((t) => ({ ...t, show: false }));
   }
@@ -205,17 +228,10 @@ function hideTip() {
   // Default List-Zeitraum: aktuelle Woche (Mo..So)
   useEffect(() => {
     if (listFrom || listTo) return;
-    const now = new Date();
-    const day = (now.getDay() + 6) % 7; // Mon=0
-    const monday = new Date(now);
-    monday.setHours(0, 0, 0, 0);
-    monday.setDate(monday.getDate() - day);
-    const sunday = new Date(monday);
-    sunday.setDate(sunday.getDate() + 6);
-
-    const toISO = (d: Date) => d.toISOString().slice(0, 10);
-    setListFrom(toISO(monday));
-    setListTo(toISO(sunday));
+    const today = berlinParts(new Date());
+    const monday = addDaysYmd(today.ymd, 1 - today.weekday);
+    setListFrom(monday);
+    setListTo(addDaysYmd(monday, 6));
   }, [listFrom, listTo]);
 
   // -------------------------
@@ -244,6 +260,12 @@ function hideTip() {
         setProfile((prof ?? null) as Profile | null);
       }
 
+      try {
+        setMyTeamIds(await loadTrainerTeamIds(supabase, session.user.id));
+      } catch (e) {
+        console.error(e);
+      }
+
       setSessionChecked(true);
     })();
   }, []);
@@ -258,7 +280,7 @@ function hideTip() {
       setError(null);
 
       const [pitchesRes, teamsRes] = await Promise.all([
-        supabase.from("pitches").select("id,name,type").order("name"),
+        supabase.from("pitches").select("id,name,type,capacity_units,has_floodlight").order("name"),
         supabase.from("teams").select("id,name,age_u").order("age_u").order("name"),
       ]);
 
@@ -271,6 +293,12 @@ function hideTip() {
       setPitches(p);
       setTeams(t);
 
+      try {
+        setOpeningHours(await loadOpeningHours(supabase));
+      } catch (e) {
+        console.error(e);
+      }
+
       // Default: alle Plätze aktiv
       setPitchFilterIds(p.map((x) => x.id));
     })();
@@ -301,7 +329,8 @@ function hideTip() {
       .from("bookings")
       .select(
         `
-        id, start_at, end_at, status, note, pitch_id, team_id,
+        id, start_at, end_at, status, note, pitch_id, team_id, segment, decision_code, decision_comment,
+        source, opponent, competition,
         pitches:pitch_id ( id, name, type ),
         teams:team_id ( id, name )
       `
@@ -327,20 +356,54 @@ function hideTip() {
     }));
 
     setBookings(list);
+
+    try {
+      setClosures(await loadPitchClosures(supabase, start, end));
+    } catch (e) {
+      console.error(e);
+      setClosures([]);
+    }
   }
 
   const filteredBookings = useMemo(() => {
     const allowed = new Set(pitchFilterIds);
-    return bookings.filter((b) => allowed.has(b.pitch_id) && statusFilter.includes(b.status));
-  }, [bookings, pitchFilterIds, statusFilter]);
+    const mine = new Set(myTeamIds);
+    return bookings.filter(
+      (b) => allowed.has(b.pitch_id) && statusFilter.includes(b.status) && (!myTeamsOnly || mine.has(b.team_id))
+    );
+  }, [bookings, pitchFilterIds, statusFilter, myTeamsOnly, myTeamIds]);
+
+  const filteredClosures = useMemo(() => {
+    const allowed = new Set(pitchFilterIds);
+    return closures.filter((c) => allowed.has(c.pitch_id));
+  }, [closures, pitchFilterIds]);
 
   // -------------------------
   // FullCalendar events
   // -------------------------
   const events = useMemo(() => {
-    return filteredBookings.map((b) => {
-      const p = b.pitches?.name ?? pitchById.get(b.pitch_id)?.name ?? "Platz";
+    // Sperrungen als schraffierter Hintergrund (nicht anklickbar)
+    const closureEvents = filteredClosures.map((c) => {
+      const p = pitchById.get(c.pitch_id)?.name ?? "Platz";
+      return {
+        id: `closure-${c.id}-${c.start_at}`,
+        title: `${p} gesperrt`,
+        start: c.start_at,
+        end: c.end_at,
+        display: "background",
+        classNames: ["closure-block"],
+        extendedProps: {
+          background: true,
+          tooltipText: `${p} gesperrt\n${closureLabel(c)}`,
+        },
+      };
+    });
+
+    const bookingEvents = filteredBookings.map((b) => {
+      const pitchName = b.pitches?.name ?? pitchById.get(b.pitch_id)?.name ?? "Platz";
+      const p = isPitchSegment(b.segment) ? `${pitchName} (${SEGMENT_LABELS[b.segment]})` : pitchName;
       const t = b.teams?.name ?? teamById.get(b.team_id)?.name ?? "Team";
+      const reason = needsDecisionReason(b.status) ? decisionText(b.decision_code, b.decision_comment) : "";
 
       return {
         id: b.id,
@@ -349,17 +412,49 @@ function hideTip() {
         end: b.end_at,
         extendedProps: {
           status: b.status,
-          tooltipText: `${p}\n${t}\n${fmtTime(b.start_at)}–${fmtTime(b.end_at)}\n${b.status}`,
+          tooltipText: `${p}\n${t}\n${fmtTime(b.start_at)}–${fmtTime(b.end_at)}\n${b.status}${reason ? `\nGrund: ${reason}` : ""}`,
         },
       };
     });
-  }, [filteredBookings, pitchById, teamById]);
+
+    // Dämmerungslinie, sobald ein angezeigter Platz kein Flutlicht hat
+    const allowed = new Set(pitchFilterIds);
+    const unlit = pitches.filter((p) => allowed.has(p.id) && p.has_floodlight === false);
+    const duskEvents = unlit.length
+      ? weekDays.flatMap((ymd) => {
+          const dusk = civilDusk(ymd);
+          if (!dusk) return [];
+          const hm = berlinParts(dusk).hm;
+          return [
+            {
+              id: `dusk-${ymd}`,
+              title: `Dämmerung ${hm}`,
+              start: dusk.toISOString(),
+              end: new Date(dusk.getTime() + 10 * 60 * 1000).toISOString(),
+              display: "background",
+              classNames: ["dusk-line"],
+              extendedProps: {
+                background: true,
+                tooltipText: `Dämmerung ${hm} Uhr\nOhne Flutlicht: ${unlit.map((p) => p.name).join(", ")}`,
+              },
+            },
+          ];
+        })
+      : [];
+
+    return [...closureEvents, ...duskEvents, ...bookingEvents];
+  }, [filteredBookings, filteredClosures, pitchById, teamById, pitches, pitchFilterIds, weekDays]);
 
   // -------------------------
   // LIST VIEW (Variante A: Zeitraster x Plätze)
   // -------------------------
-  const LIST_START_HOUR = 9;
-  const LIST_END_HOUR = 22;
+  // Zeitraster aus den Öffnungszeiten der angezeigten Plätze (ohne gepflegte Zeiten 09:00–22:00)
+  const gridBounds = useMemo(() => {
+    const allowed = new Set(pitchFilterIds);
+    return timeGridBounds(pitches.filter((p) => allowed.has(p.id)).map((p) => openingHours.get(p.id)));
+  }, [pitches, pitchFilterIds, openingHours]);
+  const LIST_START_MIN = gridBounds.startMin;
+  const LIST_END_MIN = gridBounds.endMin;
   const SLOT_MIN = 30;
 
 
@@ -427,17 +522,15 @@ function computeOverlapLayout(boxes: OverlapBox[]): Map<string, OverlapPos> {
   }
 
   function minutesSinceStart(d: Date) {
-    return d.getHours() * 60 + d.getMinutes() - LIST_START_HOUR * 60;
+    return d.getHours() * 60 + d.getMinutes() - LIST_START_MIN;
   }
 
   function slotIndex(d: Date) {
     return Math.floor(minutesSinceStart(d) / SLOT_MIN);
   }
 
-  function buildSlots() {
+  function buildSlots(startMin: number, endMin: number) {
     const slots: { label: string; minutes: number }[] = [];
-    const startMin = LIST_START_HOUR * 60;
-    const endMin = LIST_END_HOUR * 60;
     for (let m = startMin; m < endMin; m += SLOT_MIN) {
       const hh = String(Math.floor(m / 60)).padStart(2, "0");
       const mm = String(m % 60).padStart(2, "0");
@@ -446,7 +539,7 @@ function computeOverlapLayout(boxes: OverlapBox[]): Map<string, OverlapPos> {
     return slots;
   }
 
-  const listSlots = useMemo(() => buildSlots(), []);
+  const listSlots = useMemo(() => buildSlots(LIST_START_MIN, LIST_END_MIN), [LIST_START_MIN, LIST_END_MIN]);
 
   const visiblePitchesForList = useMemo(() => {
     const allowed = new Set(pitchFilterIds);
@@ -468,33 +561,29 @@ function computeOverlapLayout(boxes: OverlapBox[]): Map<string, OverlapPos> {
   }, [listFrom, listTo]);
 
   async function loadListRange() {
-    const from = parseDateInput(listFrom);
-    const to = parseDateInput(listTo);
-    if (!from || !to) {
+    if (!parseDateInput(listFrom) || !parseDateInput(listTo)) {
       setError("Bitte Zeitraum (von/bis) wählen.");
       return;
     }
 
-    const a = startOfDay(from);
-    const b = startOfDay(to);
-    const start = a <= b ? a : b;
-    const endInclusive = a <= b ? b : a;
-    const endExclusive = addDays(endInclusive, 1);
+    // Zeitraum in Vereinszeit (Umstellungstage haben 23 bzw. 25 Stunden)
+    const [first, last] = listFrom <= listTo ? [listFrom, listTo] : [listTo, listFrom];
+    const start = berlinDayStart(first);
+    const endExclusive = berlinDayStart(addDaysYmd(last, 1));
+    if (!start || !endExclusive) return;
     await loadBookings(start, endExclusive);
   }
 
   async function loadSingleDay(dayIso: string) {
-    const day = parseDateInput(dayIso);
-    if (!day) {
+    const range = berlinDayRange(dayIso);
+    if (!range) {
       setError("Bitte ein gültiges Datum wählen.");
       return;
     }
-    const start = startOfDay(day);
-    const endExclusive = addDays(start, 1);
     setListFrom(dayIso);
     setListTo(dayIso);
     setMobileDay(dayIso);
-    await loadBookings(start, endExclusive);
+    await loadBookings(range.start, range.end);
   }
 
   // -------------------------
@@ -522,6 +611,7 @@ function computeOverlapLayout(boxes: OverlapBox[]): Map<string, OverlapPos> {
 function PitchDashboardView({
   pitches,
   bookings,
+  closures,
   from,
   to,
   darkMode,
@@ -529,6 +619,7 @@ function PitchDashboardView({
 }: {
   pitches: Pitch[];
   bookings: Booking[];
+  closures: PitchClosure[];
   from: string;
   to: string;
   darkMode: boolean;
@@ -625,6 +716,27 @@ function PitchDashboardView({
     return map;
   }, [bookings, pitches]);
 
+  // Sperrungen je Platz und Tag (wie die Buchungen, über Mitternacht auf beide Tage)
+  const closuresByPitchAndDay = useMemo(() => {
+    const map = new Map<string, PitchClosure[]>();
+    for (const day of visibleDays) {
+      const dayStart = startOfDay(day.date);
+      const dayEnd = endOfDay(day.date);
+      for (const c of closures) {
+        if (new Date(c.start_at) > dayEnd || new Date(c.end_at) <= dayStart) continue;
+        const k = `${c.pitch_id}|${day.key}`;
+        map.set(k, [...(map.get(k) ?? []), c]);
+      }
+    }
+    return map;
+  }, [closures, visibleDays]);
+
+  const closureTimeText = (c: PitchClosure, dayDate: Date) => {
+    const from = new Date(c.start_at) <= startOfDay(dayDate) ? "ganztags" : `ab ${fmtTime(c.start_at)}`;
+    if (new Date(c.end_at) > endOfDay(dayDate)) return from;
+    return from === "ganztags" ? `bis ${fmtTime(c.end_at)}` : `${fmtTime(c.start_at)}–${fmtTime(c.end_at)}`;
+  };
+
   const getSortedPitchesForDay = (k: string) => {
     const order = orderByDay[k] ?? (visibleDays.length === 1 ? orderByDay["__legacy__"] : undefined) ?? [];
     if (!order.length) return pitches;
@@ -762,6 +874,7 @@ const gridCols = singleColumn ? "minmax(0, 1fr)" : "repeat(auto-fit, minmax(320p
           >
             {(() => { const sortedPitches = getSortedPitchesForDay(day.key); return sortedPitches.map((p, visualIdx) => {
               const cards = byPitchAndDay.get(String(p.id))?.get(day.key) ?? [];
+              const dayClosures = closuresByPitchAndDay.get(`${p.id}|${day.key}`) ?? [];
               const showBeforeHint = dropHint?.dayKey === day.key && dropHint?.insertIndex === visualIdx;
               const showAfterHint = dropHint?.dayKey === day.key && dropHint?.insertIndex === sortedPitches.length && visualIdx === sortedPitches.length - 1;
 
@@ -811,8 +924,28 @@ const gridCols = singleColumn ? "minmax(0, 1fr)" : "repeat(auto-fit, minmax(320p
                     </div>
                   </div>
 
+                  {dayClosures.map((c) => (
+                    <div
+                      key={`${c.id}-${c.start_at}`}
+                      className="print-booking-card"
+                      style={{
+                        borderRadius: 14,
+                        border: "1px solid rgba(239,68,68,0.45)",
+                        background:
+                          "repeating-linear-gradient(135deg, rgba(239,68,68,0.22) 0 6px, rgba(239,68,68,0.06) 6px 12px)",
+                        padding: "8px 12px",
+                        marginBottom: 10,
+                      }}
+                    >
+                      <div className="print-booking-title" style={{ fontWeight: 700, fontSize: 14 }}>
+                        Gesperrt · {closureTimeText(c, day.date)}
+                      </div>
+                      <div style={{ fontSize: 13, opacity: 0.85 }}>{closureLabel(c)}</div>
+                    </div>
+                  ))}
+
                   {cards.length === 0 ? (
-                    <div style={{ opacity: 0.7 }}>Keine Buchungen im Zeitraum.</div>
+                    <div style={{ opacity: 0.7 }}>{dayClosures.length ? "Keine Buchungen." : "Keine Buchungen im Zeitraum."}</div>
                   ) : (
                     <div style={{ display: "grid", gap: 12 }}>
                       {cards.map((b, idx) => (
@@ -843,8 +976,16 @@ const gridCols = singleColumn ? "minmax(0, 1fr)" : "repeat(auto-fit, minmax(320p
                           >
                             {bookingLabelLikeDashboard(b)}
                           </div>
-                          <div className="print-booking-time" style={{ opacity: 0.95, fontSize: 14, fontWeight: 600, letterSpacing: 0.2 }}>
-                            {fmtTime(b.start_at)}–{fmtTime(b.end_at)}
+                          <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", gap: 8 }}>
+                            <div className="print-booking-time" style={{ opacity: 0.95, fontSize: 14, fontWeight: 600, letterSpacing: 0.2 }}>
+                              {fmtTime(b.start_at)}–{fmtTime(b.end_at)}
+                              {isPitchSegment(b.segment) && (
+                                <span style={{ fontWeight: 500, opacity: 0.85 }}> · {SEGMENT_LABELS[b.segment]}</span>
+                              )}
+                            </div>
+                            {isPitchSegment(b.segment) && segmentsForPitch(p).length > 0 && (
+                              <FieldMap pitch={p} highlight={b.segment} width={56} />
+                            )}
                           </div>
                         </div>
                       ))}
@@ -944,6 +1085,30 @@ const isAdmin = useMemo(() => (profile?.role || "TRAINER").toUpperCase() === "AD
             + Antrag
           </Link>
 
+          <Link
+            href="/series"
+            style={{
+              padding: "8px 12px",
+              borderRadius: 12,
+              border: "1px solid rgba(255,255,255,0.18)",
+              textDecoration: "none",
+            }}
+          >
+            Trainingsserien
+          </Link>
+
+          <Link
+            href="/feeds"
+            style={{
+              padding: "8px 12px",
+              borderRadius: 12,
+              border: "1px solid rgba(255,255,255,0.18)",
+              textDecoration: "none",
+            }}
+          >
+            Kalender-Abo
+          </Link>
+
           {isAdmin && (
             <>
               <Link
@@ -969,6 +1134,66 @@ const isAdmin = useMemo(() => (profile?.role || "TRAINER").toUpperCase() === "AD
               >
                 Ligaspiele planen (BFV)
               </Link>
+
+              <Link
+                href="/seasons"
+                style={{
+                  padding: "8px 12px",
+                  borderRadius: 12,
+                  border: "1px solid rgba(255,255,255,0.18)",
+                  textDecoration: "none",
+                }}
+              >
+                Saisonplanung
+              </Link>
+
+              <Link
+                href="/venues"
+                style={{
+                  padding: "8px 12px",
+                  borderRadius: 12,
+                  border: "1px solid rgba(255,255,255,0.18)",
+                  textDecoration: "none",
+                }}
+              >
+                Spielorte
+              </Link>
+
+              <Link
+                href="/closures"
+                style={{
+                  padding: "8px 12px",
+                  borderRadius: 12,
+                  border: "1px solid rgba(255,255,255,0.18)",
+                  textDecoration: "none",
+                }}
+              >
+                Sperrungen
+              </Link>
+
+              <Link
+                href="/trainers"
+                style={{
+                  padding: "8px 12px",
+                  borderRadius: 12,
+                  border: "1px solid rgba(255,255,255,0.18)",
+                  textDecoration: "none",
+                }}
+              >
+                Trainer
+              </Link>
+
+              <Link
+                href="/audit"
+                style={{
+                  padding: "8px 12px",
+                  borderRadius: 12,
+                  border: "1px solid rgba(255,255,255,0.18)",
+                  textDecoration: "none",
+                }}
+              >
+                Protokoll
+              </Link>
             </>
           )}
 
@@ -992,6 +1217,8 @@ const isAdmin = useMemo(() => (profile?.role || "TRAINER").toUpperCase() === "AD
       </div>
 
       
+      {profile && <NotificationsPanel userId={profile.id} />}
+
       {/* Zeitraum */}
 {error && <div style={{ marginTop: 12, color: "crimson", fontWeight: 700 }}>{error}</div>}
 
@@ -1007,6 +1234,24 @@ const isAdmin = useMemo(() => (profile?.role || "TRAINER").toUpperCase() === "AD
             flexWrap: "wrap",
           }}
         >
+          {myTeamIds.length > 0 && (
+            <button
+              onClick={() => setMyTeamsOnly((v) => !v)}
+              title="Nur Buchungen der eigenen Mannschaften anzeigen"
+              style={{
+                marginRight: "auto",
+                padding: "8px 12px",
+                borderRadius: 12,
+                border: "1px solid rgba(255,255,255,0.18)",
+                background: myTeamsOnly ? "rgba(255,255,255,0.10)" : "transparent",
+                color: "#e6edf3",
+                fontWeight: 800,
+                cursor: "pointer",
+              }}
+            >
+              {myTeamsOnly ? "✓ " : ""}Meine Teams
+            </button>
+          )}
           <button
             onClick={() => {
               setViewMode("week");
@@ -1113,10 +1358,7 @@ const isAdmin = useMemo(() => (profile?.role || "TRAINER").toUpperCase() === "AD
             >
               <button
                 onClick={async () => {
-                  const d = parseDateInput(mobileDay) ?? new Date();
-                  const prev = addDays(startOfDay(d), -1);
-                  const iso = prev.toISOString().slice(0, 10);
-                  await loadSingleDay(iso);
+                  await loadSingleDay(addDaysYmd(mobileDay || berlinYmd(new Date()), -1));
                 }}
                 style={{ padding: "9px 12px", borderRadius: 12, fontWeight: 800 }}
                 title="Vorheriger Tag"
@@ -1143,10 +1385,7 @@ const isAdmin = useMemo(() => (profile?.role || "TRAINER").toUpperCase() === "AD
 
               <button
                 onClick={async () => {
-                  const d = parseDateInput(mobileDay) ?? new Date();
-                  const next = addDays(startOfDay(d), 1);
-                  const iso = next.toISOString().slice(0, 10);
-                  await loadSingleDay(iso);
+                  await loadSingleDay(addDaysYmd(mobileDay || berlinYmd(new Date()), 1));
                 }}
                 style={{ padding: "9px 12px", borderRadius: 12, fontWeight: 800 }}
                 title="Nächster Tag"
@@ -1163,6 +1402,7 @@ const isAdmin = useMemo(() => (profile?.role || "TRAINER").toUpperCase() === "AD
               <PitchDashboardView
                 pitches={pitches}
                 bookings={filteredBookings}
+                closures={filteredClosures}
                 from={mobileDay}
                 to={mobileDay}
                 darkMode={true}
@@ -1211,7 +1451,14 @@ const isAdmin = useMemo(() => (profile?.role || "TRAINER").toUpperCase() === "AD
       </div>
     </div>
 
-    <PitchDashboardView pitches={pitches} bookings={filteredBookings} from={listFrom} to={listTo} darkMode={true} />
+    <PitchDashboardView
+      pitches={pitches}
+      bookings={filteredBookings}
+      closures={filteredClosures}
+      from={listFrom}
+      to={listTo}
+      darkMode={true}
+    />
     {listDays.length === 0 && <div style={{ opacity: 0.8, marginTop: 10 }}>Bitte Zeitraum wählen.</div>}
   </div>
 ) : viewMode !== "list" ? (
@@ -1230,8 +1477,8 @@ const isAdmin = useMemo(() => (profile?.role || "TRAINER").toUpperCase() === "AD
             }}
             locale={deLocale}
             firstDay={1}
-            slotMinTime="09:00:00"
-            slotMaxTime="21:30:00"
+            slotMinTime={`${minutesToTime(LIST_START_MIN)}:00`}
+            slotMaxTime={`${minutesToTime(LIST_END_MIN)}:00`}
             allDaySlot={false}
             slotDuration="00:30:00"
             snapDuration="00:30:00"
@@ -1241,9 +1488,15 @@ const isAdmin = useMemo(() => (profile?.role || "TRAINER").toUpperCase() === "AD
             events={events}
             datesSet={(arg) => {
               hideTip();
+              const days: string[] = [];
+              if (arg.view.type === "timeGridWeek") {
+                for (let d = berlinYmd(arg.start); d < berlinYmd(arg.end); d = addDaysYmd(d, 1)) days.push(d);
+              }
+              setWeekDays(days);
               loadBookings(arg.start, arg.end);
             }}
             eventClassNames={(arg) => {
+              if (arg.event.extendedProps.background) return [];
               const s = String(arg.event.extendedProps.status || "").toUpperCase();
               return [`status-${s}`];
             }}
@@ -1286,6 +1539,12 @@ const isAdmin = useMemo(() => (profile?.role || "TRAINER").toUpperCase() === "AD
               requestAnimationFrame(() => positionTip(lastMouse.current.x, lastMouse.current.y, text));
             }}
             eventMouseLeave={() => hideTip()}
+            eventClick={(info) => {
+              hideTip();
+              if (info.event.extendedProps.background) return;
+              // Änderungsantrag (Zeit / Platz) für die angeklickte Buchung
+              window.location.assign(`/request/change?id=${encodeURIComponent(info.event.id)}`);
+            }}
           />
         ) : (
           <div className="card" style={{ padding: 16 }}>
@@ -1344,8 +1603,8 @@ const isAdmin = useMemo(() => (profile?.role || "TRAINER").toUpperCase() === "AD
 
 // Overlap-Layout pro Platz (damit doppelte Buchungen nebeneinander angezeigt werden)
 const overlapPosById = new Map<string, { colIndex: number; colCount: number }>();
-const minT = new Date(dayStart.getTime() + LIST_START_HOUR * 60 * 60 * 1000);
-const maxT = new Date(dayStart.getTime() + LIST_END_HOUR * 60 * 60 * 1000);
+const minT = new Date(dayStart.getTime() + LIST_START_MIN * 60 * 1000);
+const maxT = new Date(dayStart.getTime() + LIST_END_MIN * 60 * 1000);
 
 for (const p of visiblePitchesForList) {
   const boxes = dayBookings
@@ -1426,23 +1685,31 @@ for (const p of visiblePitchesForList) {
                         </div>
                       ))}
 
-                      {/* Empty grid cells */}
-                      {visiblePitchesForList.map((p, pi) =>
-                        listSlots.map((s, si) => (
-                          <div
-                            key={`${p.id}-${s.label}`}
-                            style={{
-                              gridColumn: 2 + pi,
-                              gridRow: 2 + si,
-                              // Option 1: freie Slots "unsichtbar" – keine Boxen, nur eine zarte Linie
-                              border: "none",
-                              borderTop: "1px solid rgba(255,255,255,0.06)",
-                              borderRadius: 0,
-                              background: "transparent",
-                            }}
-                          />
-                        ))
-                      )}
+                      {/* Empty grid cells (außerhalb der Öffnungszeiten grau) */}
+                      {visiblePitchesForList.map((p, pi) => {
+                        const windows = openingHours.get(p.id) ?? [];
+                        const open = windowsForDay(windows, ((day.getDay() + 6) % 7) + 1);
+                        return listSlots.map((s, si) => {
+                          const closed =
+                            windows.length > 0 &&
+                            !open.some((w) => s.minutes >= w.opens && s.minutes + SLOT_MIN <= w.closes);
+                          return (
+                            <div
+                              key={`${p.id}-${s.label}`}
+                              title={closed ? "geschlossen" : undefined}
+                              style={{
+                                gridColumn: 2 + pi,
+                                gridRow: 2 + si,
+                                // Option 1: freie Slots "unsichtbar" – keine Boxen, nur eine zarte Linie
+                                border: "none",
+                                borderTop: "1px solid rgba(255,255,255,0.06)",
+                                borderRadius: 0,
+                                background: closed ? "rgba(148,163,184,0.12)" : "transparent",
+                              }}
+                            />
+                          );
+                        });
+                      })}
 
                       {/* Booking blocks */}
                       {dayBookings.map((b) => {
@@ -1453,8 +1720,8 @@ for (const p of visiblePitchesForList) {
                         const beRaw = new Date(b.end_at);
 
                         // clamp to visible hours
-                        const minT = new Date(dayStart.getTime() + LIST_START_HOUR * 60 * 60 * 1000);
-                        const maxT = new Date(dayStart.getTime() + LIST_END_HOUR * 60 * 60 * 1000);
+                        const minT = new Date(dayStart.getTime() + LIST_START_MIN * 60 * 1000);
+                        const maxT = new Date(dayStart.getTime() + LIST_END_MIN * 60 * 1000);
                         const bs = clamp(bsRaw, minT, maxT);
                         const be = clamp(beRaw, minT, maxT);
                         if (be <= bs) return null;
@@ -0,0 +1,664 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { supabase } from "@/lib/supabaseClient";
+// nur Typen: externalIcs zieht den serverseitigen ICS-Abruf mit
+import type { ExternalIcsSource, PitchRule, SourceSyncResult } from "@/lib/externalIcs";
+import { addDaysYmd, berlinDateTime, berlinParts, berlinYmd, formatBerlin } from "@/lib/berlinTime";
+import { closePitch, closureLabel, loadPitchClosures, PitchClosure, restOfToday } from "@/lib/closures";
+
+type Profile = { id: string; role: string | null };
+type Pitch = { id: string; name: string };
+
+type SourceForm = {
+  name: string;
+  url: string;
+  allowedHosts: string;
+  summaryFilter: string;
+  pitchIds: string[];
+  rules: string;
+};
+
+type ClosureForm = {
+  pitchIds: string[];
+  fromDay: string;
+  fromTime: string;
+  toDay: string;
+  toTime: string;
+  reason: string;
+  repeatYearly: boolean;
+  repeatUntil: string;
+  cancelBookings: boolean;
+};
+
+function emptyClosureForm(): ClosureForm {
+  const today = berlinYmd(new Date());
+  return {
+    pitchIds: [],
+    fromDay: today,
+    fromTime: "00:00",
+    toDay: today,
+    toTime: "23:59",
+    reason: "",
+    repeatYearly: false,
+    repeatUntil: "",
+    cancelBookings: true,
+  };
+}
+
+const EMPTY_FORM: SourceForm = { name: "", url: "", allowedHosts: "", summaryFilter: "", pitchIds: [], rules: "" };
+
+const SOURCE_COLUMNS =
+  "id,name,url,allowed_hosts,summary_filter,pitch_ids,pitch_rules,active,last_synced_at,last_status,last_error,last_count";
+
+const cell = { padding: 8, borderBottom: "1px solid rgba(255,255,255,0.08)", verticalAlign: "top" } as const;
+
+function hostOf(url: string) {
+  try {
+    return new URL(url.trim().replace(/^webcal:/i, "https:")).hostname;
+  } catch {
+    return "";
+  }
+}
+
+function rulesToText(rules: PitchRule[], pitches: Pitch[]) {
+  const nameById = new Map(pitches.map((p) => [p.id, p.name]));
+  return rules.map((r) => `${r.pattern} = ${nameById.get(r.pitch_id) ?? r.pitch_id}`).join("\n");
+}
+
+/** "Kunstrasen = Platz 2" je Zeile -> Regeln; unbekannte Plätze sind ein Fehler. */
+function parseRules(text: string, pitches: Pitch[]): PitchRule[] {
+  const byName = new Map(pitches.map((p) => [p.name.trim().toLowerCase(), p.id]));
+  return text
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line) => {
+      const idx = line.lastIndexOf("=");
+      if (idx <= 0) throw new Error(`Regel "${line}": Format "Stichwort = Platz".`);
+      const pattern = line.slice(0, idx).trim();
+      const pitchName = line.slice(idx + 1).trim();
+      const pitchId = byName.get(pitchName.toLowerCase());
+      if (!pattern || !pitchId) throw new Error(`Regel "${line}": Platz "${pitchName}" unbekannt.`);
+      return { pattern, pitch_id: pitchId };
+    });
+}
+
+function toForm(s: ExternalIcsSource, pitches: Pitch[]): SourceForm {
+  return {
+    name: s.name,
+    url: s.url,
+    allowedHosts: (s.allowed_hosts ?? []).join(", "),
+    summaryFilter: s.summary_filter ?? "",
+    pitchIds: s.pitch_ids ?? [],
+    rules: rulesToText(s.pitch_rules ?? [], pitches),
+  };
+}
+
+function fromForm(f: SourceForm, pitches: Pitch[]) {
+  if (!f.name.trim()) throw new Error("Bitte einen Namen angeben.");
+  if (!f.url.trim()) throw new Error("Bitte die ICS-Adresse angeben.");
+
+  const hosts = Array.from(
+    new Set(
+      (f.allowedHosts.trim() || hostOf(f.url))
+        .split(",")
+        .map((h) => h.trim().toLowerCase())
+        .filter(Boolean)
+    )
+  );
+  if (!hosts.length) throw new Error("Ungültige ICS-Adresse.");
+
+  const rules = parseRules(f.rules, pitches);
+  if (!f.pitchIds.length && !rules.length) throw new Error("Bitte Plätze oder Regeln angeben.");
+
+  return {
+    name: f.name.trim(),
+    url: f.url.trim(),
+    allowed_hosts: hosts,
+    summary_filter: f.summaryFilter.trim() || null,
+    pitch_ids: f.pitchIds,
+    pitch_rules: rules,
+  };
+}
+
+async function runClosureSync(sourceId?: string) {
+  const { data } = await supabase.auth.getSession();
+  const token = data.session?.access_token;
+  if (!token) throw new Error("Session fehlt – bitte neu einloggen.");
+
+  const res = await fetch("/api/closures/sync", {
+    method: "POST",
+    cache: "no-store",
+    headers: { authorization: `Bearer ${token}`, "content-type": "application/json" },
+    body: JSON.stringify(sourceId ? { sourceId } : {}),
+  });
+  const json = await res.json().catch(() => null);
+  if (!json?.results) throw new Error(json?.error || `Abruf fehlgeschlagen (${res.status}).`);
+  return json.results as SourceSyncResult[];
+}
+
+function resultText(r: SourceSyncResult) {
+  if (!r.ok) return `${r.name}: Fehler – ${r.error}`;
+  const parts = [`${r.count} Sperrungen`, `+${r.created}`, `~${r.updated}`, `−${r.removed}`];
+  if (r.affected_bookings) parts.push(`${r.affected_bookings} Buchungen betroffen`);
+  return `${r.name}: ${parts.join(", ")}`;
+}
+
+// Sperrungen: manuell (auch jährlich) und aus externen ICS-Kalendern (Stadt, Schule, …)
+export default function ClosuresPage() {
+  const [sessionChecked, setSessionChecked] = useState(false);
+  const [profile, setProfile] = useState<Profile | null>(null);
+
+  const [sources, setSources] = useState<ExternalIcsSource[]>([]);
+  const [pitches, setPitches] = useState<Pitch[]>([]);
+  const [closures, setClosures] = useState<PitchClosure[]>([]);
+
+  const [editId, setEditId] = useState<string | null>(null);
+  const [form, setForm] = useState<SourceForm>(EMPTY_FORM);
+  const [closureForm, setClosureForm] = useState<ClosureForm>(emptyClosureForm);
+
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [syncInfo, setSyncInfo] = useState<string | null>(null);
+
+  const isAdmin = useMemo(() => (profile?.role || "TRAINER").toUpperCase() === "ADMIN", [profile]);
+
+  useEffect(() => {
+    (async () => {
+      const { data } = await supabase.auth.getSession();
+      const session = data.session;
+      if (!session) {
+        window.location.href = "/login";
+        return;
+      }
+
+      const { data: prof } = await supabase.from("profiles").select("id,role").eq("id", session.user.id).maybeSingle();
+      setProfile((prof ?? null) as Profile | null);
+      setSessionChecked(true);
+    })();
+  }, []);
+
+  async function loadBase() {
+    setError(null);
+    const [s, p] = await Promise.all([
+      supabase.from("external_ics_sources").select(SOURCE_COLUMNS).order("name"),
+      supabase.from("pitches").select("id,name").order("name"),
+    ]);
+    if (s.error) return setError(s.error.message);
+    if (p.error) return setError(p.error.message);
+    setSources((s.data ?? []) as ExternalIcsSource[]);
+    setPitches((p.data ?? []) as Pitch[]);
+
+    // ein Jahr voraus, jährliche Sperrungen aufgefächert
+    const now = new Date();
+    try {
+      const upcoming = await loadPitchClosures(supabase, now, new Date(now.getTime() + 365 * 24 * 3600 * 1000));
+      setClosures(upcoming.slice(0, 300));
+    } catch (e) {
+      setError((e as { message?: string })?.message || "Sperrungen konnten nicht geladen werden.");
+    }
+  }
+
+  useEffect(() => {
+    if (!sessionChecked || !isAdmin) return;
+    (async () => {
+      await loadBase();
+    })();
+  }, [sessionChecked, isAdmin]);
+
+  const pitchName = useMemo(() => new Map(pitches.map((p) => [p.id, p.name])), [pitches]);
+  const sourceName = useMemo(() => new Map(sources.map((s) => [s.id, s.name])), [sources]);
+
+  async function withBusy(fn: () => Promise<void>) {
+    setError(null);
+    setBusy(true);
+    try {
+      await fn();
+      await loadBase();
+    } catch (e) {
+      console.error(e);
+      setError(e instanceof Error ? e.message : String((e as { message?: string })?.message || "Fehler"));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function saveSource() {
+    return withBusy(async () => {
+      const row = fromForm(form, pitches);
+      const { error } =
+        editId === "new"
+          ? await supabase.from("external_ics_sources").insert(row)
+          : await supabase.from("external_ics_sources").update(row).eq("id", editId);
+      if (error) throw error;
+      setEditId(null);
+      setForm(EMPTY_FORM);
+    });
+  }
+
+  function setActive(s: ExternalIcsSource, active: boolean) {
+    return withBusy(async () => {
+      const { error } = await supabase.from("external_ics_sources").update({ active }).eq("id", s.id);
+      if (error) throw error;
+    });
+  }
+
+  function deleteSource(s: ExternalIcsSource) {
+    if (!window.confirm(`"${s.name}" löschen? Alle Sperrungen aus diesem Kalender werden entfernt.`)) return;
+    return withBusy(async () => {
+      const { error } = await supabase.from("external_ics_sources").delete().eq("id", s.id);
+      if (error) throw error;
+    });
+  }
+
+  function sync(sourceId?: string) {
+    return withBusy(async () => {
+      setSyncInfo(null);
+      const results = await runClosureSync(sourceId);
+      setSyncInfo(results.length ? results.map(resultText).join("\n") : "Keine aktiven Kalender.");
+    });
+  }
+
+  /** Sperrung anlegen; auf Wunsch betroffene Buchungen absagen und Trainer benachrichtigen. */
+  function createClosure() {
+    const f = closureForm;
+    const start = berlinDateTime(f.fromDay, f.fromTime);
+    const end = berlinDateTime(f.toDay, f.toTime);
+    if (!start || !end) {
+      setError("Bitte Beginn und Ende angeben.");
+      return;
+    }
+    if (
+      f.cancelBookings &&
+      !window.confirm("Alle Buchungen der gewählten Plätze im Zeitraum absagen und die Trainer benachrichtigen?")
+    ) {
+      return;
+    }
+
+    return withBusy(async () => {
+      setSyncInfo(null);
+      const { data } = await supabase.auth.getSession();
+      const r = await closePitch(
+        supabase,
+        {
+          pitchIds: f.pitchIds,
+          start,
+          end,
+          reason: f.reason,
+          repeatYearly: f.repeatYearly,
+          repeatUntil: f.repeatUntil || null,
+          cancelBookings: f.cancelBookings,
+        },
+        data.session?.user.id ?? null
+      );
+      setSyncInfo(
+        `${r.closures} Platz${r.closures === 1 ? "" : "e"} gesperrt` +
+          (f.cancelBookings ? `, ${r.cancelled} Buchungen abgesagt, ${r.notified} Trainer benachrichtigt.` : ".")
+      );
+      setClosureForm(emptyClosureForm());
+    });
+  }
+
+  /** Vorbelegung "ab sofort bis heute Abend" (Witterung). */
+  function closeNowPreset() {
+    const { start, end } = restOfToday();
+    const last = new Date(end.getTime() - 60 * 1000);
+    setClosureForm((f) => ({
+      ...f,
+      fromDay: berlinParts(start).ymd,
+      fromTime: berlinParts(start).hm,
+      toDay: berlinParts(last).ymd,
+      toTime: berlinParts(last).hm,
+      reason: f.reason || "Platz unbespielbar (Witterung)",
+      repeatYearly: false,
+      cancelBookings: true,
+    }));
+  }
+
+  function deleteClosure(c: PitchClosure) {
+    const text = c.repeat_yearly ? "Jährliche Sperrung (alle Jahre) löschen?" : "Sperrung löschen?";
+    if (!window.confirm(text)) return;
+    return withBusy(async () => {
+      const { error } = await supabase.from("pitch_closures").delete().eq("id", c.id);
+      if (error) throw error;
+    });
+  }
+
+  function toggleClosurePitch(id: string) {
+    setClosureForm((f) => ({
+      ...f,
+      pitchIds: f.pitchIds.includes(id) ? f.pitchIds.filter((x) => x !== id) : [...f.pitchIds, id],
+    }));
+  }
+
+  function togglePitch(id: string) {
+    setForm((f) => ({
+      ...f,
+      pitchIds: f.pitchIds.includes(id) ? f.pitchIds.filter((x) => x !== id) : [...f.pitchIds, id],
+    }));
+  }
+
+  if (!sessionChecked) return null;
+
+  if (!isAdmin) {
+    return (
+      <div style={{ maxWidth: 720, margin: "24px auto", padding: 16 }}>
+        <p>Nur für Admins.</p>
+        <Link href="/calendar">← Kalender</Link>
+      </div>
+    );
+  }
+
+  return (
+    <div style={{ maxWidth: 1200, margin: "24px auto", padding: 16 }}>
+      <div className="card" style={{ display: "flex", justifyContent: "space-between", gap: 12, alignItems: "center" }}>
+        <div>
+          <div style={{ fontSize: 18, fontWeight: 800 }}>Sperrungen</div>
+          <div style={{ opacity: 0.8, fontSize: 13 }}>
+            Witterung, Pflege, Winterpause und externe Kalender (Stadt, Schulsport) – gesperrte Plätze sind nicht buchbar
+          </div>
+        </div>
+        <div style={{ display: "flex", gap: 8, alignItems: "center" }}>
+          <button disabled={busy} onClick={() => sync()}>
+            {busy ? "Läuft…" : "Alle abrufen"}
+          </button>
+          <Link href="/calendar" style={{ padding: "8px 10px", borderRadius: 10, border: "1px solid #273243" }}>
+            ← Kalender
+          </Link>
+        </div>
+      </div>
+
+      {error && <p style={{ color: "crimson", marginTop: 12, whiteSpace: "pre-line" }}>{error}</p>}
+      {syncInfo && (
+        <div className="card" style={{ marginTop: 12, fontSize: 13, whiteSpace: "pre-line" }}>
+          {syncInfo}
+        </div>
+      )}
+
+      <div className="card" style={{ marginTop: 12, display: "grid", gap: 10 }}>
+        <div style={{ display: "flex", justifyContent: "space-between", gap: 8, alignItems: "center", flexWrap: "wrap" }}>
+          <div style={{ fontWeight: 800 }}>Platz sperren</div>
+          <button disabled={busy} onClick={closeNowPreset}>
+            Sofort bis heute Abend
+          </button>
+        </div>
+        <div style={{ display: "flex", gap: 12, flexWrap: "wrap" }}>
+          {pitches.map((p) => (
+            <label key={p.id} style={{ display: "flex", gap: 6, alignItems: "center" }}>
+              <input
+                type="checkbox"
+                checked={closureForm.pitchIds.includes(p.id)}
+                onChange={() => toggleClosurePitch(p.id)}
+              />
+              {p.name}
+            </label>
+          ))}
+        </div>
+        <div style={{ display: "flex", gap: 8, flexWrap: "wrap", alignItems: "center" }}>
+          Von
+          <input
+            type="date"
+            value={closureForm.fromDay}
+            onChange={(e) =>
+              setClosureForm((f) => ({
+                ...f,
+                fromDay: e.target.value,
+                toDay: f.toDay < e.target.value ? e.target.value : f.toDay,
+              }))
+            }
+          />
+          <input
+            type="time"
+            value={closureForm.fromTime}
+            onChange={(e) => setClosureForm({ ...closureForm, fromTime: e.target.value })}
+          />
+          bis
+          <input
+            type="date"
+            value={closureForm.toDay}
+            onChange={(e) => setClosureForm({ ...closureForm, toDay: e.target.value })}
+          />
+          <input
+            type="time"
+            value={closureForm.toTime}
+            onChange={(e) => setClosureForm({ ...closureForm, toTime: e.target.value })}
+          />
+          <input
+            placeholder="Grund, z.B. Winterpause, Rasenpflege"
+            value={closureForm.reason}
+            onChange={(e) => setClosureForm({ ...closureForm, reason: e.target.value })}
+            style={{ minWidth: 260 }}
+          />
+        </div>
+        <div style={{ display: "flex", gap: 16, flexWrap: "wrap", alignItems: "center" }}>
+          <label style={{ display: "flex", gap: 6, alignItems: "center" }}>
+            <input
+              type="checkbox"
+              checked={closureForm.repeatYearly}
+              onChange={(e) => setClosureForm({ ...closureForm, repeatYearly: e.target.checked })}
+            />
+            jedes Jahr
+          </label>
+          {closureForm.repeatYearly && (
+            <label style={{ display: "flex", gap: 6, alignItems: "center" }}>
+              bis einschließlich
+              <input
+                type="date"
+                value={closureForm.repeatUntil}
+                min={addDaysYmd(closureForm.fromDay, 1)}
+                onChange={(e) => setClosureForm({ ...closureForm, repeatUntil: e.target.value })}
+              />
+              <span style={{ fontSize: 12, opacity: 0.75 }}>(leer = unbegrenzt)</span>
+            </label>
+          )}
+          <label style={{ display: "flex", gap: 6, alignItems: "center" }}>
+            <input
+              type="checkbox"
+              checked={closureForm.cancelBookings}
+              onChange={(e) => setClosureForm({ ...closureForm, cancelBookings: e.target.checked })}
+            />
+            betroffene Buchungen absagen und Trainer benachrichtigen
+          </label>
+          <button disabled={busy} onClick={createClosure}>
+            Sperren
+          </button>
+        </div>
+      </div>
+
+      <div className="card" style={{ marginTop: 12, overflowX: "auto" }}>
+        <table style={{ width: "100%", borderCollapse: "collapse" }}>
+          <thead>
+            <tr style={{ textAlign: "left" }}>
+              <th style={cell}>Kalender</th>
+              <th style={cell}>Plätze</th>
+              <th style={cell}>Letzter Abruf</th>
+              <th style={cell}></th>
+            </tr>
+          </thead>
+          <tbody>
+            {sources.map((s) => (
+              <tr key={s.id} style={{ opacity: s.active ? 1 : 0.55 }}>
+                <td style={cell}>
+                  <div style={{ fontWeight: 700 }}>{s.name}</div>
+                  <div style={{ fontSize: 12, opacity: 0.8, wordBreak: "break-all" }}>{s.url}</div>
+                  {s.summary_filter && <div style={{ fontSize: 12, opacity: 0.8 }}>nur Termine mit „{s.summary_filter}“</div>}
+                  {!s.active && <div style={{ fontSize: 12, opacity: 0.8 }}>inaktiv</div>}
+                </td>
+                <td style={cell}>
+                  {(s.pitch_ids ?? []).map((id) => pitchName.get(id) ?? "?").join(", ") || "—"}
+                  {(s.pitch_rules ?? []).map((r, i) => (
+                    <div key={i} style={{ fontSize: 12, opacity: 0.8 }}>
+                      „{r.pattern}“ → {pitchName.get(r.pitch_id) ?? "?"}
+                    </div>
+                  ))}
+                </td>
+                <td style={cell}>
+                  {s.last_synced_at ? formatBerlin(s.last_synced_at, { dateStyle: "short", timeStyle: "short" }) : "nie"}
+                  {s.last_status === "OK" && (
+                    <div style={{ fontSize: 12, color: "rgba(0,255,170,0.8)" }}>{s.last_count ?? 0} Sperrungen</div>
+                  )}
+                  {s.last_status === "FAILED" && (
+                    <div style={{ fontSize: 12, color: "crimson" }}>{s.last_error || "Fehler"}</div>
+                  )}
+                </td>
+                <td style={{ ...cell, whiteSpace: "nowrap" }}>
+                  <button disabled={busy} onClick={() => sync(s.id)} style={{ marginRight: 6 }}>
+                    Jetzt abrufen
+                  </button>
+                  <button
+                    disabled={busy}
+                    onClick={() => {
+                      setEditId(s.id);
+                      setForm(toForm(s, pitches));
+                    }}
+                    style={{ marginRight: 6 }}
+                  >
+                    Bearbeiten
+                  </button>
+                  <button disabled={busy} onClick={() => setActive(s, !s.active)} style={{ marginRight: 6 }}>
+                    {s.active ? "Deaktivieren" : "Aktivieren"}
+                  </button>
+                  <button disabled={busy} onClick={() => deleteSource(s)}>
+                    Löschen
+                  </button>
+                </td>
+              </tr>
+            ))}
+            {sources.length === 0 && (
+              <tr>
+                <td colSpan={4} style={{ padding: 14, opacity: 0.8 }}>
+                  Noch keine externen Kalender.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+
+        {editId === null && (
+          <button
+            disabled={busy}
+            onClick={() => {
+              setEditId("new");
+              setForm(EMPTY_FORM);
+            }}
+            style={{ marginTop: 12 }}
+          >
+            + Kalender hinzufügen
+          </button>
+        )}
+      </div>
+
+      {editId !== null && (
+        <div className="card" style={{ marginTop: 12, display: "grid", gap: 10 }}>
+          <div style={{ fontWeight: 800 }}>{editId === "new" ? "Neuer Kalender" : "Kalender bearbeiten"}</div>
+          <label style={{ display: "grid", gap: 4 }}>
+            Name
+            <input
+              value={form.name}
+              placeholder="z.B. Platzsperren Sportamt"
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+            />
+          </label>
+          <label style={{ display: "grid", gap: 4 }}>
+            ICS-Adresse
+            <input
+              value={form.url}
+              placeholder="https://…/kalender.ics"
+              onChange={(e) => {
+                const url = e.target.value;
+                setForm((f) => ({
+                  ...f,
+                  url,
+                  allowedHosts: !f.allowedHosts || f.allowedHosts === hostOf(f.url) ? hostOf(url) : f.allowedHosts,
+                }));
+              }}
+            />
+          </label>
+          <label style={{ display: "grid", gap: 4 }}>
+            Erlaubte Hosts (kommagetrennt, Subdomains inklusive)
+            <input value={form.allowedHosts} onChange={(e) => setForm({ ...form, allowedHosts: e.target.value })} />
+          </label>
+          <label style={{ display: "grid", gap: 4 }}>
+            Nur Termine mit Stichwort (optional)
+            <input
+              value={form.summaryFilter}
+              placeholder="z.B. Sperrung"
+              onChange={(e) => setForm({ ...form, summaryFilter: e.target.value })}
+            />
+          </label>
+          <div style={{ display: "grid", gap: 4 }}>
+            Gesperrte Plätze (alle Termine)
+            <div style={{ display: "flex", gap: 12, flexWrap: "wrap" }}>
+              {pitches.map((p) => (
+                <label key={p.id} style={{ display: "flex", gap: 6, alignItems: "center" }}>
+                  <input type="checkbox" checked={form.pitchIds.includes(p.id)} onChange={() => togglePitch(p.id)} />
+                  {p.name}
+                </label>
+              ))}
+            </div>
+          </div>
+          <label style={{ display: "grid", gap: 4 }}>
+            Regeln „Stichwort = Platz“ je Zeile (vor den Plätzen oben; Stichwort in Titel oder Ort)
+            <textarea
+              rows={4}
+              value={form.rules}
+              placeholder={pitches[0] ? `Kunstrasen = ${pitches[0].name}` : "Kunstrasen = Platz 1"}
+              onChange={(e) => setForm({ ...form, rules: e.target.value })}
+            />
+          </label>
+          <div style={{ display: "flex", gap: 8 }}>
+            <button disabled={busy} onClick={saveSource}>
+              Speichern
+            </button>
+            <button disabled={busy} onClick={() => setEditId(null)}>
+              Abbrechen
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="card" style={{ marginTop: 12, overflowX: "auto" }}>
+        <div style={{ fontWeight: 800, marginBottom: 8 }}>Kommende Sperrungen</div>
+        <table style={{ width: "100%", borderCollapse: "collapse" }}>
+          <thead>
+            <tr style={{ textAlign: "left" }}>
+              <th style={cell}>Von</th>
+              <th style={cell}>Bis</th>
+              <th style={cell}>Platz</th>
+              <th style={cell}>Grund</th>
+              <th style={cell}>Kalender</th>
+              <th style={cell}></th>
+            </tr>
+          </thead>
+          <tbody>
+            {closures.map((c) => (
+              <tr key={`${c.id}-${c.start_at}`}>
+                <td style={cell}>{formatBerlin(c.start_at, { dateStyle: "short", timeStyle: "short" })}</td>
+                <td style={cell}>{formatBerlin(c.end_at, { dateStyle: "short", timeStyle: "short" })}</td>
+                <td style={cell}>{pitchName.get(c.pitch_id) ?? "?"}</td>
+                <td style={cell}>{closureLabel(c)}</td>
+                <td style={cell}>{c.source_id ? (sourceName.get(c.source_id) ?? "?") : "manuell"}</td>
+                <td style={cell}>
+                  {!c.source_id && (
+                    <button disabled={busy} onClick={() => deleteClosure(c)}>
+                      Löschen
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+            {closures.length === 0 && (
+              <tr>
+                <td colSpan={6} style={{ padding: 14, opacity: 0.8 }}>
+                  Keine kommenden Sperrungen.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,195 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { supabase } from "@/lib/supabaseClient";
+import { feedKey, feedUrl, FeedScope } from "@/lib/calendarFeeds";
+import { formatBerlin } from "@/lib/berlinTime";
+
+type Team = { id: string; name: string; age_u: number };
+type Pitch = { id: string; name: string };
+type FeedToken = { feed: string; token: string; created_at: string; last_used_at: string | null };
+
+const cell = { padding: 8, borderBottom: "1px solid rgba(255,255,255,0.08)" } as const;
+
+// Kalender-Abo: eigene Teams, Mannschaften und Plätze als ICS-Link fürs Handy (ein Schlüssel pro Link)
+export default function FeedsPage() {
+  const [sessionChecked, setSessionChecked] = useState(false);
+  const [userId, setUserId] = useState<string | null>(null);
+
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [pitches, setPitches] = useState<Pitch[]>([]);
+  const [feedTokens, setFeedTokens] = useState<Map<string, FeedToken>>(new Map());
+  const [origin, setOrigin] = useState("");
+
+  const [busyFeed, setBusyFeed] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState<string | null>(null);
+
+  useEffect(() => {
+    (async () => {
+      const { data } = await supabase.auth.getSession();
+      const session = data.session;
+      if (!session) {
+        window.location.href = "/login";
+        return;
+      }
+      setUserId(session.user.id);
+      setOrigin(window.location.origin);
+      setSessionChecked(true);
+    })();
+  }, []);
+
+  /** Token für einen Feed anlegen (gibt es ihn schon, bleibt er) oder erneuern. */
+  async function loadToken(feed: string, rotate = false) {
+    const { data, error } = await supabase.rpc("calendar_feed_token", { for_feed: feed, rotate });
+    if (error) throw error;
+    return data as FeedToken;
+  }
+
+  useEffect(() => {
+    if (!sessionChecked || !userId) return;
+    (async () => {
+      setError(null);
+      const [t, p, f] = await Promise.all([
+        supabase.from("teams").select("id,name,age_u").order("age_u").order("name"),
+        supabase.from("pitches").select("id,name").order("name"),
+        supabase.from("calendar_feed_tokens").select("feed,token,created_at,last_used_at"),
+      ]);
+      if (t.error) return setError(t.error.message);
+      if (p.error) return setError(p.error.message);
+      if (f.error) return setError(f.error.message);
+      setTeams((t.data ?? []) as Team[]);
+      setPitches((p.data ?? []) as Pitch[]);
+      setFeedTokens(new Map(((f.data ?? []) as FeedToken[]).map((ft) => [ft.feed, ft])));
+    })();
+  }, [sessionChecked, userId]);
+
+  /** Link erzeugen; rotate: neuer Token, die bisher verteilten Links dieses Feeds funktionieren nicht mehr. */
+  async function issueToken(feed: string, rotate = false) {
+    if (!userId) return;
+    if (rotate && !window.confirm("Neuen Link erzeugen? Bestehende Abos dieses Kalenders hören dann auf zu aktualisieren.")) {
+      return;
+    }
+
+    setBusyFeed(feed);
+    setError(null);
+    try {
+      const ft = await loadToken(feed, rotate);
+      setFeedTokens((m) => new Map(m).set(ft.feed, ft));
+    } catch (e) {
+      setError((e as { message?: string })?.message || "Abo-Link konnte nicht angelegt werden.");
+    } finally {
+      setBusyFeed(null);
+    }
+  }
+
+  async function copy(url: string) {
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopied(url);
+    } catch {
+      window.prompt("Link kopieren:", url);
+    }
+  }
+
+  function feedRow(label: string, scope: FeedScope, id?: string) {
+    const feed = feedKey(scope, id);
+    const ft = feedTokens.get(feed);
+    const busy = busyFeed === feed;
+
+    if (!ft) {
+      return (
+        <tr key={feed}>
+          <td style={cell}>{label}</td>
+          <td style={{ ...cell, whiteSpace: "nowrap" }}>
+            <button onClick={() => issueToken(feed)} disabled={busy}>
+              {busy ? "Erzeuge…" : "Link erzeugen"}
+            </button>
+          </td>
+        </tr>
+      );
+    }
+
+    const url = feedUrl(origin, scope, ft.token, id);
+    return (
+      <tr key={feed}>
+        <td style={cell}>
+          <div>{label}</div>
+          <div style={{ fontSize: 12, opacity: 0.7 }}>
+            Erzeugt {formatBerlin(ft.created_at, { dateStyle: "short" })}
+            {ft.last_used_at
+              ? ` • zuletzt abgerufen ${formatBerlin(ft.last_used_at, { dateStyle: "short", timeStyle: "short" })}`
+              : " • noch nie abgerufen"}
+          </div>
+        </td>
+        <td style={{ ...cell, whiteSpace: "nowrap" }}>
+          <button onClick={() => copy(url)} style={{ marginRight: 6 }}>
+            {copied === url ? "Kopiert ✓" : "Link kopieren"}
+          </button>
+          <a href={url.replace(/^https?:\/\//, "webcal://")} style={{ marginRight: 6 }}>
+            Abonnieren
+          </a>
+          <button onClick={() => issueToken(feed, true)} disabled={busy} title="Neuer Link, der alte hört auf zu funktionieren">
+            {busy ? "Erzeuge…" : "Neu"}
+          </button>
+        </td>
+      </tr>
+    );
+  }
+
+  if (!sessionChecked) return null;
+
+  return (
+    <div style={{ maxWidth: 900, margin: "24px auto", padding: 16 }}>
+      <div className="card" style={{ display: "flex", justifyContent: "space-between", gap: 12, alignItems: "center" }}>
+        <div>
+          <div style={{ fontSize: 18, fontWeight: 800 }}>Kalender-Abo</div>
+          <div style={{ opacity: 0.8, fontSize: 13 }}>
+            Genehmigte Trainings und Heimspiele im Handy-Kalender (iPhone, Android, Outlook)
+          </div>
+        </div>
+        <Link href="/calendar" style={{ padding: "8px 10px", borderRadius: 10, border: "1px solid #273243" }}>
+          ← Kalender
+        </Link>
+      </div>
+
+      {error && <p style={{ color: "crimson", marginTop: 12 }}>{error}</p>}
+
+      <div className="card" style={{ marginTop: 12, fontSize: 13, opacity: 0.85, display: "grid", gap: 6 }}>
+        <div>
+          Jeder Link hat einen eigenen Schlüssel und öffnet nur diesen einen Kalender – Team-Links nur an Trainer und
+          Eltern der Mannschaft weitergeben. „Neu“ sperrt den alten Link. Kalender-Apps aktualisieren Abos meist alle paar
+          Stunden.
+        </div>
+      </div>
+
+      <div className="card" style={{ marginTop: 12, overflowX: "auto" }}>
+        <table style={{ width: "100%", borderCollapse: "collapse" }}>
+          <tbody>
+            <tr>
+              <td colSpan={2} style={{ ...cell, fontWeight: 800 }}>
+                Persönlich
+              </td>
+            </tr>
+            {feedRow("Meine Teams (alle Mannschaften, die ich trainiere)", "me")}
+
+            <tr>
+              <td colSpan={2} style={{ ...cell, fontWeight: 800, paddingTop: 16 }}>
+                Mannschaften
+              </td>
+            </tr>
+            {teams.map((t) => feedRow(`${t.name} (U${t.age_u})`, "team", t.id))}
+
+            <tr>
+              <td colSpan={2} style={{ ...cell, fontWeight: 800, paddingTop: 16 }}>
+                Plätze
+              </td>
+            </tr>
+            {pitches.map((p) => feedRow(p.name, "pitch", p.id))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,335 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import { useSearchParams } from "next/navigation";
+import { supabase } from "@/lib/supabaseClient";
+import { isPitchSegment, PitchSegment, RulePitch, SEGMENT_LABELS, segmentsForPitch } from "@/lib/bookingRules";
+import { fetchAlternatives, ProposalPayload, validateBooking, violationsText } from "@/lib/bookingValidation";
+import type { Alternative } from "@/lib/conflictAssistant";
+import { fromLocalInput, toLocalInput } from "@/lib/recurrence";
+import { decisionText, needsDecisionReason } from "@/lib/decisionReasons";
+import { loadTrainerTeamIds } from "@/lib/trainerTeams";
+import AlternativesPanel from "@/components/AlternativesPanel";
+
+type Profile = { id: string; role: string | null };
+type Team = { id: string; name: string; age_u: number };
+
+type Booking = {
+  id: string;
+  created_by: string | null;
+  team_id: string;
+  pitch_id: string;
+  segment: string | null;
+  start_at: string;
+  end_at: string;
+  status: string;
+  decision_code: string | null;
+  decision_comment: string | null;
+};
+
+type BookingChange = {
+  id: string;
+  created_at: string;
+  created_by: string;
+  status: string;
+  reason: string | null;
+  old_pitch_id: string;
+  old_segment: string | null;
+  old_start_at: string;
+  old_end_at: string;
+  new_pitch_id: string;
+  new_segment: string | null;
+  new_start_at: string;
+  new_end_at: string;
+};
+
+const CHANGE_STATUS_LABELS: Record<string, string> = {
+  PENDING: "offen",
+  APPROVED: "übernommen",
+  REJECTED: "abgelehnt",
+  WITHDRAWN: "zurückgezogen",
+};
+
+function fmtDE(dt: string) {
+  return new Date(dt).toLocaleString("de-DE", { dateStyle: "short", timeStyle: "short", timeZone: "Europe/Berlin" });
+}
+
+export default function ChangeRequestClient() {
+  const searchParams = useSearchParams();
+  const bookingId = searchParams.get("id");
+
+  const [userId, setUserId] = useState<string | null>(null);
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [pitches, setPitches] = useState<RulePitch[]>([]);
+  const [team, setTeam] = useState<Team | null>(null);
+  const [booking, setBooking] = useState<Booking | null>(null);
+  const [changes, setChanges] = useState<BookingChange[]>([]);
+  const [myTeamIds, setMyTeamIds] = useState<string[]>([]);
+
+  const [pitchId, setPitchId] = useState("");
+  const [segment, setSegment] = useState<PitchSegment | "">("");
+  const [startAt, setStartAt] = useState("");
+  const [endAt, setEndAt] = useState("");
+  const [reason, setReason] = useState("");
+
+  const [error, setError] = useState<string | null>(null);
+  const [ok, setOk] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [alternatives, setAlternatives] = useState<Alternative[] | null>(null);
+
+  const isAdmin = (profile?.role || "TRAINER").toUpperCase() === "ADMIN";
+
+  async function loadChanges(id: string) {
+    const { data, error } = await supabase
+      .from("booking_changes")
+      .select(
+        "id,created_at,created_by,status,reason,old_pitch_id,old_segment,old_start_at,old_end_at,new_pitch_id,new_segment,new_start_at,new_end_at"
+      )
+      .eq("booking_id", id)
+      .order("created_at", { ascending: false });
+    if (error) setError(error.message);
+    else setChanges((data ?? []) as BookingChange[]);
+  }
+
+  useEffect(() => {
+    (async () => {
+      const { data } = await supabase.auth.getSession();
+      const session = data.session;
+      if (!session) {
+        window.location.href = "/login";
+        return;
+      }
+      setUserId(session.user.id);
+      if (!bookingId) {
+        setError("Keine Buchung angegeben.");
+        return;
+      }
+
+      const [prof, p, b, own] = await Promise.all([
+        supabase.from("profiles").select("id,role").eq("id", session.user.id).maybeSingle(),
+        supabase.from("pitches").select("id,name,type,capacity_units").order("name"),
+        supabase
+          .from("bookings")
+          .select("id,created_by,team_id,pitch_id,segment,start_at,end_at,status,decision_code,decision_comment")
+          .eq("id", bookingId)
+          .maybeSingle(),
+        loadTrainerTeamIds(supabase, session.user.id).catch((err) => {
+          console.error(err);
+          return [] as string[];
+        }),
+      ]);
+
+      setProfile((prof.data ?? null) as Profile | null);
+      setMyTeamIds(own);
+      if (p.error) return setError(p.error.message);
+      if (b.error) return setError(b.error.message);
+      if (!b.data) return setError("Buchung nicht gefunden.");
+
+      const bk = b.data as Booking;
+      setPitches((p.data ?? []) as RulePitch[]);
+      setBooking(bk);
+      setPitchId(bk.pitch_id);
+      setSegment(isPitchSegment(bk.segment) ? bk.segment : "");
+      setStartAt(toLocalInput(bk.start_at));
+      setEndAt(toLocalInput(bk.end_at));
+
+      const { data: t } = await supabase.from("teams").select("id,name,age_u").eq("id", bk.team_id).maybeSingle();
+      setTeam((t ?? null) as Team | null);
+
+      await loadChanges(bk.id);
+    })();
+  }, [bookingId]);
+
+  const pitchById = useMemo(() => new Map(pitches.map((p) => [p.id, p])), [pitches]);
+  const selectedPitch = pitchById.get(pitchId) ?? null;
+  const pending = changes.find((c) => c.status === "PENDING") ?? null;
+  const canPropose =
+    !!booking &&
+    (isAdmin || booking.created_by === userId || myTeamIds.includes(booking.team_id)) &&
+    ["REQUESTED", "APPROVED"].includes(booking.status);
+
+  function pitchText(id: string, seg: string | null) {
+    const name = pitchById.get(id)?.name ?? id;
+    return isPitchSegment(seg) ? `${name} (${SEGMENT_LABELS[seg]})` : name;
+  }
+
+  async function propose(slot: Pick<ProposalPayload, "pitch_id" | "segment" | "start_at" | "end_at">) {
+    if (!booking || !userId) return;
+    setError(null);
+    setOk(false);
+    setAlternatives(null);
+    setBusy(true);
+
+    try {
+      // ✅ neue Werte gegen die Platzregeln prüfen (die Buchung selbst zählt nicht als Konflikt)
+      const proposal: ProposalPayload = { id: booking.id, team_id: booking.team_id, ...slot };
+      const check = await validateBooking(proposal);
+      if (!check.ok) {
+        setError(violationsText(check.violations));
+        setAlternatives(await fetchAlternatives(proposal).catch(() => []));
+        return;
+      }
+
+      const { error } = await supabase.from("booking_changes").insert({
+        booking_id: booking.id,
+        created_by: userId,
+        reason: reason.trim() || null,
+        // old_* setzt die DB aus der Buchung (Trigger booking_changes_fill_old)
+        new_pitch_id: slot.pitch_id,
+        new_segment: slot.segment ?? null,
+        new_start_at: slot.start_at,
+        new_end_at: slot.end_at,
+      });
+      if (error) throw error;
+
+      setOk(true);
+      setReason("");
+      await loadChanges(booking.id);
+    } catch (e) {
+      console.error(e);
+      setError(e instanceof Error ? e.message : String((e as { message?: string })?.message || "Fehler beim Speichern."));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function submit(e: React.FormEvent) {
+    e.preventDefault();
+    const s = fromLocalInput(startAt);
+    const en = fromLocalInput(endAt);
+    if (!Number.isFinite(s.getTime()) || !Number.isFinite(en.getTime()) || en <= s) {
+      setError("Bitte gültige Start- und Endzeit wählen (Ende muss nach Start liegen).");
+      return;
+    }
+    await propose({ pitch_id: pitchId, segment: segment || null, start_at: s.toISOString(), end_at: en.toISOString() });
+  }
+
+  async function acceptAlternative(a: Alternative) {
+    setPitchId(a.pitch_id);
+    setSegment(a.segment ?? "");
+    setStartAt(toLocalInput(a.start_at));
+    setEndAt(toLocalInput(a.end_at));
+    await propose({ pitch_id: a.pitch_id, segment: a.segment, start_at: a.start_at, end_at: a.end_at });
+  }
+
+  async function withdraw(changeId: string) {
+    if (!booking) return;
+    const { error } = await supabase.from("booking_changes").update({ status: "WITHDRAWN" }).eq("id", changeId);
+    if (error) setError(error.message);
+    else await loadChanges(booking.id);
+  }
+
+  return (
+    <div style={{ maxWidth: 620, margin: "30px auto", padding: 16 }}>
+      <h1>Buchung ändern</h1>
+
+      {booking && (
+        <div className="card" style={{ display: "grid", gap: 4 }}>
+          <div style={{ fontWeight: 700 }}>{team ? `${team.name} (U${team.age_u})` : booking.team_id}</div>
+          <div>
+            Aktuell: {pitchText(booking.pitch_id, booking.segment)} • {fmtDE(booking.start_at)}–
+            {new Date(booking.end_at).toLocaleTimeString("de-DE", { hour: "2-digit", minute: "2-digit", timeZone: "Europe/Berlin" })}
+          </div>
+          <div style={{ opacity: 0.75, fontSize: 13 }}>
+            Status: {booking.status}. Die Buchung bleibt so bestehen, bis ein Admin die Änderung genehmigt.
+          </div>
+          {needsDecisionReason(booking.status) && booking.decision_code && (
+            <div style={{ color: "crimson" }}>Grund: {decisionText(booking.decision_code, booking.decision_comment)}</div>
+          )}
+        </div>
+      )}
+
+      {booking && canPropose && !pending && (
+        <form onSubmit={submit} style={{ display: "grid", gap: 10, marginTop: 12 }}>
+          <label>
+            Platz
+            <select
+              value={pitchId}
+              onChange={(e) => {
+                setPitchId(e.target.value);
+                setSegment("");
+              }}
+              required
+            >
+              {pitches.map((p) => (
+                <option key={p.id} value={p.id}>
+                  {p.name}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          {selectedPitch && segmentsForPitch(selectedPitch).length > 0 && (
+            <label>
+              Teilfläche
+              <select value={segment} onChange={(e) => setSegment(isPitchSegment(e.target.value) ? e.target.value : "")}>
+                <option value="">keine feste Teilfläche</option>
+                {segmentsForPitch(selectedPitch).map((seg) => (
+                  <option key={seg} value={seg}>
+                    {SEGMENT_LABELS[seg]}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+
+          <label>
+            Start
+            <input type="datetime-local" value={startAt} onChange={(e) => setStartAt(e.target.value)} step={1800} required />
+          </label>
+
+          <label>
+            Ende
+            <input type="datetime-local" value={endAt} onChange={(e) => setEndAt(e.target.value)} step={1800} required />
+          </label>
+
+          <label>
+            Grund
+            <textarea value={reason} onChange={(e) => setReason(e.target.value)} rows={2} />
+          </label>
+
+          <button type="submit" disabled={busy}>
+            Änderung beantragen
+          </button>
+        </form>
+      )}
+
+      {booking && !canPropose && (
+        <p style={{ opacity: 0.8 }}>Diese Buchung kannst du nicht ändern (nur eigene oder die deiner Teams, solange sie aktiv sind).</p>
+      )}
+
+      {ok && <p style={{ color: "green" }}>Änderung beantragt – wartet auf Genehmigung.</p>}
+      {error && <p style={{ color: "crimson", whiteSpace: "pre-line" }}>{error}</p>}
+      <AlternativesPanel alternatives={alternatives} busy={busy} acceptText="Stattdessen beantragen" onAccept={acceptAlternative} />
+
+      {changes.length > 0 && (
+        <div className="card" style={{ marginTop: 16, display: "grid", gap: 8 }}>
+          <div style={{ fontWeight: 700 }}>Änderungen</div>
+          {changes.map((c) => (
+            <div key={c.id} style={{ fontSize: 14, borderTop: "1px solid rgba(255,255,255,0.08)", paddingTop: 6 }}>
+              <div>
+                {fmtDE(c.created_at)} • {CHANGE_STATUS_LABELS[c.status] ?? c.status}
+                {c.status === "PENDING" && c.created_by === userId && (
+                  <button style={{ marginLeft: 8 }} onClick={() => withdraw(c.id)}>
+                    Zurückziehen
+                  </button>
+                )}
+              </div>
+              <div style={{ opacity: 0.8 }}>
+                alt: {pitchText(c.old_pitch_id, c.old_segment)} • {fmtDE(c.old_start_at)}–{fmtDE(c.old_end_at)}
+              </div>
+              <div>
+                neu: {pitchText(c.new_pitch_id, c.new_segment)} • {fmtDE(c.new_start_at)}–{fmtDE(c.new_end_at)}
+              </div>
+              {c.reason && <div style={{ opacity: 0.8 }}>Grund: {c.reason}</div>}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <p style={{ marginTop: 12 }}>
+        <a href="/calendar">← zurück zum Kalender</a>
+      </p>
+    </div>
+  );
+}
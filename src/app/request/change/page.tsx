@@ -0,0 +1,13 @@
+import { Suspense } from "react";
+import ChangeRequestClient from "./ChangeRequestClient";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+export default function ChangeRequestPage() {
+  return (
+    <Suspense fallback={<div style={{ maxWidth: 620, margin: "30px auto", padding: 16 }}>Lade Buchung…</div>}>
+      <ChangeRequestClient />
+    </Suspense>
+  );
+}
@@ -3,19 +3,69 @@
 import React, { useEffect, useMemo, useState } from "react";
 import { useSearchParams } from "next/navigation";
 import { supabase } from "@/lib/supabaseClient";
-
-type Pitch = { id: string; name: string };
+import {
+  fetchAlternatives,
+  isOverlapError,
+  ProposalPayload,
+  slotRuleErrorCode,
+  validateBooking,
+  violationsText,
+} from "@/lib/bookingValidation";
+import { createSeriesWithBookings, CreatedSeries } from "@/lib/bookingSeries";
+import {
+  BLOCKING_STATUSES,
+  isPitchSegment,
+  PitchSegment,
+  RuleBooking,
+  RuleClosure,
+  RulePitch,
+  SEGMENT_LABELS,
+  segmentsForPitch,
+  takenSegments,
+  WAITLISTABLE_CODES,
+} from "@/lib/bookingRules";
+import FieldMap from "@/components/FieldMap";
+import AlternativesPanel from "@/components/AlternativesPanel";
+import type { Alternative } from "@/lib/conflictAssistant";
+import { fromLocalInput, isoWeekday, toLocalInput, WEEKDAY_LABELS, Weekday } from "@/lib/recurrence";
+import { loadClosures } from "@/lib/closures";
+import { loadOpeningHours } from "@/lib/ruleData";
+import { fitsOpeningHours, hoursOnDayText, openingHoursText } from "@/lib/openingHours";
+import { berlinParts, formatBerlin } from "@/lib/berlinTime";
+import { civilDuskOn } from "@/lib/solar";
+import {
+  bookableTeams,
+  isTeamPermissionError,
+  loadTrainerTeamIds,
+  TEAM_PERMISSION_TEXT,
+} from "@/lib/trainerTeams";
+
+type Pitch = RulePitch;
 type Team = { id: string; name: string; age_u: number };
 
+type Slot = Pick<ProposalPayload, "pitch_id" | "segment" | "start_at" | "end_at">;
+
+type BookingTeam = { age_u: number | null; pitch_units: number | null };
+type PitchBookingRow = {
+  id: string;
+  pitch_id: string;
+  start_at: string;
+  end_at: string;
+  status: string;
+  segment: string | null;
+  team: BookingTeam | BookingTeam[] | null;
+};
+
 function addMinutesLocal(dtLocal: string, minutes: number) {
-  // dtLocal: "YYYY-MM-DDTHH:mm"
-  const d = new Date(dtLocal);
-  const out = new Date(d.getTime() + minutes * 60 * 1000);
-
-  const pad = (n: number) => String(n).padStart(2, "0");
-  return `${out.getFullYear()}-${pad(out.getMonth() + 1)}-${pad(out.getDate())}T${pad(out.getHours())}:${pad(
-    out.getMinutes()
-  )}`;
+  // dtLocal: "YYYY-MM-DDTHH:mm" (Vereinszeit)
+  const d = fromLocalInput(dtLocal);
+  if (!Number.isFinite(d.getTime())) return dtLocal;
+  return toLocalInput(new Date(d.getTime() + minutes * 60 * 1000).toISOString());
+}
+
+/** Kalender übergibt ISO-Zeitpunkte (mit Z/Offset), ältere Links schon "YYYY-MM-DDTHH:mm" */
+function paramToLocalInput(value: string) {
+  return /(?:z|[+-]\d{2}:?\d{2})$/i.test(value) ? toLocalInput(value) : value.slice(0, 16);
 }
 
 export default function NewRequestClient() {
@@ -24,13 +74,32 @@ export default function NewRequestClient() {
   const [pitches, setPitches] = useState<Pitch[]>([]);
   const [teams, setTeams] = useState<Team[]>([]);
   const [teamId, setTeamId] = useState("");
+  const [noTeams, setNoTeams] = useState(false);
   const [pitchId, setPitchId] = useState("");
+  const [segment, setSegment] = useState<PitchSegment | "">("");
+  const [pitchBookings, setPitchBookings] = useState<RuleBooking[]>([]);
+  const [pitchClosures, setPitchClosures] = useState<RuleClosure[]>([]);
   const [startAt, setStartAt] = useState("");
   const [endAt, setEndAt] = useState("");
   const [note, setNote] = useState("");
   const [error, setError] = useState<string | null>(null);
   const [ok, setOk] = useState(false);
 
+  // ✅ Trainingsserie (wöchentlich)
+  const [repeat, setRepeat] = useState(false);
+  const [weekdays, setWeekdays] = useState<Weekday[]>([]);
+  const [validTo, setValidTo] = useState("");
+  const [skipHolidays, setSkipHolidays] = useState(true);
+  const [seriesReport, setSeriesReport] = useState<string | null>(null);
+
+  // ✅ Konflikt-Assistent
+  const [alternatives, setAlternatives] = useState<Alternative[] | null>(null);
+  const [altLoading, setAltLoading] = useState(false);
+
+  // ✅ Warteliste (Slot belegt)
+  const [waitlist, setWaitlist] = useState<{ slot: Slot; blockerId: string } | null>(null);
+  const [waitlisted, setWaitlisted] = useState(false);
+
   // ✅ Return-to-calendar Link (zur richtigen View/Date zurück)
   const backHref = useMemo(() => {
     const returnView = searchParams.get("returnView") || "timeGridWeek";
@@ -52,8 +121,10 @@ export default function NewRequestClient() {
       }
 
       // ✅ Start/End aus Kalender übernehmen
-      const qsStart = searchParams.get("start"); // "YYYY-MM-DDTHH:mm"
-      const qsEnd = searchParams.get("end");
+      const qsStartRaw = searchParams.get("start");
+      const qsEndRaw = searchParams.get("end");
+      const qsStart = qsStartRaw ? paramToLocalInput(qsStartRaw) : null; // "YYYY-MM-DDTHH:mm"
+      const qsEnd = qsEndRaw ? paramToLocalInput(qsEndRaw) : null;
 
       if (qsStart) setStartAt(qsStart);
       if (qsEnd) setEndAt(qsEnd);
@@ -64,16 +135,33 @@ export default function NewRequestClient() {
       // Falls gar keine Zeit (z.B. Klick über +Antrag), optional default setzen:
       // (hier lassen wir es leer, du kannst aber auch "heute 12:00" setzen, wenn du willst)
 
-      const [p, t] = await Promise.all([
-        supabase.from("pitches").select("id,name").order("name"),
+      const userId = data.session.user.id;
+      const [p, t, hours, prof, ownTeamIds] = await Promise.all([
+        supabase.from("pitches").select("id,name,type,capacity_units,has_floodlight").order("name"),
         supabase.from("teams").select("id,name,age_u").order("age_u").order("name"),
+        loadOpeningHours(supabase).catch((err) => {
+          console.error(err);
+          return new Map();
+        }),
+        supabase.from("profiles").select("role").eq("id", userId).maybeSingle(),
+        loadTrainerTeamIds(supabase, userId).catch((err) => {
+          console.error(err);
+          return [] as string[];
+        }),
       ]);
 
       if (p.error) setError(p.error.message);
-      else setPitches(p.data ?? []);
+      else setPitches(((p.data ?? []) as Pitch[]).map((x) => ({ ...x, opening_hours: hours.get(x.id) ?? [] })));
 
+      // ✅ Trainer sehen nur ihre eigenen Teams (RLS prüft beim Speichern noch einmal)
       if (t.error) setError(t.error.message);
-      else setTeams(t.data ?? []);
+      else {
+        const isAdmin = ((prof.data as { role: string | null } | null)?.role || "TRAINER").toUpperCase() === "ADMIN";
+        const own = bookableTeams((t.data ?? []) as Team[], ownTeamIds, isAdmin);
+        setTeams(own);
+        setNoTeams(own.length === 0);
+        if (own.length === 1) setTeamId(own[0].id);
+      }
     })();
   }, [searchParams]);
 
@@ -86,17 +174,97 @@ export default function NewRequestClient() {
       return;
     }
 
-    const s = new Date(startAt).getTime();
-    const e = new Date(endAt).getTime();
+    const s = fromLocalInput(startAt).getTime();
+    const e = fromLocalInput(endAt).getTime();
     if (!Number.isFinite(s) || !Number.isFinite(e)) return;
 
     if (e <= s) setEndAt(addMinutesLocal(startAt, 30));
   }, [startAt]); // bewusst nur startAt
 
+  const selectedPitch = useMemo(() => pitches.find((p) => p.id === pitchId) ?? null, [pitches, pitchId]);
+  const pitchSegments = useMemo(() => (selectedPitch ? segmentsForPitch(selectedPitch) : []), [selectedPitch]);
+
+  // ✅ Belegung des gewählten Platzes im gewählten Zeitraum (für die Platz-Skizze) + Sperrungen
+  useEffect(() => {
+    if (!pitchId || !startAt || !endAt) return;
+    const s = fromLocalInput(startAt);
+    const e = fromLocalInput(endAt);
+    if (!Number.isFinite(s.getTime()) || !Number.isFinite(e.getTime()) || e <= s) return;
+
+    let cancelled = false;
+    (async () => {
+      try {
+        const closed = (await loadClosures(supabase, s, e)).get(pitchId) ?? [];
+        if (!cancelled) setPitchClosures(closed);
+      } catch (err) {
+        console.error(err);
+        if (!cancelled) setPitchClosures([]);
+      }
+
+      const { data, error } = await supabase
+        .from("bookings")
+        .select("id,pitch_id,start_at,end_at,status,segment,team:team_id(age_u,pitch_units)")
+        .eq("pitch_id", pitchId)
+        .in("status", [...BLOCKING_STATUSES])
+        .lt("start_at", e.toISOString())
+        .gt("end_at", s.toISOString());
+
+      if (cancelled) return;
+      if (error) {
+        console.error(error);
+        setPitchBookings([]);
+        return;
+      }
+
+      setPitchBookings(
+        ((data ?? []) as PitchBookingRow[]).map((b) => {
+          const t = Array.isArray(b.team) ? b.team[0] : b.team;
+          return {
+            id: b.id,
+            pitch_id: b.pitch_id,
+            start_at: b.start_at,
+            end_at: b.end_at,
+            status: b.status,
+            segment: isPitchSegment(b.segment) ? b.segment : null,
+            age_u: t?.age_u ?? null,
+            units: t?.pitch_units ?? null,
+          };
+        })
+      );
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [pitchId, startAt, endAt]);
+
+  // ✅ Öffnungszeiten (gleiche Regel wie in /api/bookings/validate)
+  const outsideHours = useMemo(() => {
+    if (!selectedPitch || !startAt || !endAt) return false;
+    const s = fromLocalInput(startAt);
+    const e = fromLocalInput(endAt);
+    if (!Number.isFinite(s.getTime()) || !Number.isFinite(e.getTime()) || e <= s) return false;
+    return !fitsOpeningHours(selectedPitch.opening_hours, s, e);
+  }, [selectedPitch, startAt, endAt]);
+
+  // ✅ Ohne Flutlicht nur bis zur Dämmerung (gleiche Regel wie in /api/bookings/validate)
+  const dusk = useMemo(() => {
+    if (selectedPitch?.has_floodlight !== false || !startAt) return null;
+    const s = fromLocalInput(startAt);
+    return Number.isFinite(s.getTime()) ? civilDuskOn(s) : null;
+  }, [selectedPitch, startAt]);
+  const afterDusk = !!dusk && !!endAt && fromLocalInput(endAt) > dusk;
+
+  const taken = useMemo(() => {
+    if (!selectedPitch || !startAt || !endAt) return [] as PitchSegment[];
+    return takenSegments(selectedPitch, fromLocalInput(startAt), fromLocalInput(endAt), pitchBookings);
+  }, [selectedPitch, startAt, endAt, pitchBookings]);
+
   async function submit(e: React.FormEvent) {
     e.preventDefault();
     setError(null);
     setOk(false);
+    setWaitlisted(false);
 
     const { data: s } = await supabase.auth.getSession();
     const userId = s.session?.user.id;
@@ -105,28 +273,208 @@ export default function NewRequestClient() {
       return;
     }
 
-    const sTime = new Date(startAt).getTime();
-    const eTime = new Date(endAt).getTime();
+    const sTime = fromLocalInput(startAt).getTime();
+    const eTime = fromLocalInput(endAt).getTime();
     if (!startAt || !endAt || !Number.isFinite(sTime) || !Number.isFinite(eTime) || eTime <= sTime) {
       setError("Bitte gültige Start- und Endzeit wählen (Ende muss nach Start liegen).");
       return;
     }
 
+    if (repeat) {
+      await submitSeries(userId);
+      return;
+    }
+
+    await saveSingle(userId, {
+      pitch_id: pitchId,
+      segment: segment || null,
+      start_at: fromLocalInput(startAt).toISOString(),
+      end_at: fromLocalInput(endAt).toISOString(),
+    });
+  }
+
+  async function saveSingle(userId: string, slot: Slot) {
+    setAlternatives(null);
+    setWaitlist(null);
+    const proposal: ProposalPayload = { team_id: teamId, ...slot };
+
+    // ✅ gleiche Platzregeln wie im BFV-Planer / beim Genehmigen
+    try {
+      const check = await validateBooking(proposal);
+      if (!check.ok) {
+        setError(violationsText(check.violations));
+        // nur belegt (nicht verboten) -> Warteliste anbieten; waitlist_for ist eine der blockierenden
+        // Buchungen, beim Nachrücken prüft promote_waitlist() den ganzen Slot
+        const blockerId = check.violations[0]?.conflictingBookingIds[0];
+        if (blockerId && check.violations.every((v) => WAITLISTABLE_CODES.includes(v.code))) {
+          setWaitlist({ slot, blockerId });
+        }
+        await loadAlternatives(proposal);
+        return;
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Regelprüfung fehlgeschlagen.");
+      return;
+    }
+
     const { error } = await supabase.from("bookings").insert({
       created_by: userId,
       team_id: teamId,
-      pitch_id: pitchId,
-      start_at: new Date(startAt).toISOString(),
-      end_at: new Date(endAt).toISOString(),
+      pitch_id: slot.pitch_id,
+      segment: slot.segment ?? null,
+      start_at: slot.start_at,
+      end_at: slot.end_at,
       note: note || null,
       status: "REQUESTED",
     });
 
-    if (error) setError(error.message);
-    else {
-      setOk(true);
-      setNote("");
+    if (error) {
+      const code = slotRuleErrorCode(error.message);
+      if (isOverlapError(error.message)) {
+        setError("Der Slot ist inzwischen belegt (Überschneidung).");
+        await loadAlternatives(proposal);
+      } else if (code) {
+        setError(`Der Slot verstößt gegen die Platzregeln (${code}).`);
+        await loadAlternatives(proposal);
+      } else {
+        setError(isTeamPermissionError(error.message) ? TEAM_PERMISSION_TEXT : error.message);
+      }
+      return;
     }
+
+    setOk(true);
+    setNote("");
+  }
+
+  // ✅ Warteliste: rückt automatisch nach, wenn die blockierende Buchung storniert/abgelehnt wird
+  async function joinWaitlist() {
+    if (!waitlist) return;
+    const { data: s } = await supabase.auth.getSession();
+    const userId = s.session?.user.id;
+    if (!userId) {
+      window.location.href = "/login";
+      return;
+    }
+
+    const { error } = await supabase.from("bookings").insert({
+      created_by: userId,
+      team_id: teamId,
+      pitch_id: waitlist.slot.pitch_id,
+      segment: waitlist.slot.segment ?? null,
+      start_at: waitlist.slot.start_at,
+      end_at: waitlist.slot.end_at,
+      note: note || null,
+      status: "WAITLISTED",
+      waitlist_for: waitlist.blockerId,
+      waitlisted_at: new Date().toISOString(),
+    });
+
+    if (error) {
+      setError(isTeamPermissionError(error.message) ? TEAM_PERMISSION_TEXT : error.message);
+      return;
+    }
+
+    setError(null);
+    setWaitlist(null);
+    setAlternatives(null);
+    setWaitlisted(true);
+    setNote("");
+  }
+
+  // ✅ Konflikt-Assistent: Alternativen vorschlagen
+  async function loadAlternatives(proposal: ProposalPayload) {
+    setAltLoading(true);
+    try {
+      setAlternatives(await fetchAlternatives(proposal));
+    } catch (err) {
+      console.error(err);
+      setAlternatives([]);
+    } finally {
+      setAltLoading(false);
+    }
+  }
+
+  // Ein Klick: Formular auf die Alternative setzen und direkt beantragen
+  async function acceptAlternative(a: Alternative) {
+    const { data: s } = await supabase.auth.getSession();
+    const userId = s.session?.user.id;
+    if (!userId) {
+      window.location.href = "/login";
+      return;
+    }
+
+    setError(null);
+    setOk(false);
+    setPitchId(a.pitch_id);
+    setSegment(a.segment ?? "");
+    setStartAt(toLocalInput(a.start_at));
+    setEndAt(toLocalInput(a.end_at));
+
+    await saveSingle(userId, { pitch_id: a.pitch_id, segment: a.segment, start_at: a.start_at, end_at: a.end_at });
+  }
+
+  // ✅ Serie: Serie anlegen + alle Termine als REQUESTED; kollidierende Termine werden gemeldet
+  async function submitSeries(userId: string) {
+    setSeriesReport(null);
+
+    if (startAt.slice(0, 10) !== endAt.slice(0, 10)) {
+      setError("Bei einer Serie müssen Start und Ende am selben Tag liegen.");
+      return;
+    }
+    if (weekdays.length === 0) {
+      setError("Bitte mindestens einen Wochentag wählen.");
+      return;
+    }
+    if (!validTo || validTo < startAt.slice(0, 10)) {
+      setError("Bitte ein Enddatum der Serie wählen (nach dem ersten Termin).");
+      return;
+    }
+
+    let result: CreatedSeries;
+    try {
+      result = await createSeriesWithBookings({
+        created_by: userId,
+        team_id: teamId,
+        pitch_id: pitchId,
+        segment: segment || null,
+        weekdays,
+        start_time: startAt.slice(11, 16),
+        end_time: endAt.slice(11, 16),
+        valid_from: startAt.slice(0, 10),
+        valid_to: validTo,
+        skip_school_holidays: skipHolidays,
+        note: note || null,
+      });
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String((err as { message?: string })?.message || "Fehler");
+      setError(isTeamPermissionError(msg) ? TEAM_PERMISSION_TEXT : msg);
+      return;
+    }
+
+    const { created, skipped, conflicts } = result;
+    if (created.length === 0) {
+      setError(
+        conflicts.length
+          ? `Alle ${conflicts.length} Termine kollidieren:\n${violationsText(conflicts[0].violations)}`
+          : "Die Serie enthält keine Termine (Wochentage / Zeitraum / Ferien prüfen)."
+      );
+      return;
+    }
+
+    const lines = [`Serie angelegt: ${created.length} Termine (Status: REQUESTED).`];
+    if (skipped.length) lines.push(`${skipped.length} Termine in den Schulferien ausgelassen.`);
+    if (conflicts.length) {
+      lines.push(`${conflicts.length} Termine kollidieren und wurden nicht angelegt (in der Serie verschiebbar):`);
+      for (const c of conflicts) {
+        lines.push(`• ${new Date(c.occurrence.start_at).toLocaleDateString("de-DE", { timeZone: "Europe/Berlin" })}: ${violationsText(c.violations)}`);
+      }
+    }
+    setSeriesReport(lines.join("\n"));
+    setNote("");
+  }
+
+  function toggleWeekday(d: Weekday) {
+    setWeekdays((cur) => (cur.includes(d) ? cur.filter((x) => x !== d) : [...cur, d].sort((a, b) => a - b)));
   }
 
   return (
@@ -148,9 +496,22 @@ export default function NewRequestClient() {
           </select>
         </label>
 
+        {noTeams && (
+          <div style={{ fontSize: 13, color: "crimson" }}>
+            Dir ist noch keine Mannschaft zugeordnet – bitte beim Admin melden.
+          </div>
+        )}
+
         <label>
           Platz
-          <select value={pitchId} onChange={(e) => setPitchId(e.target.value)} required>
+          <select
+            value={pitchId}
+            onChange={(e) => {
+              setPitchId(e.target.value);
+              setSegment("");
+            }}
+            required
+          >
             <option value="" disabled>
               Bitte wählen
             </option>
@@ -162,6 +523,33 @@ export default function NewRequestClient() {
           </select>
         </label>
 
+        {selectedPitch && pitchSegments.length > 0 && (
+          <div style={{ display: "grid", gap: 6 }}>
+            <label>
+              Teilfläche
+              <select
+                value={segment}
+                onChange={(e) => setSegment(isPitchSegment(e.target.value) ? e.target.value : "")}
+              >
+                <option value="">keine feste Teilfläche</option>
+                {pitchSegments.map((seg) => (
+                  <option key={seg} value={seg}>
+                    {SEGMENT_LABELS[seg]}
+                    {taken.includes(seg) ? " (belegt)" : ""}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <FieldMap
+              pitch={selectedPitch}
+              taken={pitchId && startAt && endAt ? taken : []}
+              selected={segment || null}
+              onSelect={(seg) => setSegment((cur) => (cur === seg ? "" : seg))}
+            />
+            <div style={{ opacity: 0.75, fontSize: 13 }}>Rot = im gewählten Zeitraum belegt, Blau = deine Auswahl.</div>
+          </div>
+        )}
+
         <label>
           Start
           <input
@@ -184,16 +572,121 @@ export default function NewRequestClient() {
           />
         </label>
 
+        {selectedPitch && openingHoursText(selectedPitch.opening_hours) && (
+          <div style={{ fontSize: 13, opacity: outsideHours ? 1 : 0.75, color: outsideHours ? "crimson" : undefined }}>
+            {outsideHours ? "Außerhalb der Öffnungszeiten – " : "Öffnungszeiten: "}
+            {startAt && Number.isFinite(fromLocalInput(startAt).getTime())
+              ? hoursOnDayText(selectedPitch.opening_hours ?? [], fromLocalInput(startAt))
+              : openingHoursText(selectedPitch.opening_hours)}
+          </div>
+        )}
+
+        {dusk && (
+          <div style={{ fontSize: 13, opacity: afterDusk ? 1 : 0.75, color: afterDusk ? "crimson" : undefined }}>
+            Kein Flutlicht – dunkel ab {berlinParts(dusk).hm} Uhr
+            {afterDusk ? ", bitte früher enden." : ""}
+          </div>
+        )}
+
+        {pitchId && startAt && endAt && pitchClosures.length > 0 && (
+          <div
+            style={{
+              padding: "8px 12px",
+              borderRadius: 10,
+              border: "1px solid rgba(239,68,68,0.45)",
+              background: "repeating-linear-gradient(135deg, rgba(239,68,68,0.22) 0 6px, rgba(239,68,68,0.06) 6px 12px)",
+            }}
+          >
+            <b>Platz im gewählten Zeitraum gesperrt</b>
+            {pitchClosures.map((c) => (
+              <div key={`${c.id}-${c.start_at}`} style={{ fontSize: 13 }}>
+                {formatBerlin(c.start_at, { dateStyle: "short", timeStyle: "short" })} –{" "}
+                {formatBerlin(c.end_at, { dateStyle: "short", timeStyle: "short" })}
+                {c.reason ? `: ${c.reason}` : ""}
+              </div>
+            ))}
+            {repeat && (
+              <div style={{ fontSize: 13, opacity: 0.8 }}>Gesperrte Serientermine werden beim Speichern gemeldet.</div>
+            )}
+          </div>
+        )}
+
+        <label style={{ display: "flex", gap: 8, alignItems: "center" }}>
+          <input
+            type="checkbox"
+            checked={repeat}
+            onChange={(e) => {
+              setRepeat(e.target.checked);
+              if (e.target.checked && weekdays.length === 0 && startAt) {
+                setWeekdays([isoWeekday(fromLocalInput(startAt))]);
+              }
+            }}
+          />
+          Wöchentlich wiederholen (Trainingsserie)
+        </label>
+
+        {repeat && (
+          <div style={{ display: "grid", gap: 8, paddingLeft: 12, borderLeft: "2px solid rgba(255,255,255,0.18)" }}>
+            <div style={{ display: "flex", gap: 10, flexWrap: "wrap" }}>
+              {([1, 2, 3, 4, 5, 6, 7] as Weekday[]).map((d) => (
+                <label key={d} style={{ display: "flex", gap: 4, alignItems: "center" }}>
+                  <input type="checkbox" checked={weekdays.includes(d)} onChange={() => toggleWeekday(d)} />
+                  {WEEKDAY_LABELS[d]}
+                </label>
+              ))}
+            </div>
+
+            <label>
+              Serie bis (einschließlich)
+              <input type="date" value={validTo} onChange={(e) => setValidTo(e.target.value)} required />
+            </label>
+
+            <label style={{ display: "flex", gap: 8, alignItems: "center" }}>
+              <input type="checkbox" checked={skipHolidays} onChange={(e) => setSkipHolidays(e.target.checked)} />
+              Schulferien auslassen
+            </label>
+
+            <div style={{ opacity: 0.75, fontSize: 13 }}>
+              Start/Ende oben geben Uhrzeit und ersten Termin vor. Einzelne Termine kannst du später unter
+              „Trainingsserien“ absagen oder verschieben.
+            </div>
+          </div>
+        )}
+
         <label>
           Notiz
           <textarea value={note} onChange={(e) => setNote(e.target.value)} rows={3} />
         </label>
 
-        <button type="submit">Antrag speichern</button>
+        <button type="submit" disabled={!repeat && (pitchClosures.length > 0 || outsideHours || afterDusk)}>
+          Antrag speichern
+        </button>
       </form>
 
       {ok && <p style={{ color: "green" }}>Antrag erstellt (Status: REQUESTED).</p>}
-      {error && <p style={{ color: "crimson" }}>{error}</p>}
+      {waitlisted && (
+        <p style={{ color: "green" }}>
+          Auf der Warteliste (Status: WAITLISTED). Wird der Slot frei, rückt der Antrag automatisch nach.
+        </p>
+      )}
+      {!repeat && waitlist && (
+        <p>
+          <button type="button" onClick={joinWaitlist}>
+            Auf Warteliste setzen
+          </button>{" "}
+          <span style={{ opacity: 0.75, fontSize: 13 }}>rückt nach, wenn die belegende Buchung wegfällt</span>
+        </p>
+      )}
+      {!repeat && (
+        <AlternativesPanel
+          alternatives={alternatives}
+          loading={altLoading}
+          acceptText="Stattdessen beantragen"
+          onAccept={acceptAlternative}
+        />
+      )}
+      {seriesReport && <p style={{ color: "green", whiteSpace: "pre-line" }}>{seriesReport}</p>}
+      {error && <p style={{ color: "crimson", whiteSpace: "pre-line" }}>{error}</p>}
 
       <p style={{ marginTop: 12 }}>
         <a href={backHref}>← zurück zum Kalender</a>
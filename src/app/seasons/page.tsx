@@ -0,0 +1,608 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { supabase } from "@/lib/supabaseClient";
+import { isPitchSegment, PitchSegment, RulePitch, SEGMENT_LABELS, segmentsForPitch } from "@/lib/bookingRules";
+import { violationsText } from "@/lib/bookingValidation";
+import { createSeriesWithBookings, loadSchoolHolidays } from "@/lib/bookingSeries";
+import { WEEKDAY_LABELS, Weekday } from "@/lib/recurrence";
+import {
+  ageLabel,
+  nextSeasonDates,
+  nextSeasonName,
+  planRollover,
+  RolloverRow,
+  RolloverTeam,
+  Season,
+  templateConflicts,
+  TemplateSlot,
+  weekdayOrder,
+  withConflicts,
+} from "@/lib/seasonRollover";
+
+type Profile = { id: string; full_name: string | null; role: string | null; active: boolean | null };
+type Team = RolloverTeam & { age_u: number };
+
+const WEEKDAYS: Weekday[] = [1, 2, 3, 4, 5, 6, 7];
+
+const CHANGE_LABELS: Record<RolloverRow["change"], string> = {
+  UNCHANGED: "unverändert",
+  AGE_SHIFTED: "Jahrgang +1",
+  PITCH_CHANGED: "Platz geändert",
+  NO_PITCH: "kein erlaubter Platz",
+};
+
+const cell = { padding: 8, borderBottom: "1px solid rgba(255,255,255,0.08)" } as const;
+
+function fmtDate(ymd: string) {
+  const [y, m, d] = ymd.split("-");
+  return `${d}.${m}.${y}`;
+}
+
+export default function SeasonsPage() {
+  const [sessionChecked, setSessionChecked] = useState(false);
+  const [userId, setUserId] = useState<string | null>(null);
+  const [profile, setProfile] = useState<Profile | null>(null);
+
+  const [pitches, setPitches] = useState<RulePitch[]>([]);
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [seasons, setSeasons] = useState<Season[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [slots, setSlots] = useState<TemplateSlot[]>([]);
+
+  // neue Saison
+  const [newName, setNewName] = useState("");
+  const [newFrom, setNewFrom] = useState("");
+  const [newTo, setNewTo] = useState("");
+
+  // neuer Slot
+  const [slotTeam, setSlotTeam] = useState("");
+  const [slotWeekday, setSlotWeekday] = useState<Weekday>(2);
+  const [slotPitch, setSlotPitch] = useState("");
+  const [slotSegment, setSlotSegment] = useState<PitchSegment | "">("");
+  const [slotStart, setSlotStart] = useState("17:00");
+  const [slotEnd, setSlotEnd] = useState("18:30");
+
+  // Rollover
+  const [rollName, setRollName] = useState("");
+  const [rollFrom, setRollFrom] = useState("");
+  const [rollTo, setRollTo] = useState("");
+  const [shiftAges, setShiftAges] = useState(true);
+  const [preview, setPreview] = useState<RolloverRow[] | null>(null);
+
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [report, setReport] = useState<string | null>(null);
+
+  const isAdmin = useMemo(() => (profile?.role || "TRAINER").toUpperCase() === "ADMIN", [profile]);
+
+  useEffect(() => {
+    (async () => {
+      const { data } = await supabase.auth.getSession();
+      const session = data.session;
+      if (!session) {
+        window.location.href = "/login";
+        return;
+      }
+      setUserId(session.user.id);
+
+      const { data: prof } = await supabase
+        .from("profiles")
+        .select("id,full_name,role,active")
+        .eq("id", session.user.id)
+        .maybeSingle();
+      setProfile((prof ?? null) as Profile | null);
+
+      setSessionChecked(true);
+    })();
+  }, []);
+
+  async function loadBase() {
+    setError(null);
+    const [p, t, s] = await Promise.all([
+      supabase.from("pitches").select("id,name,type,capacity_units").order("name"),
+      supabase.from("teams").select("id,name,age_u,pitch_units").order("age_u").order("name"),
+      supabase
+        .from("seasons")
+        .select("id,name,valid_from,valid_to,skip_school_holidays")
+        .order("valid_from", { ascending: false }),
+    ]);
+
+    if (p.error) return setError(p.error.message);
+    if (t.error) return setError(t.error.message);
+    if (s.error) return setError(s.error.message);
+
+    setPitches((p.data ?? []) as RulePitch[]);
+    setTeams((t.data ?? []) as Team[]);
+    setSeasons((s.data ?? []) as Season[]);
+  }
+
+  async function loadSlots(seasonId: string) {
+    const { data, error } = await supabase
+      .from("season_template_slots")
+      .select("id,team_id,pitch_id,segment,weekday,start_time,end_time,series_id")
+      .eq("season_id", seasonId);
+    if (error) return setError(error.message);
+    setSlots(
+      ((data ?? []) as TemplateSlot[])
+        .map((s) => ({ ...s, start_time: s.start_time.slice(0, 5), end_time: s.end_time.slice(0, 5) }))
+        .sort(weekdayOrder)
+    );
+  }
+
+  useEffect(() => {
+    if (!sessionChecked || !isAdmin) return;
+    (async () => {
+      await loadBase();
+    })();
+  }, [sessionChecked, isAdmin]);
+
+  const season = useMemo(() => seasons.find((s) => s.id === selectedId) ?? null, [seasons, selectedId]);
+
+  useEffect(() => {
+    if (!season) return;
+    (async () => {
+      await loadSlots(season.id);
+    })();
+  }, [season]);
+
+  const pitchById = useMemo(() => new Map(pitches.map((p) => [p.id, p])), [pitches]);
+  const teamById = useMemo(() => new Map(teams.map((t) => [t.id, t])), [teams]);
+  const slotConflicts = useMemo(() => templateConflicts(slots, teams, pitches), [slots, teams, pitches]);
+  const slotPitchObj = pitchById.get(slotPitch) ?? null;
+
+  function selectSeason(s: Season) {
+    setSelectedId(s.id);
+    setSlots([]);
+    setPreview(null);
+    setReport(null);
+    setRollName(nextSeasonName(s.name));
+    const next = nextSeasonDates(s);
+    setRollFrom(next.valid_from);
+    setRollTo(next.valid_to);
+  }
+
+  function pitchText(pitchId: string, segment: string | null) {
+    const name = pitchById.get(pitchId)?.name ?? pitchId;
+    return isPitchSegment(segment) ? `${name} (${SEGMENT_LABELS[segment]})` : name;
+  }
+
+  function teamText(teamId: string) {
+    const t = teamById.get(teamId);
+    return t ? `${t.name} (${ageLabel(t.age_u)})` : teamId;
+  }
+
+  async function withBusy(fn: () => Promise<void>) {
+    setError(null);
+    setReport(null);
+    setBusy(true);
+    try {
+      await fn();
+    } catch (e) {
+      console.error(e);
+      setError(e instanceof Error ? e.message : String((e as { message?: string })?.message || "Fehler"));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function createSeason() {
+    return withBusy(async () => {
+      if (!newName.trim() || !newFrom || !newTo || newTo < newFrom) throw new Error("Bitte Name und Zeitraum angeben.");
+      const { error } = await supabase
+        .from("seasons")
+        .insert({ name: newName.trim(), valid_from: newFrom, valid_to: newTo, skip_school_holidays: true });
+      if (error) throw error;
+      setNewName("");
+      await loadBase();
+    });
+  }
+
+  function addSlot() {
+    if (!season) return;
+    return withBusy(async () => {
+      if (!slotTeam || !slotPitch || slotEnd <= slotStart) throw new Error("Bitte Team, Platz und Zeit prüfen.");
+      const { error } = await supabase.from("season_template_slots").insert({
+        season_id: season.id,
+        team_id: slotTeam,
+        pitch_id: slotPitch,
+        segment: slotSegment || null,
+        weekday: slotWeekday,
+        start_time: slotStart,
+        end_time: slotEnd,
+      });
+      if (error) throw error;
+      await loadSlots(season.id);
+    });
+  }
+
+  function deleteSlot(id: string) {
+    if (!season) return;
+    return withBusy(async () => {
+      const { error } = await supabase.from("season_template_slots").delete().eq("id", id);
+      if (error) throw error;
+      await loadSlots(season.id);
+    });
+  }
+
+  /** Jeder noch nicht erzeugte Slot wird zu einer Serie mit genehmigten Terminen; Kollisionen werden gemeldet. */
+  async function generateBookings(target: Season, targetSlots: TemplateSlot[]) {
+    if (!userId) return;
+    const holidays = target.skip_school_holidays ? await loadSchoolHolidays(target.valid_from, target.valid_to) : [];
+    const lines: string[] = [];
+
+    for (const slot of targetSlots.filter((s) => !s.series_id)) {
+      const res = await createSeriesWithBookings(
+        {
+          created_by: userId,
+          team_id: slot.team_id,
+          pitch_id: slot.pitch_id,
+          segment: isPitchSegment(slot.segment) ? slot.segment : null,
+          weekdays: [slot.weekday],
+          start_time: slot.start_time,
+          end_time: slot.end_time,
+          valid_from: target.valid_from,
+          valid_to: target.valid_to,
+          skip_school_holidays: target.skip_school_holidays,
+          note: `Saison ${target.name}`,
+        },
+        "APPROVED",
+        holidays
+      );
+
+      const label = `${WEEKDAY_LABELS[slot.weekday as Weekday]} ${slot.start_time}–${slot.end_time} ${teamText(slot.team_id)}`;
+      lines.push(`${label}: ${res.created.length} Termine`);
+      for (const c of res.conflicts) {
+        lines.push(`  • ${new Date(c.occurrence.start_at).toLocaleDateString("de-DE", { timeZone: "Europe/Berlin" })}: ${violationsText(c.violations)}`);
+      }
+
+      if (res.seriesId && slot.id) {
+        const { error } = await supabase.from("season_template_slots").update({ series_id: res.seriesId }).eq("id", slot.id);
+        if (error) throw error;
+      }
+    }
+
+    setReport(lines.length ? lines.join("\n") : "Alle Slots sind bereits erzeugt.");
+  }
+
+  function generateSelected() {
+    if (!season) return;
+    return withBusy(async () => {
+      await generateBookings(season, slots);
+      await loadSlots(season.id);
+    });
+  }
+
+  function buildPreview() {
+    setPreview(planRollover(slots, teams, pitches, { shiftAges }));
+  }
+
+  function changePreviewPitch(index: number, pitchId: string) {
+    if (!preview) return;
+    const next = preview.map((r, i) => {
+      if (i !== index) return r;
+      const change: RolloverRow["change"] =
+        pitchId !== r.oldPitchId ? "PITCH_CHANGED" : r.newAgeU !== r.oldAgeU ? "AGE_SHIFTED" : "UNCHANGED";
+      return { ...r, slot: { ...r.slot, pitch_id: pitchId, segment: null }, change };
+    });
+    setPreview(withConflicts(next, pitches));
+  }
+
+  function confirmRollover() {
+    if (!season || !preview) return;
+    return withBusy(async () => {
+      if (!rollName.trim() || !rollFrom || !rollTo || rollTo < rollFrom) throw new Error("Bitte Name und Zeitraum angeben.");
+      if (preview.some((r) => r.change === "NO_PITCH")) throw new Error("Für mindestens ein Team gibt es keinen erlaubten Platz.");
+
+      const { data: created, error } = await supabase
+        .from("seasons")
+        .insert({
+          name: rollName.trim(),
+          valid_from: rollFrom,
+          valid_to: rollTo,
+          skip_school_holidays: season.skip_school_holidays,
+          previous_season_id: season.id,
+        })
+        .select("id,name,valid_from,valid_to,skip_school_holidays")
+        .single();
+      if (error || !created) throw error ?? new Error("Saison konnte nicht angelegt werden.");
+
+      const { error: slotErr } = await supabase.from("season_template_slots").insert(
+        preview.map((r) => ({
+          season_id: created.id,
+          team_id: r.slot.team_id,
+          pitch_id: r.slot.pitch_id,
+          segment: r.slot.segment,
+          weekday: r.slot.weekday,
+          start_time: r.slot.start_time,
+          end_time: r.slot.end_time,
+        }))
+      );
+      if (slotErr) throw slotErr;
+
+      // Jahrgang hochsetzen (age_u + 1, Anzeige über toULabel)
+      if (shiftAges) {
+        const shifted = new Map(preview.filter((r) => r.newAgeU != null).map((r) => [r.slot.team_id, r.newAgeU]));
+        for (const [teamId, ageU] of shifted) {
+          const { error: teamErr } = await supabase.from("teams").update({ age_u: ageU }).eq("id", teamId);
+          if (teamErr) throw teamErr;
+        }
+      }
+
+      setPreview(null);
+      await loadBase();
+      selectSeason(created as Season);
+      setReport(`Saison ${created.name} mit ${preview.length} Slots angelegt. Termine jetzt über „Buchungen erzeugen“ anlegen.`);
+    });
+  }
+
+  if (!sessionChecked) return null;
+
+  if (!isAdmin) {
+    return (
+      <div style={{ maxWidth: 720, margin: "24px auto", padding: 16 }}>
+        <p>Nur für Admins.</p>
+        <Link href="/calendar">← Kalender</Link>
+      </div>
+    );
+  }
+
+  return (
+    <div style={{ maxWidth: 1200, margin: "24px auto", padding: 16 }}>
+      <div className="card" style={{ display: "flex", justifyContent: "space-between", gap: 12, alignItems: "center" }}>
+        <div>
+          <div style={{ fontSize: 18, fontWeight: 800 }}>Saisonplanung</div>
+          <div style={{ opacity: 0.8, fontSize: 13 }}>Wochenplan je Saison, Übernahme in die nächste Saison</div>
+        </div>
+        <Link href="/calendar" style={{ padding: "8px 10px", borderRadius: 10, border: "1px solid #273243" }}>
+          ← Kalender
+        </Link>
+      </div>
+
+      {error && <p style={{ color: "crimson", marginTop: 12, whiteSpace: "pre-line" }}>{error}</p>}
+      {report && <p style={{ color: "green", marginTop: 12, whiteSpace: "pre-line" }}>{report}</p>}
+
+      <div style={{ display: "grid", gridTemplateColumns: "minmax(240px, 1fr) 3fr", gap: 16, marginTop: 12 }}>
+        <div className="card" style={{ display: "grid", gap: 8, alignContent: "start" }}>
+          {seasons.map((s) => (
+            <button
+              key={s.id}
+              onClick={() => selectSeason(s)}
+              style={{
+                textAlign: "left",
+                padding: 10,
+                borderRadius: 10,
+                border: s.id === selectedId ? "1px solid rgba(90,200,255,0.8)" : "1px solid rgba(255,255,255,0.12)",
+                background: "transparent",
+                color: "inherit",
+                cursor: "pointer",
+              }}
+            >
+              <div style={{ fontWeight: 700 }}>{s.name}</div>
+              <div style={{ opacity: 0.75, fontSize: 13 }}>
+                {fmtDate(s.valid_from)} – {fmtDate(s.valid_to)}
+              </div>
+            </button>
+          ))}
+
+          <div style={{ display: "grid", gap: 6, marginTop: 8 }}>
+            <div style={{ fontWeight: 700 }}>Neue Saison</div>
+            <input placeholder="z.B. 2026/27" value={newName} onChange={(e) => setNewName(e.target.value)} />
+            <input type="date" value={newFrom} onChange={(e) => setNewFrom(e.target.value)} />
+            <input type="date" value={newTo} onChange={(e) => setNewTo(e.target.value)} />
+            <button disabled={busy} onClick={createSeason}>
+              Anlegen
+            </button>
+          </div>
+        </div>
+
+        <div style={{ display: "grid", gap: 16, alignContent: "start" }}>
+          {!season ? (
+            <div className="card" style={{ opacity: 0.8 }}>
+              Saison links auswählen.
+            </div>
+          ) : (
+            <>
+              <div className="card" style={{ overflowX: "auto" }}>
+                <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", gap: 12 }}>
+                  <div style={{ fontWeight: 800 }}>Wochenplan {season.name}</div>
+                  <button disabled={busy || slots.every((s) => s.series_id)} onClick={generateSelected}>
+                    Buchungen erzeugen
+                  </button>
+                </div>
+
+                <table style={{ width: "100%", borderCollapse: "collapse", marginTop: 8 }}>
+                  <thead>
+                    <tr style={{ textAlign: "left" }}>
+                      <th style={cell}>Tag</th>
+                      <th style={cell}>Zeit</th>
+                      <th style={cell}>Team</th>
+                      <th style={cell}>Platz</th>
+                      <th style={cell}>Buchungen</th>
+                      <th style={cell}></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {slots.map((s, i) => (
+                      <tr key={s.id ?? i}>
+                        <td style={cell}>{WEEKDAY_LABELS[s.weekday as Weekday]}</td>
+                        <td style={cell}>
+                          {s.start_time}–{s.end_time}
+                        </td>
+                        <td style={cell}>{teamText(s.team_id)}</td>
+                        <td style={cell}>
+                          {pitchText(s.pitch_id, s.segment)}
+                          {slotConflicts[i]?.length > 0 && (
+                            <div style={{ color: "crimson", fontSize: 12, whiteSpace: "pre-line" }}>
+                              {slotConflicts[i].join("\n")}
+                            </div>
+                          )}
+                        </td>
+                        <td style={cell}>{s.series_id ? "erzeugt" : "—"}</td>
+                        <td style={cell}>
+                          {s.id && !s.series_id && (
+                            <button disabled={busy} onClick={() => deleteSlot(s.id as string)}>
+                              Entfernen
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                    {slots.length === 0 && (
+                      <tr>
+                        <td colSpan={6} style={{ padding: 14, opacity: 0.8 }}>
+                          Noch keine Slots.
+                        </td>
+                      </tr>
+                    )}
+                  </tbody>
+                </table>
+
+                <div style={{ display: "flex", gap: 8, flexWrap: "wrap", alignItems: "center", marginTop: 12 }}>
+                  <select value={slotWeekday} onChange={(e) => setSlotWeekday(Number(e.target.value) as Weekday)}>
+                    {WEEKDAYS.map((d) => (
+                      <option key={d} value={d}>
+                        {WEEKDAY_LABELS[d]}
+                      </option>
+                    ))}
+                  </select>
+                  <input type="time" value={slotStart} step={1800} onChange={(e) => setSlotStart(e.target.value)} />
+                  <input type="time" value={slotEnd} step={1800} onChange={(e) => setSlotEnd(e.target.value)} />
+                  <select value={slotTeam} onChange={(e) => setSlotTeam(e.target.value)}>
+                    <option value="">Team…</option>
+                    {teams.map((t) => (
+                      <option key={t.id} value={t.id}>
+                        {t.name} ({ageLabel(t.age_u)})
+                      </option>
+                    ))}
+                  </select>
+                  <select
+                    value={slotPitch}
+                    onChange={(e) => {
+                      setSlotPitch(e.target.value);
+                      setSlotSegment("");
+                    }}
+                  >
+                    <option value="">Platz…</option>
+                    {pitches.map((p) => (
+                      <option key={p.id} value={p.id}>
+                        {p.name}
+                      </option>
+                    ))}
+                  </select>
+                  {slotPitchObj && segmentsForPitch(slotPitchObj).length > 0 && (
+                    <select
+                      value={slotSegment}
+                      onChange={(e) => setSlotSegment(isPitchSegment(e.target.value) ? e.target.value : "")}
+                    >
+                      <option value="">keine feste Teilfläche</option>
+                      {segmentsForPitch(slotPitchObj).map((seg) => (
+                        <option key={seg} value={seg}>
+                          {SEGMENT_LABELS[seg]}
+                        </option>
+                      ))}
+                    </select>
+                  )}
+                  <button disabled={busy} onClick={addSlot}>
+                    + Slot
+                  </button>
+                </div>
+              </div>
+
+              <div className="card" style={{ overflowX: "auto" }}>
+                <div style={{ fontWeight: 800 }}>In nächste Saison übernehmen</div>
+                <div style={{ display: "flex", gap: 8, flexWrap: "wrap", alignItems: "center", marginTop: 8 }}>
+                  <input value={rollName} onChange={(e) => setRollName(e.target.value)} />
+                  <input type="date" value={rollFrom} onChange={(e) => setRollFrom(e.target.value)} />
+                  <input type="date" value={rollTo} onChange={(e) => setRollTo(e.target.value)} />
+                  <label style={{ display: "flex", gap: 6, alignItems: "center" }}>
+                    <input
+                      type="checkbox"
+                      checked={shiftAges}
+                      onChange={(e) => {
+                        setShiftAges(e.target.checked);
+                        setPreview(null);
+                      }}
+                    />
+                    Jahrgänge hochsetzen (+1)
+                  </label>
+                  <button disabled={busy || slots.length === 0} onClick={buildPreview}>
+                    Vorschau
+                  </button>
+                </div>
+
+                {preview && (
+                  <>
+                    <table style={{ width: "100%", borderCollapse: "collapse", marginTop: 12 }}>
+                      <thead>
+                        <tr style={{ textAlign: "left" }}>
+                          <th style={cell}>Tag / Zeit</th>
+                          <th style={cell}>Team</th>
+                          <th style={cell}>Jahrgang</th>
+                          <th style={cell}>Platz alt</th>
+                          <th style={cell}>Platz neu</th>
+                          <th style={cell}>Änderung</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {preview.map((r, i) => (
+                          <tr
+                            key={i}
+                            style={{
+                              background:
+                                r.change === "PITCH_CHANGED" || r.change === "NO_PITCH" || r.conflicts.length
+                                  ? "rgba(250, 204, 21, 0.08)"
+                                  : undefined,
+                            }}
+                          >
+                            <td style={cell}>
+                              {WEEKDAY_LABELS[r.slot.weekday as Weekday]} {r.slot.start_time}–{r.slot.end_time}
+                            </td>
+                            <td style={cell}>{r.team?.name ?? r.slot.team_id}</td>
+                            <td style={cell}>
+                              {ageLabel(r.oldAgeU)}
+                              {r.newAgeU !== r.oldAgeU ? ` → ${ageLabel(r.newAgeU)}` : ""}
+                            </td>
+                            <td style={cell}>{pitchText(r.oldPitchId, slots[i]?.segment ?? null)}</td>
+                            <td style={cell}>
+                              <select value={r.slot.pitch_id} onChange={(e) => changePreviewPitch(i, e.target.value)}>
+                                {pitches.map((p) => (
+                                  <option key={p.id} value={p.id}>
+                                    {p.name}
+                                  </option>
+                                ))}
+                              </select>
+                              {isPitchSegment(r.slot.segment) && ` (${SEGMENT_LABELS[r.slot.segment]})`}
+                              {r.conflicts.length > 0 && (
+                                <div style={{ color: "crimson", fontSize: 12, whiteSpace: "pre-line" }}>
+                                  {r.conflicts.join("\n")}
+                                </div>
+                              )}
+                            </td>
+                            <td style={cell}>{CHANGE_LABELS[r.change]}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+
+                    <div style={{ display: "flex", gap: 12, alignItems: "center", marginTop: 12, flexWrap: "wrap" }}>
+                      <div style={{ opacity: 0.8, fontSize: 13 }}>
+                        {preview.filter((r) => r.change === "PITCH_CHANGED").length} Platzwechsel •{" "}
+                        {preview.filter((r) => r.conflicts.length).length} Konflikte im Plan
+                        {shiftAges ? " • Jahrgänge der Teams werden beim Übernehmen sofort hochgesetzt" : ""}
+                      </div>
+                      <button disabled={busy} onClick={confirmRollover}>
+                        Saison {rollName} anlegen
+                      </button>
+                    </div>
+                  </>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
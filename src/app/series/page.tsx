@@ -0,0 +1,496 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { supabase } from "@/lib/supabaseClient";
+import { isPitchSegment, SEGMENT_LABELS } from "@/lib/bookingRules";
+import { validateBooking, violationsText } from "@/lib/bookingValidation";
+import { withAuditReason } from "@/lib/audit";
+import { decisionFields } from "@/lib/decisionReasons";
+import {
+  DateRange,
+  expandSeries,
+  fromLocalInput,
+  localDateTimeISO,
+  SeriesException,
+  SeriesRule,
+  seriesLabel,
+  toLocalInput,
+} from "@/lib/recurrence";
+
+type Profile = { id: string; full_name: string | null; role: string | null; active: boolean | null };
+type Pitch = { id: string; name: string };
+type Team = { id: string; name: string; age_u: number };
+
+type SeriesRow = SeriesRule & {
+  id: string;
+  created_by: string;
+  team_id: string;
+  pitch_id: string;
+  segment: string | null;
+  note: string | null;
+};
+
+type SeriesBooking = {
+  id: string;
+  series_date: string | null;
+  start_at: string;
+  end_at: string;
+  status: string;
+};
+
+type Moving = { date: string; start: string; end: string };
+
+function fmtDate(ymd: string) {
+  const [y, m, d] = ymd.split("-");
+  return `${d}.${m}.${y}`;
+}
+
+function fmtTime(iso: string) {
+  return new Date(iso).toLocaleTimeString("de-DE", { hour: "2-digit", minute: "2-digit", timeZone: "Europe/Berlin" });
+}
+
+function weekdayDE(ymd: string) {
+  const [y, m, d] = ymd.split("-").map((x) => parseInt(x, 10));
+  return new Date(y, m - 1, d).toLocaleDateString("de-DE", { weekday: "short" });
+}
+
+const cell = { padding: 8, borderBottom: "1px solid rgba(255,255,255,0.08)" } as const;
+
+export default function SeriesPage() {
+  const [sessionChecked, setSessionChecked] = useState(false);
+  const [userId, setUserId] = useState<string | null>(null);
+  const [profile, setProfile] = useState<Profile | null>(null);
+
+  const [pitches, setPitches] = useState<Pitch[]>([]);
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [series, setSeries] = useState<SeriesRow[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const [exceptions, setExceptions] = useState<SeriesException[]>([]);
+  const [holidays, setHolidays] = useState<DateRange[]>([]);
+  const [bookings, setBookings] = useState<SeriesBooking[]>([]);
+
+  const [moving, setMoving] = useState<Moving | null>(null);
+  const [busyDate, setBusyDate] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [info, setInfo] = useState<string | null>(null);
+
+  const isAdmin = useMemo(() => (profile?.role || "TRAINER").toUpperCase() === "ADMIN", [profile]);
+
+  useEffect(() => {
+    (async () => {
+      const { data } = await supabase.auth.getSession();
+      const session = data.session;
+      if (!session) {
+        window.location.href = "/login";
+        return;
+      }
+      setUserId(session.user.id);
+
+      const { data: prof } = await supabase
+        .from("profiles")
+        .select("id,full_name,role,active")
+        .eq("id", session.user.id)
+        .maybeSingle();
+      setProfile((prof ?? null) as Profile | null);
+
+      setSessionChecked(true);
+    })();
+  }, []);
+
+  async function loadSeries() {
+    setError(null);
+    const [p, t, s] = await Promise.all([
+      supabase.from("pitches").select("id,name").order("name"),
+      supabase.from("teams").select("id,name,age_u").order("age_u").order("name"),
+      supabase
+        .from("booking_series")
+        .select(
+          "id,created_by,team_id,pitch_id,segment,weekdays,start_time,end_time,valid_from,valid_to,skip_school_holidays,note"
+        )
+        .order("valid_from", { ascending: false }),
+    ]);
+
+    if (p.error) return setError(p.error.message);
+    if (t.error) return setError(t.error.message);
+    if (s.error) return setError(s.error.message);
+
+    setPitches((p.data ?? []) as Pitch[]);
+    setTeams((t.data ?? []) as Team[]);
+    setSeries((s.data ?? []) as SeriesRow[]);
+  }
+
+  async function loadDetail(s: SeriesRow) {
+    setError(null);
+    const [ex, hol, b] = await Promise.all([
+      supabase
+        .from("booking_series_exceptions")
+        .select("occurrence_date,action,new_start_at,new_end_at")
+        .eq("series_id", s.id),
+      supabase
+        .from("school_holidays")
+        .select("name,start_date,end_date")
+        .lte("start_date", s.valid_to)
+        .gte("end_date", s.valid_from),
+      supabase.from("bookings").select("id,series_date,start_at,end_at,status").eq("series_id", s.id),
+    ]);
+
+    if (ex.error) return setError(ex.error.message);
+    if (hol.error) return setError(hol.error.message);
+    if (b.error) return setError(b.error.message);
+
+    setExceptions((ex.data ?? []) as SeriesException[]);
+    setHolidays((hol.data ?? []) as DateRange[]);
+    setBookings((b.data ?? []) as SeriesBooking[]);
+  }
+
+  useEffect(() => {
+    if (!sessionChecked) return;
+    (async () => {
+      await loadSeries();
+    })();
+  }, [sessionChecked]);
+
+  const selected = useMemo(() => series.find((s) => s.id === selectedId) ?? null, [series, selectedId]);
+
+  useEffect(() => {
+    if (!selected) return;
+    (async () => {
+      await loadDetail(selected);
+    })();
+  }, [selected]);
+
+  const pitchById = useMemo(() => new Map(pitches.map((x) => [x.id, x.name])), [pitches]);
+  const teamById = useMemo(() => new Map(teams.map((x) => [x.id, x])), [teams]);
+  const visibleSeries = useMemo(
+    () => (isAdmin ? series : series.filter((s) => s.created_by === userId)),
+    [series, isAdmin, userId]
+  );
+
+  const canEdit = !!selected && (isAdmin || selected.created_by === userId);
+
+  // Alle Termine der Serie (inkl. ausgelassener), sortiert nach Originaldatum
+  const rows = useMemo(() => {
+    if (!selected) return [];
+    const { occurrences, skipped } = expandSeries(selected, exceptions, holidays);
+    const bookingByDate = new Map(bookings.filter((b) => b.series_date).map((b) => [b.series_date as string, b]));
+
+    return [
+      ...occurrences.map((o) => ({ date: o.date, occurrence: o, skipped: null, booking: bookingByDate.get(o.date) ?? null })),
+      ...skipped.map((s) => ({ date: s.date, occurrence: null, skipped: s, booking: bookingByDate.get(s.date) ?? null })),
+    ].sort((a, b) => a.date.localeCompare(b.date));
+  }, [selected, exceptions, holidays, bookings]);
+
+  function seriesTitle(s: SeriesRow) {
+    const team = teamById.get(s.team_id);
+    const pitchName = pitchById.get(s.pitch_id) ?? s.pitch_id;
+    const pitch = isPitchSegment(s.segment) ? `${pitchName} (${SEGMENT_LABELS[s.segment]})` : pitchName;
+    return `${team ? `${team.name} (U${team.age_u})` : s.team_id} • ${pitch} • ${seriesLabel(s)}`;
+  }
+
+  /** Termin zu neuen Zeiten (wieder) anlegen bzw. die vorhandene Buchung anpassen – immer mit Regelprüfung. */
+  async function upsertOccurrence(s: SeriesRow, date: string, startISO: string, endISO: string) {
+    const booking = bookings.find((b) => b.series_date === date) ?? null;
+
+    const check = await validateBooking({
+      id: booking?.id ?? null,
+      team_id: s.team_id,
+      pitch_id: s.pitch_id,
+      segment: isPitchSegment(s.segment) ? s.segment : null,
+      start_at: startISO,
+      end_at: endISO,
+    });
+    if (!check.ok) throw new Error(violationsText(check.violations));
+
+    if (booking) {
+      const { error } = await supabase
+        .from("bookings")
+        .update({ start_at: startISO, end_at: endISO, status: "REQUESTED", ...decisionFields("REQUESTED", null, userId) })
+        .eq("id", booking.id);
+      if (error) throw error;
+    } else {
+      const { error } = await supabase.from("bookings").insert({
+        created_by: s.created_by,
+        team_id: s.team_id,
+        pitch_id: s.pitch_id,
+        segment: s.segment,
+        start_at: startISO,
+        end_at: endISO,
+        note: s.note,
+        status: "REQUESTED",
+        series_id: s.id,
+        series_date: date,
+      });
+      if (error) throw error;
+    }
+  }
+
+  async function run(date: string, fn: () => Promise<void>, okText: string) {
+    if (!selected) return;
+    setError(null);
+    setInfo(null);
+    setBusyDate(date);
+    try {
+      await fn();
+      setInfo(okText);
+      setMoving(null);
+      await loadDetail(selected);
+    } catch (e) {
+      console.error(e);
+      setError(e instanceof Error ? e.message : "Fehler beim Speichern.");
+    } finally {
+      setBusyDate(null);
+    }
+  }
+
+  function cancelOccurrence(date: string) {
+    const s = selected;
+    if (!s) return;
+    return run(
+      date,
+      async () => {
+        const { error } = await supabase
+          .from("booking_series_exceptions")
+          .upsert({ series_id: s.id, occurrence_date: date, action: "CANCEL" }, { onConflict: "series_id,occurrence_date" });
+        if (error) throw error;
+
+        const booking = bookings.find((b) => b.series_date === date);
+        if (booking) {
+          const { error: bErr } = await withAuditReason(
+            supabase
+              .from("bookings")
+              .update({
+                status: "CANCELLED",
+                ...decisionFields("CANCELLED", { code: "SERIES_CANCELLED" }, userId),
+              })
+              .eq("id", booking.id),
+            "Serientermin abgesagt"
+          );
+          if (bErr) throw bErr;
+        }
+      },
+      `Termin am ${fmtDate(date)} abgesagt.`
+    );
+  }
+
+  function moveOccurrence(m: Moving) {
+    const s = selected;
+    if (!s) return;
+    return run(
+      m.date,
+      async () => {
+        const start = fromLocalInput(m.start);
+        const end = fromLocalInput(m.end);
+        if (!Number.isFinite(start.getTime()) || !(end > start)) throw new Error("Ende muss nach Start liegen.");
+        const startISO = start.toISOString();
+        const endISO = end.toISOString();
+
+        await upsertOccurrence(s, m.date, startISO, endISO);
+
+        const { error } = await supabase.from("booking_series_exceptions").upsert(
+          { series_id: s.id, occurrence_date: m.date, action: "MOVE", new_start_at: startISO, new_end_at: endISO },
+          { onConflict: "series_id,occurrence_date" }
+        );
+        if (error) throw error;
+      },
+      `Termin vom ${fmtDate(m.date)} verschoben (wieder angefragt).`
+    );
+  }
+
+  // Ausnahme entfernen -> Termin wieder zur Serienzeit
+  function restoreOccurrence(date: string) {
+    const s = selected;
+    if (!s) return;
+    return run(
+      date,
+      async () => {
+        const startISO = localDateTimeISO(date, s.start_time);
+        const endISO = localDateTimeISO(date, s.end_time);
+        if (!startISO || !endISO) throw new Error("Ungültige Serienzeit.");
+
+        await upsertOccurrence(s, date, startISO, endISO);
+
+        const { error } = await supabase
+          .from("booking_series_exceptions")
+          .delete()
+          .eq("series_id", s.id)
+          .eq("occurrence_date", date);
+        if (error) throw error;
+      },
+      `Termin am ${fmtDate(date)} wieder zur Serienzeit angefragt.`
+    );
+  }
+
+  if (!sessionChecked) return null;
+
+  return (
+    <div style={{ maxWidth: 1100, margin: "24px auto", padding: 16 }}>
+      <div className="card" style={{ display: "flex", justifyContent: "space-between", gap: 12, alignItems: "center" }}>
+        <div>
+          <div style={{ fontSize: 18, fontWeight: 800 }}>Trainingsserien</div>
+          <div style={{ opacity: 0.8, fontSize: 13 }}>
+            {isAdmin ? "Alle Serien" : "Deine Serien"} • einzelne Termine absagen oder verschieben
+          </div>
+        </div>
+
+        <div style={{ display: "flex", gap: 10 }}>
+          <Link href="/request/new" style={{ padding: "8px 10px", borderRadius: 10, border: "1px solid #273243" }}>
+            + Neue Serie
+          </Link>
+          <Link href="/calendar" style={{ padding: "8px 10px", borderRadius: 10, border: "1px solid #273243" }}>
+            ← Kalender
+          </Link>
+        </div>
+      </div>
+
+      {error && <p style={{ color: "crimson", marginTop: 12, whiteSpace: "pre-line" }}>{error}</p>}
+      {info && <p style={{ color: "green", marginTop: 12 }}>{info}</p>}
+
+      <div style={{ display: "grid", gridTemplateColumns: "minmax(260px, 1fr) 2fr", gap: 16, marginTop: 12 }}>
+        <div className="card" style={{ display: "grid", gap: 8, alignContent: "start" }}>
+          {visibleSeries.map((s) => (
+            <button
+              key={s.id}
+              onClick={() => {
+                setSelectedId(s.id);
+                setMoving(null);
+                setInfo(null);
+              }}
+              style={{
+                textAlign: "left",
+                padding: 10,
+                borderRadius: 10,
+                border: s.id === selectedId ? "1px solid rgba(90,200,255,0.8)" : "1px solid rgba(255,255,255,0.12)",
+                background: "transparent",
+                color: "inherit",
+                cursor: "pointer",
+              }}
+            >
+              <div style={{ fontWeight: 700 }}>{seriesTitle(s)}</div>
+              <div style={{ opacity: 0.75, fontSize: 13 }}>
+                {fmtDate(s.valid_from)} – {fmtDate(s.valid_to)}
+                {s.skip_school_holidays ? " • ohne Schulferien" : ""}
+              </div>
+            </button>
+          ))}
+          {visibleSeries.length === 0 && <div style={{ opacity: 0.8 }}>Keine Serien.</div>}
+        </div>
+
+        <div className="card" style={{ overflowX: "auto" }}>
+          {!selected ? (
+            <div style={{ opacity: 0.8 }}>Serie links auswählen.</div>
+          ) : (
+            <table style={{ width: "100%", borderCollapse: "collapse" }}>
+              <thead>
+                <tr style={{ textAlign: "left" }}>
+                  <th style={cell}>Datum</th>
+                  <th style={cell}>Zeit</th>
+                  <th style={cell}>Status</th>
+                  {canEdit && <th style={cell}>Aktion</th>}
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((r) => {
+                  const busy = busyDate === r.date;
+                  const isMoving = moving?.date === r.date;
+                  const status = r.skipped
+                    ? r.skipped.label
+                    : r.booking
+                      ? String(r.booking.status || "").toUpperCase()
+                      : "nicht angelegt (Konflikt)";
+
+                  return (
+                    <tr key={r.date} style={{ opacity: r.skipped ? 0.6 : 1 }}>
+                      <td style={cell}>
+                        {weekdayDE(r.date)} {fmtDate(r.date)}
+                      </td>
+                      <td style={cell}>
+                        {r.occurrence ? (
+                          <>
+                            {fmtTime(r.occurrence.start_at)}–{fmtTime(r.occurrence.end_at)}
+                            {r.occurrence.moved && (
+                              <span style={{ opacity: 0.75 }}>
+                                {" "}
+                                (verschoben auf {new Date(r.occurrence.start_at).toLocaleDateString("de-DE", { timeZone: "Europe/Berlin" })})
+                              </span>
+                            )}
+                          </>
+                        ) : (
+                          "—"
+                        )}
+                      </td>
+                      <td style={cell}>{status}</td>
+
+                      {canEdit && (
+                        <td style={cell}>
+                          {isMoving && moving ? (
+                            <div style={{ display: "flex", gap: 6, flexWrap: "wrap", alignItems: "center" }}>
+                              <input
+                                type="datetime-local"
+                                value={moving.start}
+                                step={1800}
+                                onChange={(e) => setMoving({ ...moving, start: e.target.value })}
+                              />
+                              <input
+                                type="datetime-local"
+                                value={moving.end}
+                                step={1800}
+                                onChange={(e) => setMoving({ ...moving, end: e.target.value })}
+                              />
+                              <button disabled={busy} onClick={() => moveOccurrence(moving)}>
+                                Speichern
+                              </button>
+                              <button disabled={busy} onClick={() => setMoving(null)}>
+                                Abbrechen
+                              </button>
+                            </div>
+                          ) : (
+                            <div style={{ display: "inline-flex", gap: 8, whiteSpace: "nowrap" }}>
+                              {r.occurrence && (
+                                <>
+                                  <button
+                                    disabled={busy}
+                                    onClick={() =>
+                                      setMoving({
+                                        date: r.date,
+                                        start: toLocalInput(r.occurrence!.start_at),
+                                        end: toLocalInput(r.occurrence!.end_at),
+                                      })
+                                    }
+                                  >
+                                    Verschieben
+                                  </button>
+                                  <button disabled={busy} onClick={() => cancelOccurrence(r.date)}>
+                                    Absagen
+                                  </button>
+                                </>
+                              )}
+                              {(r.skipped?.reason === "CANCELLED" || r.occurrence?.moved || (r.occurrence && !r.booking)) && (
+                                <button disabled={busy} onClick={() => restoreOccurrence(r.date)}>
+                                  {r.occurrence && !r.booking ? "Erneut anfragen" : "Zur Serienzeit"}
+                                </button>
+                              )}
+                            </div>
+                          )}
+                        </td>
+                      )}
+                    </tr>
+                  );
+                })}
+
+                {rows.length === 0 && (
+                  <tr>
+                    <td colSpan={canEdit ? 4 : 3} style={{ padding: 14, opacity: 0.8 }}>
+                      Keine Termine.
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,255 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { supabase } from "@/lib/supabaseClient";
+import { suggestTrainerTeams, TrainerTeam } from "@/lib/trainerTeams";
+
+type Profile = { id: string; role: string | null };
+type Trainer = { id: string; full_name: string | null; role: string | null; active: boolean | null };
+type Team = { id: string; name: string; age_u: number };
+type BookingOwner = { created_by: string | null; team_id: string | null };
+
+const cell = { padding: 8, borderBottom: "1px solid rgba(255,255,255,0.08)", verticalAlign: "top" } as const;
+
+const chip = {
+  display: "inline-flex",
+  gap: 6,
+  alignItems: "center",
+  padding: "2px 8px",
+  borderRadius: 999,
+  border: "1px solid rgba(255,255,255,0.18)",
+  fontSize: 13,
+} as const;
+
+// Trainer & Teams: für welche Mannschaften ein Trainer Anträge stellen darf (Admins: alle)
+export default function TrainersPage() {
+  const [sessionChecked, setSessionChecked] = useState(false);
+  const [profile, setProfile] = useState<Profile | null>(null);
+
+  const [trainers, setTrainers] = useState<Trainer[]>([]);
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [assignments, setAssignments] = useState<TrainerTeam[]>([]);
+  const [recentBookings, setRecentBookings] = useState<BookingOwner[]>([]);
+  const [showInactive, setShowInactive] = useState(false);
+
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isAdmin = useMemo(() => (profile?.role || "TRAINER").toUpperCase() === "ADMIN", [profile]);
+
+  useEffect(() => {
+    (async () => {
+      const { data } = await supabase.auth.getSession();
+      const session = data.session;
+      if (!session) {
+        window.location.href = "/login";
+        return;
+      }
+
+      const { data: prof } = await supabase.from("profiles").select("id,role").eq("id", session.user.id).maybeSingle();
+      setProfile((prof ?? null) as Profile | null);
+      setSessionChecked(true);
+    })();
+  }, []);
+
+  async function loadBase() {
+    setError(null);
+    // Vorschläge: wer im letzten Jahr für ein Team gebucht hat
+    const since = new Date();
+    since.setFullYear(since.getFullYear() - 1);
+
+    const [p, t, a, b] = await Promise.all([
+      supabase.from("profiles").select("id,full_name,role,active").order("full_name"),
+      supabase.from("teams").select("id,name,age_u").order("age_u").order("name"),
+      supabase.from("trainer_teams").select("user_id,team_id"),
+      supabase.from("bookings").select("created_by,team_id").gt("created_at", since.toISOString()),
+    ]);
+    if (p.error) return setError(p.error.message);
+    if (t.error) return setError(t.error.message);
+    if (a.error) return setError(a.error.message);
+    if (b.error) return setError(b.error.message);
+    setTrainers((p.data ?? []) as Trainer[]);
+    setTeams((t.data ?? []) as Team[]);
+    setAssignments((a.data ?? []) as TrainerTeam[]);
+    setRecentBookings((b.data ?? []) as BookingOwner[]);
+  }
+
+  useEffect(() => {
+    if (!sessionChecked || !isAdmin) return;
+    (async () => {
+      await loadBase();
+    })();
+  }, [sessionChecked, isAdmin]);
+
+  const teamById = useMemo(() => new Map(teams.map((t) => [t.id, t])), [teams]);
+
+  const teamIdsByTrainer = useMemo(() => {
+    const m = new Map<string, string[]>();
+    for (const a of assignments) m.set(a.user_id, [...(m.get(a.user_id) ?? []), a.team_id]);
+    return m;
+  }, [assignments]);
+
+  const suggestionsByTrainer = useMemo(() => {
+    const m = new Map<string, { team_id: string; bookings: number }[]>();
+    for (const s of suggestTrainerTeams(recentBookings, assignments)) {
+      m.set(s.user_id, [...(m.get(s.user_id) ?? []), s]);
+    }
+    return m;
+  }, [recentBookings, assignments]);
+
+  // Admins dürfen ohnehin für alle Teams buchen
+  const visibleTrainers = trainers.filter(
+    (t) => (t.role || "TRAINER").toUpperCase() !== "ADMIN" && (showInactive || t.active !== false)
+  );
+  const teamsWithoutTrainer = teams.filter((t) => !assignments.some((a) => a.team_id === t.id));
+
+  async function withBusy(fn: () => Promise<void>) {
+    setError(null);
+    setBusy(true);
+    try {
+      await fn();
+      await loadBase();
+    } catch (e) {
+      console.error(e);
+      setError(e instanceof Error ? e.message : String((e as { message?: string })?.message || "Fehler"));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function assign(userId: string, teamId: string) {
+    if (!teamId) return;
+    return withBusy(async () => {
+      const { error } = await supabase.from("trainer_teams").insert({ user_id: userId, team_id: teamId });
+      if (error) throw error;
+    });
+  }
+
+  function unassign(userId: string, teamId: string) {
+    return withBusy(async () => {
+      const { error } = await supabase.from("trainer_teams").delete().eq("user_id", userId).eq("team_id", teamId);
+      if (error) throw error;
+    });
+  }
+
+  if (!sessionChecked) return null;
+
+  if (!isAdmin) {
+    return (
+      <div style={{ maxWidth: 720, margin: "24px auto", padding: 16 }}>
+        <p>Nur für Admins.</p>
+        <Link href="/calendar">← Kalender</Link>
+      </div>
+    );
+  }
+
+  return (
+    <div style={{ maxWidth: 1200, margin: "24px auto", padding: 16 }}>
+      <div className="card" style={{ display: "flex", justifyContent: "space-between", gap: 12, alignItems: "center" }}>
+        <div>
+          <div style={{ fontSize: 18, fontWeight: 800 }}>Trainer &amp; Teams</div>
+          <div style={{ opacity: 0.8, fontSize: 13 }}>
+            Trainer können nur für die hier zugeordneten Mannschaften Anträge stellen; Admins für alle. Vorschläge
+            (wer im letzten Jahr für ein Team gebucht hat) gelten erst, wenn du sie übernimmst.
+          </div>
+        </div>
+        <Link href="/calendar" style={{ padding: "8px 10px", borderRadius: 10, border: "1px solid #273243" }}>
+          ← Kalender
+        </Link>
+      </div>
+
+      {error && <p style={{ color: "crimson", marginTop: 12, whiteSpace: "pre-line" }}>{error}</p>}
+
+      {teamsWithoutTrainer.length > 0 && (
+        <div className="card" style={{ marginTop: 12, fontSize: 13, color: "rgba(250,204,21,0.95)" }}>
+          Ohne Trainer: {teamsWithoutTrainer.map((t) => t.name).join(", ")} – für diese Teams können nur Admins buchen.
+        </div>
+      )}
+
+      <div className="card" style={{ marginTop: 12, overflowX: "auto" }}>
+        <label style={{ display: "flex", gap: 8, alignItems: "center", fontSize: 13, marginBottom: 8 }}>
+          <input type="checkbox" checked={showInactive} onChange={(e) => setShowInactive(e.target.checked)} />
+          Inaktive Nutzer anzeigen
+        </label>
+        <table style={{ width: "100%", borderCollapse: "collapse" }}>
+          <thead>
+            <tr style={{ textAlign: "left" }}>
+              <th style={cell}>Trainer</th>
+              <th style={cell}>Teams</th>
+              <th style={cell}></th>
+            </tr>
+          </thead>
+          <tbody>
+            {visibleTrainers.map((tr) => {
+              const own = teamIdsByTrainer.get(tr.id) ?? [];
+              const free = teams.filter((t) => !own.includes(t.id));
+              const suggested = (suggestionsByTrainer.get(tr.id) ?? []).filter((s) => teamById.has(s.team_id));
+              return (
+                <tr key={tr.id} style={{ opacity: tr.active === false ? 0.55 : 1 }}>
+                  <td style={cell}>
+                    <div style={{ fontWeight: 700 }}>{tr.full_name || "—"}</div>
+                    {tr.active === false && <div style={{ fontSize: 12, opacity: 0.8 }}>inaktiv</div>}
+                  </td>
+                  <td style={cell}>
+                    <div style={{ display: "flex", gap: 6, flexWrap: "wrap" }}>
+                      {own.length === 0 && <span style={{ opacity: 0.7 }}>keine – kann keine Anträge stellen</span>}
+                      {own.map((teamId) => (
+                        <span key={teamId} style={chip}>
+                          {teamById.get(teamId)?.name ?? "Team"}
+                          <button
+                            disabled={busy}
+                            onClick={() => unassign(tr.id, teamId)}
+                            title="Zuordnung entfernen"
+                            style={{ padding: 0, border: "none", background: "transparent", cursor: "pointer" }}
+                          >
+                            ×
+                          </button>
+                        </span>
+                      ))}
+                    </div>
+                    {suggested.length > 0 && (
+                      <div style={{ display: "flex", gap: 6, flexWrap: "wrap", marginTop: 6, fontSize: 12 }}>
+                        <span style={{ opacity: 0.7 }}>Vorschläge:</span>
+                        {suggested.map((sg) => (
+                          <span key={sg.team_id} style={{ ...chip, borderStyle: "dashed", fontSize: 12 }}>
+                            {teamById.get(sg.team_id)?.name} ({sg.bookings} Buchungen)
+                            <button
+                              disabled={busy}
+                              onClick={() => assign(tr.id, sg.team_id)}
+                              title="Vorschlag übernehmen"
+                              style={{ padding: 0, border: "none", background: "transparent", cursor: "pointer" }}
+                            >
+                              übernehmen
+                            </button>
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                  </td>
+                  <td style={{ ...cell, whiteSpace: "nowrap" }}>
+                    <select value="" disabled={busy || !free.length} onChange={(e) => assign(tr.id, e.target.value)}>
+                      <option value="">+ Team zuordnen</option>
+                      {free.map((t) => (
+                        <option key={t.id} value={t.id}>
+                          {t.name} (U{t.age_u})
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                </tr>
+              );
+            })}
+            {visibleTrainers.length === 0 && (
+              <tr>
+                <td style={cell} colSpan={3}>
+                  Keine Trainer.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
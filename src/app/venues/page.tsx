@@ -0,0 +1,459 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { supabase } from "@/lib/supabaseClient";
+import { matchVenue, Venue, VENUE_COLUMNS } from "@/lib/venues";
+import { loadOpeningHours } from "@/lib/ruleData";
+import { dayHoursText, OpeningWindow, openingHoursText, parseDayHours } from "@/lib/openingHours";
+import { WEEKDAY_LABELS, Weekday } from "@/lib/recurrence";
+
+type Profile = { id: string; role: string | null };
+type Pitch = { id: string; name: string; venue_id: string | null; has_floodlight: boolean };
+
+type VenueForm = { name: string; address: string; aliases: string };
+
+const EMPTY_FORM: VenueForm = { name: "", address: "", aliases: "" };
+
+const WEEKDAYS: Weekday[] = [1, 2, 3, 4, 5, 6, 7];
+
+/** Eingabe je Wochentag, "" = geschlossen */
+type HoursForm = { restricted: boolean; days: Record<number, string> };
+
+function toHoursForm(windows: OpeningWindow[]): HoursForm {
+  const days: Record<number, string> = {};
+  for (const d of WEEKDAYS) {
+    const text = dayHoursText(windows, d);
+    days[d] = text === "geschlossen" ? "" : text;
+  }
+  return { restricted: windows.length > 0, days };
+}
+
+const cell = { padding: 8, borderBottom: "1px solid rgba(255,255,255,0.08)", verticalAlign: "top" } as const;
+
+function parseAliases(s: string) {
+  return Array.from(new Set(s.split(",").map((a) => a.trim()).filter(Boolean)));
+}
+
+function toForm(v: Venue): VenueForm {
+  return { name: v.name, address: v.address ?? "", aliases: v.aliases.join(", ") };
+}
+
+// Spielorte: Anlagen, an denen BFV-Spiele als Heimspiele gelten, und ihre Plätze
+export default function VenuesPage() {
+  const [sessionChecked, setSessionChecked] = useState(false);
+  const [profile, setProfile] = useState<Profile | null>(null);
+
+  const [venues, setVenues] = useState<Venue[]>([]);
+  const [pitches, setPitches] = useState<Pitch[]>([]);
+
+  const [editId, setEditId] = useState<string | null>(null);
+  const [form, setForm] = useState<VenueForm>(EMPTY_FORM);
+  const [newForm, setNewForm] = useState<VenueForm>(EMPTY_FORM);
+  const [testLocation, setTestLocation] = useState("");
+
+  const [openingHours, setOpeningHours] = useState<Map<string, OpeningWindow[]>>(new Map());
+  const [hoursPitchId, setHoursPitchId] = useState("");
+  const [hoursForm, setHoursForm] = useState<HoursForm>(toHoursForm([]));
+
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isAdmin = useMemo(() => (profile?.role || "TRAINER").toUpperCase() === "ADMIN", [profile]);
+
+  useEffect(() => {
+    (async () => {
+      const { data } = await supabase.auth.getSession();
+      const session = data.session;
+      if (!session) {
+        window.location.href = "/login";
+        return;
+      }
+
+      const { data: prof } = await supabase.from("profiles").select("id,role").eq("id", session.user.id).maybeSingle();
+      setProfile((prof ?? null) as Profile | null);
+      setSessionChecked(true);
+    })();
+  }, []);
+
+  async function loadBase() {
+    setError(null);
+    const [v, p] = await Promise.all([
+      supabase.from("venues").select(VENUE_COLUMNS).order("name"),
+      supabase.from("pitches").select("id,name,venue_id,has_floodlight").order("name"),
+    ]);
+    if (v.error) return setError(v.error.message);
+    if (p.error) return setError(p.error.message);
+    setVenues(((v.data ?? []) as Venue[]).map((x) => ({ ...x, aliases: x.aliases ?? [] })));
+    setPitches((p.data ?? []) as Pitch[]);
+
+    try {
+      setOpeningHours(await loadOpeningHours(supabase));
+    } catch (e) {
+      setError((e as { message?: string })?.message || "Öffnungszeiten konnten nicht geladen werden.");
+    }
+  }
+
+  useEffect(() => {
+    if (!sessionChecked || !isAdmin) return;
+    (async () => {
+      await loadBase();
+    })();
+  }, [sessionChecked, isAdmin]);
+
+  const testMatch = useMemo(() => (testLocation.trim() ? matchVenue(testLocation, venues) : null), [testLocation, venues]);
+  const unassigned = pitches.filter((p) => !p.venue_id);
+
+  async function withBusy(fn: () => Promise<void>) {
+    setError(null);
+    setBusy(true);
+    try {
+      await fn();
+      await loadBase();
+    } catch (e) {
+      console.error(e);
+      setError(e instanceof Error ? e.message : String((e as { message?: string })?.message || "Fehler"));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function createVenue() {
+    return withBusy(async () => {
+      if (!newForm.name.trim()) throw new Error("Bitte einen Namen angeben.");
+      const { error } = await supabase.from("venues").insert({
+        name: newForm.name.trim(),
+        address: newForm.address.trim() || null,
+        aliases: parseAliases(newForm.aliases),
+        is_default: venues.length === 0,
+      });
+      if (error) throw error;
+      setNewForm(EMPTY_FORM);
+    });
+  }
+
+  function saveVenue(id: string) {
+    return withBusy(async () => {
+      if (!form.name.trim()) throw new Error("Bitte einen Namen angeben.");
+      const { error } = await supabase
+        .from("venues")
+        .update({ name: form.name.trim(), address: form.address.trim() || null, aliases: parseAliases(form.aliases) })
+        .eq("id", id);
+      if (error) throw error;
+      setEditId(null);
+    });
+  }
+
+  function setActive(v: Venue, active: boolean) {
+    return withBusy(async () => {
+      const { error } = await supabase.from("venues").update({ active }).eq("id", v.id);
+      if (error) throw error;
+    });
+  }
+
+  /** Standard-Anlage (Kinderfestivals ohne Ort im BFV-ICS); höchstens eine, siehe venues_one_default */
+  function makeDefault(v: Venue) {
+    return withBusy(async () => {
+      const { error: clearErr } = await supabase.from("venues").update({ is_default: false }).eq("is_default", true);
+      if (clearErr) throw clearErr;
+      const { error } = await supabase.from("venues").update({ is_default: true }).eq("id", v.id);
+      if (error) throw error;
+    });
+  }
+
+  function assignPitch(pitchId: string, venueId: string) {
+    return withBusy(async () => {
+      const { error } = await supabase
+        .from("pitches")
+        .update({ venue_id: venueId || null })
+        .eq("id", pitchId);
+      if (error) throw error;
+    });
+  }
+
+  /** Ohne Flutlicht nimmt die Buchungsprüfung nur Zeiten bis zur Dämmerung an (src/lib/solar.ts). */
+  function setFloodlight(pitchId: string, hasFloodlight: boolean) {
+    return withBusy(async () => {
+      const { error } = await supabase.from("pitches").update({ has_floodlight: hasFloodlight }).eq("id", pitchId);
+      if (error) throw error;
+    });
+  }
+
+  function pickHoursPitch(pitchId: string) {
+    setHoursPitchId(pitchId);
+    setHoursForm(toHoursForm(openingHours.get(pitchId) ?? []));
+  }
+
+  /** Öffnungszeiten eines Platzes komplett ersetzen (ohne Einschränkung = keine Zeilen). */
+  function saveOpeningHours() {
+    return withBusy(async () => {
+      if (!hoursPitchId) throw new Error("Bitte einen Platz wählen.");
+      const rows = hoursForm.restricted
+        ? WEEKDAYS.flatMap((d) => parseDayHours(hoursForm.days[d] ?? "", d))
+        : [];
+      if (hoursForm.restricted && !rows.length) throw new Error("Mindestens ein Tag braucht Öffnungszeiten.");
+
+      const { error: delErr } = await supabase.from("pitch_opening_hours").delete().eq("pitch_id", hoursPitchId);
+      if (delErr) throw delErr;
+      if (rows.length) {
+        const { error } = await supabase
+          .from("pitch_opening_hours")
+          .insert(rows.map((r) => ({ ...r, pitch_id: hoursPitchId })));
+        if (error) throw error;
+      }
+    });
+  }
+
+  if (!sessionChecked) return null;
+
+  if (!isAdmin) {
+    return (
+      <div style={{ maxWidth: 720, margin: "24px auto", padding: 16 }}>
+        <p>Nur für Admins.</p>
+        <Link href="/calendar">← Kalender</Link>
+      </div>
+    );
+  }
+
+  return (
+    <div style={{ maxWidth: 1200, margin: "24px auto", padding: 16 }}>
+      <div className="card" style={{ display: "flex", justifyContent: "space-between", gap: 12, alignItems: "center" }}>
+        <div>
+          <div style={{ fontSize: 18, fontWeight: 800 }}>Spielorte</div>
+          <div style={{ opacity: 0.8, fontSize: 13 }}>
+            BFV-Spiele an diesen Anlagen gelten als Heimspiele und werden auf deren Plätzen geplant; Öffnungszeiten je
+            Platz
+          </div>
+        </div>
+        <Link href="/calendar" style={{ padding: "8px 10px", borderRadius: 10, border: "1px solid #273243" }}>
+          ← Kalender
+        </Link>
+      </div>
+
+      {error && <p style={{ color: "crimson", marginTop: 12, whiteSpace: "pre-line" }}>{error}</p>}
+
+      <div className="card" style={{ marginTop: 12, overflowX: "auto" }}>
+        <table style={{ width: "100%", borderCollapse: "collapse" }}>
+          <thead>
+            <tr style={{ textAlign: "left" }}>
+              <th style={cell}>Anlage</th>
+              <th style={cell}>Adresse</th>
+              <th style={cell}>Schreibweisen im BFV-Spielort</th>
+              <th style={cell}>Plätze</th>
+              <th style={cell}></th>
+            </tr>
+          </thead>
+          <tbody>
+            {venues.map((v) => {
+              const editing = editId === v.id;
+              const venuePitches = pitches.filter((p) => p.venue_id === v.id);
+              return (
+                <tr key={v.id} style={{ opacity: v.active ? 1 : 0.55 }}>
+                  <td style={cell}>
+                    {editing ? (
+                      <input value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} />
+                    ) : (
+                      <>
+                        <div style={{ fontWeight: 700 }}>{v.name}</div>
+                        {v.is_default && <div style={{ fontSize: 12, opacity: 0.8 }}>Standard (Festivals ohne Ort)</div>}
+                        {!v.active && <div style={{ fontSize: 12, opacity: 0.8 }}>inaktiv</div>}
+                      </>
+                    )}
+                  </td>
+                  <td style={cell}>
+                    {editing ? (
+                      <input
+                        value={form.address}
+                        placeholder="Straße Nr., PLZ Ort"
+                        onChange={(e) => setForm({ ...form, address: e.target.value })}
+                      />
+                    ) : (
+                      v.address || "—"
+                    )}
+                  </td>
+                  <td style={cell}>
+                    {editing ? (
+                      <input
+                        value={form.aliases}
+                        placeholder="kommagetrennt"
+                        onChange={(e) => setForm({ ...form, aliases: e.target.value })}
+                      />
+                    ) : v.aliases.length ? (
+                      v.aliases.join(", ")
+                    ) : (
+                      "—"
+                    )}
+                  </td>
+                  <td style={cell}>{venuePitches.map((p) => p.name).join(", ") || "—"}</td>
+                  <td style={{ ...cell, whiteSpace: "nowrap" }}>
+                    {editing ? (
+                      <>
+                        <button disabled={busy} onClick={() => saveVenue(v.id)} style={{ marginRight: 6 }}>
+                          Speichern
+                        </button>
+                        <button disabled={busy} onClick={() => setEditId(null)}>
+                          Abbrechen
+                        </button>
+                      </>
+                    ) : (
+                      <>
+                        <button
+                          disabled={busy}
+                          onClick={() => {
+                            setEditId(v.id);
+                            setForm(toForm(v));
+                          }}
+                          style={{ marginRight: 6 }}
+                        >
+                          Bearbeiten
+                        </button>
+                        {!v.is_default && v.active && (
+                          <button disabled={busy} onClick={() => makeDefault(v)} style={{ marginRight: 6 }}>
+                            Als Standard
+                          </button>
+                        )}
+                        <button disabled={busy} onClick={() => setActive(v, !v.active)}>
+                          {v.active ? "Deaktivieren" : "Aktivieren"}
+                        </button>
+                      </>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+            {venues.length === 0 && (
+              <tr>
+                <td colSpan={5} style={{ padding: 14, opacity: 0.8 }}>
+                  Noch keine Spielorte – ohne Spielort gibt es keine Heimspiele.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+
+        <div style={{ display: "flex", gap: 8, flexWrap: "wrap", alignItems: "center", marginTop: 12 }}>
+          <b>Neuer Spielort</b>
+          <input
+            placeholder="Name, z.B. Schulsportplatz Truderinger Straße"
+            value={newForm.name}
+            onChange={(e) => setNewForm({ ...newForm, name: e.target.value })}
+          />
+          <input
+            placeholder="Straße Nr., PLZ Ort"
+            value={newForm.address}
+            onChange={(e) => setNewForm({ ...newForm, address: e.target.value })}
+          />
+          <input
+            placeholder="weitere Schreibweisen (kommagetrennt)"
+            value={newForm.aliases}
+            onChange={(e) => setNewForm({ ...newForm, aliases: e.target.value })}
+          />
+          <button disabled={busy} onClick={createVenue}>
+            Anlegen
+          </button>
+        </div>
+      </div>
+
+      <div style={{ display: "grid", gridTemplateColumns: "repeat(auto-fit, minmax(320px, 1fr))", gap: 16, marginTop: 12 }}>
+        <div className="card" style={{ display: "grid", gap: 8, alignContent: "start" }}>
+          <div style={{ fontWeight: 800 }}>Plätze zuordnen</div>
+          {unassigned.length > 0 && (
+            <div style={{ fontSize: 13, color: "rgba(250,204,21,0.95)" }}>
+              Ohne Spielort: {unassigned.map((p) => p.name).join(", ")} – diese Plätze werden für Ligaspiele nicht
+              vorgeschlagen.
+            </div>
+          )}
+          <div style={{ opacity: 0.8, fontSize: 13 }}>
+            Plätze ohne Flutlicht können nur bis zur Dämmerung gebucht werden (Ligaspiele ausgenommen).
+          </div>
+          {pitches.map((p) => (
+            <div key={p.id} style={{ display: "flex", gap: 10, alignItems: "center", justifyContent: "space-between" }}>
+              <span style={{ flex: 1 }}>{p.name}</span>
+              <label style={{ display: "flex", gap: 6, alignItems: "center", fontSize: 13 }}>
+                <input
+                  type="checkbox"
+                  checked={p.has_floodlight}
+                  disabled={busy}
+                  onChange={(e) => setFloodlight(p.id, e.target.checked)}
+                />
+                Flutlicht
+              </label>
+              <select value={p.venue_id ?? ""} disabled={busy} onChange={(e) => assignPitch(p.id, e.target.value)}>
+                <option value="">– kein Spielort –</option>
+                {venues.map((v) => (
+                  <option key={v.id} value={v.id}>
+                    {v.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          ))}
+        </div>
+
+        <div className="card" style={{ display: "grid", gap: 8, alignContent: "start" }}>
+          <div style={{ fontWeight: 800 }}>Öffnungszeiten</div>
+          <div style={{ opacity: 0.8, fontSize: 13 }}>
+            Anträge nur innerhalb dieser Zeiten (z.B. Flutlicht bis 22:00, sonntags erst ab 13:00). Ligaspiele sind
+            ausgenommen.
+          </div>
+          <select value={hoursPitchId} disabled={busy} onChange={(e) => pickHoursPitch(e.target.value)}>
+            <option value="">– Platz wählen –</option>
+            {pitches.map((p) => (
+              <option key={p.id} value={p.id}>
+                {p.name}
+              </option>
+            ))}
+          </select>
+          {hoursPitchId && (
+            <>
+              <div style={{ fontSize: 12, opacity: 0.75 }}>
+                Aktuell: {openingHoursText(openingHours.get(hoursPitchId)) ?? "keine Einschränkung"}
+              </div>
+              <label style={{ display: "flex", gap: 6, alignItems: "center" }}>
+                <input
+                  type="checkbox"
+                  checked={hoursForm.restricted}
+                  onChange={(e) => setHoursForm({ ...hoursForm, restricted: e.target.checked })}
+                />
+                Öffnungszeiten einschränken
+              </label>
+              {hoursForm.restricted &&
+                WEEKDAYS.map((d) => (
+                  <label key={d} style={{ display: "flex", gap: 10, alignItems: "center" }}>
+                    <span style={{ width: 28 }}>{WEEKDAY_LABELS[d]}</span>
+                    <input
+                      value={hoursForm.days[d] ?? ""}
+                      placeholder="geschlossen"
+                      onChange={(e) => setHoursForm({ ...hoursForm, days: { ...hoursForm.days, [d]: e.target.value } })}
+                      style={{ flex: 1 }}
+                    />
+                  </label>
+                ))}
+              {hoursForm.restricted && (
+                <div style={{ fontSize: 12, opacity: 0.75 }}>Format 17:00–22:00, mehrere Zeiten mit Komma.</div>
+              )}
+              <button disabled={busy} onClick={saveOpeningHours}>
+                Öffnungszeiten speichern
+              </button>
+            </>
+          )}
+        </div>
+
+        <div className="card" style={{ display: "grid", gap: 8, alignContent: "start" }}>
+          <div style={{ fontWeight: 800 }}>Spielort testen</div>
+          <div style={{ opacity: 0.8, fontSize: 13 }}>Spielort aus dem BFV-Spielplan einfügen:</div>
+          <input
+            placeholder="z.B. BSA Feldbergstraße, Feldbergstr. 65, 81825 München"
+            value={testLocation}
+            onChange={(e) => setTestLocation(e.target.value)}
+          />
+          {testLocation.trim() && (
+            <div style={{ color: testMatch ? "rgba(0,255,170,0.8)" : "rgba(251,146,60,0.95)" }}>
+              {testMatch ? `Heimspiel: ${testMatch.name}` : "Kein Spielort erkannt – Auswärtsspiel."}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+"use client";
+
+import { SEGMENT_LABELS } from "@/lib/bookingRules";
+import { Alternative, ALTERNATIVE_LABELS } from "@/lib/conflictAssistant";
+
+function fmtSlot(a: Alternative) {
+  const s = new Date(a.start_at);
+  const e = new Date(a.end_at);
+  const day = s.toLocaleDateString("de-DE", { weekday: "short", day: "2-digit", month: "2-digit" });
+  const t = (d: Date) => d.toLocaleTimeString("de-DE", { hour: "2-digit", minute: "2-digit" });
+  return `${day} ${t(s)}–${t(e)}`;
+}
+
+// Vorschläge bei Kollision: ein Klick übernimmt die Alternative
+export default function AlternativesPanel({
+  alternatives,
+  loading = false,
+  busy = false,
+  acceptText = "Übernehmen",
+  onAccept,
+}: {
+  /** null = noch nicht geladen */
+  alternatives: Alternative[] | null;
+  loading?: boolean;
+  busy?: boolean;
+  acceptText?: string;
+  onAccept: (a: Alternative) => void;
+}) {
+  if (loading) return <div style={{ opacity: 0.8, fontSize: 13 }}>Suche Alternativen…</div>;
+  if (!alternatives) return null;
+
+  return (
+    <div
+      style={{
+        display: "grid",
+        gap: 6,
+        padding: 10,
+        borderRadius: 10,
+        border: "1px solid rgba(250, 204, 21, 0.45)",
+        background: "rgba(250, 204, 21, 0.06)",
+      }}
+    >
+      <div style={{ fontWeight: 700 }}>Alternativen</div>
+      {alternatives.length === 0 && <div style={{ opacity: 0.8, fontSize: 13 }}>Keine freie Alternative gefunden.</div>}
+      {alternatives.map((a, i) => (
+        <div key={i} style={{ display: "flex", gap: 10, alignItems: "center", justifyContent: "space-between" }}>
+          <div style={{ fontSize: 14 }}>
+            <span style={{ opacity: 0.75 }}>{ALTERNATIVE_LABELS[a.kind]}:</span> {a.pitch_name}
+            {a.segment ? ` (${SEGMENT_LABELS[a.segment]})` : ""} • {fmtSlot(a)}
+          </div>
+          <button type="button" disabled={busy} onClick={() => onAccept(a)}>
+            {acceptText}
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { supabase } from "@/lib/supabaseClient";
+import { SYNC_ACTION_LABELS, SyncAction } from "@/lib/bfvSync";
+import { formatBerlin } from "@/lib/berlinTime";
+
+type SyncRun = {
+  id: string;
+  started_at: string;
+  trigger: "CRON" | "MANUAL";
+  status: "OK" | "PARTIAL" | "FAILED";
+  created_count: number;
+  moved_count: number;
+  cancelled_count: number;
+  conflict_count: number;
+  error_count: number;
+  report: SyncAction[];
+};
+
+const STATUS_COLORS: Record<SyncRun["status"], string> = {
+  OK: "rgba(0,255,170,0.8)",
+  PARTIAL: "rgba(250,204,21,0.9)",
+  FAILED: "crimson",
+};
+
+function fmtDE(dt: string) {
+  return formatBerlin(dt, { dateStyle: "short", timeStyle: "short" });
+}
+
+// Automatischer BFV-Abgleich: letzte Läufe + Bericht, manueller Start
+export default function BfvSyncPanel({ onSynced }: { onSynced?: () => void }) {
+  const [runs, setRuns] = useState<SyncRun[]>([]);
+  const [openId, setOpenId] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function loadRuns() {
+    const { data, error } = await supabase
+      .from("bfv_sync_runs")
+      .select(
+        "id,started_at,trigger,status,created_count,moved_count,cancelled_count,conflict_count,error_count,report"
+      )
+      .order("started_at", { ascending: false })
+      .limit(10);
+    if (error) setError(error.message);
+    else setRuns((data ?? []) as SyncRun[]);
+  }
+
+  useEffect(() => {
+    (async () => {
+      await loadRuns();
+    })();
+  }, []);
+
+  async function syncNow() {
+    setBusy(true);
+    setError(null);
+    try {
+      const { data } = await supabase.auth.getSession();
+      const token = data.session?.access_token;
+      if (!token) throw new Error("Session fehlt – bitte neu einloggen.");
+
+      const res = await fetch("/api/bfv/sync", {
+        method: "POST",
+        cache: "no-store",
+        headers: { authorization: `Bearer ${token}` },
+      });
+      const json = await res.json().catch(() => null);
+      if (!res.ok && !json?.runId) throw new Error(json?.error || `Abgleich fehlgeschlagen (${res.status}).`);
+
+      await loadRuns();
+      if (json?.runId) setOpenId(json.runId);
+      onSynced?.();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Abgleich fehlgeschlagen.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div className="card" style={{ marginTop: 12, padding: 16, display: "grid", gap: 8 }}>
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", gap: 12 }}>
+        <div>
+          <div style={{ fontWeight: 800 }}>Automatischer Abgleich</div>
+          <div style={{ opacity: 0.8, fontSize: 13 }}>
+            Heimspiele aller Mannschaften mit ICS-Link werden regelmäßig gebucht, verlegt oder abgesagt.
+          </div>
+        </div>
+        <button onClick={syncNow} disabled={busy}>
+          {busy ? "Gleiche ab…" : "Jetzt abgleichen"}
+        </button>
+      </div>
+
+      {error && <div style={{ color: "crimson" }}>{error}</div>}
+      {runs.length === 0 && !error && <div style={{ opacity: 0.8, fontSize: 13 }}>Noch kein Abgleich gelaufen.</div>}
+
+      {runs.map((r) => (
+        <div key={r.id} style={{ borderTop: "1px solid rgba(255,255,255,0.08)", paddingTop: 6 }}>
+          <button
+            onClick={() => setOpenId(openId === r.id ? null : r.id)}
+            style={{ background: "transparent", border: "none", color: "inherit", padding: 0, cursor: "pointer", textAlign: "left" }}
+          >
+            <span style={{ color: STATUS_COLORS[r.status], fontWeight: 700 }}>{r.status}</span> • {fmtDE(r.started_at)} (
+            {r.trigger === "CRON" ? "automatisch" : "manuell"}) • neu {r.created_count}, verlegt {r.moved_count}, abgesagt{" "}
+            {r.cancelled_count}, Konflikte {r.conflict_count}, Fehler {r.error_count}
+          </button>
+
+          {openId === r.id && (
+            <div style={{ display: "grid", gap: 4, marginTop: 6, fontSize: 13 }}>
+              {r.report.length === 0 && <div style={{ opacity: 0.8 }}>Keine Änderungen.</div>}
+              {r.report.map((a, i) => (
+                <div
+                  key={i}
+                  style={{ color: a.kind === "CONFLICT" || a.kind === "ERROR" ? "rgba(250,204,21,0.95)" : undefined }}
+                >
+                  <b>{SYNC_ACTION_LABELS[a.kind]}</b> • {a.bfv_team}
+                  {a.start_at ? ` • ${fmtDE(a.start_at)}` : ""}
+                  {a.summary ? ` • ${a.summary}` : ""} – {a.message}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { supabase } from "@/lib/supabaseClient";
+import {
+  AUDIT_ACTION_LABELS,
+  AUDIT_FIELD_LABELS,
+  AUDIT_SELECT,
+  AuditEntry,
+  auditChanges,
+  auditValueText,
+} from "@/lib/audit";
+
+type Names = { pitches: Map<string, string>; teams: Map<string, string> };
+
+// Ein Eintrag im Verlauf: wer, wann, was (alt → neu), warum
+export function AuditEntryItem({ entry, names }: { entry: AuditEntry; names: Names }) {
+  const changes = auditChanges(entry);
+
+  return (
+    <div style={{ display: "grid", gap: 3, fontSize: 14, borderTop: "1px solid rgba(255,255,255,0.08)", paddingTop: 6 }}>
+      <div>
+        <span style={{ fontWeight: 700 }}>{AUDIT_ACTION_LABELS[entry.action] ?? entry.action}</span>{" "}
+        <span style={{ opacity: 0.75 }}>
+          {new Date(entry.at).toLocaleString("de-DE", { timeZone: "Europe/Berlin" })} • {entry.actor_name ?? (entry.actor ? entry.actor : "System")}
+        </span>
+      </div>
+      {changes.map((c) => (
+        <div key={c.field} style={{ fontSize: 13 }}>
+          <span style={{ opacity: 0.75 }}>{AUDIT_FIELD_LABELS[c.field]}:</span>{" "}
+          {entry.action === "UPDATE"
+            ? `${auditValueText(c.field, c.from, names)} → ${auditValueText(c.field, c.to, names)}`
+            : auditValueText(c.field, entry.action === "DELETE" ? c.from : c.to, names)}
+        </div>
+      ))}
+      {entry.reason && <div style={{ fontSize: 13, opacity: 0.85 }}>Grund: {entry.reason}</div>}
+    </div>
+  );
+}
+
+// Seitenleiste mit dem Verlauf einer Buchung (booking_audit)
+export default function BookingHistoryDrawer({
+  bookingId,
+  title,
+  names,
+  onClose,
+}: {
+  bookingId: string;
+  title?: string;
+  names: Names;
+  onClose: () => void;
+}) {
+  const [entries, setEntries] = useState<AuditEntry[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    (async () => {
+      setEntries(null);
+      setError(null);
+      const { data, error } = await supabase
+        .from("booking_audit")
+        .select(AUDIT_SELECT)
+        .eq("booking_id", bookingId)
+        .order("at", { ascending: false });
+      if (error) setError(error.message);
+      else setEntries((data ?? []) as AuditEntry[]);
+    })();
+  }, [bookingId]);
+
+  return (
+    <div
+      style={{
+        position: "fixed",
+        top: 0,
+        right: 0,
+        bottom: 0,
+        width: "min(420px, 100vw)",
+        zIndex: 50,
+        overflowY: "auto",
+        padding: 16,
+        display: "grid",
+        alignContent: "start",
+        gap: 10,
+        background: "#0f1620",
+        borderLeft: "1px solid #273243",
+        boxShadow: "-8px 0 24px rgba(0,0,0,0.35)",
+      }}
+    >
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", gap: 8 }}>
+        <div>
+          <div style={{ fontWeight: 800 }}>Verlauf</div>
+          {title && <div style={{ opacity: 0.8, fontSize: 13 }}>{title}</div>}
+        </div>
+        <button onClick={onClose}>Schließen</button>
+      </div>
+
+      {error && <p style={{ color: "crimson" }}>{error}</p>}
+      {!error && entries === null && <div style={{ opacity: 0.8, fontSize: 13 }}>Lade Verlauf…</div>}
+      {entries?.length === 0 && <div style={{ opacity: 0.8, fontSize: 13 }}>Keine Einträge.</div>}
+      {entries?.map((e) => (
+        <AuditEntryItem key={e.id} entry={e} names={names} />
+      ))}
+    </div>
+  );
+}
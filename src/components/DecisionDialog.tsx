@@ -0,0 +1,90 @@
+"use client";
+
+import { useState } from "react";
+import {
+  Decision,
+  DecisionCode,
+  DIALOG_DECISION_CODES,
+  decisionCommentRequired,
+  decisionLabel,
+  isDecisionCode,
+} from "@/lib/decisionReasons";
+
+// Ablehnen/Absagen: Grund (Pflicht) + Kommentar für den Trainer
+export default function DecisionDialog({
+  title,
+  subtitle,
+  confirmText = "Bestätigen",
+  busy = false,
+  onConfirm,
+  onCancel,
+}: {
+  title: string;
+  subtitle?: string;
+  confirmText?: string;
+  busy?: boolean;
+  onConfirm: (decision: Decision) => void;
+  onCancel: () => void;
+}) {
+  const [code, setCode] = useState<DecisionCode | "">("");
+  const [comment, setComment] = useState("");
+
+  const commentMissing = code !== "" && decisionCommentRequired(code) && !comment.trim();
+
+  return (
+    <div
+      style={{
+        position: "fixed",
+        inset: 0,
+        zIndex: 60,
+        display: "grid",
+        placeItems: "center",
+        background: "rgba(0,0,0,0.55)",
+        padding: 16,
+      }}
+      onClick={onCancel}
+    >
+      <form
+        className="card"
+        onClick={(e) => e.stopPropagation()}
+        onSubmit={(e) => {
+          e.preventDefault();
+          if (code === "" || commentMissing) return;
+          onConfirm({ code, comment: comment.trim() || null });
+        }}
+        style={{ width: "min(460px, 100%)", display: "grid", gap: 10, background: "#0f1620" }}
+      >
+        <div>
+          <div style={{ fontWeight: 800 }}>{title}</div>
+          {subtitle && <div style={{ opacity: 0.8, fontSize: 13 }}>{subtitle}</div>}
+        </div>
+
+        <label>
+          Grund
+          <select value={code} onChange={(e) => setCode(isDecisionCode(e.target.value) ? e.target.value : "")} required>
+            <option value="">– bitte wählen –</option>
+            {DIALOG_DECISION_CODES.map((c) => (
+              <option key={c} value={c}>
+                {decisionLabel(c)}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label>
+          Kommentar für den Trainer{code !== "" && decisionCommentRequired(code) ? " (Pflicht)" : " (optional)"}
+          <textarea value={comment} onChange={(e) => setComment(e.target.value)} rows={3} />
+        </label>
+
+        <div style={{ display: "flex", gap: 8, justifyContent: "flex-end" }}>
+          <button type="button" onClick={onCancel}>
+            Abbrechen
+          </button>
+          <button type="submit" disabled={busy || code === "" || commentMissing}>
+            {confirmText}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+"use client";
+
+import {
+  PitchSegment,
+  RulePitch,
+  SEGMENT_LABELS,
+  segmentsForPitch,
+} from "@/lib/bookingRules";
+
+// Platz-Skizze (Draufsicht): A = linke Hälfte (Viertel 1 oben, 2 unten), B = rechte Hälfte (3 oben, 4 unten)
+const W = 120;
+const H = 78;
+
+const GEOMETRY: Record<PitchSegment, { x: number; y: number; w: number; h: number }> = {
+  A: { x: 0, y: 0, w: W / 2, h: H },
+  B: { x: W / 2, y: 0, w: W / 2, h: H },
+  Q1: { x: 0, y: 0, w: W / 2, h: H / 2 },
+  Q2: { x: 0, y: H / 2, w: W / 2, h: H / 2 },
+  Q3: { x: W / 2, y: 0, w: W / 2, h: H / 2 },
+  Q4: { x: W / 2, y: H / 2, w: W / 2, h: H / 2 },
+};
+
+const TAKEN_FILL = "rgba(220, 60, 60, 0.55)";
+const SELECTED_FILL = "rgba(90, 200, 255, 0.55)";
+const HIGHLIGHT_FILL = "rgba(250, 204, 21, 0.65)";
+
+export default function FieldMap({
+  pitch,
+  taken = [],
+  selected = null,
+  highlight,
+  onSelect,
+  width = 180,
+}: {
+  pitch: RulePitch;
+  /** Segmente, die im gewählten Zeitraum schon belegt sind */
+  taken?: PitchSegment[];
+  /** aktuelle Auswahl im Formular (null = keine feste Teilfläche) */
+  selected?: PitchSegment | null;
+  /** Anzeige einer Buchung: ihr Segment */
+  highlight?: PitchSegment | null;
+  /** macht die kleinsten Teilflächen anklickbar */
+  onSelect?: (segment: PitchSegment) => void;
+  width?: number;
+}) {
+  const segs = segmentsForPitch(pitch);
+  const hasQuarters = segs.includes("Q1");
+  const clickable: PitchSegment[] = hasQuarters ? ["Q1", "Q2", "Q3", "Q4"] : segs.includes("A") ? ["A", "B"] : [];
+
+  const rect = (seg: PitchSegment, fill: string, key: string) => {
+    const g = GEOMETRY[seg];
+    return <rect key={key} x={g.x} y={g.y} width={g.w} height={g.h} fill={fill} pointerEvents="none" />;
+  };
+
+  return (
+    <svg
+      viewBox={`-2 -2 ${W + 4} ${H + 4}`}
+      width={width}
+      height={(width * (H + 4)) / (W + 4)}
+      role="img"
+      aria-label={`${pitch.name} – Teilflächen`}
+      style={{ display: "block" }}
+    >
+      <rect x={0} y={0} width={W} height={H} rx={2} fill="rgba(40, 160, 80, 0.35)" stroke="rgba(255,255,255,0.7)" />
+
+      {highlight && rect(highlight, HIGHLIGHT_FILL, "highlight")}
+
+      {taken.map((seg) => rect(seg, TAKEN_FILL, `taken-${seg}`))}
+      {selected && rect(selected, SELECTED_FILL, "selected")}
+
+      {/* Markierungen */}
+      <line x1={W / 2} y1={0} x2={W / 2} y2={H} stroke="rgba(255,255,255,0.7)" />
+      <circle cx={W / 2} cy={H / 2} r={9} fill="none" stroke="rgba(255,255,255,0.7)" />
+      {hasQuarters && (
+        <line x1={0} y1={H / 2} x2={W} y2={H / 2} stroke="rgba(255,255,255,0.45)" strokeDasharray="3 3" />
+      )}
+
+      {clickable.map((seg) => {
+        const g = GEOMETRY[seg];
+        return (
+          <g key={`label-${seg}`}>
+            <text
+              x={g.x + g.w / 2}
+              y={g.y + g.h / 2 + 3}
+              textAnchor="middle"
+              fontSize={8}
+              fontWeight={700}
+              fill="rgba(255,255,255,0.9)"
+              pointerEvents="none"
+            >
+              {seg}
+            </text>
+            {onSelect && (
+              <rect
+                x={g.x}
+                y={g.y}
+                width={g.w}
+                height={g.h}
+                fill="transparent"
+                style={{ cursor: "pointer" }}
+                onClick={() => onSelect(seg)}
+              >
+                <title>{SEGMENT_LABELS[seg]}</title>
+              </rect>
+            )}
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
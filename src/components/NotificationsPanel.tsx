@@ -0,0 +1,75 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { supabase } from "@/lib/supabaseClient";
+import { formatBerlin } from "@/lib/berlinTime";
+
+type Notification = {
+  id: string;
+  created_at: string;
+  title: string;
+  body: string | null;
+  booking_id: string | null;
+};
+
+// Ungelesene Mitteilungen (z.B. Buchung wegen Platzsperrung abgesagt), quittierbar
+export default function NotificationsPanel({ userId }: { userId: string }) {
+  const [items, setItems] = useState<Notification[]>([]);
+  const [busy, setBusy] = useState(false);
+
+  async function load(uid: string) {
+    const { data, error } = await supabase
+      .from("notifications")
+      .select("id,created_at,title,body,booking_id")
+      .eq("user_id", uid)
+      .is("read_at", null)
+      .order("created_at", { ascending: false })
+      .limit(20);
+    if (error) console.error(error);
+    else setItems((data ?? []) as Notification[]);
+  }
+
+  useEffect(() => {
+    (async () => {
+      await load(userId);
+    })();
+  }, [userId]);
+
+  async function markRead(ids: string[]) {
+    setBusy(true);
+    const { error } = await supabase.from("notifications").update({ read_at: new Date().toISOString() }).in("id", ids);
+    if (error) console.error(error);
+    await load(userId);
+    setBusy(false);
+  }
+
+  if (!items.length) return null;
+
+  return (
+    <div
+      className="card no-print"
+      style={{ marginTop: 12, display: "grid", gap: 8, border: "1px solid rgba(239,68,68,0.45)" }}
+    >
+      <div style={{ display: "flex", justifyContent: "space-between", gap: 8, alignItems: "center" }}>
+        <b>Mitteilungen ({items.length})</b>
+        <button disabled={busy} onClick={() => markRead(items.map((n) => n.id))}>
+          Alle gelesen
+        </button>
+      </div>
+      {items.map((n) => (
+        <div key={n.id} style={{ display: "flex", justifyContent: "space-between", gap: 12, alignItems: "start" }}>
+          <div>
+            <div style={{ fontWeight: 700 }}>{n.title}</div>
+            {n.body && <div style={{ fontSize: 13, opacity: 0.85 }}>{n.body}</div>}
+            <div style={{ fontSize: 12, opacity: 0.6 }}>
+              {formatBerlin(n.created_at, { dateStyle: "short", timeStyle: "short" })}
+            </div>
+          </div>
+          <button disabled={busy} onClick={() => markRead([n.id])}>
+            Gelesen
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
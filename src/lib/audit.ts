@@ -0,0 +1,86 @@
+// src/lib/audit.ts
+// Booking audit log (table booking_audit, filled by a DB trigger on bookings).
+import { isPitchSegment, SEGMENT_LABELS } from "@/lib/bookingRules";
+import { formatBerlin } from "@/lib/berlinTime";
+
+export type AuditAction = "INSERT" | "UPDATE" | "DELETE";
+
+export type AuditRow = Record<string, unknown>;
+
+export type AuditEntry = {
+  id: number;
+  at: string;
+  booking_id: string;
+  action: AuditAction;
+  actor: string | null;
+  actor_name: string | null;
+  reason: string | null;
+  old_row: AuditRow | null;
+  new_row: AuditRow | null;
+};
+
+export type AuditChange = { field: string; from: unknown; to: unknown };
+
+export const AUDIT_SELECT = "id,at,booking_id,action,actor,actor_name,reason,old_row,new_row";
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  INSERT: "Angelegt",
+  UPDATE: "Geändert",
+  DELETE: "Gelöscht",
+};
+
+/** Booking columns shown in the history, in display order. */
+export const AUDIT_FIELD_LABELS: Record<string, string> = {
+  status: "Status",
+  pitch_id: "Platz",
+  segment: "Teilfläche",
+  start_at: "Beginn",
+  end_at: "Ende",
+  team_id: "Team",
+  note: "Notiz",
+  waitlist_for: "Wartet auf",
+};
+
+/** Fields that differ between old and new row (only fields listed in AUDIT_FIELD_LABELS). */
+export function auditChanges(entry: Pick<AuditEntry, "old_row" | "new_row">): AuditChange[] {
+  const oldRow = entry.old_row ?? {};
+  const newRow = entry.new_row ?? {};
+  return Object.keys(AUDIT_FIELD_LABELS)
+    .filter((field) => JSON.stringify(oldRow[field] ?? null) !== JSON.stringify(newRow[field] ?? null))
+    .map((field) => ({ field, from: oldRow[field] ?? null, to: newRow[field] ?? null }));
+}
+
+/** Display text for a booking column value; pitch/team ids are resolved via the given maps. */
+export function auditValueText(
+  field: string,
+  value: unknown,
+  names: { pitches: Map<string, string>; teams: Map<string, string> }
+): string {
+  if (value === null || value === undefined || value === "") return "—";
+  const text = String(value);
+  if (field === "pitch_id") return names.pitches.get(text) ?? text;
+  if (field === "team_id") return names.teams.get(text) ?? text;
+  if (field === "segment") return isPitchSegment(text) ? SEGMENT_LABELS[text] : text;
+  if (field === "start_at" || field === "end_at") {
+    const d = new Date(text);
+    return Number.isFinite(d.getTime()) ? formatBerlin(d, { dateStyle: "short", timeStyle: "short" }) : text;
+  }
+  return text;
+}
+
+/** Row snapshot of an entry: new values, or the old ones for deletes. */
+export function auditSnapshot(entry: Pick<AuditEntry, "old_row" | "new_row">): AuditRow {
+  return entry.new_row ?? entry.old_row ?? {};
+}
+
+/**
+ * Attaches a reason to a bookings write. The trigger reads it from the request headers;
+ * headers must be ASCII, so the text is URL-encoded and decoded again in the DB.
+ */
+export function withAuditReason<Q extends { setHeader(name: string, value: string): Q }>(
+  query: Q,
+  reason: string | null | undefined
+): Q {
+  const text = String(reason ?? "").trim();
+  return text ? query.setHeader("x-audit-reason", encodeURIComponent(text)) : query;
+}
@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import {
+  addDaysYmd,
+  berlinDateTime,
+  berlinDayRange,
+  berlinParts,
+  wallTimeToUtc,
+  weekdayOfYmd,
+  zoneOffsetMs,
+} from "@/lib/berlinTime";
+
+// Umstellung 2026: 29.03. 02:00 -> 03:00 (Stunde fehlt), 25.10. 03:00 -> 02:00 (Stunde doppelt)
+const iso = (d: Date | null) => d?.toISOString();
+const HOUR = 3600 * 1000;
+
+describe("zoneOffsetMs", () => {
+  it("switches at 01:00 UTC", () => {
+    expect(zoneOffsetMs(Date.parse("2026-03-29T00:59:00Z"))).toBe(HOUR);
+    expect(zoneOffsetMs(Date.parse("2026-03-29T01:00:00Z"))).toBe(2 * HOUR);
+    expect(zoneOffsetMs(Date.parse("2026-10-25T00:59:00Z"))).toBe(2 * HOUR);
+    expect(zoneOffsetMs(Date.parse("2026-10-25T01:00:00Z"))).toBe(HOUR);
+  });
+});
+
+describe("wall time to UTC", () => {
+  it("converts ordinary times on both sides of the switch", () => {
+    expect(iso(berlinDateTime("2026-03-28", "18:00"))).toBe("2026-03-28T17:00:00.000Z");
+    expect(iso(berlinDateTime("2026-03-29", "18:00"))).toBe("2026-03-29T16:00:00.000Z");
+    expect(iso(berlinDateTime("2026-10-24", "18:00"))).toBe("2026-10-24T16:00:00.000Z");
+    expect(iso(berlinDateTime("2026-10-25", "18:00"))).toBe("2026-10-25T17:00:00.000Z");
+  });
+
+  it("moves times in the missing hour forward (29 March)", () => {
+    expect(iso(berlinDateTime("2026-03-29", "01:59"))).toBe("2026-03-29T00:59:00.000Z");
+    // 02:00 und 02:30 gibt es nicht: sie landen auf 03:00 bzw. 03:30 Sommerzeit
+    expect(iso(berlinDateTime("2026-03-29", "02:00"))).toBe("2026-03-29T01:00:00.000Z");
+    expect(iso(berlinDateTime("2026-03-29", "02:30"))).toBe("2026-03-29T01:30:00.000Z");
+    expect(berlinParts(berlinDateTime("2026-03-29", "02:30")!).hm).toBe("03:30");
+    expect(iso(berlinDateTime("2026-03-29", "03:00"))).toBe("2026-03-29T01:00:00.000Z");
+  });
+
+  it("takes the second (winter time) instant in the repeated hour (25 October)", () => {
+    expect(iso(berlinDateTime("2026-10-25", "01:59"))).toBe("2026-10-24T23:59:00.000Z");
+    expect(iso(berlinDateTime("2026-10-25", "02:30"))).toBe("2026-10-25T01:30:00.000Z");
+    expect(iso(berlinDateTime("2026-10-25", "03:00"))).toBe("2026-10-25T02:00:00.000Z");
+
+    // beide 02:30 lesen sich als 02:30
+    expect(berlinParts(new Date("2026-10-25T00:30:00Z")).hm).toBe("02:30");
+    expect(berlinParts(new Date("2026-10-25T01:30:00Z")).hm).toBe("02:30");
+  });
+
+  it("works on raw wall-clock milliseconds", () => {
+    expect(wallTimeToUtc(Date.UTC(2026, 9, 25, 18, 0))).toBe(Date.parse("2026-10-25T17:00:00Z"));
+    expect(wallTimeToUtc(Date.UTC(2026, 2, 29, 18, 0))).toBe(Date.parse("2026-03-29T16:00:00Z"));
+  });
+
+  it("rejects invalid input", () => {
+    expect(berlinDateTime("2026-3-29", "10:00")).toBeNull();
+    expect(berlinDateTime("2026-03-29", "zehn")).toBeNull();
+  });
+});
+
+describe("club days", () => {
+  it("are 23 and 25 hours long on the switch days", () => {
+    const spring = berlinDayRange("2026-03-29")!;
+    const autumn = berlinDayRange("2026-10-25")!;
+
+    expect(iso(spring.start)).toBe("2026-03-28T23:00:00.000Z");
+    expect(spring.end.getTime() - spring.start.getTime()).toBe(23 * HOUR);
+    expect(iso(autumn.start)).toBe("2026-10-24T22:00:00.000Z");
+    expect(autumn.end.getTime() - autumn.start.getTime()).toBe(25 * HOUR);
+  });
+});
+
+describe("addDaysYmd", () => {
+  it("counts calendar days across both switches", () => {
+    expect(addDaysYmd("2026-03-28", 1)).toBe("2026-03-29");
+    expect(addDaysYmd("2026-03-29", 1)).toBe("2026-03-30");
+    expect(addDaysYmd("2026-10-24", 1)).toBe("2026-10-25");
+    expect(addDaysYmd("2026-10-25", 1)).toBe("2026-10-26");
+    expect(addDaysYmd("2026-10-26", -1)).toBe("2026-10-25");
+    expect(addDaysYmd("2026-03-22", 7)).toBe("2026-03-29");
+    expect(addDaysYmd("2026-10-01", 31)).toBe("2026-11-01");
+  });
+
+  it("keeps the wall time when combined with berlinDateTime", () => {
+    // Training jeden Sonntag 10:00 über beide Umstellungen
+    const sundays = [0, 7, 14].map((n) => berlinDateTime(addDaysYmd("2026-03-22", n), "10:00")!);
+    expect(sundays.map(iso)).toEqual([
+      "2026-03-22T09:00:00.000Z",
+      "2026-03-29T08:00:00.000Z",
+      "2026-04-05T08:00:00.000Z",
+    ]);
+
+    const autumn = [0, 7].map((n) => berlinDateTime(addDaysYmd("2026-10-18", n), "10:00")!);
+    expect(autumn.map(iso)).toEqual(["2026-10-18T08:00:00.000Z", "2026-10-25T09:00:00.000Z"]);
+    expect(autumn.map((d) => berlinParts(d).hm)).toEqual(["10:00", "10:00"]);
+  });
+
+  it("handles leap days and leaves invalid input alone", () => {
+    expect(addDaysYmd("2028-02-28", 1)).toBe("2028-02-29");
+    expect(addDaysYmd("2027-02-28", 1)).toBe("2027-03-01");
+    expect(addDaysYmd("kein Datum", 1)).toBe("kein Datum");
+    expect(weekdayOfYmd("2026-10-25")).toBe(7);
+  });
+});
@@ -0,0 +1,135 @@
+// src/lib/berlinTime.ts
+// Club time (Europe/Berlin) conversions that do not depend on the timezone of the browser
+// or server. Calendar days are "YYYY-MM-DD" strings, times of day "HH:mm"; conversions to
+// instants resolve DST switch days (last Sunday in March / October) correctly.
+
+export const CLUB_TIME_ZONE = "Europe/Berlin";
+
+const DAY_MS = 24 * 3600 * 1000;
+
+const clocks = new Map<string, Intl.DateTimeFormat>();
+
+function clock(timeZone: string) {
+  let fmt = clocks.get(timeZone);
+  if (!fmt) {
+    fmt = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+      hourCycle: "h23",
+    });
+    clocks.set(timeZone, fmt);
+  }
+  return fmt;
+}
+
+/** Offset of the zone to UTC in ms at the given instant (wall = utc + offset). Throws for unknown zones. */
+export function zoneOffsetMs(utcMs: number, timeZone = CLUB_TIME_ZONE) {
+  const p = Object.fromEntries(clock(timeZone).formatToParts(new Date(utcMs)).map((x) => [x.type, x.value]));
+  const asUtc = Date.UTC(+p.year, +p.month - 1, +p.day, +p.hour, +p.minute, +p.second);
+  return asUtc - Math.floor(utcMs / 1000) * 1000;
+}
+
+/** Wall-clock time (ms, fields read as UTC) -> instant. Evaluated twice so DST switch days resolve. */
+export function wallTimeToUtc(wallMs: number, timeZone = CLUB_TIME_ZONE) {
+  const utc = wallMs - zoneOffsetMs(wallMs, timeZone);
+  return wallMs - zoneOffsetMs(utc, timeZone);
+}
+
+function pad(n: number) {
+  return String(n).padStart(2, "0");
+}
+
+export type BerlinParts = {
+  year: number;
+  month: number; // 1..12
+  day: number;
+  hour: number;
+  minute: number;
+  weekday: number; // ISO: 1 = Montag … 7 = Sonntag
+  ymd: string; // YYYY-MM-DD
+  hm: string; // HH:mm
+  minutes: number; // since midnight
+};
+
+/** Calendar fields of an instant in club time */
+export function berlinParts(d: Date): BerlinParts {
+  const wall = new Date(d.getTime() + zoneOffsetMs(d.getTime()));
+  const year = wall.getUTCFullYear();
+  const month = wall.getUTCMonth() + 1;
+  const day = wall.getUTCDate();
+  const hour = wall.getUTCHours();
+  const minute = wall.getUTCMinutes();
+  return {
+    year,
+    month,
+    day,
+    hour,
+    minute,
+    weekday: ((wall.getUTCDay() + 6) % 7) + 1,
+    ymd: `${year}-${pad(month)}-${pad(day)}`,
+    hm: `${pad(hour)}:${pad(minute)}`,
+    minutes: hour * 60 + minute,
+  };
+}
+
+/** Calendar day (YYYY-MM-DD) of an instant in club time */
+export function berlinYmd(d: Date) {
+  return berlinParts(d).ymd;
+}
+
+function parseYmd(ymd: string) {
+  const m = (ymd || "").match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  return m ? Date.UTC(+m[1], +m[2] - 1, +m[3]) : null;
+}
+
+/** "2026-03-29" + "10:30" (club time) -> instant; null for invalid input */
+export function berlinDateTime(ymd: string, hm = "00:00"): Date | null {
+  const day = parseYmd(ymd);
+  const t = (hm || "").match(/^(\d{1,2}):(\d{2})/);
+  if (day === null || !t) return null;
+  return new Date(wallTimeToUtc(day + (+t[1] * 60 + +t[2]) * 60 * 1000));
+}
+
+/** Start of a club-time day; days are 23 or 25 hours long on DST switch days. */
+export function berlinDayStart(ymd: string): Date | null {
+  return berlinDateTime(ymd, "00:00");
+}
+
+/** [start, end) of a club-time day */
+export function berlinDayRange(ymd: string): { start: Date; end: Date } | null {
+  const start = berlinDayStart(ymd);
+  const end = berlinDayStart(addDaysYmd(ymd, 1));
+  return start && end ? { start, end } : null;
+}
+
+/** Calendar arithmetic on YYYY-MM-DD strings (no timezone involved) */
+export function addDaysYmd(ymd: string, days: number) {
+  const day = parseYmd(ymd);
+  if (day === null) return ymd;
+  const d = new Date(day + days * DAY_MS);
+  return `${d.getUTCFullYear()}-${pad(d.getUTCMonth() + 1)}-${pad(d.getUTCDate())}`;
+}
+
+/** ISO weekday (1 = Montag) of a YYYY-MM-DD day */
+export function weekdayOfYmd(ymd: string) {
+  const day = parseYmd(ymd);
+  return day === null ? null : ((new Date(day).getUTCDay() + 6) % 7) + 1;
+}
+
+/** de-DE formatting in club time, e.g. formatBerlin(d, { dateStyle: "short", timeStyle: "short" }) */
+export function formatBerlin(d: Date | string, options: Intl.DateTimeFormatOptions) {
+  return new Date(d).toLocaleString("de-DE", { ...options, timeZone: CLUB_TIME_ZONE });
+}
+
+export function formatBerlinDate(d: Date | string) {
+  return formatBerlin(d, { day: "2-digit", month: "2-digit", year: "numeric" });
+}
+
+export function formatBerlinTime(d: Date | string) {
+  return formatBerlin(d, { hour: "2-digit", minute: "2-digit" });
+}
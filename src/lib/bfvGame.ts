@@ -0,0 +1,206 @@
+// src/lib/bfvGame.ts
+// BFV game metadata: structured columns on bookings (source, external_uid, bfv_team_id,
+// force_overlap, opponent, competition) instead of tags in `note`.
+
+export const BOOKING_SOURCES = ["MANUAL", "BFV"] as const;
+export type BookingSource = (typeof BOOKING_SOURCES)[number];
+
+/** Booking columns that describe an imported league game. */
+export type BfvBookingMeta = {
+  source: BookingSource;
+  external_uid: string | null;
+  bfv_team_id: string | null;
+  force_overlap: boolean;
+  opponent: string | null;
+  competition: string | null;
+};
+
+/** Normalisiert für robustes "contains"-Matching (umlaute, sonderzeichen, mehrfach-spaces). */
+export function normalizeForMatch(s: string) {
+  return (s || "")
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/ä/g, "ae")
+    .replace(/ö/g, "oe")
+    .replace(/ü/g, "ue")
+    .replace(/ß/g, "ss")
+    .replace(/[^a-z0-9]+/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+const STOPWORDS = new Set([
+  "fc",
+  "tsv",
+  "sv",
+  "sc",
+  "sg",
+  "jfg",
+  "ev",
+  "e",
+  "v",
+  "muenchen",
+  "munchen",
+  "muench",
+  "m",
+  "ii",
+  "iii",
+  "iv",
+  "i",
+  "u",
+  "junioren",
+  "juniorinnen",
+]);
+
+export function buildMatchTokens(...names: string[]) {
+  const tokens: string[] = [];
+  for (const n of names) {
+    const norm = normalizeForMatch(n);
+    for (const w of norm.split(" ")) {
+      if (!w) continue;
+      if (STOPWORDS.has(w)) continue;
+      if (/^u\d{1,2}$/.test(w)) continue;
+      if (w.length < 3) continue;
+      tokens.push(w);
+    }
+  }
+  return Array.from(new Set(tokens));
+}
+
+export function splitHomeAway(summary: string): { left: string; right: string } | null {
+  const teamPart = summary.split(",")[0] || summary;
+
+  if (teamPart.includes(" - ")) {
+    const [l, r] = teamPart.split(" - ");
+    if (l && r) return { left: l.trim(), right: r.trim() };
+  }
+  if (teamPart.includes(" – ")) {
+    const [l, r] = teamPart.split(" – ");
+    if (l && r) return { left: l.trim(), right: r.trim() };
+  }
+
+  const m = teamPart.match(/^(.*?)[\s]*[-–][\s]*(.*)$/);
+  if (m?.[1] && m?.[2]) return { left: m[1].trim(), right: m[2].trim() };
+
+  return null;
+}
+
+/**
+ * Opponent and competition from an ICS summary like "FC Heim - SV Gast, Kreisliga 3".
+ * Our side is the one sharing more name tokens with club/team; null if that is unclear.
+ */
+export function parseBfvSummary(
+  summary: string,
+  clubName: string,
+  teamName: string
+): { opponent: string | null; competition: string | null } {
+  const clean = String(summary || "").replace(/\\,/g, ",").trim();
+  const comma = clean.indexOf(",");
+  const competition = comma >= 0 ? clean.slice(comma + 1).trim() || null : null;
+
+  const sides = splitHomeAway(clean);
+  if (!sides) return { opponent: null, competition };
+
+  const tokens = buildMatchTokens(clubName, teamName);
+  const score = (side: string) => {
+    const words = new Set(normalizeForMatch(side).split(" "));
+    return tokens.filter((t) => words.has(t)).length;
+  };
+
+  const left = score(sides.left);
+  const right = score(sides.right);
+  if (left === right) return { opponent: null, competition };
+  return { opponent: left > right ? sides.right : sides.left, competition };
+}
+
+export function bfvBookingMeta(
+  game: { uid: string; summary: string; bfvTeamId: string; bfvClubName: string; bfvTeamName: string },
+  forceOverlap: boolean
+): BfvBookingMeta {
+  return {
+    source: "BFV",
+    external_uid: game.uid,
+    bfv_team_id: game.bfvTeamId,
+    force_overlap: forceOverlap,
+    ...parseBfvSummary(game.summary, game.bfvClubName, game.bfvTeamName),
+  };
+}
+
+/** Calendar label for a league game: "U13 – SV Gast, Kreisliga 3". Null without opponent. */
+export function bfvGameLabel(teamName: string | null | undefined, opponent: string | null, competition: string | null) {
+  if (!opponent) return null;
+  const label = teamName ? `${teamName} – ${opponent}` : `gegen ${opponent}`;
+  return competition ? `${label}, ${competition}` : label;
+}
+
+export function normalizeTeamName(name: string) {
+  return (name || "")
+    .toLowerCase()
+    .replace(/\s+/g, " ")
+    .replace(/\./g, "")
+    .replace(/\s*-\s*/g, "-")
+    .trim();
+}
+
+/** Where age_u of a BFV team is looked up (NEXT_PUBLIC_AGE_SOURCE, default "teams"). */
+export type AgeSource = "teams" | "bfv_teams";
+
+export function ageSourceFromEnv(): AgeSource {
+  return process.env.NEXT_PUBLIC_AGE_SOURCE === "bfv_teams" ? "bfv_teams" : "teams";
+}
+
+/** age_u of a BFV team: the entry with the same (normalized) name in the chosen list. */
+export function resolveBfvAgeU(
+  team: { name: string },
+  candidates: { name: string; age_u: number | null }[],
+  source: AgeSource
+): { ageU: number | null; source: AgeSource | "none" } {
+  const key = normalizeTeamName(team.name);
+  const v = candidates.find((t) => normalizeTeamName(t.name) === key)?.age_u;
+  return typeof v === "number" ? { ageU: v, source } : { ageU: null, source: "none" };
+}
+
+/** Local team for a BFV team: same age class first, then by name. */
+export function resolveLocalTeamId(
+  teams: { id: string; name: string; age_u: number }[],
+  bfvTeam: { age_u: number | null; name: string }
+) {
+  const targetAge = bfvTeam.age_u ?? null;
+
+  if (targetAge != null) {
+    const best = teams.find((t) => t.age_u === targetAge);
+    if (best?.id) return best.id;
+  }
+
+  const bfvName = (bfvTeam.name || "").toLowerCase();
+  const byName = teams.find((t) => (t.name || "").toLowerCase().includes(bfvName));
+  return byName?.id ?? null;
+}
+
+/** Game of POST /api/bfv/games (dates as ISO strings). */
+export type BfvGameJson = {
+  uid: string;
+  bfv_team_id: string;
+  summary: string;
+  location: string;
+  start_at: string;
+  end_at: string;
+  all_day: boolean;
+  status: string;
+  cancelled: boolean;
+  is_home: boolean;
+  venue_id: string | null; // matched venue (src/lib/venues.ts), null = away
+};
+
+/** Per-team result of POST /api/bfv/games; cache = HIT | REVALIDATED | MISS | STALE (see icsCache). */
+export type BfvTeamFeedStatus = {
+  bfv_team_id: string;
+  ok: boolean;
+  error: string | null;
+  cache: string | null;
+  fetched_at: string | null;
+  games: number;
+};
+
+export type BfvGamesResponse = { games: BfvGameJson[]; teams: BfvTeamFeedStatus[] };
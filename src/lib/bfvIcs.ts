@@ -0,0 +1,223 @@
+// src/lib/bfvIcs.ts
+// BFV ICS fetch + normalizer (service.bfv.de), shared by the /api/bfv/ics proxy and the
+// scheduled sync (/api/bfv/sync). The URL check, fetch and generic normalizing are also used for
+// external calendars (src/lib/externalIcs.ts). Server only (cache in src/lib/icsCache.ts);
+// parsing and writing ICS lives in src/lib/ics.ts.
+import { buildCalendar, expandEvents, occurrenceUid, parseEvents } from "@/lib/ics";
+import { CachedFetchOptions, CachedFetchResult, cachedFetch, RedirectError, UpstreamError } from "@/lib/icsCache";
+import { defaultVenue, matchVenue, Venue, venueLabel } from "@/lib/venues";
+import { repairMojibake } from "@/lib/charset";
+
+export type IcsEvent = {
+  uid: string; // ICS UID, recurring instances get "_<start UTC>" appended
+  start: Date;
+  end: Date;
+  allDay: boolean;
+  summary: string;
+  location: string;
+  description: string;
+  status: string;
+};
+
+const BFV_HOSTS = ["bfv.de"];
+
+/** host is one of allowedHosts or a subdomain of one. */
+export function isAllowedHost(host: string, allowedHosts: string[]) {
+  const h = host.toLowerCase();
+  return allowedHosts.some((a) => {
+    const allowed = a.trim().toLowerCase().replace(/^\*?\./, "");
+    return !!allowed && (h === allowed || h.endsWith("." + allowed));
+  });
+}
+
+export function normalizeSourceUrl(raw: string) {
+  const s = (raw || "").trim();
+  if (s.startsWith("webcal://")) return "https://" + s.slice("webcal://".length);
+  return s;
+}
+
+export function looksLikeIcs(text: string) {
+  return /BEGIN:VCALENDAR/i.test(text) && /BEGIN:VEVENT/i.test(text);
+}
+
+/** All events of a feed, recurrences expanded (floating times are club time, see src/lib/ics.ts). */
+export function parseIcsEvents(icsRaw: string, range: { from?: Date; to?: Date } = {}): IcsEvent[] {
+  return expandEvents(parseEvents(icsRaw), range).map((o) => ({
+    uid: occurrenceUid(o),
+    start: o.start,
+    end: o.end,
+    allDay: o.allDay,
+    summary: o.event.summary,
+    location: o.event.location,
+    description: o.event.description,
+    status: o.event.status,
+  }));
+}
+
+// Umlaute, die BFV (oder ein Zwischensystem) falsch dekodiert ausliefert, z.B. "M├╝nchen"
+function normalizeText(s: string) {
+  return repairMojibake(s || "").replace(/\s+/g, " ").trim();
+}
+
+function isFestivalSummary(summary: string) {
+  return /kinderfestival/i.test(summary || "");
+}
+
+function isHomeFestival(summary: string) {
+  // BFV teammatches ICS often has empty LOCATION for Kinderfestival.
+  // Pattern is typically: "<HOST> - Kinderfestival - <TEAM>\, ..."
+  // We treat it as a home festival only if HOST and TEAM belong to the same club.
+  if (!isFestivalSummary(summary)) return false;
+
+  const parts = summary.split(/\s*-\s*Kinderfestival\s*-\s*/i);
+  if (parts.length < 2) return false;
+
+  const hostRaw = (parts[0] || "").trim();
+  const teamRaw = (parts[1] || "").trim();
+
+  // Cut off trailing meta (escaped commas, commas, newlines)
+  const cut = (s: string) =>
+    s
+      .split(/\\,|,|\\n|\\r|\n|\r/)[0]
+      .replace(/\\+/g, "")
+      .trim();
+
+  const normalize = (s: string) =>
+    cut(s)
+      .normalize("NFD")
+      .replace(/[\u0300-\u036f]/g, "")
+      .replace(/\s+/g, " ")
+      .toLowerCase()
+      .trim();
+
+  // Reduce to club name by stripping trailing age/team identifiers (e.g. "U9-II", "U8 I", etc.)
+  const clubBase = (s: string) => {
+    const n = normalize(s);
+    // remove "u9", "u10" and anything after it
+    const base = n.replace(/\bu\d{1,2}\b.*$/i, "").trim();
+    return base || n;
+  };
+
+  const hostClub = clubBase(hostRaw);
+  const teamClub = clubBase(teamRaw);
+
+  return hostClub.length > 0 && hostClub === teamClub;
+}
+
+function fillMissingLocation(ev: IcsEvent, homeLocation: string) {
+  const loc = (ev.location || "").trim();
+  if (loc) return ev;
+
+  if (isFestivalSummary(ev.summary) && !isHomeFestival(ev.summary)) return { ...ev, location: "Auswärts" };
+  // Heim-Festival: unsere Anlage (ohne gepflegten Spielort bleibt der Ort offen)
+  if (isFestivalSummary(ev.summary) && homeLocation) return { ...ev, location: homeLocation };
+
+  return { ...ev, location: "Ort nicht im BFV-ICS" };
+}
+
+export function buildIcs(events: IcsEvent[]) {
+  return buildCalendar({ prodId: "-//FCSternPitchPlanner//BFV ICS Proxy//DE" }, events);
+}
+
+export class BfvIcsError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public detail?: Record<string, unknown>
+  ) {
+    super(message);
+    this.name = "BfvIcsError";
+  }
+}
+
+/** Validates a stored ICS link (https/webcal, host on the allowlist). Throws BfvIcsError. */
+export function checkIcsUrl(raw: string, allowedHosts: string[]) {
+  let u: URL;
+  try {
+    u = new URL(normalizeSourceUrl(raw));
+  } catch {
+    throw new BfvIcsError("Invalid url", 400);
+  }
+
+  if (u.protocol !== "https:") throw new BfvIcsError("Only https/webcal supported", 400);
+  if (!isAllowedHost(u.hostname, allowedHosts)) throw new BfvIcsError("Host not allowed", 403);
+  return u;
+}
+
+/** checkIcsUrl for BFV links (service.bfv.de and other *.bfv.de hosts). */
+export function checkBfvUrl(raw: string) {
+  return checkIcsUrl(raw, BFV_HOSTS);
+}
+
+const BFV_FETCH_HEADERS = {
+  "user-agent":
+    "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120 Safari/537.36",
+  accept: "text/calendar,text/plain,text/html,*/*",
+  "accept-language": "de-DE,de;q=0.9,en;q=0.8",
+};
+
+export type BfvFetchOptions = Pick<CachedFetchOptions, "maxAgeMs" | "allowStale"> & {
+  /** hosts redirects may lead to (the same list checkIcsUrl used); default *.bfv.de */
+  allowedHosts?: string[];
+};
+
+/**
+ * Fetches the raw ICS text through the cache (src/lib/icsCache.ts); redirects only to allowed hosts.
+ * Throws BfvIcsError: 502 when BFV fails without a cached copy, 400 when BFV answers with no ICS,
+ * 403 when it redirects elsewhere.
+ */
+export async function fetchBfvIcs(u: URL, opts: BfvFetchOptions = {}): Promise<CachedFetchResult> {
+  const { allowedHosts = BFV_HOSTS, ...cacheOpts } = opts;
+  try {
+    return await cachedFetch(u.toString(), {
+      ...cacheOpts,
+      headers: BFV_FETCH_HEADERS,
+      accept: looksLikeIcs,
+      allowRedirect: (target) => target.protocol === "https:" && isAllowedHost(target.hostname, allowedHosts),
+    });
+  } catch (e) {
+    if (e instanceof RedirectError) {
+      throw new BfvIcsError(e.message, 403, { location: e.location });
+    }
+    if (e instanceof UpstreamError && e.status !== null && e.status >= 200 && e.status < 300) {
+      throw new BfvIcsError("Not an ICS response", 400, { head: e.body.slice(0, 300) });
+    }
+    if (e instanceof UpstreamError) {
+      throw new BfvIcsError("ICS fetch failed", 502, { status: e.status, text: e.body.slice(0, 1200) });
+    }
+    throw new BfvIcsError("ICS fetch failed", 502, { text: (e as { message?: string })?.message || String(e) });
+  }
+}
+
+/** Events with summary/location/description repaired (src/lib/charset.ts) and normalized, sorted by start. */
+export function normalizeIcsEvents(text: string, range: { from?: Date; to?: Date } = {}): IcsEvent[] {
+  return parseIcsEvents(text, range)
+    .map((e) => ({
+      ...e,
+      summary: normalizeText(e.summary),
+      location: normalizeText(e.location),
+      description: repairMojibake(e.description || "").trim(),
+    }))
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+}
+
+/**
+ * normalizeIcsEvents plus the BFV specifics: missing locations filled.
+ * Home festivals without LOCATION get the venue the feed's other home games use (else the default venue).
+ */
+export function normalizeBfvEvents(text: string, venues: Venue[]): IcsEvent[] {
+  const normalized = normalizeIcsEvents(text);
+
+  // Best-effort "home" location inference from any event played at one of our venues.
+  const fallback = defaultVenue(venues);
+  const homeLocation =
+    normalized.find((e) => matchVenue(e.location, venues))?.location ?? (fallback ? venueLabel(fallback) : "");
+
+  return normalized.map((e) => fillMissingLocation(e, homeLocation));
+}
+
+/** Fetch (cached) + check + normalize in one step (used by the sync and the reconciliation). */
+export async function loadBfvEvents(rawUrl: string, venues: Venue[], opts: BfvFetchOptions = {}): Promise<IcsEvent[]> {
+  const { body } = await fetchBfvIcs(checkBfvUrl(rawUrl), opts);
+  return normalizeBfvEvents(body, venues);
+}
@@ -0,0 +1,85 @@
+// src/lib/bfvReconcile.ts
+// Compares league bookings (bookings.source = 'BFV') with the current BFV feeds by UID.
+// Used by the reconciliation view (/bfv/reconcile) and by the scheduled sync.
+import type { IcsEvent } from "@/lib/bfvIcs";
+import { isHomeLocation, Venue } from "@/lib/venues";
+
+export type LeagueBooking = {
+  id: string;
+  external_uid: string;
+  bfv_team_id: string | null;
+  team_id: string;
+  pitch_id: string;
+  segment: string | null;
+  start_at: string;
+  end_at: string;
+};
+
+export type FeedGame = {
+  uid: string;
+  bfv_team_id: string;
+  summary: string;
+  location: string;
+  start: Date;
+  end: Date;
+  cancelled: boolean;
+};
+
+/**
+ * OK            – booking matches the feed
+ * TIME_CHANGED  – BFV moved the game (start or end differ)
+ * NOW_AWAY      – game is no longer played at one of our venues (home -> away)
+ * MISSING       – game vanished from the feed or is marked cancelled
+ * UNKNOWN       – feed of the team could not be read (or booking has no BFV team)
+ */
+export type ReconcileKind = "OK" | "TIME_CHANGED" | "NOW_AWAY" | "MISSING" | "UNKNOWN";
+
+export type ReconcileRow = { booking: LeagueBooking; game: FeedGame | null; kind: ReconcileKind };
+
+export const RECONCILE_LABELS: Record<ReconcileKind, string> = {
+  OK: "aktuell",
+  TIME_CHANGED: "Zeit geändert",
+  NOW_AWAY: "jetzt Auswärtsspiel",
+  MISSING: "nicht mehr im Spielplan",
+  UNKNOWN: "Spielplan nicht lesbar",
+};
+
+/** Feed events of one BFV team as games ("spielfrei" entries dropped). */
+export function feedGames(bfvTeamId: string, events: IcsEvent[]): FeedGame[] {
+  return events
+    .filter((e) => !/spielfrei/i.test(e.summary))
+    .map((e) => ({
+      uid: e.uid,
+      bfv_team_id: bfvTeamId,
+      summary: e.summary,
+      location: e.location,
+      start: e.start,
+      end: e.end,
+      cancelled: /cancelled/i.test(e.status),
+    }));
+}
+
+export function reconcileLeagueBookings(
+  bookings: LeagueBooking[],
+  games: FeedGame[],
+  fetchedTeamIds: Set<string>,
+  venues: Venue[]
+): ReconcileRow[] {
+  const byUid = new Map<string, FeedGame>();
+  for (const g of games) if (!byUid.has(g.uid)) byUid.set(g.uid, g);
+
+  return bookings.map((booking) => {
+    const game = byUid.get(booking.external_uid) ?? null;
+    if (!game) {
+      const known = !!booking.bfv_team_id && fetchedTeamIds.has(booking.bfv_team_id);
+      return { booking, game, kind: known ? "MISSING" : "UNKNOWN" };
+    }
+    if (game.cancelled) return { booking, game, kind: "MISSING" };
+    if (!isHomeLocation(game.location, venues)) return { booking, game, kind: "NOW_AWAY" };
+
+    const moved =
+      new Date(booking.start_at).getTime() !== game.start.getTime() ||
+      new Date(booking.end_at).getTime() !== game.end.getTime();
+    return { booking, game, kind: moved ? "TIME_CHANGED" : "OK" };
+  });
+}
@@ -0,0 +1,361 @@
+// src/lib/bfvSync.ts
+// Scheduled BFV sync: reads every bfv_teams.ics_url and keeps the league bookings
+// (bookings.source = 'BFV') in line with the published home games:
+//  - new game          -> APPROVED booking on the first pitch of its venue the rules allow
+//                         (only once per game: a cancelled or rejected booking is not re-created)
+//  - moved game        -> booking moved (same pitch if still free, else another allowed one)
+//  - cancelled / gone  -> booking CANCELLED (reason code BFV_CANCELLED), also when now an away game
+// Games that cannot be placed are reported as conflicts and left to the admin (/bfv).
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { availablePitches, isPitchSegment, RuleBooking, validateBooking } from "@/lib/bookingRules";
+import { loadRuleData } from "@/lib/ruleData";
+import { loadBfvEvents } from "@/lib/bfvIcs";
+import {
+  ageSourceFromEnv,
+  bfvBookingMeta,
+  resolveBfvAgeU,
+  resolveLocalTeamId,
+} from "@/lib/bfvGame";
+import { decisionFields } from "@/lib/decisionReasons";
+import { withAuditReason } from "@/lib/audit";
+import { FeedGame, feedGames, LeagueBooking, RECONCILE_LABELS, reconcileLeagueBookings } from "@/lib/bfvReconcile";
+import { loadVenues, matchVenue, pitchesAtVenue } from "@/lib/venues";
+
+export const BFV_SYNC_REASON = "BFV-Sync";
+
+export type SyncActionKind = "CREATED" | "MOVED" | "CANCELLED" | "CONFLICT" | "SKIPPED" | "ERROR";
+
+export type SyncAction = {
+  kind: SyncActionKind;
+  bfv_team: string;
+  uid?: string;
+  summary?: string;
+  start_at?: string;
+  end_at?: string;
+  booking_id?: string;
+  message: string;
+};
+
+export type SyncReport = {
+  status: "OK" | "PARTIAL" | "FAILED";
+  counts: Record<SyncActionKind, number>;
+  actions: SyncAction[];
+};
+
+export const SYNC_ACTION_LABELS: Record<SyncActionKind, string> = {
+  CREATED: "Neu gebucht",
+  MOVED: "Verlegt",
+  CANCELLED: "Abgesagt",
+  CONFLICT: "Konflikt",
+  SKIPPED: "Übersprungen",
+  ERROR: "Fehler",
+};
+
+type BfvTeamRow = { id: string; club_id: string; name: string; age_u: number | null; ics_url: string | null };
+type ClubRow = { id: string; name: string };
+type TeamRow = { id: string; name: string; age_u: number; pitch_units: number | null };
+
+/** Owner of cron-created bookings (a profile of the club's admin account), see README. */
+export function bfvSyncUserId() {
+  return process.env.BFV_SYNC_USER_ID?.trim() || null;
+}
+
+const UID_CHUNK = 200;
+
+/**
+ * external_uids among `uids` that already have a BFV booking in any status: a game an admin
+ * cancelled or rejected must not be booked again by the next run.
+ */
+async function bookedBfvUids(supabase: SupabaseClient, uids: string[]) {
+  const booked = new Set<string>();
+  for (let i = 0; i < uids.length; i += UID_CHUNK) {
+    const { data, error } = await supabase
+      .from("bookings")
+      .select("external_uid")
+      .eq("source", "BFV")
+      .in("external_uid", uids.slice(i, i + UID_CHUNK));
+    if (error) throw error;
+    for (const row of (data ?? []) as { external_uid: string }[]) booked.add(row.external_uid);
+  }
+  return booked;
+}
+
+/**
+ * Runs one sync with the given (service role) client; new bookings are created by `createdBy`.
+ * Throws only if the base data cannot be loaded.
+ */
+export async function runBfvSync(supabase: SupabaseClient, createdBy: string, now = new Date()): Promise<SyncReport> {
+  const actions: SyncAction[] = [];
+
+  const [clubsRes, bfvTeamsRes, teamsRes, leagueRes, venues] = await Promise.all([
+    supabase.from("bfv_clubs").select("id,name"),
+    supabase.from("bfv_teams").select("id,club_id,name,age_u,ics_url"),
+    supabase.from("teams").select("id,name,age_u,pitch_units"),
+    supabase
+      .from("bookings")
+      .select("id,external_uid,bfv_team_id,team_id,pitch_id,segment,start_at,end_at")
+      .eq("source", "BFV")
+      .not("external_uid", "is", null)
+      .in("status", ["REQUESTED", "APPROVED"])
+      .gt("end_at", now.toISOString()),
+    loadVenues(supabase),
+  ]);
+  if (clubsRes.error) throw clubsRes.error;
+  if (bfvTeamsRes.error) throw bfvTeamsRes.error;
+  if (teamsRes.error) throw teamsRes.error;
+  if (leagueRes.error) throw leagueRes.error;
+
+  const clubName = new Map(((clubsRes.data ?? []) as ClubRow[]).map((c) => [c.id, c.name]));
+  const bfvTeams = (bfvTeamsRes.data ?? []) as BfvTeamRow[];
+  const teams = (teamsRes.data ?? []) as TeamRow[];
+  const league = (leagueRes.data ?? []) as LeagueBooking[];
+  const bfvTeamById = new Map(bfvTeams.map((t) => [t.id, t]));
+
+  // 1) Spielpläne laden
+  const games: FeedGame[] = [];
+  const fetchedTeamIds = new Set<string>();
+
+  for (const team of bfvTeams.filter((t) => !!t.ics_url)) {
+    try {
+      // immer bei BFV nachfragen (304 genügt); ohne Antwort keine Absagen aus alten Daten
+      games.push(...feedGames(team.id, await loadBfvEvents(team.ics_url!, venues, { maxAgeMs: 0, allowStale: false })));
+      fetchedTeamIds.add(team.id);
+    } catch (err) {
+      actions.push({
+        kind: "ERROR",
+        bfv_team: team.name,
+        message: `ICS nicht lesbar: ${(err as { message?: string })?.message || String(err)}`,
+      });
+    }
+  }
+
+  // Heimspiele in der Zukunft, die noch nie gebucht wurden (auch abgesagte/abgelehnte zählen als gebucht)
+  const candidates = games.filter((g) => g.end > now && !g.cancelled && matchVenue(g.location, venues) !== null);
+  const bookedUids = await bookedBfvUids(supabase, [...new Set(candidates.map((g) => g.uid))]);
+  for (const b of league) bookedUids.add(b.external_uid);
+  const seenUids = new Set<string>();
+  const newGames = candidates.filter((g) => {
+    if (bookedUids.has(g.uid) || seenUids.has(g.uid)) return false;
+    seenUids.add(g.uid);
+    return true;
+  });
+  const rows = reconcileLeagueBookings(league, games, fetchedTeamIds, venues);
+
+  // 2) Belegung für die Platzregeln (alle blockierenden Buchungen im Zeitraum)
+  const maxEnd = [...newGames, ...rows.map((r) => r.game)].reduce(
+    (m, g) => (g ? Math.max(m, g.end.getTime()) : m),
+    now.getTime()
+  );
+  const rules = await loadRuleData(
+    supabase,
+    teams.map((t) => t.id),
+    now,
+    new Date(maxEnd)
+  );
+  const ruleBookings: RuleBooking[] = [...rules.bookings];
+  const ageSource = ageSourceFromEnv();
+
+  // 3) verlegte, abgesagte und nicht mehr gelistete Spiele (nur Teams, deren ICS gelesen werden konnte)
+  for (const { booking: existing, game: g, kind } of rows) {
+    const bfvTeamName = bfvTeamById.get(existing.bfv_team_id ?? "")?.name ?? "";
+    const base = { bfv_team: bfvTeamName, uid: existing.external_uid, summary: g?.summary };
+
+    if (kind === "MISSING" || kind === "NOW_AWAY") {
+      const comment =
+        kind === "NOW_AWAY"
+          ? "Spiel laut BFV nicht mehr auf unserer Anlage (automatischer Abgleich)."
+          : "Spiel nicht mehr im BFV-Spielplan (automatischer Abgleich).";
+      const { error } = await withAuditReason(
+        supabase
+          .from("bookings")
+          .update({
+            status: "CANCELLED",
+            ...decisionFields("CANCELLED", { code: "BFV_CANCELLED", comment }, null),
+          })
+          .eq("id", existing.id),
+        `${BFV_SYNC_REASON}: Spiel entfallen`
+      );
+
+      actions.push(
+        error
+          ? { ...base, kind: "ERROR", booking_id: existing.id, message: error.message }
+          : {
+              ...base,
+              kind: "CANCELLED",
+              booking_id: existing.id,
+              start_at: existing.start_at,
+              end_at: existing.end_at,
+              message: RECONCILE_LABELS[kind] + ".",
+            }
+      );
+      continue;
+    }
+
+    if (kind !== "TIME_CHANGED" || !g || g.end <= now) continue;
+
+    const team = teams.find((t) => t.id === existing.team_id);
+    if (!team) {
+      actions.push({ ...base, kind: "SKIPPED", booking_id: existing.id, message: "Lokale Mannschaft nicht gefunden." });
+      continue;
+    }
+
+    const startISO = g.start.toISOString();
+    const endISO = g.end.toISOString();
+    const slot = { start_at: startISO, end_at: endISO, age_u: team.age_u, units: team.pitch_units, league: true };
+
+    const others = ruleBookings.filter((b) => b.id !== existing.id);
+    const segment = isPitchSegment(existing.segment) ? existing.segment : null;
+    // Platz bleibt nur, wenn er zur (evtl. neuen) Anlage des Spiels gehört
+    const venuePitches = pitchesAtVenue(rules.pitches, matchVenue(g.location, venues));
+    let target: { pitch_id: string; segment: typeof segment } | null =
+      venuePitches.some((p) => p.id === existing.pitch_id) &&
+      validateBooking({ ...slot, id: existing.id, pitch_id: existing.pitch_id, segment }, rules.pitches, others).ok
+        ? { pitch_id: existing.pitch_id, segment }
+        : null;
+    if (!target) {
+      const free = availablePitches({ ...slot, id: existing.id }, venuePitches, others)[0];
+      if (free) target = { pitch_id: free.id, segment: null };
+    }
+
+    if (!target) {
+      actions.push({
+        ...base,
+        kind: "CONFLICT",
+        booking_id: existing.id,
+        start_at: startISO,
+        end_at: endISO,
+        message: "Spiel verlegt, aber kein freier Platz zur neuen Zeit – Buchung unverändert.",
+      });
+      continue;
+    }
+
+    const { error } = await withAuditReason(
+      supabase
+        .from("bookings")
+        .update({ start_at: startISO, end_at: endISO, pitch_id: target.pitch_id, segment: target.segment })
+        .eq("id", existing.id),
+      `${BFV_SYNC_REASON}: Spiel verlegt`
+    );
+    if (error) {
+      actions.push({ ...base, kind: "ERROR", booking_id: existing.id, message: error.message });
+      continue;
+    }
+
+    const rb = ruleBookings.find((b) => b.id === existing.id);
+    if (rb) Object.assign(rb, { start_at: startISO, end_at: endISO, pitch_id: target.pitch_id, segment: target.segment });
+    actions.push({
+      ...base,
+      kind: "MOVED",
+      booking_id: existing.id,
+      start_at: startISO,
+      end_at: endISO,
+      message: target.pitch_id === existing.pitch_id ? "Neue Zeit übernommen." : "Neue Zeit, anderer Platz.",
+    });
+  }
+
+  // 4) neue Spiele
+  for (const g of newGames) {
+    const bfvTeam = bfvTeamById.get(g.bfv_team_id)!;
+    const base = { bfv_team: bfvTeam.name, uid: g.uid, summary: g.summary };
+    const startISO = g.start.toISOString();
+    const endISO = g.end.toISOString();
+
+    const teamId = resolveLocalTeamId(teams, {
+      age_u: resolveBfvAgeU(bfvTeam, ageSource === "teams" ? teams : bfvTeams, ageSource).ageU,
+      name: bfvTeam.name,
+    });
+    const team = teams.find((t) => t.id === teamId);
+    if (!team) {
+      actions.push({ ...base, kind: "SKIPPED", message: "Keine passende lokale Mannschaft gefunden." });
+      continue;
+    }
+
+    const slot = { start_at: startISO, end_at: endISO, age_u: team.age_u, units: team.pitch_units, league: true };
+    const pitch = availablePitches(slot, pitchesAtVenue(rules.pitches, matchVenue(g.location, venues)), ruleBookings)[0];
+    if (!pitch) {
+      actions.push({
+        ...base,
+        kind: "CONFLICT",
+        start_at: startISO,
+        end_at: endISO,
+        message: "Kein freier Platz – bitte im BFV-Planer manuell buchen.",
+      });
+      continue;
+    }
+
+    const { data: ins, error } = await withAuditReason(
+      supabase
+        .from("bookings")
+        .insert({
+          start_at: startISO,
+          end_at: endISO,
+          status: "APPROVED",
+          note: g.summary,
+          pitch_id: pitch.id,
+          team_id: team.id,
+          created_by: createdBy,
+          ...bfvBookingMeta(
+            {
+              uid: g.uid,
+              summary: g.summary,
+              bfvTeamId: bfvTeam.id,
+              bfvClubName: clubName.get(bfvTeam.club_id) ?? "",
+              bfvTeamName: bfvTeam.name,
+            },
+            false
+          ),
+        })
+        .select("id")
+        .maybeSingle(),
+      `${BFV_SYNC_REASON}: neues Spiel`
+    );
+    if (error || !ins) {
+      actions.push({ ...base, kind: "ERROR", message: error?.message || "Buchung nicht angelegt." });
+      continue;
+    }
+
+    ruleBookings.push({
+      id: ins.id,
+      pitch_id: pitch.id,
+      start_at: startISO,
+      end_at: endISO,
+      status: "APPROVED",
+      segment: null,
+      age_u: team.age_u,
+      units: team.pitch_units,
+    });
+    actions.push({ ...base, kind: "CREATED", booking_id: ins.id, start_at: startISO, end_at: endISO, message: pitch.name });
+  }
+
+  const counts: Record<SyncActionKind, number> = { CREATED: 0, MOVED: 0, CANCELLED: 0, CONFLICT: 0, SKIPPED: 0, ERROR: 0 };
+  for (const a of actions) counts[a.kind]++;
+
+  return { status: counts.ERROR > 0 || counts.CONFLICT > 0 ? "PARTIAL" : "OK", counts, actions };
+}
+
+/** Stores a run in bfv_sync_runs (service role). */
+export async function saveSyncRun(
+  supabase: SupabaseClient,
+  run: { startedAt: Date; trigger: "CRON" | "MANUAL"; triggeredBy: string | null; report: SyncReport }
+) {
+  const { report } = run;
+  const { data, error } = await supabase
+    .from("bfv_sync_runs")
+    .insert({
+      started_at: run.startedAt.toISOString(),
+      finished_at: new Date().toISOString(),
+      trigger: run.trigger,
+      triggered_by: run.triggeredBy,
+      status: report.status,
+      created_count: report.counts.CREATED,
+      moved_count: report.counts.MOVED,
+      cancelled_count: report.counts.CANCELLED,
+      conflict_count: report.counts.CONFLICT,
+      error_count: report.counts.ERROR,
+      report: report.actions,
+    })
+    .select("id")
+    .maybeSingle();
+  if (error) throw error;
+  return data?.id as string | undefined;
+}
@@ -0,0 +1,237 @@
+import { describe, expect, it } from "vitest";
+import {
+  availablePitches,
+  BookingProposal,
+  checkBooking,
+  peakUnits,
+  RuleBooking,
+  RulePitch,
+  segmentsForPitch,
+  segmentUnits,
+  takenSegments,
+  unitsNeeded,
+} from "@/lib/bookingRules";
+
+// Dienstag, 20.10.2026 (Sommerzeit, UTC+2); bürgerliche Dämmerung gegen 18:48
+const at = (hm: string) => `2026-10-20T${hm}:00+02:00`;
+const d = (hm: string) => new Date(at(hm));
+
+const GROSS: RulePitch = { id: "p1", name: "Platz 1", type: "GROSSFELD" };
+const KOMPAKT: RulePitch = { id: "p2", name: "Kompaktfeld", type: "KOMPAKT" };
+const PITCHES = [GROSS, KOMPAKT];
+
+// age_u ist um 1 verschoben: 9 = U10, 12 = U13, 13 = U14
+const U10 = 9;
+const U13 = 12;
+const U14 = 13;
+
+function booking(id: string, from: string, to: string, extra: Partial<RuleBooking> = {}): RuleBooking {
+  return { id, pitch_id: "p1", start_at: at(from), end_at: at(to), status: "APPROVED", age_u: U10, ...extra };
+}
+
+function proposal(from: string, to: string, extra: Partial<BookingProposal> = {}): BookingProposal {
+  return { pitch_id: "p1", start_at: at(from), end_at: at(to), age_u: U10, ...extra };
+}
+
+const codes = (p: BookingProposal, pitches: RulePitch[], bookings: RuleBooking[] = []) =>
+  checkBooking(p, pitches, bookings).map((v) => v.code);
+
+describe("segments", () => {
+  it("maps halves and quarters onto the capacity units", () => {
+    expect(segmentUnits(GROSS, "A")).toEqual([0, 1]);
+    expect(segmentUnits(GROSS, "B")).toEqual([2, 3]);
+    expect(segmentUnits(GROSS, "Q3")).toEqual([2]);
+    expect(segmentUnits({ ...GROSS, capacity_units: 8 }, "Q2")).toEqual([2, 3]);
+    expect(segmentUnits(KOMPAKT, "B")).toEqual([1]);
+    expect(segmentUnits(KOMPAKT, "Q1")).toBeNull();
+  });
+
+  it("lists only the segments a pitch can be split into", () => {
+    expect(segmentsForPitch(GROSS)).toEqual(["A", "B", "Q1", "Q2", "Q3", "Q4"]);
+    expect(segmentsForPitch(KOMPAKT)).toEqual(["A", "B"]);
+    expect(segmentsForPitch({ ...GROSS, capacity_units: 3 })).toEqual([]);
+  });
+});
+
+describe("takenSegments", () => {
+  it("blocks a half and its quarters, but not the other half", () => {
+    expect(takenSegments(GROSS, d("17:00"), d("18:00"), [booking("a", "17:00", "18:00", { segment: "A" })])).toEqual([
+      "A",
+      "Q1",
+      "Q2",
+    ]);
+    expect(takenSegments(GROSS, d("17:00"), d("18:00"), [booking("q3", "17:00", "18:00", { segment: "Q3" })])).toEqual([
+      "B",
+      "Q3",
+    ]);
+  });
+
+  it("keeps room for bookings without a segment", () => {
+    // Q1 fest, dazu eine U10 ohne Segment (2 Einheiten): für Hälfte B bliebe ihr kein Platz
+    const bookings = [booking("q1", "17:00", "18:00", { segment: "Q1" }), booking("float", "17:00", "18:00")];
+    expect(takenSegments(GROSS, d("17:00"), d("18:00"), bookings)).toEqual(["A", "B", "Q1"]);
+  });
+
+  it("checks every moment of the range, not only its start", () => {
+    const bookings = [
+      booking("q1", "17:00", "18:00", { segment: "Q1" }),
+      booking("q3", "18:00", "19:00", { segment: "Q3" }),
+    ];
+    expect(takenSegments(GROSS, d("17:00"), d("19:00"), bookings)).toEqual(["A", "B", "Q1", "Q3"]);
+    expect(takenSegments(GROSS, d("18:00"), d("19:00"), bookings.slice(1))).toEqual(["B", "Q3"]);
+  });
+});
+
+describe("capacity units", () => {
+  it("derives the units a team needs from age, declaration and segment", () => {
+    expect(unitsNeeded(GROSS, U10)).toBe(2);
+    expect(unitsNeeded(GROSS, U13)).toBe(4);
+    expect(unitsNeeded(GROSS, null)).toBe(4);
+    expect(unitsNeeded(GROSS, U13, 1)).toBe(1);
+    expect(unitsNeeded(GROSS, U10, 9)).toBe(4);
+    expect(unitsNeeded(GROSS, U13, 3, "Q2")).toBe(1);
+    expect(unitsNeeded(KOMPAKT, U10)).toBe(1);
+  });
+
+  it("takes the peak over the range, counting pinned units once", () => {
+    const bookings = [
+      booking("b1", "17:00", "18:00"),
+      booking("b2", "17:30", "18:30"),
+      booking("b3", "18:00", "19:00", { units: 1 }),
+    ];
+    expect(peakUnits(GROSS, d("17:00"), d("19:00"), bookings)).toBe(4);
+    expect(peakUnits(GROSS, d("18:00"), d("19:00"), bookings)).toBe(3);
+
+    const pinned = [
+      booking("a", "17:00", "18:00", { segment: "A" }),
+      booking("q1", "17:00", "18:00", { segment: "Q1" }),
+    ];
+    expect(peakUnits(GROSS, d("17:00"), d("18:00"), pinned)).toBe(2);
+  });
+});
+
+describe("checkBooking", () => {
+  it("rejects broken input first", () => {
+    expect(codes(proposal("18:00", "17:00"), PITCHES)).toEqual(["INVALID_TIME_RANGE"]);
+    expect(codes(proposal("17:00", "18:00", { pitch_id: "nope" }), PITCHES)).toEqual(["UNKNOWN_PITCH"]);
+    expect(codes(proposal("17:00", "18:00", { pitch_id: "p2", segment: "Q1" }), PITCHES)).toEqual(["INVALID_SEGMENT"]);
+  });
+
+  it("lets two ≤U12 teams share a pitch, but not a third", () => {
+    const one = [booking("b1", "17:00", "18:30")];
+    expect(codes(proposal("17:30", "18:30"), PITCHES, one)).toEqual([]);
+
+    const two = [...one, booking("b2", "17:00", "18:30")];
+    const [v] = checkBooking(proposal("17:30", "18:30"), PITCHES, two);
+    expect(v.code).toBe("PITCH_FULL");
+    expect(v.conflictingBookingIds).toEqual(["b1", "b2"]);
+    expect(v.message).toBe("Platz 1: U10 braucht 2 von 4 Einheiten, frei sind nur 0.");
+  });
+
+  it("needs the whole pitch from U13", () => {
+    const [v] = checkBooking(proposal("17:00", "18:00", { age_u: U13 }), PITCHES, [booking("b1", "17:30", "19:00")]);
+    expect(v.code).toBe("PITCH_FULL");
+    expect(v.message).toContain("braucht den Platz exklusiv");
+  });
+
+  it("compares segments A/B with quarters Q1–Q4", () => {
+    const half = [booking("a", "17:00", "18:00", { segment: "A" })];
+    const [v] = checkBooking(proposal("17:00", "18:00", { segment: "Q2" }), PITCHES, half);
+    expect(v.code).toBe("SEGMENT_TAKEN");
+    expect(v.conflictingBookingIds).toEqual(["a"]);
+
+    expect(codes(proposal("17:00", "18:00", { segment: "B" }), PITCHES, half)).toEqual([]);
+    expect(
+      codes(proposal("17:00", "18:00", { segment: "Q4" }), PITCHES, [
+        booking("q1", "17:00", "18:00", { segment: "Q1" }),
+      ])
+    ).toEqual([]);
+    // U13 ohne Segment belegt alles
+    expect(
+      codes(proposal("17:00", "18:00", { segment: "Q1" }), PITCHES, [booking("u13", "17:00", "18:00", { age_u: U13 })])
+    ).toEqual(["SEGMENT_TAKEN"]);
+  });
+
+  it("ignores non-blocking bookings, other pitches, touching slots and the booking itself", () => {
+    const bookings = [
+      booking("c", "17:00", "18:00", { age_u: U13, status: "CANCELLED" }),
+      booking("w", "17:00", "18:00", { age_u: U13, status: "WAITLISTED" }),
+      booking("r", "17:00", "18:00", { age_u: U13, status: "REJECTED" }),
+      booking("k", "17:00", "18:00", { age_u: U13, pitch_id: "p2" }),
+      booking("before", "16:00", "17:00", { age_u: U13 }),
+      booking("self", "17:00", "18:00", { age_u: U13 }),
+    ];
+    expect(codes(proposal("17:00", "18:00", { id: "self", age_u: U13 }), PITCHES, bookings)).toEqual([]);
+  });
+
+  it("keeps U14+ and teams without age off the compact pitch", () => {
+    expect(codes(proposal("17:00", "18:00", { pitch_id: "p2", age_u: U14 }), PITCHES)).toEqual([
+      "PITCH_NOT_ALLOWED_FOR_AGE",
+    ]);
+    expect(codes(proposal("17:00", "18:00", { pitch_id: "p2", age_u: null }), PITCHES)).toEqual([
+      "PITCH_NOT_ALLOWED_FOR_AGE",
+    ]);
+    expect(codes(proposal("17:00", "18:00", { pitch_id: "p2", age_u: U13 }), PITCHES)).toEqual([]);
+  });
+
+  it("reports closures with their reason", () => {
+    const closed: RulePitch = {
+      ...GROSS,
+      closures: [
+        { id: "c1", start_at: at("18:00"), end_at: at("20:00"), reason: "Platzpflege" },
+        { id: "c2", start_at: at("15:00"), end_at: at("17:00"), reason: null },
+      ],
+    };
+    const [v] = checkBooking(proposal("17:30", "18:30"), [closed], []);
+    expect(v).toEqual({
+      code: "PITCH_CLOSED",
+      message: "Platz 1: im Zeitraum gesperrt (Platzpflege).",
+      conflictingBookingIds: [],
+    });
+    expect(codes(proposal("17:00", "18:00"), [closed])).toEqual([]);
+  });
+
+  it("checks opening hours and dusk, except for league games", () => {
+    const pitch: RulePitch = {
+      ...GROSS,
+      has_floodlight: false,
+      opening_hours: [{ weekday: 2, opens: "16:00", closes: "22:00" }],
+    };
+
+    expect(codes(proposal("15:30", "17:00"), [pitch])).toEqual(["OUTSIDE_OPENING_HOURS"]);
+    expect(codes(proposal("17:00", "18:30"), [pitch])).toEqual([]);
+    expect(codes(proposal("18:00", "19:30"), [pitch])).toEqual(["AFTER_DUSK"]);
+    expect(codes(proposal("21:00", "23:00"), [pitch])).toEqual(["OUTSIDE_OPENING_HOURS", "AFTER_DUSK"]);
+    expect(codes(proposal("21:00", "23:00", { league: true }), [pitch])).toEqual([]);
+    expect(codes(proposal("18:00", "19:30"), [{ ...pitch, has_floodlight: true }])).toEqual([]);
+  });
+
+  it("does not exempt league games from closures or capacity", () => {
+    const closed: RulePitch = {
+      ...GROSS,
+      closures: [{ id: "c", start_at: at("10:00"), end_at: at("20:00"), reason: null }],
+    };
+    expect(codes(proposal("17:00", "18:00", { league: true }), [closed])).toEqual(["PITCH_CLOSED"]);
+    expect(
+      codes(proposal("17:00", "18:00", { league: true, age_u: U13 }), PITCHES, [booking("b1", "17:00", "18:00")])
+    ).toEqual(["PITCH_FULL"]);
+  });
+});
+
+describe("availablePitches", () => {
+  it("offers only pitches without any violation", () => {
+    const slot = { start_at: at("17:00"), end_at: at("18:00"), age_u: U10 };
+    expect(availablePitches(slot, PITCHES, []).map((p) => p.id)).toEqual(["p1", "p2"]);
+    expect(availablePitches({ ...slot, age_u: U14 }, PITCHES, []).map((p) => p.id)).toEqual(["p1"]);
+
+    const full = [booking("b1", "17:00", "18:00", { age_u: U13 })];
+    expect(availablePitches(slot, PITCHES, full).map((p) => p.id)).toEqual(["p2"]);
+  });
+
+  it("offers unlit pitches after dusk only for league games", () => {
+    const dark = [{ ...GROSS, has_floodlight: false }];
+    const slot = { start_at: at("19:00"), end_at: at("21:00"), age_u: U13 };
+    expect(availablePitches(slot, dark, [])).toEqual([]);
+    expect(availablePitches({ ...slot, league: true }, dark, []).map((p) => p.id)).toEqual(["p1"]);
+  });
+});
@@ -0,0 +1,403 @@
+// src/lib/bookingRules.ts
+//
+// Pitch-sharing rules (pure, no Supabase access).
+// Used by the BFV planner in the browser and by /api/bookings/validate on the server,
+// so every screen gives the same answer for the same booking.
+import { fitsOpeningHours, hoursOnDayText, OpeningWindow } from "@/lib/openingHours";
+import { berlinParts } from "@/lib/berlinTime";
+import { civilDuskOn } from "@/lib/solar";
+
+export type PitchType = "GROSSFELD" | "KOMPAKT";
+
+/** Named part of a pitch: halves A/B, quarters Q1–Q4 (Q1+Q2 = A, Q3+Q4 = B). */
+export type PitchSegment = "A" | "B" | "Q1" | "Q2" | "Q3" | "Q4";
+
+export const PITCH_SEGMENTS: readonly PitchSegment[] = ["A", "B", "Q1", "Q2", "Q3", "Q4"];
+
+export const SEGMENT_LABELS: Record<PitchSegment, string> = {
+  A: "Hälfte A",
+  B: "Hälfte B",
+  Q1: "Viertel 1",
+  Q2: "Viertel 2",
+  Q3: "Viertel 3",
+  Q4: "Viertel 4",
+};
+
+export type RulePitch = {
+  id: string;
+  name: string;
+  type: PitchType;
+  /** how many units the pitch can be split into (pitches.capacity_units, default by type) */
+  capacity_units?: number | null;
+  /** venue the pitch belongs to (pitches.venue_id, see src/lib/venues.ts) */
+  venue_id?: string | null;
+  /** times the pitch cannot be used at all (pitch_closures); only those overlapping the loaded range */
+  closures?: RuleClosure[];
+  /** pitch_opening_hours (see src/lib/openingHours.ts); undefined/empty = always open */
+  opening_hours?: OpeningWindow[];
+  /** pitches.has_floodlight; false = usable only until civil dusk (src/lib/solar.ts), undefined = lit */
+  has_floodlight?: boolean | null;
+};
+
+/** A pitch closure (imported or entered by an admin, see src/lib/closures.ts). */
+export type RuleClosure = {
+  id: string;
+  start_at: string;
+  end_at: string;
+  reason: string | null;
+};
+
+/** An existing booking, reduced to what the rules need. */
+export type RuleBooking = {
+  id: string;
+  pitch_id: string;
+  start_at: string;
+  end_at: string;
+  status: string;
+  age_u: number | null;
+  /** units the booking team declared (teams.pitch_units); null = default for its age */
+  units?: number | null;
+  /** booked part of the pitch; null = no fixed position on the pitch */
+  segment?: PitchSegment | null;
+};
+
+/** A booking that is about to be created or (re-)activated. */
+export type BookingProposal = {
+  /** set when an existing booking is re-checked (e.g. on approve) so it does not collide with itself */
+  id?: string | null;
+  pitch_id: string;
+  start_at: string;
+  end_at: string;
+  age_u: number | null;
+  units?: number | null;
+  segment?: PitchSegment | null;
+  /** league game with a date fixed by the BFV: opening hours and dusk do not apply */
+  league?: boolean;
+};
+
+export type ViolationCode =
+  | "INVALID_TIME_RANGE"
+  | "UNKNOWN_PITCH"
+  | "INVALID_SEGMENT"
+  | "PITCH_NOT_ALLOWED_FOR_AGE"
+  | "SEGMENT_TAKEN"
+  | "PITCH_FULL"
+  | "PITCH_CLOSED"
+  | "OUTSIDE_OPENING_HOURS"
+  | "AFTER_DUSK";
+
+export type Violation = {
+  code: ViolationCode;
+  message: string;
+  conflictingBookingIds: string[];
+};
+
+export type ValidationResult = {
+  ok: boolean;
+  violations: Violation[];
+};
+
+export const BOOKING_STATUSES = ["REQUESTED", "APPROVED", "REJECTED", "CANCELLED", "WAITLISTED"] as const;
+export type BookingStatus = (typeof BOOKING_STATUSES)[number];
+
+/** Nur diese Status belegen einen Platz (WAITLISTED wartet dahinter und blockt nicht). */
+export const BLOCKING_STATUSES = ["REQUESTED", "APPROVED"] as const;
+
+/** Violations that a waitlist entry can wait out (the slot is only taken, not forbidden). */
+export const WAITLISTABLE_CODES: readonly ViolationCode[] = ["SEGMENT_TAKEN", "PITCH_FULL"];
+
+/**
+ * Kapazität in Einheiten, falls pitches.capacity_units nicht gepflegt ist:
+ * Großfeld = 4 Viertel, Kompaktfeld = 2 Hälften.
+ */
+export const DEFAULT_CAPACITY_UNITS: Record<PitchType, number> = {
+  GROSSFELD: 4,
+  KOMPAKT: 2,
+};
+
+/** ≤U12 ohne eigene Angabe: so viele Mannschaften teilen sich einen Platz. */
+export const YOUTH_TEAMS_PER_PITCH = 2;
+
+export function isBlockingStatus(status: string | null | undefined) {
+  return (BLOCKING_STATUSES as readonly string[]).includes(String(status || "").toUpperCase());
+}
+
+/**
+ * WICHTIG: age_u ist in unserem Datenmodell um 1 verschoben (U9 -> 8).
+ * Deshalb immer mit dem "U-Label" arbeiten.
+ */
+export function toULabel(ageU: number | null | undefined): number | null {
+  return typeof ageU === "number" ? ageU + 1 : null;
+}
+
+/** Ab U13 (inkl.) und unbekannt: exklusive Nutzung. */
+export function needsExclusivePitch(ageU: number | null | undefined) {
+  const u = toULabel(ageU);
+  return u == null || u >= 13;
+}
+
+export function overlaps(aStart: Date, aEnd: Date, bStart: Date, bEnd: Date) {
+  return aStart < bEnd && bStart < aEnd;
+}
+
+export function pitchCapacity(pitch: RulePitch) {
+  const c = pitch.capacity_units;
+  return typeof c === "number" && c > 0 ? c : DEFAULT_CAPACITY_UNITS[pitch.type] ?? 1;
+}
+
+export function isPitchSegment(x: unknown): x is PitchSegment {
+  return typeof x === "string" && (PITCH_SEGMENTS as readonly string[]).includes(x);
+}
+
+/**
+ * Unit indices covered by a segment. Halves split the units in two, quarters
+ * only exist when the capacity divides by four (Großfeld). null = not available on this pitch.
+ */
+export function segmentUnits(pitch: RulePitch, segment: PitchSegment): number[] | null {
+  const capacity = pitchCapacity(pitch);
+  const range = (from: number, count: number) => Array.from({ length: count }, (_, i) => from + i);
+
+  if (segment === "A" || segment === "B") {
+    if (capacity % 2 !== 0) return null;
+    const half = capacity / 2;
+    return range(segment === "A" ? 0 : half, half);
+  }
+
+  if (capacity % 4 !== 0) return null;
+  const quarter = capacity / 4;
+  return range((Number(segment.slice(1)) - 1) * quarter, quarter);
+}
+
+/** Segments a pitch can be split into (empty for pitches that can only be booked whole). */
+export function segmentsForPitch(pitch: RulePitch): PitchSegment[] {
+  return PITCH_SEGMENTS.filter((seg) => segmentUnits(pitch, seg) != null);
+}
+
+/**
+ * Units a team occupies on the given pitch.
+ * A booked segment fixes it to that segment's size. Otherwise a declared value
+ * (teams.pitch_units) wins, capped at the pitch capacity, and without one:
+ * U13+/unknown take the whole pitch, ≤U12 a 1/YOUTH_TEAMS_PER_PITCH share.
+ */
+export function unitsNeeded(
+  pitch: RulePitch,
+  ageU: number | null | undefined,
+  declaredUnits?: number | null,
+  segment?: PitchSegment | null
+) {
+  const capacity = pitchCapacity(pitch);
+  const fixed = segment ? segmentUnits(pitch, segment) : null;
+  if (fixed) return fixed.length;
+  if (typeof declaredUnits === "number" && declaredUnits > 0) return Math.min(declaredUnits, capacity);
+  if (needsExclusivePitch(ageU)) return capacity;
+  return Math.max(1, Math.ceil(capacity / YOUTH_TEAMS_PER_PITCH));
+}
+
+/**
+ * What is in use at moment t: units pinned by segment bookings, plus the number
+ * of units needed by bookings without a segment (they fit into whatever is left).
+ */
+export function occupancyAt(pitch: RulePitch, t: Date, bookings: RuleBooking[]) {
+  const fixed = new Set<number>();
+  let floating = 0;
+
+  for (const b of bookings) {
+    if (!(new Date(b.start_at) <= t && new Date(b.end_at) > t)) continue;
+    const units = b.segment ? segmentUnits(pitch, b.segment) : null;
+    if (units) units.forEach((u) => fixed.add(u));
+    else floating += unitsNeeded(pitch, b.age_u, b.units);
+  }
+
+  return { fixed, floating };
+}
+
+/** Moments in [start, end) at which the occupancy can change. */
+function checkPoints(start: Date, end: Date, bookings: RuleBooking[]) {
+  return [start, ...bookings.map((b) => new Date(b.start_at)).filter((d) => d > start && d < end)];
+}
+
+/** Highest number of units in use at any moment of [start, end) by the given bookings. */
+export function peakUnits(pitch: RulePitch, start: Date, end: Date, bookings: RuleBooking[]) {
+  let peak = 0;
+  for (const t of checkPoints(start, end, bookings)) {
+    const { fixed, floating } = occupancyAt(pitch, t, bookings);
+    peak = Math.max(peak, fixed.size + floating);
+  }
+  return peak;
+}
+
+/** Segments that cannot be booked during [start, end) because of the given bookings. */
+export function takenSegments(pitch: RulePitch, start: Date, end: Date, bookings: RuleBooking[]): PitchSegment[] {
+  const segs = segmentsForPitch(pitch);
+  const taken = new Set<PitchSegment>();
+
+  for (const t of checkPoints(start, end, bookings)) {
+    const { fixed, floating } = occupancyAt(pitch, t, bookings);
+    for (const seg of segs) {
+      const units = segmentUnits(pitch, seg) ?? [];
+      // belegt, wenn ein Teil fest vergeben ist oder für die Buchungen ohne Segment sonst kein Platz bliebe
+      const pinned = new Set([...fixed, ...units]);
+      if (units.some((u) => fixed.has(u)) || pinned.size + floating > pitchCapacity(pitch)) taken.add(seg);
+    }
+  }
+  return segs.filter((seg) => taken.has(seg));
+}
+
+/**
+ * Grob-Filter für die UI:
+ * - U14+ (oder unbekannt): kein Kompaktfeld
+ * - bis inkl. U13: alle Plätze
+ * (die Kombinations-/Exklusivregeln prüft checkBooking)
+ */
+export function allowedPitchesForAge<P extends RulePitch>(pitches: P[], ageU: number | null | undefined): P[] {
+  const uLabel = toULabel(ageU);
+  if (uLabel == null || uLabel >= 14) return pitches.filter((p) => p.type !== "KOMPAKT");
+  return pitches;
+}
+
+function ageText(ageU: number | null | undefined) {
+  const u = toULabel(ageU);
+  return u == null ? "Mannschaft ohne Jahrgang" : `U${u}`;
+}
+
+/** Closures of the pitch that overlap [start, end). */
+export function overlappingClosures(pitch: RulePitch, start: Date, end: Date) {
+  return (pitch.closures ?? []).filter((c) => overlaps(start, end, new Date(c.start_at), new Date(c.end_at)));
+}
+
+/** Blocking bookings on the proposal's pitch that overlap it in time (the proposal itself excluded). */
+export function overlappingBookings(proposal: BookingProposal, bookings: RuleBooking[]) {
+  const pStart = new Date(proposal.start_at);
+  const pEnd = new Date(proposal.end_at);
+
+  return bookings.filter(
+    (b) =>
+      b.id !== proposal.id &&
+      b.pitch_id === proposal.pitch_id &&
+      isBlockingStatus(b.status) &&
+      overlaps(pStart, pEnd, new Date(b.start_at), new Date(b.end_at))
+  );
+}
+
+/**
+ * Checks one proposal against the pitch rules and the existing bookings.
+ * Returns an empty list if the booking is allowed.
+ */
+export function checkBooking(proposal: BookingProposal, pitches: RulePitch[], bookings: RuleBooking[]): Violation[] {
+  const start = new Date(proposal.start_at).getTime();
+  const end = new Date(proposal.end_at).getTime();
+  if (!Number.isFinite(start) || !Number.isFinite(end) || end <= start) {
+    return [
+      {
+        code: "INVALID_TIME_RANGE",
+        message: "Ungültiger Zeitraum (Ende muss nach Start liegen).",
+        conflictingBookingIds: [],
+      },
+    ];
+  }
+
+  const pitch = pitches.find((p) => p.id === proposal.pitch_id);
+  if (!pitch) {
+    return [{ code: "UNKNOWN_PITCH", message: "Unbekannter Platz.", conflictingBookingIds: [] }];
+  }
+
+  if (proposal.segment && !segmentUnits(pitch, proposal.segment)) {
+    return [
+      {
+        code: "INVALID_SEGMENT",
+        message: `${pitch.name}: ${SEGMENT_LABELS[proposal.segment]} gibt es auf diesem Platz nicht.`,
+        conflictingBookingIds: [],
+      },
+    ];
+  }
+
+  const violations: Violation[] = [];
+
+  const closed = overlappingClosures(pitch, new Date(start), new Date(end));
+  if (closed.length) {
+    const reason = closed.find((c) => c.reason)?.reason;
+    violations.push({
+      code: "PITCH_CLOSED",
+      message: `${pitch.name}: im Zeitraum gesperrt${reason ? ` (${reason})` : ""}.`,
+      conflictingBookingIds: [],
+    });
+  }
+
+  if (!proposal.league && !fitsOpeningHours(pitch.opening_hours, new Date(start), new Date(end))) {
+    violations.push({
+      code: "OUTSIDE_OPENING_HOURS",
+      message: `${pitch.name}: außerhalb der Öffnungszeiten (${hoursOnDayText(pitch.opening_hours ?? [], new Date(start))}).`,
+      conflictingBookingIds: [],
+    });
+  }
+
+  const dusk = pitch.has_floodlight === false && !proposal.league ? civilDuskOn(new Date(start)) : null;
+  if (dusk && new Date(end) > dusk) {
+    violations.push({
+      code: "AFTER_DUSK",
+      message: `${pitch.name}: kein Flutlicht, dunkel ab ${berlinParts(dusk).hm} Uhr.`,
+      conflictingBookingIds: [],
+    });
+  }
+
+  if (!allowedPitchesForAge([pitch], proposal.age_u).length) {
+    violations.push({
+      code: "PITCH_NOT_ALLOWED_FOR_AGE",
+      message: `${pitch.name}: ${ageText(proposal.age_u)} darf nicht auf das Kompaktfeld.`,
+      conflictingBookingIds: [],
+    });
+  }
+
+  const ovs = overlappingBookings(proposal, bookings);
+  if (ovs.length === 0) return violations;
+
+  if (proposal.segment) {
+    const segment = proposal.segment;
+    if (takenSegments(pitch, new Date(start), new Date(end), ovs).includes(segment)) {
+      const own = new Set(segmentUnits(pitch, segment));
+      violations.push({
+        code: "SEGMENT_TAKEN",
+        message: `${pitch.name}: ${SEGMENT_LABELS[segment]} ist im Zeitraum schon belegt.`,
+        conflictingBookingIds: ovs
+          .filter((b) => !b.segment || (segmentUnits(pitch, b.segment) ?? []).some((u) => own.has(u)))
+          .map((b) => b.id),
+      });
+    }
+    return violations;
+  }
+
+  // Einheiten summieren: was gleichzeitig schon belegt ist + was die neue Buchung braucht
+  const capacity = pitchCapacity(pitch);
+  const needed = unitsNeeded(pitch, proposal.age_u, proposal.units);
+  const used = peakUnits(pitch, new Date(start), new Date(end), ovs);
+
+  if (used + needed > capacity) {
+    const free = Math.max(0, capacity - used);
+    violations.push({
+      code: "PITCH_FULL",
+      message:
+        needed >= capacity
+          ? `${pitch.name}: ${ageText(proposal.age_u)} braucht den Platz exklusiv, im Zeitraum gibt es bereits ${ovs.length} Buchung(en).`
+          : `${pitch.name}: ${ageText(proposal.age_u)} braucht ${needed} von ${capacity} Einheiten, frei sind nur ${free}.`,
+      conflictingBookingIds: ovs.map((b) => b.id),
+    });
+  }
+
+  return violations;
+}
+
+export function validateBooking(proposal: BookingProposal, pitches: RulePitch[], bookings: RuleBooking[]): ValidationResult {
+  const violations = checkBooking(proposal, pitches, bookings);
+  return { ok: violations.length === 0, violations };
+}
+
+/** All pitches on which the given slot could be booked without a violation. */
+export function availablePitches<P extends RulePitch>(
+  slot: Omit<BookingProposal, "pitch_id">,
+  pitches: P[],
+  bookings: RuleBooking[]
+): P[] {
+  return allowedPitchesForAge(pitches, slot.age_u).filter(
+    (p) => checkBooking({ ...slot, pitch_id: p.id }, pitches, bookings).length === 0
+  );
+}
@@ -0,0 +1,92 @@
+// src/lib/bookingSeries.ts
+import { supabase } from "@/lib/supabaseClient";
+import type { PitchSegment, Violation } from "@/lib/bookingRules";
+import { validateBookings } from "@/lib/bookingValidation";
+import { DateRange, expandSeries, Occurrence, SeriesRule, SkippedOccurrence } from "@/lib/recurrence";
+
+export type NewSeries = SeriesRule & {
+  created_by: string;
+  team_id: string;
+  pitch_id: string;
+  segment: PitchSegment | null;
+  note: string | null;
+};
+
+export type SeriesConflict = { occurrence: Occurrence; violations: Violation[] };
+
+export type CreatedSeries = {
+  /** null when every occurrence collides (nothing is written then) */
+  seriesId: string | null;
+  created: Occurrence[];
+  skipped: SkippedOccurrence[];
+  conflicts: SeriesConflict[];
+};
+
+export async function loadSchoolHolidays(from: string, to: string): Promise<DateRange[]> {
+  const { data, error } = await supabase
+    .from("school_holidays")
+    .select("name,start_date,end_date")
+    .lte("start_date", to)
+    .gte("end_date", from);
+  if (error) throw error;
+  return (data ?? []) as DateRange[];
+}
+
+/**
+ * Browser helper: stores the series and one booking per free occurrence.
+ * Occurrences that break the pitch rules are not created but returned as conflicts,
+ * so they can be moved later in the series editor.
+ */
+export async function createSeriesWithBookings(
+  series: NewSeries,
+  status: "REQUESTED" | "APPROVED" = "REQUESTED",
+  holidays?: DateRange[]
+): Promise<CreatedSeries> {
+  const hol = series.skip_school_holidays
+    ? (holidays ?? (await loadSchoolHolidays(series.valid_from, series.valid_to)))
+    : [];
+  const { occurrences, skipped } = expandSeries(series, [], hol);
+  if (occurrences.length === 0) return { seriesId: null, created: [], skipped, conflicts: [] };
+
+  const results = await validateBookings(
+    occurrences.map((o) => ({
+      team_id: series.team_id,
+      pitch_id: series.pitch_id,
+      segment: series.segment,
+      start_at: o.start_at,
+      end_at: o.end_at,
+    }))
+  );
+
+  const created = occurrences.filter((_, i) => results[i]?.ok);
+  const conflicts = occurrences
+    .map((occurrence, i) => ({ occurrence, violations: results[i]?.violations ?? [] }))
+    .filter((_, i) => !results[i]?.ok);
+
+  if (created.length === 0) return { seriesId: null, created, skipped, conflicts };
+
+  const { data, error } = await supabase.from("booking_series").insert(series).select("id").single();
+  if (error || !data) throw error ?? new Error("Serie konnte nicht angelegt werden.");
+
+  const { error: bErr } = await supabase.from("bookings").insert(
+    created.map((o) => ({
+      created_by: series.created_by,
+      team_id: series.team_id,
+      pitch_id: series.pitch_id,
+      segment: series.segment,
+      start_at: o.start_at,
+      end_at: o.end_at,
+      note: series.note,
+      status,
+      series_id: data.id,
+      series_date: o.date,
+    }))
+  );
+
+  if (bErr) {
+    await supabase.from("booking_series").delete().eq("id", data.id);
+    throw bErr;
+  }
+
+  return { seriesId: data.id as string, created, skipped, conflicts };
+}
@@ -0,0 +1,67 @@
+// src/lib/bookingValidation.ts
+import { supabase } from "@/lib/supabaseClient";
+import type { PitchSegment, ValidationResult, Violation, ViolationCode } from "@/lib/bookingRules";
+import type { Alternative } from "@/lib/conflictAssistant";
+
+export type ProposalPayload = {
+  id?: string | null;
+  team_id: string;
+  pitch_id: string;
+  segment?: PitchSegment | null;
+  start_at: string; // ISO
+  end_at: string; // ISO
+};
+
+/** POST to one of the booking API routes with the session token. */
+async function postWithSession(path: string, body: unknown, failText: string) {
+  const { data } = await supabase.auth.getSession();
+  const token = data.session?.access_token;
+  if (!token) throw new Error("Session fehlt – bitte neu einloggen.");
+
+  const res = await fetch(path, {
+    method: "POST",
+    cache: "no-store",
+    headers: { "content-type": "application/json", authorization: `Bearer ${token}` },
+    body: JSON.stringify(body),
+  });
+
+  const json = await res.json().catch(() => null);
+  if (!res.ok || !json) {
+    throw new Error(json?.error || `${failText} (${res.status}).`);
+  }
+  return json;
+}
+
+/** Browser helper for POST /api/bookings/validate (sends the session token along). */
+export async function validateBookings(proposals: ProposalPayload[]): Promise<ValidationResult[]> {
+  const json = await postWithSession("/api/bookings/validate", { proposals }, "Regelprüfung fehlgeschlagen");
+  if (!Array.isArray(json.results)) throw new Error("Regelprüfung fehlgeschlagen.");
+  return json.results as ValidationResult[];
+}
+
+export async function validateBooking(proposal: ProposalPayload): Promise<ValidationResult> {
+  const [result] = await validateBookings([proposal]);
+  return result;
+}
+
+/** Browser helper for POST /api/bookings/alternatives. */
+export async function fetchAlternatives(proposal: ProposalPayload): Promise<Alternative[]> {
+  const json = await postWithSession("/api/bookings/alternatives", { proposal }, "Alternativen nicht verfügbar");
+  return Array.isArray(json.alternatives) ? (json.alternatives as Alternative[]) : [];
+}
+
+export function violationsText(violations: Violation[]) {
+  return violations.map((v) => v.message).join("\n");
+}
+
+/** True for the DB exclusion constraint error (slot was taken in the meantime). */
+export function isOverlapError(message: string | null | undefined) {
+  const msg = String(message || "");
+  return msg.includes("bookings_no_overlap") || msg.toLowerCase().includes("exclusion constraint");
+}
+
+/** Rule code raised by the database check (booking_slot_violation), e.g. when approving a change. */
+export function slotRuleErrorCode(message: string | null | undefined): ViolationCode | null {
+  const m = String(message || "").match(/booking rule violated: ([A-Z_]+)/);
+  return m ? (m[1] as ViolationCode) : null;
+}
@@ -0,0 +1,189 @@
+// src/lib/calendarFeeds.ts
+// Our own subscribable ICS feeds: approved bookings of a team, a pitch or the teams of the
+// calling trainer (/api/feeds/team/<id>.ics, /api/feeds/pitch/<id>.ics, /api/feeds/me.ics).
+// URLs carry a token from calendar_feed_tokens that only unlocks that one feed (feedKey);
+// the routes read with the service role key.
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { buildCalendar, IcsOutEvent } from "@/lib/ics";
+import { isPitchSegment, SEGMENT_LABELS } from "@/lib/bookingRules";
+import { bfvGameLabel } from "@/lib/bfvGame";
+import { loadVenues, Venue, venueLabel } from "@/lib/venues";
+
+export type FeedScope = "team" | "pitch" | "me";
+
+/** Window of a feed: a month back (recent changes stay visible), a year ahead. */
+export const FEED_PAST_DAYS = 30;
+export const FEED_FUTURE_DAYS = 365;
+
+const PROD_ID = "-//FCSternPitchPlanner//Booking Feed//DE";
+
+/** Path of a feed (without host); the token goes into the query string. */
+export function feedPath(scope: FeedScope, id?: string) {
+  return scope === "me" ? "/api/feeds/me.ics" : `/api/feeds/${scope}/${id}.ics`;
+}
+
+export function feedUrl(origin: string, scope: FeedScope, token: string, id?: string) {
+  return `${origin}${feedPath(scope, id)}?token=${encodeURIComponent(token)}`;
+}
+
+/** Feed a token is issued for (calendar_feed_tokens.feed): "me", "team:<id>", "pitch:<id>". */
+export function feedKey(scope: FeedScope, id?: string | null) {
+  return scope === "me" ? "me" : `${scope}:${id}`;
+}
+
+/** "<uuid>.ics" -> "<uuid>"; null for anything else. */
+export function feedIdFromFile(file: string) {
+  const m = (file || "").match(/^([0-9a-f-]{36})\.ics$/i);
+  return m ? m[1].toLowerCase() : null;
+}
+
+/** User id of an active user owning the token for this feed; null if the token is unknown or for another feed. */
+export async function resolveFeedToken(
+  service: SupabaseClient,
+  token: string | null,
+  feed: string
+): Promise<string | null> {
+  if (!token || !/^[0-9a-f]{32,128}$/i.test(token)) return null;
+
+  const { data, error } = await service
+    .from("calendar_feed_tokens")
+    .select("user_id")
+    .eq("token", token)
+    .eq("feed", feed)
+    .maybeSingle();
+  if (error) throw error;
+  if (!data) return null;
+
+  const userId = (data as { user_id: string }).user_id;
+  const { data: prof, error: profErr } = await service.from("profiles").select("active").eq("id", userId).maybeSingle();
+  if (profErr) throw profErr;
+  if (!prof || (prof as { active: boolean | null }).active === false) return null;
+
+  // nur zur Info in /feeds, Fehler egal
+  await service.from("calendar_feed_tokens").update({ last_used_at: new Date().toISOString() }).eq("token", token);
+  return userId;
+}
+
+type FeedBookingTeam = { name: string } | null;
+type FeedBookingPitch = { name: string; venue_id: string | null } | null;
+
+export type FeedBooking = {
+  id: string;
+  start_at: string;
+  end_at: string;
+  note: string | null;
+  segment: string | null;
+  source: string | null;
+  opponent: string | null;
+  competition: string | null;
+  teams: FeedBookingTeam | FeedBookingTeam[];
+  pitches: FeedBookingPitch | FeedBookingPitch[];
+};
+
+function one<T>(x: T | T[]): T | null {
+  return (Array.isArray(x) ? x[0] : x) ?? null;
+}
+
+/** Calendar entry of a booking: "U13 – Training" / "U13 – SV Gast, Kreisliga 3" at "Platz 1 (Hälfte A), <venue>". */
+export function bookingFeedEvent(b: FeedBooking, venueById: Map<string, Venue>): IcsOutEvent {
+  const team = one(b.teams)?.name ?? "Buchung";
+  const pitch = one(b.pitches);
+  const isGame = b.source === "BFV";
+
+  const summary = isGame
+    ? (bfvGameLabel(team, b.opponent, b.competition) ?? `${team} – Spiel`)
+    : `${team} – Training`;
+
+  const venue = pitch?.venue_id ? venueById.get(pitch.venue_id) : undefined;
+  const pitchText = pitch
+    ? isPitchSegment(b.segment)
+      ? `${pitch.name} (${SEGMENT_LABELS[b.segment]})`
+      : pitch.name
+    : "";
+  const location = [pitchText, venue ? venueLabel(venue) : ""].filter(Boolean).join(", ");
+
+  return {
+    uid: `booking-${b.id}@fcstern-pitch-planner`,
+    start: new Date(b.start_at),
+    end: new Date(b.end_at),
+    summary,
+    location,
+    description: (b.note || "").trim() || undefined,
+    status: "CONFIRMED",
+    extra: [{ name: "CATEGORIES", value: isGame ? "Heimspiel" : "Training" }],
+  };
+}
+
+const FEED_SELECT =
+  "id,start_at,end_at,note,segment,source,opponent,competition,teams:team_id(name),pitches:pitch_id(name,venue_id)";
+
+/**
+ * Approved bookings of the feed as a complete VCALENDAR.
+ * team/pitch: all bookings of that team/pitch; me: bookings of the teams the user trains
+ * (trainer_teams, whoever created them). Throws the Supabase error on failure.
+ */
+export async function buildBookingFeed(
+  service: SupabaseClient,
+  feed: { scope: FeedScope; id: string; name: string },
+  now = new Date()
+) {
+  const from = new Date(now.getTime() - FEED_PAST_DAYS * 24 * 3600 * 1000);
+  const to = new Date(now.getTime() + FEED_FUTURE_DAYS * 24 * 3600 * 1000);
+
+  let teamIds: string[] = [];
+  if (feed.scope === "me") {
+    const { data, error } = await service.from("trainer_teams").select("team_id").eq("user_id", feed.id);
+    if (error) throw error;
+    teamIds = ((data ?? []) as { team_id: string }[]).map((t) => t.team_id);
+  }
+
+  let query = service
+    .from("bookings")
+    .select(FEED_SELECT)
+    .eq("status", "APPROVED")
+    .gt("end_at", from.toISOString())
+    .lt("start_at", to.toISOString())
+    .order("start_at", { ascending: true });
+  if (feed.scope === "team") query = query.eq("team_id", feed.id);
+  else if (feed.scope === "pitch") query = query.eq("pitch_id", feed.id);
+  else query = query.in("team_id", teamIds);
+
+  const [{ data, error }, venues] = await Promise.all([query, loadVenues(service)]);
+  if (error) throw error;
+
+  const venueById = new Map(venues.map((v) => [v.id, v]));
+  const events = ((data ?? []) as FeedBooking[]).map((b) => bookingFeedEvent(b, venueById));
+  return buildCalendar({ prodId: PROD_ID, name: feed.name }, events, now);
+}
+
+/**
+ * Token check + feed for the routes: the ICS text and a file name, or an error with the HTTP
+ * status to answer with (401 unknown token or token of another feed, 404 unknown team/pitch).
+ */
+export async function feedForToken(
+  service: SupabaseClient,
+  scope: FeedScope,
+  id: string | null,
+  token: string | null
+): Promise<{ ics: string; filename: string } | { error: string; status: number }> {
+  const userId = await resolveFeedToken(service, token, feedKey(scope, id));
+  if (!userId) return { error: "Invalid feed token", status: 401 };
+
+  if (scope === "me") {
+    const { data } = await service.from("profiles").select("full_name").eq("id", userId).maybeSingle();
+    const name = (data as { full_name: string | null } | null)?.full_name || "Meine Teams";
+    return { ics: await buildBookingFeed(service, { scope, id: userId, name: `FC Stern – ${name}` }), filename: "me.ics" };
+  }
+
+  if (!id) return { error: "Not found", status: 404 };
+  const { data, error } = await service
+    .from(scope === "team" ? "teams" : "pitches")
+    .select("name")
+    .eq("id", id)
+    .maybeSingle();
+  if (error) throw error;
+  if (!data) return { error: "Not found", status: 404 };
+
+  const name = `FC Stern – ${(data as { name: string }).name}`;
+  return { ics: await buildBookingFeed(service, { scope, id, name }), filename: `${scope}-${id}.ics` };
+}
@@ -0,0 +1,95 @@
+import { readFileSync } from "node:fs";
+import { describe, expect, it } from "vitest";
+import { charsetFromContentType, decodeText, detectCharset, repairMojibake } from "@/lib/charset";
+import { parseEvents } from "@/lib/ics";
+
+// BFV-Spielplan-Exporte, wie sie in verschiedenen Kodierungen ausgeliefert wurden
+const fixture = (name: string) => new Uint8Array(readFileSync(new URL(`./__fixtures__/${name}`, import.meta.url)));
+
+const LOCATION = "Sportanlage Feldbergstraße, Kunstrasen, 81825 München";
+
+function firstEvent(text: string) {
+  const [e] = parseEvents(text);
+  return { summary: e.summary, location: e.location, description: e.description };
+}
+
+describe("charsetFromContentType", () => {
+  it("reads quoted and unquoted labels", () => {
+    expect(charsetFromContentType("text/calendar; charset=ISO-8859-1")).toBe("iso-8859-1");
+    expect(charsetFromContentType('text/calendar;charset="Windows-1252"; method=PUBLISH')).toBe("windows-1252");
+    expect(charsetFromContentType("text/calendar")).toBeNull();
+    expect(charsetFromContentType(null)).toBeNull();
+  });
+});
+
+describe("detectCharset", () => {
+  it("prefers a BOM", () => {
+    expect(detectCharset(Uint8Array.from([0xef, 0xbb, 0xbf, 0x41]), "text/calendar; charset=cp850")).toBe("utf-8");
+    expect(detectCharset(Uint8Array.from([0xff, 0xfe, 0x41, 0x00]))).toBe("utf-16le");
+    expect(detectCharset(Uint8Array.from([0xfe, 0xff, 0x00, 0x41]))).toBe("utf-16be");
+  });
+
+  it("takes valid UTF-8 as UTF-8 whatever is declared", () => {
+    expect(detectCharset(fixture("bfv-mojibake-utf8.ics"), "text/calendar; charset=ISO-8859-1")).toBe("utf-8");
+    expect(detectCharset(new TextEncoder().encode("UID:plain ascii"), "text/calendar; charset=cp850")).toBe("utf-8");
+  });
+
+  it("uses the declared charset for non-UTF-8 bodies", () => {
+    // ISO-8859-1 wird wie im Browser als Windows-1252 gelesen
+    expect(detectCharset(fixture("bfv-iso-8859-1.ics"), "text/calendar; charset=ISO-8859-1")).toBe("windows-1252");
+    expect(detectCharset(fixture("bfv-cp850.ics"), "text/calendar; charset=IBM850")).toBe("cp850");
+  });
+
+  it("guesses between Windows-1252 and CP850 when nothing (or a wrong UTF-8) is declared", () => {
+    expect(detectCharset(fixture("bfv-windows-1252.ics"))).toBe("windows-1252");
+    expect(detectCharset(fixture("bfv-windows-1252.ics"), "text/calendar; charset=utf-8")).toBe("windows-1252");
+    expect(detectCharset(fixture("bfv-iso-8859-1.ics"))).toBe("windows-1252");
+    expect(detectCharset(fixture("bfv-cp850.ics"))).toBe("cp850");
+  });
+});
+
+describe("decodeText", () => {
+  it("decodes Windows-1252 including the typographic range", () => {
+    const { text, charset } = decodeText(fixture("bfv-windows-1252.ics"));
+    expect(charset).toBe("windows-1252");
+    expect(firstEvent(text)).toEqual({
+      summary: "Kreisliga 2 – FC Stern München : SpVgg Höhenkirchen",
+      location: LOCATION,
+      description: "Schiedsrichter: Jürgen Maß\nEintritt 3 €",
+    });
+  });
+
+  it("decodes ISO-8859-1 and CP850", () => {
+    for (const name of ["bfv-iso-8859-1.ics", "bfv-cp850.ics"]) {
+      expect(firstEvent(decodeText(fixture(name)).text)).toEqual({
+        summary: "Kreisliga 2 - FC Stern München : SpVgg Höhenkirchen",
+        location: LOCATION,
+        description: "Schiedsrichter: Jürgen Maß",
+      });
+    }
+  });
+
+  it("drops the BOM", () => {
+    const bytes = Uint8Array.from([0xef, 0xbb, 0xbf, ...new TextEncoder().encode("BEGIN:VCALENDAR")]);
+    expect(decodeText(bytes)).toEqual({ text: "BEGIN:VCALENDAR", charset: "utf-8" });
+  });
+});
+
+describe("repairMojibake", () => {
+  it("repairs BFV texts that were mis-decoded upstream (CP437, CP850, Windows-1252, twice)", () => {
+    const { text, charset } = decodeText(fixture("bfv-mojibake-utf8.ics"));
+    const broken = firstEvent(text);
+    expect(charset).toBe("utf-8");
+    expect(broken.summary).toBe("Kreisliga 2 â€“ FC Stern M├╝nchen : SpVgg H├Âhenkirchen");
+
+    expect(repairMojibake(broken.summary)).toBe("Kreisliga 2 – FC Stern München : SpVgg Höhenkirchen");
+    expect(repairMojibake(broken.location)).toBe(LOCATION);
+    expect(repairMojibake(broken.description)).toBe("Schiedsrichter: Jürgen Maß");
+  });
+
+  it("leaves correct text alone", () => {
+    for (const s of ["FC Stern München – Ärger am Spielfeldrand", "Straße", "Çağlar · 3 €", "", "Ã allein"]) {
+      expect(repairMojibake(s)).toBe(s);
+    }
+  });
+});
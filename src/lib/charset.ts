@@ -0,0 +1,205 @@
+// src/lib/charset.ts
+// Charset handling for upstream feeds (BFV ICS): decoding the raw bytes with the right charset
+// (BOM, UTF-8 check, Content-Type, byte heuristics) and repairing text that was decoded with the
+// wrong one somewhere upstream ("M├╝nchen", "MÃ¼nchen" -> "München").
+// Node's TextDecoder has no DOS code pages and decodes windows-1252 like ISO-8859-1, so the
+// single-byte code pages are tables here.
+
+/** Upper halves (0x80–0xFF) of the DOS code pages BFV exports have been seen in. */
+const CP437_HIGH =
+  "ÇüéâäàåçêëèïîìÄÅÉæÆôöòûùÿÖÜ¢£¥₧ƒ" +
+  "áíóúñÑªº¿⌐¬½¼¡«»░▒▓│┤╡╢╖╕╣║╗╝╜╛┐" +
+  "└┴┬├─┼╞╟╚╔╩╦╠═╬╧╨╤╥╙╘╒╓╫╪┘┌█▄▌▐▀" +
+  "αßΓπΣσµτΦΘΩδ∞φε∩≡±≥≤⌠⌡÷≈°∙·√ⁿ²■\u00a0";
+
+const CP850_HIGH =
+  "ÇüéâäàåçêëèïîìÄÅÉæÆôöòûùÿÖÜø£Ø×ƒ" +
+  "áíóúñÑªº¿®¬½¼¡«»░▒▓│┤ÁÂÀ©╣║╗╝¢¥┐" +
+  "└┴┬├─┼ãÃ╚╔╩╦╠═╬¤ðÐÊËÈıÍÎÏ┘┌█▄¦Ì▀" +
+  "ÓßÔÒõÕµþÞÚÛÙýÝ¯´\u00ad±‗¾¶§÷¸°¨·¹³²■\u00a0";
+
+/** Windows-1252 0x80–0xFF: typographic characters in 0x80–0x9F, ISO-8859-1 above (unused slots stay C1). */
+const WIN1252_HIGH =
+  "€\u0081‚ƒ„…†‡ˆ‰Š‹Œ\u008dŽ\u008f\u0090‘’“”•–—˜™š›œ\u009džŸ" +
+  Array.from({ length: 0x60 }, (_, i) => String.fromCharCode(0xa0 + i)).join("");
+
+const SINGLE_BYTE_TABLES: Record<string, string> = {
+  cp437: CP437_HIGH,
+  cp850: CP850_HIGH,
+  "windows-1252": WIN1252_HIGH,
+};
+
+const DOS_LABELS: Record<string, string> = {
+  cp437: "cp437",
+  ibm437: "cp437",
+  "437": "cp437",
+  cp850: "cp850",
+  ibm850: "cp850",
+  "850": "cp850",
+};
+
+function decodeSingleByte(bytes: Uint8Array, high: string) {
+  let out = "";
+  for (const b of bytes) out += b < 0x80 ? String.fromCharCode(b) : high[b - 0x80];
+  return out;
+}
+
+function isValidUtf8(bytes: Uint8Array) {
+  try {
+    new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function hasHighBytes(bytes: Uint8Array) {
+  return bytes.some((b) => b >= 0x80);
+}
+
+/** "text/calendar; charset=ISO-8859-1" -> "iso-8859-1" */
+export function charsetFromContentType(contentType: string | null | undefined) {
+  const m = (contentType || "").match(/charset\s*=\s*"?([^";\s]+)"?/i);
+  return m ? m[1].toLowerCase() : null;
+}
+
+// Umlaute/ß in CP850/CP437 vs. Windows-1252/Latin-1 – je nachdem, welche Bytes häufiger sind
+const DOS_GERMAN_BYTES = new Set([0x81, 0x84, 0x94, 0x8e, 0x99, 0x9a, 0xe1]);
+const LATIN_GERMAN_BYTES = new Set([0xfc, 0xe4, 0xf6, 0xc4, 0xd6, 0xdc, 0xdf, 0xe9]);
+
+function guessSingleByteCharset(bytes: Uint8Array) {
+  let dos = 0;
+  let latin = 0;
+  for (const b of bytes) {
+    if (DOS_GERMAN_BYTES.has(b)) dos++;
+    else if (LATIN_GERMAN_BYTES.has(b)) latin++;
+  }
+  return dos > latin ? "cp850" : "windows-1252";
+}
+
+function supportedLabel(label: string) {
+  if (DOS_LABELS[label]) return DOS_LABELS[label];
+  try {
+    return new TextDecoder(label).encoding;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Charset of a response body: BOM, then valid UTF-8, then the declared charset, then a guess
+ * between CP850 and Windows-1252. A declared UTF-8 is ignored when the bytes are no UTF-8.
+ */
+export function detectCharset(bytes: Uint8Array, contentType?: string | null) {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return "utf-8";
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return "utf-16le";
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return "utf-16be";
+
+  if (!hasHighBytes(bytes) || isValidUtf8(bytes)) return "utf-8";
+
+  const declared = charsetFromContentType(contentType);
+  const label = declared ? supportedLabel(declared) : null;
+  if (label && label !== "utf-8" && !label.startsWith("utf-16")) return label;
+
+  return guessSingleByteCharset(bytes);
+}
+
+/** Decodes a response body (see detectCharset); the BOM is dropped. */
+export function decodeText(bytes: Uint8Array, contentType?: string | null) {
+  const charset = detectCharset(bytes, contentType);
+  const table = SINGLE_BYTE_TABLES[charset];
+  const text = table ? decodeSingleByte(bytes, table) : new TextDecoder(charset).decode(bytes);
+  return { text: text.replace(/^\uFEFF/, ""), charset };
+}
+
+// ---------- Mojibake ----------
+
+type ByteMap = Map<string, number>;
+
+function byteMap(high: string): ByteMap {
+  return new Map([...high].map((c, i) => [c, 0x80 + i]));
+}
+
+/** Windows-1252 and ISO-8859-1 (C1 controls) both map back to their byte. */
+function latinByteMap(): ByteMap {
+  const map = byteMap(WIN1252_HIGH);
+  for (let b = 0x80; b < 0xa0; b++) map.set(String.fromCharCode(b), b);
+  return map;
+}
+
+let byteMaps: ByteMap[] | null = null;
+
+// Latin zuerst: "Ã¼" ergäbe mit CP850 (Ã = 0xC7) ein falsches Zeichen
+function mojibakeByteMaps() {
+  if (!byteMaps) byteMaps = [latinByteMap(), byteMap(CP850_HIGH), byteMap(CP437_HIGH)];
+  return byteMaps;
+}
+
+function utf8SequenceLength(lead: number) {
+  if (lead >= 0xc2 && lead <= 0xdf) return 2;
+  if (lead >= 0xe0 && lead <= 0xef) return 3;
+  if (lead >= 0xf0 && lead <= 0xf4) return 4;
+  return 0;
+}
+
+// Nur Ergebnisse, die in Vereins-/Ortsnamen vorkommen: Latin-1/Latin Extended-A, Satzzeichen, €
+function plausibleRepair(s: string) {
+  return /^[\u00a0-\u017f\u2010-\u206f\u20ac]$/.test(s);
+}
+
+/** One UTF-8 sequence at run[i], read back through the code page; null if there is none. */
+function repairAt(chars: string[], i: number, map: ByteMap) {
+  const lead = map.get(chars[i]);
+  const len = lead === undefined ? 0 : utf8SequenceLength(lead);
+  if (!len || i + len > chars.length) return null;
+
+  const bytes = [lead!];
+  for (let k = 1; k < len; k++) {
+    const b = map.get(chars[i + k]);
+    if (b === undefined || b < 0x80 || b > 0xbf) return null;
+    bytes.push(b);
+  }
+
+  try {
+    const decoded = new TextDecoder("utf-8", { fatal: true }).decode(Uint8Array.from(bytes));
+    return plausibleRepair(decoded) ? { text: decoded, length: len } : null;
+  } catch {
+    return null;
+  }
+}
+
+function repairRun(run: string) {
+  const chars = [...run];
+  let out = "";
+  let i = 0;
+  while (i < chars.length) {
+    let hit: { text: string; length: number } | null = null;
+    for (const map of mojibakeByteMaps()) {
+      hit = repairAt(chars, i, map);
+      if (hit) break;
+    }
+    if (hit) {
+      out += hit.text;
+      i += hit.length;
+    } else {
+      out += chars[i];
+      i++;
+    }
+  }
+  return out;
+}
+
+/**
+ * Repairs UTF-8 text that was decoded as CP437, CP850, Windows-1252 or Latin-1
+ * ("M├╝nchen", "Stra├ƒe", "MÃ¼nchen", "â€“"), also when that happened twice.
+ * Correct text is left alone: only byte sequences that form valid UTF-8 are replaced.
+ */
+export function repairMojibake(s: string) {
+  let current = s || "";
+  for (let pass = 0; pass < 3; pass++) {
+    const next = current.replace(/[\u0080-\uffff]{2,}/g, repairRun);
+    if (next === current) break;
+    current = next;
+  }
+  return current;
+}
@@ -0,0 +1,191 @@
+// src/lib/closures.ts
+// Pitch closures (table pitch_closures): imported from external calendars (src/lib/externalIcs.ts)
+// or entered by admins – weather, maintenance, the yearly winter break. Yearly closures are stored
+// once (first year) and expanded here for the requested range. "Platz sofort sperren" also cancels
+// the affected bookings and leaves a notification for their trainers.
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { RuleClosure } from "@/lib/bookingRules";
+import { addDaysYmd, berlinDateTime, berlinParts, formatBerlin } from "@/lib/berlinTime";
+import { decisionFields, decisionText } from "@/lib/decisionReasons";
+import { withAuditReason } from "@/lib/audit";
+
+/** A closure (or one year of a yearly closure) on a pitch. */
+export type PitchClosure = RuleClosure & {
+  pitch_id: string;
+  source_id: string | null;
+  repeat_yearly: boolean;
+  repeat_until: string | null; // "YYYY-MM-DD"
+};
+
+export const CLOSURE_COLUMNS = "id,pitch_id,start_at,end_at,reason,source_id,repeat_yearly,repeat_until";
+
+/** Same wall time, `years` later (club time; 29.02. becomes 01.03.). */
+function shiftYears(iso: string, years: number) {
+  const p = berlinParts(new Date(iso));
+  const ymd = `${p.year + years}${p.ymd.slice(4)}`;
+  return berlinDateTime(ymd, p.hm) ?? new Date(iso);
+}
+
+/** Occurrences of a closure overlapping [from, to); a single one unless it repeats yearly. */
+export function expandClosure(c: PitchClosure, from: Date, to: Date): PitchClosure[] {
+  const overlapsRange = (s: Date, e: Date) => s < to && from < e;
+  if (!c.repeat_yearly) return overlapsRange(new Date(c.start_at), new Date(c.end_at)) ? [c] : [];
+
+  const firstYear = berlinParts(new Date(c.start_at)).year;
+  const out: PitchClosure[] = [];
+  // ein Jahr früher anfangen: der Winter vom Vorjahr reicht in den Januar
+  for (let year = Math.max(firstYear, berlinParts(from).year - 1); year <= berlinParts(to).year; year++) {
+    const start = shiftYears(c.start_at, year - firstYear);
+    if (c.repeat_until && berlinParts(start).ymd > c.repeat_until) break;
+    const end = shiftYears(c.end_at, year - firstYear);
+    if (overlapsRange(start, end)) out.push({ ...c, start_at: start.toISOString(), end_at: end.toISOString() });
+  }
+  return out;
+}
+
+/**
+ * Closures overlapping [from, to) with yearly ones expanded, ordered by start.
+ * Throws the Supabase error on failure.
+ */
+export async function loadPitchClosures(supabase: SupabaseClient, from: Date, to: Date): Promise<PitchClosure[]> {
+  const range = `and(start_at.lt."${to.toISOString()}",end_at.gt."${from.toISOString()}")`;
+  const { data, error } = await supabase
+    .from("pitch_closures")
+    .select(CLOSURE_COLUMNS)
+    .or(`repeat_yearly.eq.true,${range}`)
+    .order("start_at");
+  if (error) throw error;
+
+  return ((data ?? []) as PitchClosure[])
+    .flatMap((c) => expandClosure(c, from, to))
+    .sort((a, b) => a.start_at.localeCompare(b.start_at));
+}
+
+/** Closures overlapping [from, to), by pitch id (for RulePitch.closures). */
+export async function loadClosures(supabase: SupabaseClient, from: Date, to: Date) {
+  const byPitch = new Map<string, RuleClosure[]>();
+  for (const c of await loadPitchClosures(supabase, from, to)) {
+    const list = byPitch.get(c.pitch_id) ?? [];
+    list.push({ id: c.id, start_at: c.start_at, end_at: c.end_at, reason: c.reason });
+    byPitch.set(c.pitch_id, list);
+  }
+  return byPitch;
+}
+
+/** "Winterpause (jährlich bis 2030)" etc. for lists. */
+export function closureLabel(c: Pick<PitchClosure, "reason" | "repeat_yearly" | "repeat_until">) {
+  const reason = c.reason || "Gesperrt";
+  if (!c.repeat_yearly) return reason;
+  return `${reason} (jährlich${c.repeat_until ? ` bis ${c.repeat_until.slice(0, 4)}` : ""})`;
+}
+
+/** Statuses cancelled when a pitch is closed; waitlisted first, else the trigger would promote them. */
+const CLOSE_CANCEL_ORDER: readonly string[] = ["WAITLISTED", "REQUESTED", "APPROVED"];
+
+export type ClosePitchInput = {
+  pitchIds: string[];
+  start: Date;
+  end: Date;
+  reason: string;
+  repeatYearly?: boolean;
+  repeatUntil?: string | null;
+  /** cancel bookings in [start, end) and notify whoever created them */
+  cancelBookings: boolean;
+};
+
+export type ClosePitchResult = { closures: number; cancelled: number; notified: number };
+
+type AffectedBooking = {
+  id: string;
+  status: string;
+  start_at: string;
+  end_at: string;
+  created_by: string | null;
+  teams: { name: string } | { name: string }[] | null;
+  pitches: { name: string } | { name: string }[] | null;
+};
+
+function one<T>(x: T | T[] | null): T | null {
+  return (Array.isArray(x) ? x[0] : x) ?? null;
+}
+
+function cancelNotice(b: AffectedBooking, reason: string) {
+  const day = formatBerlin(b.start_at, { weekday: "short", day: "2-digit", month: "2-digit" });
+  const time = `${formatBerlin(b.start_at, { timeStyle: "short" })}–${formatBerlin(b.end_at, { timeStyle: "short" })}`;
+  return {
+    title: `${one(b.teams)?.name ?? "Buchung"}: ${day} abgesagt`,
+    body: `${one(b.pitches)?.name ?? "Platz"}, ${day} ${time} – Platz gesperrt: ${reason}`,
+  };
+}
+
+/**
+ * Closes pitches (admin, browser or server client): inserts the closures and optionally cancels
+ * every booking in the first period with reason PITCH_CLOSED and notifies the trainers.
+ * Later years of a yearly closure only block new requests. Throws on the first failed write.
+ */
+export async function closePitch(
+  supabase: SupabaseClient,
+  input: ClosePitchInput,
+  userId: string | null
+): Promise<ClosePitchResult> {
+  const reason = input.reason.trim();
+  if (!input.pitchIds.length) throw new Error("Bitte mindestens einen Platz wählen.");
+  if (!reason) throw new Error("Bitte einen Grund angeben.");
+  if (!(input.end > input.start)) throw new Error("Ende muss nach dem Beginn liegen.");
+
+  const { error: insErr } = await supabase.from("pitch_closures").insert(
+    input.pitchIds.map((pitchId) => ({
+      pitch_id: pitchId,
+      start_at: input.start.toISOString(),
+      end_at: input.end.toISOString(),
+      reason,
+      repeat_yearly: !!input.repeatYearly,
+      repeat_until: input.repeatYearly ? input.repeatUntil || null : null,
+      created_by: userId,
+    }))
+  );
+  if (insErr) throw insErr;
+
+  const result: ClosePitchResult = { closures: input.pitchIds.length, cancelled: 0, notified: 0 };
+  if (!input.cancelBookings) return result;
+
+  const { data, error } = await supabase
+    .from("bookings")
+    .select("id,status,start_at,end_at,created_by,teams:team_id(name),pitches:pitch_id(name)")
+    .in("pitch_id", input.pitchIds)
+    .in("status", [...CLOSE_CANCEL_ORDER])
+    .lt("start_at", input.end.toISOString())
+    .gt("end_at", input.start.toISOString());
+  if (error) throw error;
+
+  const affected = ((data ?? []) as AffectedBooking[]).sort(
+    (a, b) => CLOSE_CANCEL_ORDER.indexOf(a.status) - CLOSE_CANCEL_ORDER.indexOf(b.status)
+  );
+  const fields = decisionFields("CANCELLED", { code: "PITCH_CLOSED", comment: reason }, userId);
+
+  for (const b of affected) {
+    const { error: updErr } = await withAuditReason(
+      supabase.from("bookings").update({ status: "CANCELLED", ...fields }).eq("id", b.id),
+      decisionText(fields.decision_code, fields.decision_comment)
+    );
+    if (updErr) throw updErr;
+    result.cancelled++;
+  }
+
+  const notices = affected
+    .filter((b) => b.created_by && b.created_by !== userId)
+    .map((b) => ({ user_id: b.created_by, booking_id: b.id, ...cancelNotice(b, reason) }));
+  if (notices.length) {
+    const { error: noteErr } = await supabase.from("notifications").insert(notices);
+    if (noteErr) throw noteErr;
+    result.notified = notices.length;
+  }
+
+  return result;
+}
+
+/** "Jetzt bis heute Abend" for the quick closure form: [now, end of the club-time day). */
+export function restOfToday(now = new Date()) {
+  const tomorrow = berlinDateTime(addDaysYmd(berlinParts(now).ymd, 1)) ?? new Date(now.getTime() + 24 * 3600 * 1000);
+  return { start: now, end: tomorrow };
+}
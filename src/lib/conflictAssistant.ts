@@ -0,0 +1,141 @@
+// src/lib/conflictAssistant.ts
+//
+// Proposes alternatives when a booking proposal breaks the pitch rules (pure, no Supabase access):
+//   - SHARED:       same pitch and time, but only a free half / quarter (shared use)
+//   - OTHER_PITCH:  same time on another pitch that is allowed for the team's age
+//   - NEAREST_SLOT: same pitch (and part), moved to the nearest free time on the same day
+
+import {
+  allowedPitchesForAge,
+  BookingProposal,
+  PitchSegment,
+  RuleBooking,
+  RulePitch,
+  segmentsForPitch,
+  validateBooking,
+} from "@/lib/bookingRules";
+import { berlinParts } from "@/lib/berlinTime";
+
+export type AlternativeKind = "SHARED" | "OTHER_PITCH" | "NEAREST_SLOT";
+
+export type Alternative = {
+  kind: AlternativeKind;
+  pitch_id: string;
+  pitch_name: string;
+  segment: PitchSegment | null;
+  start_at: string; // ISO
+  end_at: string; // ISO
+};
+
+export const ALTERNATIVE_LABELS: Record<AlternativeKind, string> = {
+  SHARED: "Geteilte Nutzung",
+  OTHER_PITCH: "Anderer Platz",
+  NEAREST_SLOT: "Nächster freier Slot",
+};
+
+export const SEARCH_STEP_MINUTES = 30;
+export const SEARCH_RANGE_MINUTES = 180;
+
+/** Earliest start / latest end (Vereinszeit) for moved slots */
+export const DAY_START_MINUTES = 8 * 60;
+export const DAY_END_MINUTES = 22 * 60;
+
+const MAX_SHARED = 2;
+const MAX_OTHER_PITCHES = 3;
+
+function isOk(proposal: BookingProposal, pitches: RulePitch[], bookings: RuleBooking[]) {
+  return validateBooking(proposal, pitches, bookings).ok;
+}
+
+function toAlternative(kind: AlternativeKind, p: BookingProposal, pitch: RulePitch): Alternative {
+  return {
+    kind,
+    pitch_id: pitch.id,
+    pitch_name: pitch.name,
+    segment: p.segment ?? null,
+    start_at: p.start_at,
+    end_at: p.end_at,
+  };
+}
+
+function sharedOptions(proposal: BookingProposal, pitch: RulePitch, pitches: RulePitch[], bookings: RuleBooking[]) {
+  return segmentsForPitch(pitch)
+    .filter((seg) => seg !== proposal.segment)
+    .map((segment) => ({ ...proposal, segment }))
+    .filter((p) => isOk(p, pitches, bookings))
+    .slice(0, MAX_SHARED)
+    .map((p) => toAlternative("SHARED", p, pitch));
+}
+
+function otherPitchOptions(proposal: BookingProposal, pitches: RulePitch[], bookings: RuleBooking[]) {
+  const out: Alternative[] = [];
+  for (const pitch of allowedPitchesForAge(pitches, proposal.age_u)) {
+    if (pitch.id === proposal.pitch_id || out.length >= MAX_OTHER_PITCHES) continue;
+
+    // erst ganzer Platz (ohne feste Teilfläche), sonst die erste freie Teilfläche
+    const candidates: BookingProposal[] = [
+      { ...proposal, pitch_id: pitch.id, segment: null },
+      ...segmentsForPitch(pitch).map((segment) => ({ ...proposal, pitch_id: pitch.id, segment })),
+    ];
+    const hit = candidates.find((p) => isOk(p, pitches, bookings));
+    if (hit) out.push(toAlternative("OTHER_PITCH", hit, pitch));
+  }
+  return out;
+}
+
+function nearestSlotOptions(proposal: BookingProposal, pitch: RulePitch, pitches: RulePitch[], bookings: RuleBooking[]) {
+  const start = new Date(proposal.start_at);
+  const end = new Date(proposal.end_at);
+  const day = berlinParts(start).ymd;
+
+  const fits = (offset: number) => {
+    const s = new Date(start.getTime() + offset * 60_000);
+    const e = new Date(end.getTime() + offset * 60_000);
+    const ps = berlinParts(s);
+    const pe = berlinParts(e);
+    if (ps.ymd !== day || pe.ymd !== day) return null;
+    if (ps.minutes < DAY_START_MINUTES || pe.minutes > DAY_END_MINUTES) return null;
+
+    const moved = { ...proposal, start_at: s.toISOString(), end_at: e.toISOString() };
+    return isOk(moved, pitches, bookings) ? moved : null;
+  };
+
+  let earlier: BookingProposal | null = null;
+  let later: BookingProposal | null = null;
+  for (let m = SEARCH_STEP_MINUTES; m <= SEARCH_RANGE_MINUTES && (!earlier || !later); m += SEARCH_STEP_MINUTES) {
+    if (!later) later = fits(m);
+    if (!earlier) earlier = fits(-m);
+  }
+
+  // näherer Slot zuerst, bei Gleichstand der spätere (Training nach der Schule)
+  const found = [later, earlier].filter((p): p is BookingProposal => !!p);
+  found.sort(
+    (a, b) =>
+      Math.abs(new Date(a.start_at).getTime() - start.getTime()) -
+      Math.abs(new Date(b.start_at).getTime() - start.getTime())
+  );
+  return found.map((p) => toAlternative("NEAREST_SLOT", p, pitch));
+}
+
+/**
+ * Alternatives for a proposal that collides. Every returned option passes validateBooking
+ * against the given bookings, so accepting one only fails if the data changed in between.
+ */
+export function suggestAlternatives(
+  proposal: BookingProposal,
+  pitches: RulePitch[],
+  bookings: RuleBooking[]
+): Alternative[] {
+  const start = new Date(proposal.start_at).getTime();
+  const end = new Date(proposal.end_at).getTime();
+  if (!Number.isFinite(start) || !Number.isFinite(end) || end <= start) return [];
+
+  const pitch = pitches.find((p) => p.id === proposal.pitch_id);
+  const pitchAllowed = !!pitch && allowedPitchesForAge([pitch], proposal.age_u).length > 0;
+
+  return [
+    ...(pitch && pitchAllowed ? nearestSlotOptions(proposal, pitch, pitches, bookings) : []),
+    ...otherPitchOptions(proposal, pitches, bookings),
+    ...(pitch && pitchAllowed ? sharedOptions(proposal, pitch, pitches, bookings) : []),
+  ];
+}
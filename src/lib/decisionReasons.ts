@@ -0,0 +1,77 @@
+// src/lib/decisionReasons.ts
+// Reason codes for rejecting / cancelling bookings (bookings.decision_code).
+
+export const DECISION_REASONS = [
+  { code: "PITCH_CLOSED", label: "Platz gesperrt" },
+  { code: "LEAGUE_MATCH", label: "Kollision mit Ligaspiel" },
+  { code: "BOOKING_CONFLICT", label: "Überschneidung mit anderer Buchung" },
+  { code: "WEATHER", label: "Witterung / Platz unbespielbar" },
+  { code: "AGE_RULE", label: "Platz nicht für die Altersklasse" },
+  { code: "CAPACITY", label: "Platz ausgelastet" },
+  { code: "DUPLICATE", label: "Doppelte Anfrage" },
+  { code: "SERIES_CANCELLED", label: "Serientermin abgesagt" },
+  { code: "BFV_CANCELLED", label: "Spiel im BFV abgesetzt oder verlegt" },
+  { code: "OTHER", label: "Sonstiges" },
+] as const;
+
+export type DecisionCode = (typeof DECISION_REASONS)[number]["code"];
+
+/** Statuses that can only be set together with a reason code (DB: bookings_decision_reason_required). */
+export const DECISION_STATUSES = ["REJECTED", "CANCELLED"] as const;
+
+/** Codes an admin can pick in the decision dialog (the rest is set by the app itself). */
+export const DIALOG_DECISION_CODES: DecisionCode[] = DECISION_REASONS.map((r) => r.code).filter(
+  (c) => c !== "SERIES_CANCELLED" && c !== "BFV_CANCELLED"
+);
+
+const LABELS = new Map<string, string>(DECISION_REASONS.map((r) => [r.code, r.label]));
+
+export function isDecisionCode(x: unknown): x is DecisionCode {
+  return typeof x === "string" && LABELS.has(x);
+}
+
+export function needsDecisionReason(status: string | null | undefined) {
+  return (DECISION_STATUSES as readonly string[]).includes(String(status || "").toUpperCase());
+}
+
+/** "OTHER" only makes sense with a comment. */
+export function decisionCommentRequired(code: DecisionCode) {
+  return code === "OTHER";
+}
+
+export function decisionLabel(code: string | null | undefined) {
+  if (!code) return "";
+  return LABELS.get(code) ?? code;
+}
+
+/** "Platz gesperrt – Kommentar" (empty when there is no decision). */
+export function decisionText(code: string | null | undefined, comment: string | null | undefined) {
+  const parts = [decisionLabel(code), String(comment ?? "").trim()].filter(Boolean);
+  return parts.join(" – ");
+}
+
+export type Decision = { code: DecisionCode; comment?: string | null };
+
+/**
+ * Columns to write together with a status change. APPROVED records who decided,
+ * REQUESTED/WAITLISTED clear the last decision, REJECTED/CANCELLED need a reason.
+ */
+export function decisionFields(status: string, decision: Decision | null, userId: string | null) {
+  const s = String(status || "").toUpperCase();
+  if (s === "REQUESTED" || s === "WAITLISTED") {
+    return { decision_code: null, decision_comment: null, decided_by: null, decided_at: null };
+  }
+
+  const decided = { decided_by: userId, decided_at: new Date().toISOString() };
+  if (!needsDecisionReason(s)) return { decision_code: null, decision_comment: null, ...decided };
+
+  if (!decision) throw new Error("Bitte einen Grund angeben.");
+  if (decisionCommentRequired(decision.code) && !String(decision.comment ?? "").trim()) {
+    throw new Error("Bitte den Grund kurz erläutern.");
+  }
+  return {
+    decision_code: decision.code,
+    decision_comment: String(decision.comment ?? "").trim() || null,
+    ...decided,
+  };
+}
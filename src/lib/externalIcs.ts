@@ -0,0 +1,237 @@
+// src/lib/externalIcs.ts
+// External ICS calendars (table external_ics_sources): the city's pitch-closure calendar, the
+// school's hall plan, … Their events become pitch_closures, which the booking rules treat as
+// blocked time. Fetch and normalizing reuse the BFV pipeline (src/lib/bfvIcs.ts); every source
+// has its own host allowlist. Synced by /api/closures/sync (cron + admin).
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { BfvIcsError, checkIcsUrl, fetchBfvIcs, IcsEvent, normalizeIcsEvents } from "@/lib/bfvIcs";
+import { normalizeForMatch } from "@/lib/bfvGame";
+import { BLOCKING_STATUSES } from "@/lib/bookingRules";
+
+/** Keyword rule: events whose SUMMARY/LOCATION contain pattern block pitch_id. */
+export type PitchRule = { pattern: string; pitch_id: string };
+
+export type ExternalIcsSource = {
+  id: string;
+  name: string;
+  url: string;
+  allowed_hosts: string[];
+  summary_filter: string | null;
+  pitch_ids: string[];
+  pitch_rules: PitchRule[];
+  active: boolean;
+  last_synced_at: string | null;
+  last_status: "OK" | "FAILED" | null;
+  last_error: string | null;
+  last_count: number | null;
+};
+
+export const EXTERNAL_SOURCE_COLUMNS =
+  "id,name,url,allowed_hosts,summary_filter,pitch_ids,pitch_rules,active,last_synced_at,last_status,last_error,last_count";
+
+/** How far ahead events are imported. */
+export const CLOSURE_HORIZON_DAYS = 365;
+
+export type ClosureInput = {
+  pitch_id: string;
+  start_at: string;
+  end_at: string;
+  reason: string;
+  source_id: string;
+  external_uid: string;
+};
+
+/** Whether the event passes the source's summary filter (no filter = every event). */
+export function matchesSummaryFilter(source: Pick<ExternalIcsSource, "summary_filter">, e: IcsEvent) {
+  const filter = normalizeForMatch(source.summary_filter ?? "");
+  return !filter || normalizeForMatch(`${e.summary} ${e.description}`).includes(filter);
+}
+
+/** Pitches an event blocks: the pitches of all matching rules, else the source's default pitches. */
+export function eventPitchIds(source: Pick<ExternalIcsSource, "pitch_ids" | "pitch_rules">, e: IcsEvent) {
+  const text = normalizeForMatch(`${e.summary} ${e.location}`);
+  const hits = (source.pitch_rules ?? [])
+    .filter((r) => {
+      const pattern = normalizeForMatch(r.pattern);
+      return !!pattern && !!r.pitch_id && text.includes(pattern);
+    })
+    .map((r) => r.pitch_id);
+  return Array.from(new Set(hits.length ? hits : (source.pitch_ids ?? [])));
+}
+
+/** Closures for the (upcoming, not cancelled) events of a source. */
+export function closuresFromEvents(source: ExternalIcsSource, events: IcsEvent[], now: Date): ClosureInput[] {
+  const out: ClosureInput[] = [];
+  for (const e of events) {
+    if (e.end <= now || /cancelled/i.test(e.status)) continue;
+    if (!matchesSummaryFilter(source, e)) continue;
+    for (const pitchId of eventPitchIds(source, e)) {
+      out.push({
+        pitch_id: pitchId,
+        start_at: e.start.toISOString(),
+        end_at: e.end.toISOString(),
+        reason: e.summary ? `${source.name}: ${e.summary}` : source.name,
+        source_id: source.id,
+        external_uid: e.uid,
+      });
+    }
+  }
+  return out;
+}
+
+export type SourceSyncResult = {
+  source_id: string;
+  name: string;
+  ok: boolean;
+  error: string | null;
+  /** closures of the source after the sync */
+  count: number;
+  created: number;
+  updated: number;
+  removed: number;
+  /** blocking bookings that overlap one of the source's closures */
+  affected_bookings: number;
+};
+
+type ExistingClosure = { id: string; pitch_id: string; external_uid: string; start_at: string; end_at: string; reason: string | null };
+
+function closureKey(c: { external_uid: string; pitch_id: string }) {
+  return `${c.external_uid}|${c.pitch_id}`;
+}
+
+function sameTime(a: string, b: string) {
+  return new Date(a).getTime() === new Date(b).getTime();
+}
+
+async function countAffectedBookings(service: SupabaseClient, closures: ClosureInput[]) {
+  if (!closures.length) return 0;
+  const from = closures.reduce((m, c) => (c.start_at < m ? c.start_at : m), closures[0].start_at);
+  const to = closures.reduce((m, c) => (c.end_at > m ? c.end_at : m), closures[0].end_at);
+
+  const { data, error } = await service
+    .from("bookings")
+    .select("id,pitch_id,start_at,end_at")
+    .in("status", [...BLOCKING_STATUSES])
+    .in("pitch_id", Array.from(new Set(closures.map((c) => c.pitch_id))))
+    .lt("start_at", to)
+    .gt("end_at", from);
+  if (error) throw error;
+
+  const bookings = (data ?? []) as { id: string; pitch_id: string; start_at: string; end_at: string }[];
+  return bookings.filter((b) =>
+    closures.some(
+      (c) =>
+        c.pitch_id === b.pitch_id &&
+        new Date(c.start_at) < new Date(b.end_at) &&
+        new Date(b.start_at) < new Date(c.end_at)
+    )
+  ).length;
+}
+
+/**
+ * Imports one source: upcoming closures are created, moved or removed to match the feed.
+ * Past closures stay. Never throws; the outcome is also stored on the source row.
+ */
+export async function syncExternalSource(
+  service: SupabaseClient,
+  source: ExternalIcsSource,
+  now = new Date()
+): Promise<SourceSyncResult> {
+  const result: SourceSyncResult = {
+    source_id: source.id,
+    name: source.name,
+    ok: false,
+    error: null,
+    count: 0,
+    created: 0,
+    updated: 0,
+    removed: 0,
+    affected_bookings: 0,
+  };
+
+  try {
+    // immer nachfragen (304 genügt); ohne Antwort keine Sperrungen aus alten Daten löschen
+    const { body } = await fetchBfvIcs(checkIcsUrl(source.url, source.allowed_hosts ?? []), {
+      maxAgeMs: 0,
+      allowStale: false,
+      allowedHosts: source.allowed_hosts ?? [],
+    });
+    const to = new Date(now.getTime() + CLOSURE_HORIZON_DAYS * 24 * 3600 * 1000);
+    const desired = closuresFromEvents(source, normalizeIcsEvents(body, { from: now, to }), now);
+
+    const { data, error } = await service
+      .from("pitch_closures")
+      .select("id,pitch_id,external_uid,start_at,end_at,reason")
+      .eq("source_id", source.id)
+      .gt("end_at", now.toISOString());
+    if (error) throw error;
+
+    const existing = new Map(((data ?? []) as ExistingClosure[]).map((c) => [closureKey(c), c]));
+    const seen = new Set<string>();
+    const inserts: ClosureInput[] = [];
+
+    for (const c of desired) {
+      const key = closureKey(c);
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      const old = existing.get(key);
+      if (!old) {
+        inserts.push(c);
+        continue;
+      }
+      if (sameTime(old.start_at, c.start_at) && sameTime(old.end_at, c.end_at) && old.reason === c.reason) continue;
+
+      const { error: updErr } = await service
+        .from("pitch_closures")
+        .update({ start_at: c.start_at, end_at: c.end_at, reason: c.reason })
+        .eq("id", old.id);
+      if (updErr) throw updErr;
+      result.updated++;
+    }
+
+    if (inserts.length) {
+      const { error: insErr } = await service.from("pitch_closures").insert(inserts);
+      if (insErr) throw insErr;
+      result.created = inserts.length;
+    }
+
+    const gone = [...existing.entries()].filter(([key]) => !seen.has(key)).map(([, c]) => c.id);
+    if (gone.length) {
+      const { error: delErr } = await service.from("pitch_closures").delete().in("id", gone);
+      if (delErr) throw delErr;
+      result.removed = gone.length;
+    }
+
+    result.count = seen.size;
+    result.affected_bookings = await countAffectedBookings(service, desired);
+    result.ok = true;
+  } catch (e) {
+    result.error =
+      e instanceof BfvIcsError ? `${e.message} (${e.status})` : (e as { message?: string })?.message || String(e);
+  }
+
+  await service
+    .from("external_ics_sources")
+    .update({
+      last_synced_at: now.toISOString(),
+      last_status: result.ok ? "OK" : "FAILED",
+      last_error: result.error,
+      last_count: result.ok ? result.count : source.last_count,
+    })
+    .eq("id", source.id);
+
+  return result;
+}
+
+/** Syncs all active sources (or the one given). Throws only if the sources cannot be loaded. */
+export async function syncExternalSources(service: SupabaseClient, sourceId?: string | null, now = new Date()) {
+  let query = service.from("external_ics_sources").select(EXTERNAL_SOURCE_COLUMNS).order("name");
+  query = sourceId ? query.eq("id", sourceId) : query.eq("active", true);
+  const { data, error } = await query;
+  if (error) throw error;
+
+  const results: SourceSyncResult[] = [];
+  for (const source of (data ?? []) as ExternalIcsSource[]) results.push(await syncExternalSource(service, source, now));
+  return results;
+}
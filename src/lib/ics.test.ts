@@ -0,0 +1,250 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildCalendar,
+  escapeText,
+  expandEvents,
+  foldLine,
+  parseContentLine,
+  parseEvents,
+  unescapeText,
+  unfoldLines,
+} from "@/lib/ics";
+
+const calendar = (...lines: string[]) =>
+  ["BEGIN:VCALENDAR", "VERSION:2.0", "PRODID:-//test//EN", ...lines, "END:VCALENDAR"].join("\r\n");
+
+const event = (...lines: string[]) => ["BEGIN:VEVENT", ...lines, "END:VEVENT"];
+
+const iso = (d: Date) => d.toISOString();
+
+describe("line folding", () => {
+  it("joins continuation lines (space or tab) and drops the BOM and blank lines", () => {
+    expect(unfoldLines("\uFEFFSUMMARY:Trai\r\n ning\r\n\tU12\r\n\r\nUID:1\nX:2")).toEqual([
+      "SUMMARY:TrainingU12",
+      "UID:1",
+      "X:2",
+    ]);
+  });
+
+  it("folds at 75 octets without splitting multi-byte characters", () => {
+    const line = `SUMMARY:${"Ä".repeat(60)}${"x".repeat(90)}`;
+    const physical = foldLine(line).split("\r\n");
+
+    expect(physical.length).toBeGreaterThan(2);
+    for (const p of physical) expect(new TextEncoder().encode(p).length).toBeLessThanOrEqual(75);
+    expect(physical.slice(1).every((p) => p.startsWith(" "))).toBe(true);
+    expect(physical.join("")).not.toContain("�");
+    expect(unfoldLines(foldLine(line))).toEqual([line]);
+  });
+
+  it("leaves short lines alone", () => {
+    expect(foldLine("UID:abc")).toBe("UID:abc");
+  });
+});
+
+describe("content lines", () => {
+  it("reads quoted and list parameters", () => {
+    expect(parseContentLine('ATTENDEE;CN="Müller, Jonas";ROLE=REQ-PARTICIPANT;X=a,"b:c":mailto:j@example.org')).toEqual({
+      name: "ATTENDEE",
+      params: { CN: "Müller, Jonas", ROLE: "REQ-PARTICIPANT", X: "a,b:c" },
+      value: "mailto:j@example.org",
+    });
+  });
+
+  it("rejects lines without a value", () => {
+    expect(parseContentLine("DTSTART;TZID=Europe/Berlin")).toBeNull();
+    expect(parseContentLine(":value")).toBeNull();
+  });
+});
+
+describe("date values", () => {
+  it("resolves TZID by IANA name, across the DST switch", () => {
+    const [summer, winter] = parseEvents(
+      calendar(
+        ...event("UID:a", "DTSTART;TZID=Europe/Berlin:20261019T180000", "DTEND;TZID=Europe/Berlin:20261019T193000"),
+        ...event("UID:b", "DTSTART;TZID=Europe/Berlin:20261026T180000", "DURATION:PT1H30M")
+      )
+    );
+
+    expect(iso(summer.start.date)).toBe("2026-10-19T16:00:00.000Z");
+    expect(iso(summer.end.date)).toBe("2026-10-19T17:30:00.000Z");
+    expect(iso(winter.start.date)).toBe("2026-10-26T17:00:00.000Z");
+    expect(iso(winter.end.date)).toBe("2026-10-26T18:30:00.000Z");
+  });
+
+  it("treats UTC and floating times correctly", () => {
+    const [utc, floating] = parseEvents(
+      calendar(...event("UID:a", "DTSTART:20260115T100000Z"), ...event("UID:b", "DTSTART:20260115T100000")),
+      { defaultTimeZone: "Europe/Berlin" }
+    );
+
+    expect(iso(utc.start.date)).toBe("2026-01-15T10:00:00.000Z");
+    expect(iso(floating.start.date)).toBe("2026-01-15T09:00:00.000Z");
+  });
+
+  it("reads VALUE=DATE as all-day in the club zone, one day long by default", () => {
+    const [e] = parseEvents(calendar(...event("UID:x", "DTSTART;VALUE=DATE:20261224", "SUMMARY:Weihnachten")));
+
+    expect(e.start.allDay).toBe(true);
+    expect(iso(e.start.date)).toBe("2026-12-23T23:00:00.000Z");
+    expect(iso(e.end.date)).toBe("2026-12-24T23:00:00.000Z");
+  });
+
+  it("uses the file's VTIMEZONE for non-IANA TZIDs", () => {
+    const vtimezone = [
+      "BEGIN:VTIMEZONE",
+      "TZID:Vereinszeit West",
+      "BEGIN:STANDARD",
+      "DTSTART:16011104T020000",
+      "TZOFFSETFROM:-0400",
+      "TZOFFSETTO:-0500",
+      "RRULE:FREQ=YEARLY;BYDAY=1SU;BYMONTH=11",
+      "END:STANDARD",
+      "BEGIN:DAYLIGHT",
+      "DTSTART:16010311T020000",
+      "TZOFFSETFROM:-0500",
+      "TZOFFSETTO:-0400",
+      "RRULE:FREQ=YEARLY;BYDAY=2SU;BYMONTH=3",
+      "END:DAYLIGHT",
+      "END:VTIMEZONE",
+    ];
+    const events = parseEvents(
+      calendar(
+        ...vtimezone,
+        ...event("UID:winter", 'DTSTART;TZID="Vereinszeit West":20260301T120000'),
+        ...event("UID:summer", 'DTSTART;TZID="Vereinszeit West":20260701T120000'),
+        ...event("UID:switch", 'DTSTART;TZID="Vereinszeit West":20260308T120000')
+      )
+    );
+    const byUid = new Map(events.map((e) => [e.uid, iso(e.start.date)]));
+
+    expect(byUid.get("winter")).toBe("2026-03-01T17:00:00.000Z");
+    expect(byUid.get("summer")).toBe("2026-07-01T16:00:00.000Z");
+    expect(byUid.get("switch")).toBe("2026-03-08T16:00:00.000Z");
+  });
+});
+
+describe("recurrence", () => {
+  it("expands a weekly RRULE in wall time and drops EXDATEs", () => {
+    const events = parseEvents(
+      calendar(
+        ...event(
+          "UID:training",
+          "DTSTART;TZID=Europe/Berlin:20261020T170000",
+          "DTEND;TZID=Europe/Berlin:20261020T183000",
+          "RRULE:FREQ=WEEKLY;COUNT=4",
+          "EXDATE;TZID=Europe/Berlin:20261103T170000"
+        )
+      )
+    );
+    const occ = expandEvents(events);
+
+    expect(occ.map((o) => iso(o.start))).toEqual([
+      "2026-10-20T15:00:00.000Z",
+      "2026-10-27T16:00:00.000Z",
+      "2026-11-10T16:00:00.000Z",
+    ]);
+    expect(occ.map((o) => iso(o.end))).toEqual([
+      "2026-10-20T16:30:00.000Z",
+      "2026-10-27T17:30:00.000Z",
+      "2026-11-10T17:30:00.000Z",
+    ]);
+  });
+
+  it("drops all-day EXDATEs and replaces RECURRENCE-ID instances", () => {
+    const events = parseEvents(
+      calendar(
+        ...event(
+          "UID:abend",
+          "DTSTART;TZID=Europe/Berlin:20260105T180000",
+          "DTEND;TZID=Europe/Berlin:20260105T190000",
+          "RRULE:FREQ=DAILY;UNTIL=20260109T170000Z",
+          "EXDATE;VALUE=DATE:20260107"
+        ),
+        ...event(
+          "UID:abend",
+          "RECURRENCE-ID;TZID=Europe/Berlin:20260106T180000",
+          "DTSTART;TZID=Europe/Berlin:20260106T200000",
+          "DTEND;TZID=Europe/Berlin:20260106T210000"
+        )
+      )
+    );
+    const occ = expandEvents(events);
+
+    expect(occ.map((o) => iso(o.start))).toEqual([
+      "2026-01-05T17:00:00.000Z",
+      "2026-01-06T19:00:00.000Z",
+      "2026-01-08T17:00:00.000Z",
+      "2026-01-09T17:00:00.000Z",
+    ]);
+    expect(iso(occ[1].recurrenceId!)).toBe("2026-01-06T17:00:00.000Z");
+  });
+
+  it("stops open-ended rules at the window end", () => {
+    const events = parseEvents(calendar(...event("UID:o", "DTSTART:20260101T100000Z", "RRULE:FREQ=MONTHLY;BYMONTHDAY=-1")));
+    const occ = expandEvents(events, { from: new Date("2026-03-01T00:00:00Z"), to: new Date("2026-06-01T00:00:00Z") });
+
+    expect(occ.map((o) => iso(o.start))).toEqual([
+      "2026-03-31T10:00:00.000Z",
+      "2026-04-30T10:00:00.000Z",
+      "2026-05-31T10:00:00.000Z",
+    ]);
+  });
+});
+
+describe("escaping", () => {
+  it("round-trips TEXT values", () => {
+    const text = "Platz 1, Süd; Tor\\Netz\nbitte pünktlich";
+    expect(escapeText(text)).toBe("Platz 1\\, Süd\\; Tor\\\\Netz\\nbitte pünktlich");
+    expect(unescapeText(escapeText(text))).toBe(text);
+    expect(unescapeText("a\\Nb")).toBe("a\nb");
+  });
+
+  it("round-trips events through the writer and the parser", () => {
+    const summary = "U12: Training; Halle, Nord \\ Süd";
+    const description = `Zeile 1\nZeile 2 – ${"Flutlicht an, ".repeat(10)}Ende`;
+    const text = buildCalendar(
+      { prodId: "-//FC Stern//Platzplaner//DE", name: "Belegung, Sportpark" },
+      [
+        {
+          uid: "booking-1",
+          start: new Date("2026-10-20T15:00:00Z"),
+          end: new Date("2026-10-20T16:30:00Z"),
+          summary,
+          location: "Feldbergstraße; Platz 2",
+          description,
+          status: "confirmed",
+        },
+        {
+          uid: "closure-1",
+          start: new Date("2026-12-23T23:00:00Z"),
+          end: new Date("2027-01-06T23:00:00Z"),
+          allDay: true,
+          summary: "Winterpause",
+        },
+      ],
+      new Date("2026-10-19T08:00:00Z")
+    );
+
+    expect(text.endsWith("\r\n")).toBe(true);
+    for (const line of text.split("\r\n")) expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75);
+
+    const [training, pause] = parseEvents(text);
+    expect(training.uid).toBe("booking-1");
+    expect(training.summary).toBe(summary);
+    expect(training.location).toBe("Feldbergstraße; Platz 2");
+    expect(training.description).toBe(description);
+    expect(training.status).toBe("CONFIRMED");
+    expect(iso(training.start.date)).toBe("2026-10-20T15:00:00.000Z");
+    expect(iso(training.end.date)).toBe("2026-10-20T16:30:00.000Z");
+
+    expect(pause.start.allDay).toBe(true);
+    expect(dtstartLine(text, "closure-1")).toContain("DTSTART;VALUE=DATE:20261224");
+    expect(iso(pause.end.date)).toBe("2027-01-06T23:00:00.000Z");
+  });
+});
+
+function dtstartLine(text: string, uid: string) {
+  const block = text.split("BEGIN:VEVENT").find((b) => b.includes(`UID:${uid}`)) ?? "";
+  return block.split("\r\n").find((l) => l.startsWith("DTSTART")) ?? "";
+}
@@ -0,0 +1,693 @@
+// src/lib/ics.ts
+// iCalendar (RFC 5545) reading and writing, shared by the BFV proxy/sync and the browser.
+//
+// Reading:  unfold lines -> content lines (name, parameters, value) -> component tree
+//           -> VEVENTs with resolved times (TZID via VTIMEZONE or IANA name, VALUE=DATE,
+//           floating times in the default zone) -> expandEvents() for RRULE/RDATE/EXDATE.
+// Writing:  formatProperty() escapes parameters and folds at 75 octets, buildCalendar()
+//           emits a complete VCALENDAR with UTC times.
+
+import { CLUB_TIME_ZONE, zoneOffsetMs } from "@/lib/berlinTime";
+
+export const DEFAULT_TIME_ZONE = CLUB_TIME_ZONE;
+
+const DAY_MS = 24 * 3600 * 1000;
+
+// ---------- Content lines ----------
+
+export type IcsProperty = {
+  name: string; // upper case
+  params: Record<string, string>; // keys upper case, values unquoted
+  value: string; // raw (still escaped for TEXT values)
+};
+
+export type IcsComponent = {
+  name: string; // VCALENDAR, VEVENT, VTIMEZONE, STANDARD, …
+  properties: IcsProperty[];
+  components: IcsComponent[];
+};
+
+/** Splits into logical lines: CRLF/LF line ends, continuation lines (leading space/tab) joined. */
+export function unfoldLines(text: string): string[] {
+  const out: string[] = [];
+  for (const line of (text || "").replace(/^\uFEFF/, "").split(/\r?\n|\r/)) {
+    if ((line.startsWith(" ") || line.startsWith("\t")) && out.length) out[out.length - 1] += line.slice(1);
+    else if (line.trim()) out.push(line);
+  }
+  return out;
+}
+
+/** "DTSTART;TZID=Europe/Berlin:20261019T100000" -> { name, params, value }. Null for malformed lines. */
+export function parseContentLine(line: string): IcsProperty | null {
+  const nameMatch = line.match(/^[A-Za-z0-9-]+/);
+  if (!nameMatch) return null;
+
+  const params: Record<string, string> = {};
+  let i = nameMatch[0].length;
+
+  while (line[i] === ";") {
+    const eq = line.indexOf("=", i);
+    if (eq < 0) return null;
+    const key = line.slice(i + 1, eq).toUpperCase();
+    i = eq + 1;
+
+    let value = "";
+    // Werte können Listen sein und in Anführungszeichen stehen (dann sind ":" ";" "," erlaubt)
+    for (;;) {
+      if (line[i] === '"') {
+        const close = line.indexOf('"', i + 1);
+        if (close < 0) return null;
+        value += line.slice(i + 1, close);
+        i = close + 1;
+      } else {
+        const m = line.slice(i).match(/^[^";:,]*/);
+        value += m ? m[0] : "";
+        i += m ? m[0].length : 0;
+      }
+      if (line[i] !== ",") break;
+      value += ",";
+      i++;
+    }
+    params[key] = value;
+  }
+
+  if (line[i] !== ":") return null;
+  return { name: nameMatch[0].toUpperCase(), params, value: line.slice(i + 1) };
+}
+
+/** Parses the component tree. Lines outside BEGIN/END and unbalanced ENDs are ignored. */
+export function parseComponents(text: string): IcsComponent[] {
+  const root: IcsComponent = { name: "", properties: [], components: [] };
+  const stack: IcsComponent[] = [root];
+
+  for (const line of unfoldLines(text)) {
+    const prop = parseContentLine(line);
+    if (!prop) continue;
+    const current = stack[stack.length - 1];
+
+    if (prop.name === "BEGIN") {
+      const comp: IcsComponent = { name: prop.value.trim().toUpperCase(), properties: [], components: [] };
+      current.components.push(comp);
+      stack.push(comp);
+    } else if (prop.name === "END") {
+      const name = prop.value.trim().toUpperCase();
+      const idx = stack.map((c) => c.name).lastIndexOf(name);
+      if (idx > 0) stack.length = idx;
+    } else if (stack.length > 1) {
+      current.properties.push(prop);
+    }
+  }
+  return root.components;
+}
+
+export function getProperty(comp: IcsComponent, name: string) {
+  return comp.properties.find((p) => p.name === name) ?? null;
+}
+
+/** TEXT value unescaping (\\n, \\N, \\, \\; \\\\) in a single pass. */
+export function unescapeText(value: string) {
+  return (value || "").replace(/\\([\\;,nN])/g, (_, c: string) => (c === "n" || c === "N" ? "\n" : c));
+}
+
+export function escapeText(value: string) {
+  return (value || "").replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+function textProperty(comp: IcsComponent, name: string) {
+  const p = getProperty(comp, name);
+  return p ? unescapeText(p.value).trim() : "";
+}
+
+// ---------- Time zones ----------
+
+/** Time zone as used for wall-clock times: offset (ms, wall = utc + offset) at an instant. */
+export type IcsZone = { id: string; offsetAt(utcMs: number): number };
+
+export const UTC_ZONE: IcsZone = { id: "UTC", offsetAt: () => 0 };
+
+const intlZones = new Map<string, IcsZone | null>();
+
+/** IANA zone via Intl (null if the runtime does not know the name). */
+export function intlZone(timeZone: string): IcsZone | null {
+  if (intlZones.has(timeZone)) return intlZones.get(timeZone)!;
+
+  let zone: IcsZone | null = null;
+  try {
+    zoneOffsetMs(0, timeZone);
+    zone = { id: timeZone, offsetAt: (utcMs: number) => zoneOffsetMs(utcMs, timeZone) };
+  } catch {
+    zone = null;
+  }
+  intlZones.set(timeZone, zone);
+  return zone;
+}
+
+/** Wall-clock time (ms, fields as UTC) -> instant. Evaluated twice so DST switch days resolve. */
+export function wallToUtc(wallMs: number, zone: IcsZone) {
+  const utc = wallMs - zone.offsetAt(wallMs);
+  return wallMs - zone.offsetAt(utc);
+}
+
+export function utcToWall(utcMs: number, zone: IcsZone) {
+  return utcMs + zone.offsetAt(utcMs);
+}
+
+function parseOffset(value: string) {
+  const m = (value || "").trim().match(/^([+-])(\d{2})(\d{2})(\d{2})?$/);
+  if (!m) return null;
+  const ms = ((+m[2] * 60 + +m[3]) * 60 + +(m[4] ?? 0)) * 1000;
+  return m[1] === "-" ? -ms : ms;
+}
+
+type Observance = { from: number; to: number; startWall: number; rule: RecurrenceRule | null; rdates: number[] };
+
+/** Zone from a VTIMEZONE block (STANDARD/DAYLIGHT observances with yearly RRULEs). */
+export function vtimezoneZone(comp: IcsComponent): IcsZone | null {
+  const id = getProperty(comp, "TZID")?.value.trim();
+  if (!id) return null;
+
+  const observances: Observance[] = [];
+  for (const sub of comp.components) {
+    if (sub.name !== "STANDARD" && sub.name !== "DAYLIGHT") continue;
+    const from = parseOffset(getProperty(sub, "TZOFFSETFROM")?.value ?? "");
+    const to = parseOffset(getProperty(sub, "TZOFFSETTO")?.value ?? "");
+    const start = parseWallValue(getProperty(sub, "DTSTART")?.value ?? "");
+    if (from === null || to === null || !start) continue;
+
+    const rrule = getProperty(sub, "RRULE");
+    observances.push({
+      from,
+      to,
+      startWall: start.wall,
+      rule: rrule ? parseRecurrenceRule(rrule.value, UTC_ZONE) : null,
+      rdates: sub.properties
+        .filter((p) => p.name === "RDATE")
+        .flatMap((p) => p.value.split(","))
+        .map((v) => parseWallValue(v)?.wall)
+        .filter((v): v is number => v !== undefined),
+    });
+  }
+  if (!observances.length) return null;
+
+  // Wechsel (UTC) mit neuem Offset, je Jahr (Vorjahr + Jahr) zwischengespeichert
+  const transitionsByYear = new Map<number, { at: number; offset: number }[]>();
+  const transitions = (year: number) => {
+    let list = transitionsByYear.get(year);
+    if (list) return list;
+    list = [];
+    for (const o of observances) {
+      const onsets = [o.startWall, ...o.rdates];
+      if (o.rule) {
+        onsets.push(
+          ...expandRule(o.startWall, o.rule, {
+            fromWall: Date.UTC(year - 1, 0, 1),
+            toWall: Date.UTC(year + 1, 0, 1),
+            max: 50,
+          })
+        );
+      }
+      for (const wall of onsets) list.push({ at: wall - o.from, offset: o.to });
+    }
+    transitionsByYear.set(year, list);
+    return list;
+  };
+
+  return {
+    id,
+    offsetAt(utcMs: number) {
+      // letzter Wechsel vor utcMs gewinnt
+      let best: { at: number; offset: number } | null = null;
+      for (const t of transitions(new Date(utcMs).getUTCFullYear())) {
+        if (t.at <= utcMs && (!best || t.at > best.at)) best = t;
+      }
+      return best ? best.offset : observances[0].from;
+    },
+  };
+}
+
+// ---------- Date values ----------
+
+export type IcsTime = {
+  date: Date; // instant (all-day: midnight in the zone)
+  allDay: boolean;
+  zone: IcsZone;
+};
+
+type WallValue = { wall: number; allDay: boolean; utc: boolean };
+
+function parseWallValue(value: string): WallValue | null {
+  const m = (value || "").trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+  if (!m) return null;
+  const [, Y, Mo, D, H, Mi, S, z] = m;
+  return {
+    wall: Date.UTC(+Y, +Mo - 1, +D, +(H ?? 0), +(Mi ?? 0), +(S ?? 0)),
+    allDay: H === undefined,
+    utc: !!z,
+  };
+}
+
+export type ZoneResolver = (tzid: string | undefined) => IcsZone;
+
+/** TZID lookup: VTIMEZONE of the file, then IANA name, else the default zone. */
+export function zoneResolver(calendar: IcsComponent | null, defaultTimeZone = DEFAULT_TIME_ZONE): ZoneResolver {
+  const fallback = intlZone(defaultTimeZone) ?? UTC_ZONE;
+  const own = new Map<string, IcsZone>();
+  for (const c of calendar?.components ?? []) {
+    if (c.name !== "VTIMEZONE") continue;
+    const z = vtimezoneZone(c);
+    if (z) own.set(z.id, z);
+  }
+
+  return (tzid) => {
+    if (!tzid) return fallback;
+    const id = tzid.replace(/^\//, "");
+    return own.get(id) ?? intlZone(id) ?? fallback;
+  };
+}
+
+/** DATE / DATE-TIME value (one value, no list) with its TZID / VALUE parameters. */
+export function parseTimeValue(value: string, params: Record<string, string>, resolve: ZoneResolver): IcsTime | null {
+  const v = parseWallValue(value);
+  if (!v) return null;
+  const allDay = v.allDay || (params.VALUE || "").toUpperCase() === "DATE";
+  if (v.utc) return { date: new Date(v.wall), allDay: false, zone: UTC_ZONE };
+
+  const zone = resolve(params.TZID);
+  return { date: new Date(wallToUtc(v.wall, zone)), allDay, zone };
+}
+
+/** DURATION ("P1D", "PT1H30M", "-P1W") in ms */
+export function parseDuration(value: string): number | null {
+  const m = (value || "").trim().match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!m) return null;
+  const [, sign, w, d, h, mi, s] = m;
+  const ms = ((((+(w ?? 0) * 7 + +(d ?? 0)) * 24 + +(h ?? 0)) * 60 + +(mi ?? 0)) * 60 + +(s ?? 0)) * 1000;
+  return sign === "-" ? -ms : ms;
+}
+
+// ---------- Recurrence ----------
+
+type Freq = "DAILY" | "WEEKLY" | "MONTHLY" | "YEARLY";
+const WEEKDAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+export type RecurrenceRule = {
+  freq: Freq;
+  interval: number;
+  count: number | null;
+  untilUtc: number | null;
+  byDay: { n: number; weekday: number }[]; // n = 0: every such weekday
+  byMonthDay: number[];
+  byMonth: number[]; // 1..12
+};
+
+/** RRULE value -> rule. FREQ other than DAILY/WEEKLY/MONTHLY/YEARLY is not supported (null). */
+export function parseRecurrenceRule(value: string, zone: IcsZone): RecurrenceRule | null {
+  const parts: Record<string, string> = Object.fromEntries(
+    value
+      .split(";")
+      .map((p) => p.split("="))
+      .filter((kv) => kv.length === 2)
+      .map(([k, v]) => [k.trim().toUpperCase(), v.trim().toUpperCase()])
+  );
+
+  const freq = parts.FREQ as Freq;
+  if (!["DAILY", "WEEKLY", "MONTHLY", "YEARLY"].includes(freq)) return null;
+
+  const until = parts.UNTIL ? parseWallValue(parts.UNTIL) : null;
+  const list = (s: string | undefined) => (s ? s.split(",").map((x) => parseInt(x, 10)).filter((n) => !isNaN(n)) : []);
+
+  return {
+    freq,
+    interval: Math.max(1, parseInt(parts.INTERVAL ?? "1", 10) || 1),
+    count: parts.COUNT ? parseInt(parts.COUNT, 10) || null : null,
+    untilUtc: until
+      ? until.utc
+        ? until.wall
+        : wallToUtc(until.allDay ? until.wall + DAY_MS - 1 : until.wall, zone)
+      : null,
+    byDay: (parts.BYDAY ? parts.BYDAY.split(",") : [])
+      .map((d) => d.match(/^([+-]?\d{1,2})?([A-Z]{2})$/))
+      .filter((m): m is RegExpMatchArray => !!m && WEEKDAYS.includes(m[2]))
+      .map((m) => ({ n: m[1] ? parseInt(m[1], 10) : 0, weekday: WEEKDAYS.indexOf(m[2]) })),
+    byMonthDay: list(parts.BYMONTHDAY),
+    byMonth: list(parts.BYMONTH),
+  };
+}
+
+function daysInMonth(year: number, month0: number) {
+  return new Date(Date.UTC(year, month0 + 1, 0)).getUTCDate();
+}
+
+/** Days (1-based) of a month matching BYDAY / BYMONTHDAY; fallback = day of DTSTART. */
+function monthDays(year: number, month0: number, rule: RecurrenceRule, startDay: number) {
+  const len = daysInMonth(year, month0);
+  let days: number[];
+
+  if (rule.byMonthDay.length) {
+    days = rule.byMonthDay.map((d) => (d < 0 ? len + d + 1 : d)).filter((d) => d >= 1 && d <= len);
+  } else if (!rule.byDay.length) {
+    days = startDay <= len ? [startDay] : [];
+  } else {
+    days = Array.from({ length: len }, (_, i) => i + 1);
+  }
+
+  if (rule.byDay.length) {
+    days = days.filter((d) => {
+      const wd = new Date(Date.UTC(year, month0, d)).getUTCDay();
+      return rule.byDay.some((b) => {
+        if (b.weekday !== wd) return false;
+        if (!b.n) return true;
+        const nth = b.n > 0 ? Math.ceil(d / 7) : -Math.ceil((len - d + 1) / 7);
+        return nth === b.n;
+      });
+    });
+  }
+  return days;
+}
+
+/**
+ * Occurrence starts (wall-clock ms) of a rule, DTSTART included. Stops at COUNT, UNTIL,
+ * toWall or max – whichever comes first. fromWall only filters the output.
+ */
+export function expandRule(
+  startWall: number,
+  rule: RecurrenceRule,
+  opts: { fromWall?: number; toWall?: number; max: number; zone?: IcsZone }
+): number[] {
+  const zone = opts.zone ?? UTC_ZONE;
+  const out: number[] = [];
+  const s = new Date(startWall);
+  const timeOfDay = startWall - Date.UTC(s.getUTCFullYear(), s.getUTCMonth(), s.getUTCDate());
+
+  let produced = 0;
+  const maxPeriods = 10000;
+
+  for (let k = 0; k < maxPeriods; k++) {
+    let candidates: number[] = [];
+    const step = k * rule.interval;
+
+    if (rule.freq === "DAILY") {
+      candidates = [startWall + step * DAY_MS];
+    } else if (rule.freq === "WEEKLY") {
+      // Woche ab Montag
+      const weekStart = startWall - timeOfDay - ((s.getUTCDay() + 6) % 7) * DAY_MS + step * 7 * DAY_MS;
+      const weekdays = rule.byDay.length ? rule.byDay.map((b) => b.weekday) : [s.getUTCDay()];
+      candidates = weekdays.map((wd) => weekStart + ((wd + 6) % 7) * DAY_MS + timeOfDay);
+    } else if (rule.freq === "MONTHLY") {
+      const m = s.getUTCMonth() + step;
+      const year = s.getUTCFullYear() + Math.floor(m / 12);
+      const month0 = ((m % 12) + 12) % 12;
+      candidates = monthDays(year, month0, rule, s.getUTCDate()).map((d) => Date.UTC(year, month0, d) + timeOfDay);
+    } else {
+      const year = s.getUTCFullYear() + step;
+      const months = rule.byMonth.length ? rule.byMonth.map((m) => m - 1) : [s.getUTCMonth()];
+      candidates = months.flatMap((month0) =>
+        monthDays(year, month0, rule, s.getUTCDate()).map((d) => Date.UTC(year, month0, d) + timeOfDay)
+      );
+    }
+
+    candidates.sort((a, b) => a - b);
+    for (const c of candidates) {
+      if (c < startWall) continue;
+      const d = new Date(c);
+      if (rule.byMonth.length && !rule.byMonth.includes(d.getUTCMonth() + 1)) continue;
+      if (rule.freq === "DAILY" && rule.byMonthDay.length && !rule.byMonthDay.includes(d.getUTCDate())) continue;
+      if (rule.freq === "DAILY" && rule.byDay.length && !rule.byDay.some((b) => b.weekday === d.getUTCDay())) continue;
+
+      if (rule.untilUtc !== null && wallToUtc(c, zone) > rule.untilUtc) return out;
+      if (opts.toWall !== undefined && c >= opts.toWall) return out;
+      if (rule.count !== null && produced >= rule.count) return out;
+
+      produced++;
+      if (opts.fromWall === undefined || c >= opts.fromWall) out.push(c);
+      if (out.length >= opts.max) return out;
+    }
+  }
+  return out;
+}
+
+// ---------- Events ----------
+
+export type IcsVEvent = {
+  uid: string;
+  summary: string;
+  location: string;
+  description: string;
+  status: string; // upper case, e.g. CONFIRMED / CANCELLED
+  start: IcsTime;
+  end: IcsTime;
+  rrule: RecurrenceRule | null;
+  rdates: IcsTime[];
+  exdates: IcsTime[];
+  recurrenceId: IcsTime | null;
+  component: IcsComponent;
+};
+
+function timeList(comp: IcsComponent, name: string, resolve: ZoneResolver) {
+  return comp.properties
+    .filter((p) => p.name === name)
+    .flatMap((p) => p.value.split(",").map((v) => parseTimeValue(v, p.params, resolve)))
+    .filter((t): t is IcsTime => !!t);
+}
+
+/** All VEVENTs of a calendar text. Events without a valid DTSTART are skipped. */
+export function parseEvents(text: string, opts: { defaultTimeZone?: string } = {}): IcsVEvent[] {
+  const events: IcsVEvent[] = [];
+
+  for (const cal of parseComponents(text)) {
+    const resolve = zoneResolver(cal.name === "VCALENDAR" ? cal : null, opts.defaultTimeZone);
+    const vevents = cal.name === "VEVENT" ? [cal] : cal.components.filter((c) => c.name === "VEVENT");
+
+    for (const c of vevents) {
+      const dtStart = getProperty(c, "DTSTART");
+      const start = dtStart ? parseTimeValue(dtStart.value, dtStart.params, resolve) : null;
+      if (!start) continue;
+
+      const dtEnd = getProperty(c, "DTEND");
+      const duration = parseDuration(getProperty(c, "DURATION")?.value ?? "");
+      let end = dtEnd ? parseTimeValue(dtEnd.value, dtEnd.params, resolve) : null;
+      if (!end) {
+        const ms = duration ?? (start.allDay ? DAY_MS : 0);
+        // ganztägig: Dauer in Tagen auf Wandzeit rechnen (Sommerzeit-Wechsel)
+        const date = start.allDay
+          ? new Date(wallToUtc(utcToWall(start.date.getTime(), start.zone) + ms, start.zone))
+          : new Date(start.date.getTime() + ms);
+        end = { ...start, date };
+      }
+
+      const rrule = getProperty(c, "RRULE");
+      const recurrenceId = getProperty(c, "RECURRENCE-ID");
+      const summary = textProperty(c, "SUMMARY");
+
+      events.push({
+        uid: getProperty(c, "UID")?.value.trim() || `${dtStart!.value}-${summary}`.slice(0, 200),
+        summary,
+        location: textProperty(c, "LOCATION"),
+        description: textProperty(c, "DESCRIPTION"),
+        status: textProperty(c, "STATUS").toUpperCase(),
+        start,
+        end,
+        rrule: rrule ? parseRecurrenceRule(rrule.value, start.zone) : null,
+        rdates: timeList(c, "RDATE", resolve),
+        exdates: timeList(c, "EXDATE", resolve),
+        recurrenceId: recurrenceId ? parseTimeValue(recurrenceId.value, recurrenceId.params, resolve) : null,
+        component: c,
+      });
+    }
+  }
+  return events;
+}
+
+export type IcsOccurrence = {
+  event: IcsVEvent;
+  start: Date;
+  end: Date;
+  allDay: boolean;
+  /** Start of the original instance for recurring events (RECURRENCE-ID semantics), else null */
+  recurrenceId: Date | null;
+};
+
+export const MAX_OCCURRENCES = 1000;
+
+/** Stable id per occurrence: the UID, for recurring instances "<UID>_<original start UTC>". */
+export function occurrenceUid(o: IcsOccurrence) {
+  return o.recurrenceId ? `${o.event.uid}_${formatUtc(o.recurrenceId)}` : o.event.uid;
+}
+
+/**
+ * Resolves recurrences: RRULE + RDATE minus EXDATE, instances replaced by RECURRENCE-ID
+ * overrides. Non-recurring events yield one occurrence. Optional window [from, to) keeps
+ * occurrences that overlap it; rules without COUNT/UNTIL stop at `to` or `max` per event.
+ */
+export function expandEvents(
+  events: IcsVEvent[],
+  opts: { from?: Date; to?: Date; max?: number } = {}
+): IcsOccurrence[] {
+  const max = opts.max ?? MAX_OCCURRENCES;
+  const overrides = new Map<string, Set<number>>();
+  for (const e of events) {
+    if (!e.recurrenceId) continue;
+    if (!overrides.has(e.uid)) overrides.set(e.uid, new Set());
+    overrides.get(e.uid)!.add(e.recurrenceId.date.getTime());
+  }
+
+  const inWindow = (start: Date, end: Date) =>
+    (!opts.from || end > opts.from || start >= opts.from) && (!opts.to || start < opts.to);
+
+  const out: IcsOccurrence[] = [];
+  for (const e of events) {
+    const single = !e.rrule && !e.rdates.length;
+    if (single || e.recurrenceId) {
+      if (inWindow(e.start.date, e.end.date)) {
+        out.push({
+          event: e,
+          start: e.start.date,
+          end: e.end.date,
+          allDay: e.start.allDay,
+          recurrenceId: e.recurrenceId ? e.recurrenceId.date : null,
+        });
+      }
+      continue;
+    }
+
+    const zone = e.start.zone;
+    const startWall = utcToWall(e.start.date.getTime(), zone);
+    const lengthWall = utcToWall(e.end.date.getTime(), e.end.zone) - startWall;
+
+    const walls = e.rrule
+      ? expandRule(startWall, e.rrule, {
+          toWall: opts.to ? utcToWall(opts.to.getTime(), zone) : undefined,
+          max,
+          zone,
+        })
+      : [startWall];
+    for (const r of e.rdates) walls.push(utcToWall(r.date.getTime(), zone));
+
+    const skipped = overrides.get(e.uid) ?? new Set<number>();
+    const exInstants = new Set(e.exdates.filter((x) => !x.allDay).map((x) => x.date.getTime()));
+    const exDays = new Set(
+      e.exdates.filter((x) => x.allDay).map((x) => Math.floor(utcToWall(x.date.getTime(), zone) / DAY_MS))
+    );
+
+    for (const wall of [...new Set(walls)].sort((a, b) => a - b)) {
+      const start = new Date(wallToUtc(wall, zone));
+      if (skipped.has(start.getTime()) || exInstants.has(start.getTime())) continue;
+      if (exDays.has(Math.floor(wall / DAY_MS))) continue;
+
+      const end = new Date(wallToUtc(wall + lengthWall, zone));
+      if (inWindow(start, end)) out.push({ event: e, start, end, allDay: e.start.allDay, recurrenceId: start });
+    }
+  }
+
+  out.sort((a, b) => a.start.getTime() - b.start.getTime());
+  return out;
+}
+
+// ---------- Writing ----------
+
+const encoder = new TextEncoder();
+
+/** Folds a content line at 75 octets (UTF-8), never inside a multi-byte character. */
+export function foldLine(line: string) {
+  const parts: string[] = [];
+  let current = "";
+  let octets = 0;
+  for (const ch of line) {
+    const len = encoder.encode(ch).length;
+    // Folgezeilen beginnen mit einem Leerzeichen (zählt mit)
+    const limit = parts.length ? 74 : 75;
+    if (octets + len > limit) {
+      parts.push(current);
+      current = "";
+      octets = 0;
+    }
+    current += ch;
+    octets += len;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+function formatParamValue(value: string) {
+  const v = value.replace(/"/g, "'");
+  return /[;:,]/.test(v) ? `"${v}"` : v;
+}
+
+/** One folded content line. `value` is written as is – use escapeText() for TEXT values. */
+export function formatProperty(name: string, value: string, params: Record<string, string> = {}) {
+  const p = Object.entries(params)
+    .map(([k, v]) => `;${k.toUpperCase()}=${formatParamValue(v)}`)
+    .join("");
+  return foldLine(`${name.toUpperCase()}${p}:${value}`);
+}
+
+function pad(n: number) {
+  return String(n).padStart(2, "0");
+}
+
+/** 20261019T080000Z */
+export function formatUtc(d: Date) {
+  return (
+    `${d.getUTCFullYear()}${pad(d.getUTCMonth() + 1)}${pad(d.getUTCDate())}` +
+    `T${pad(d.getUTCHours())}${pad(d.getUTCMinutes())}${pad(d.getUTCSeconds())}Z`
+  );
+}
+
+/** VALUE=DATE value (calendar day in the given zone) */
+export function formatDate(d: Date, timeZone = DEFAULT_TIME_ZONE) {
+  const wall = new Date(utcToWall(d.getTime(), intlZone(timeZone) ?? UTC_ZONE));
+  return `${wall.getUTCFullYear()}${pad(wall.getUTCMonth() + 1)}${pad(wall.getUTCDate())}`;
+}
+
+export type IcsOutEvent = {
+  uid: string;
+  start: Date;
+  end: Date;
+  allDay?: boolean;
+  summary: string;
+  location?: string;
+  description?: string;
+  status?: string;
+  /** extra, already formatted properties (e.g. CATEGORIES) */
+  extra?: { name: string; value: string; params?: Record<string, string> }[];
+};
+
+/** Complete VCALENDAR (CRLF, folded) with UTC times; all-day events as VALUE=DATE in timeZone. */
+export function buildCalendar(
+  meta: { prodId: string; name?: string; timeZone?: string },
+  events: IcsOutEvent[],
+  now = new Date()
+) {
+  const tz = meta.timeZone ?? DEFAULT_TIME_ZONE;
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    formatProperty("PRODID", meta.prodId),
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+  ];
+  if (meta.name) lines.push(formatProperty("X-WR-CALNAME", escapeText(meta.name)));
+
+  const stamp = formatUtc(now);
+  for (const e of events) {
+    lines.push("BEGIN:VEVENT");
+    lines.push(formatProperty("UID", escapeText(e.uid)));
+    lines.push(`DTSTAMP:${stamp}`);
+    if (e.allDay) {
+      lines.push(formatProperty("DTSTART", formatDate(e.start, tz), { VALUE: "DATE" }));
+      lines.push(formatProperty("DTEND", formatDate(e.end, tz), { VALUE: "DATE" }));
+    } else {
+      lines.push(`DTSTART:${formatUtc(e.start)}`);
+      lines.push(`DTEND:${formatUtc(e.end)}`);
+    }
+    lines.push(formatProperty("SUMMARY", escapeText(e.summary)));
+    if (e.location) lines.push(formatProperty("LOCATION", escapeText(e.location)));
+    if (e.description) lines.push(formatProperty("DESCRIPTION", escapeText(e.description)));
+    if (e.status) lines.push(formatProperty("STATUS", e.status.toUpperCase()));
+    for (const x of e.extra ?? []) lines.push(formatProperty(x.name, x.value, x.params));
+    lines.push("END:VEVENT");
+  }
+
+  lines.push("END:VCALENDAR");
+  return lines.join("\r\n") + "\r\n";
+}
@@ -0,0 +1,238 @@
+// src/lib/icsCache.ts
+// Cache for upstream ICS feeds, keyed by source URL:
+//  - fresh entry (younger than maxAgeMs)  -> served without asking upstream (HIT)
+//  - older entry                          -> conditional GET with If-None-Match / If-Modified-Since
+//                                            (304 -> REVALIDATED, 200 -> MISS and stored)
+//  - upstream down / error                -> last good copy (STALE), unless allowStale is false
+// Redirects are followed by hand (at most MAX_REDIRECTS hops), each target checked by allowRedirect.
+// Entries are keyed by icsCacheKey() (no fragment, sorted query), so spellings of one URL share a row.
+// Shared across server instances via table bfv_ics_cache when SUPABASE_SERVICE_ROLE_KEY is set
+// (capped and pruned by prune_bfv_ics_cache()), otherwise per instance in memory.
+// Bodies are stored decoded (charset detection in src/lib/charset.ts).
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { supabaseService } from "@/lib/supabaseServer";
+import { decodeText } from "@/lib/charset";
+
+export type CacheStatus = "HIT" | "REVALIDATED" | "MISS" | "STALE";
+
+export type CachedIcs = {
+  body: string;
+  etag: string | null;
+  lastModified: string | null;
+  fetchedAt: number; // ms
+  checkedAt: number; // ms
+};
+
+export type IcsCacheStore = {
+  get(url: string): Promise<CachedIcs | null>;
+  set(url: string, entry: CachedIcs): Promise<void>;
+};
+
+/** Default TTL; BFV_ICS_CACHE_TTL (seconds) overrides it. */
+export const ICS_CACHE_TTL_MS = (Number(process.env.BFV_ICS_CACHE_TTL) || 600) * 1000;
+
+const MEMORY_MAX_ENTRIES = 200;
+
+/** Limits of the shared table: at most this many rows, none unchecked for longer than the max age. */
+export const TABLE_MAX_ENTRIES = 500;
+export const TABLE_MAX_AGE_DAYS = 30;
+
+export const MAX_REDIRECTS = 5;
+
+/** Cache key of a source URL: scheme and host lower case, default port, fragment and empty query dropped, query sorted. */
+export function icsCacheKey(url: string) {
+  const u = new URL(url);
+  u.hash = "";
+  u.searchParams.sort();
+  return u.toString().replace(/\?$/, "");
+}
+
+export function memoryIcsCacheStore(): IcsCacheStore {
+  const map = new Map<string, CachedIcs>();
+  return {
+    async get(url) {
+      return map.get(url) ?? null;
+    },
+    async set(url, entry) {
+      map.delete(url);
+      map.set(url, entry);
+      // älteste Einträge zuerst verwerfen (Map behält die Einfügereihenfolge)
+      while (map.size > MEMORY_MAX_ENTRIES) map.delete(map.keys().next().value as string);
+    },
+  };
+}
+
+type CacheRow = { body: string; etag: string | null; last_modified: string | null; fetched_at: string; checked_at: string };
+
+export function supabaseIcsCacheStore(supabase: SupabaseClient): IcsCacheStore {
+  return {
+    async get(url) {
+      const { data, error } = await supabase
+        .from("bfv_ics_cache")
+        .select("body,etag,last_modified,fetched_at,checked_at")
+        .eq("url", url)
+        .maybeSingle();
+      if (error || !data) return null;
+      const row = data as CacheRow;
+      return {
+        body: row.body,
+        etag: row.etag,
+        lastModified: row.last_modified,
+        fetchedAt: new Date(row.fetched_at).getTime(),
+        checkedAt: new Date(row.checked_at).getTime(),
+      };
+    },
+    async set(url, entry) {
+      // Cache-Fehler sollen den Abruf nicht scheitern lassen
+      const { error } = await supabase.from("bfv_ics_cache").upsert({
+        url,
+        body: entry.body,
+        etag: entry.etag,
+        last_modified: entry.lastModified,
+        fetched_at: new Date(entry.fetchedAt).toISOString(),
+        checked_at: new Date(entry.checkedAt).toISOString(),
+      });
+      if (error) console.warn("bfv_ics_cache upsert failed", error.message);
+
+      const { error: pruneError } = await supabase.rpc("prune_bfv_ics_cache", {
+        max_entries: TABLE_MAX_ENTRIES,
+        max_age_days: TABLE_MAX_AGE_DAYS,
+      });
+      if (pruneError) console.warn("bfv_ics_cache prune failed", pruneError.message);
+    },
+  };
+}
+
+let defaultStore: IcsCacheStore | null = null;
+
+export function defaultIcsCacheStore(): IcsCacheStore {
+  if (!defaultStore) {
+    const service = supabaseService();
+    defaultStore = service ? supabaseIcsCacheStore(service) : memoryIcsCacheStore();
+  }
+  return defaultStore;
+}
+
+export class UpstreamError extends Error {
+  constructor(
+    message: string,
+    public status: number | null,
+    public body: string
+  ) {
+    super(message);
+    this.name = "UpstreamError";
+  }
+}
+
+/** Redirect refused: target not allowed, invalid or too many hops. */
+export class RedirectError extends UpstreamError {
+  constructor(
+    message: string,
+    status: number,
+    public location: string
+  ) {
+    super(message, status, "");
+    this.name = "RedirectError";
+  }
+}
+
+export type CachedFetchOptions = {
+  maxAgeMs?: number;
+  allowStale?: boolean;
+  headers?: Record<string, string>;
+  /** Rejects bodies that are no usable response (e.g. an HTML error page with status 200). */
+  accept?: (body: string) => boolean;
+  /** Whether a redirect target may be fetched; default: https on the same host. */
+  allowRedirect?: (target: URL) => boolean;
+  store?: IcsCacheStore;
+};
+
+export type CachedFetchResult = {
+  body: string;
+  status: CacheStatus;
+  fetchedAt: Date;
+  /** Upstream error that was answered from the cache (STALE only) */
+  error?: string;
+};
+
+function sameHostHttps(from: URL) {
+  return (target: URL) => target.protocol === "https:" && target.hostname === from.hostname;
+}
+
+/** fetch with redirect: "manual"; every Location is checked before it is requested. */
+async function fetchWithCheckedRedirects(url: string, init: RequestInit, allowRedirect: (target: URL) => boolean) {
+  let current = new URL(url);
+  for (let hop = 0; ; hop++) {
+    const res = await fetch(current, { ...init, redirect: "manual" });
+    const location = res.status >= 300 && res.status < 400 ? res.headers.get("location") : null;
+    if (!location) return res;
+
+    await res.body?.cancel().catch(() => undefined);
+    if (hop >= MAX_REDIRECTS) throw new RedirectError("Too many redirects", res.status, location);
+
+    let next: URL;
+    try {
+      next = new URL(location, current);
+    } catch {
+      throw new RedirectError("Invalid redirect", res.status, location);
+    }
+    if (!allowRedirect(next)) throw new RedirectError(`Redirect to ${next.host} not allowed`, res.status, next.toString());
+    current = next;
+  }
+}
+
+export async function cachedFetch(url: string, opts: CachedFetchOptions = {}): Promise<CachedFetchResult> {
+  const store = opts.store ?? defaultIcsCacheStore();
+  const maxAgeMs = opts.maxAgeMs ?? ICS_CACHE_TTL_MS;
+  const now = Date.now();
+  const key = icsCacheKey(url);
+
+  const entry = await store.get(key).catch(() => null);
+  if (entry && now - entry.checkedAt < maxAgeMs) {
+    return { body: entry.body, status: "HIT", fetchedAt: new Date(entry.fetchedAt) };
+  }
+
+  const headers: Record<string, string> = { ...opts.headers };
+  if (entry?.etag) headers["if-none-match"] = entry.etag;
+  if (entry?.lastModified) headers["if-modified-since"] = entry.lastModified;
+
+  try {
+    const res = await fetchWithCheckedRedirects(
+      url,
+      { cache: "no-store", headers },
+      opts.allowRedirect ?? sameHostHttps(new URL(url))
+    );
+
+    if (res.status === 304 && entry) {
+      await store.set(key, { ...entry, checkedAt: now });
+      return { body: entry.body, status: "REVALIDATED", fetchedAt: new Date(entry.fetchedAt) };
+    }
+
+    const bytes = await res
+      .arrayBuffer()
+      .then((b) => new Uint8Array(b))
+      .catch(() => new Uint8Array());
+    const body = decodeText(bytes, res.headers.get("content-type")).text;
+    if (!res.ok) throw new UpstreamError(`Upstream answered ${res.status}`, res.status, body);
+    if (opts.accept && !opts.accept(body)) throw new UpstreamError("Unexpected upstream response", res.status, body);
+
+    await store.set(key, {
+      body,
+      etag: res.headers.get("etag"),
+      lastModified: res.headers.get("last-modified"),
+      fetchedAt: now,
+      checkedAt: now,
+    });
+    return { body, status: "MISS", fetchedAt: new Date(now) };
+  } catch (e) {
+    if (entry && opts.allowStale !== false) {
+      return {
+        body: entry.body,
+        status: "STALE",
+        fetchedAt: new Date(entry.fetchedAt),
+        error: (e as { message?: string })?.message || String(e),
+      };
+    }
+    throw e;
+  }
+}
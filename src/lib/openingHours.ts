@@ -0,0 +1,111 @@
+// src/lib/openingHours.ts
+//
+// Opening hours per pitch and weekday (table pitch_opening_hours; pure, no Supabase access).
+// A pitch without any rows is open around the clock, a weekday without rows is closed.
+// Several windows per day are allowed, e.g. Sunday only 13:00–22:00.
+import { berlinParts } from "@/lib/berlinTime";
+import { WEEKDAY_LABELS, Weekday } from "@/lib/recurrence";
+
+export type OpeningWindow = {
+  weekday: number; // ISO: 1 = Montag … 7 = Sonntag
+  opens: string; // "HH:MM" (or "HH:MM:SS" from Postgres)
+  closes: string; // "HH:MM"; "24:00" / "00:00" = midnight
+};
+
+export const OPENING_HOURS_COLUMNS = "pitch_id,weekday,opens,closes";
+
+/** Time grid of the calendar views when no pitch has opening hours. */
+export const DEFAULT_DAY_START_MIN = 9 * 60;
+export const DEFAULT_DAY_END_MIN = 22 * 60;
+
+/** "17:30" -> 1050; closes "00:00"/"24:00" counts as end of day. */
+export function timeToMinutes(hm: string, isClose = false) {
+  const m = (hm || "").match(/^(\d{1,2}):(\d{2})/);
+  if (!m) return null;
+  const min = +m[1] * 60 + +m[2];
+  return isClose && min === 0 ? 24 * 60 : min;
+}
+
+export function minutesToTime(min: number) {
+  return `${String(Math.floor(min / 60)).padStart(2, "0")}:${String(min % 60).padStart(2, "0")}`;
+}
+
+/** Windows of a weekday as minute ranges, ordered by opening time. */
+export function windowsForDay(windows: OpeningWindow[], weekday: number) {
+  return windows
+    .filter((w) => w.weekday === weekday)
+    .map((w) => ({ opens: timeToMinutes(w.opens) ?? 0, closes: timeToMinutes(w.closes, true) ?? 0 }))
+    .filter((w) => w.closes > w.opens)
+    .sort((a, b) => a.opens - b.opens);
+}
+
+/**
+ * Whether [start, end) lies within one opening window (club time). Bookings crossing
+ * midnight never fit. Undefined or empty windows = no restriction.
+ */
+export function fitsOpeningHours(windows: OpeningWindow[] | undefined, start: Date, end: Date) {
+  if (!windows?.length) return true;
+  const s = berlinParts(start);
+  const e = berlinParts(end);
+  const endMin = e.ymd === s.ymd ? e.minutes : e.minutes === 0 ? 24 * 60 : -1;
+  if (endMin < 0) return false;
+  return windowsForDay(windows, s.weekday).some((w) => s.minutes >= w.opens && endMin <= w.closes);
+}
+
+/** "17:00–22:00" / "10:00–12:00, 14:00–20:00" / "geschlossen" */
+export function dayHoursText(windows: OpeningWindow[], weekday: number) {
+  const day = windowsForDay(windows, weekday);
+  if (!day.length) return "geschlossen";
+  return day.map((w) => `${minutesToTime(w.opens)}–${minutesToTime(w.closes)}`).join(", ");
+}
+
+/** "17:00-22:00, 9:00–12:00" -> windows of that weekday; empty text = closed. Throws on bad input. */
+export function parseDayHours(text: string, weekday: number): OpeningWindow[] {
+  return (text || "")
+    .split(",")
+    .map((part) => part.trim())
+    .filter(Boolean)
+    .map((part) => {
+      const m = part.match(/^(\d{1,2}:\d{2})\s*[–-]\s*(\d{1,2}:\d{2})$/);
+      const opens = m ? timeToMinutes(m[1]) : null;
+      const closes = m ? timeToMinutes(m[2], true) : null;
+      if (opens === null || closes === null || opens >= 24 * 60 || closes > 24 * 60 || closes <= opens) {
+        throw new Error(`Ungültige Zeit "${part}" (Format 17:00–22:00).`);
+      }
+      return { weekday, opens: minutesToTime(opens), closes: minutesToTime(closes % (24 * 60)) };
+    });
+}
+
+/** Hours on the (club-time) weekday of an instant: "Di 17:00–22:00" / "So geschlossen". */
+export function hoursOnDayText(windows: OpeningWindow[], at: Date) {
+  const weekday = berlinParts(at).weekday as Weekday;
+  return `${WEEKDAY_LABELS[weekday]} ${dayHoursText(windows, weekday)}`;
+}
+
+/** "Mo 17:00–22:00 · … · So geschlossen"; null when the pitch has no opening hours. */
+export function openingHoursText(windows: OpeningWindow[] | undefined) {
+  if (!windows?.length) return null;
+  return ([1, 2, 3, 4, 5, 6, 7] as Weekday[]).map((d) => `${WEEKDAY_LABELS[d]} ${dayHoursText(windows, d)}`).join(" · ");
+}
+
+/**
+ * Time grid for the calendar views: earliest opening to latest closing of the given pitches
+ * (full hours). Pitches without opening hours count with the default 09:00–22:00.
+ */
+export function timeGridBounds(pitchWindows: (OpeningWindow[] | undefined)[]) {
+  let startMin = Infinity;
+  let endMin = -Infinity;
+  for (const windows of pitchWindows) {
+    const ranges = windows?.length
+      ? ([1, 2, 3, 4, 5, 6, 7] as Weekday[]).flatMap((d) => windowsForDay(windows, d))
+      : [{ opens: DEFAULT_DAY_START_MIN, closes: DEFAULT_DAY_END_MIN }];
+    for (const r of ranges) {
+      startMin = Math.min(startMin, r.opens);
+      endMin = Math.max(endMin, r.closes);
+    }
+  }
+  if (!Number.isFinite(startMin) || !Number.isFinite(endMin)) {
+    return { startMin: DEFAULT_DAY_START_MIN, endMin: DEFAULT_DAY_END_MIN };
+  }
+  return { startMin: Math.floor(startMin / 60) * 60, endMin: Math.min(24 * 60, Math.ceil(endMin / 60) * 60) };
+}
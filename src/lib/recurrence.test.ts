@@ -0,0 +1,130 @@
+import { describe, expect, it } from "vitest";
+import { expandSeries, localDateTimeISO, SeriesRule, seriesLabel } from "@/lib/recurrence";
+
+// Di + Do 17:00–18:30, über die Zeitumstellung am 25.10.2026 bis in die Herbstferien
+const RULE: SeriesRule = {
+  weekdays: [2, 4],
+  start_time: "17:00",
+  end_time: "18:30",
+  valid_from: "2026-10-13",
+  valid_to: "2026-11-05",
+  skip_school_holidays: true,
+};
+
+const HERBSTFERIEN = { name: "Herbstferien", start_date: "2026-11-02", end_date: "2026-11-06" };
+
+describe("localDateTimeISO", () => {
+  it("keeps the club wall-clock time across DST", () => {
+    expect(localDateTimeISO("2026-10-24", "17:00")).toBe("2026-10-24T15:00:00.000Z");
+    expect(localDateTimeISO("2026-10-25", "17:00")).toBe("2026-10-25T16:00:00.000Z");
+    expect(localDateTimeISO("2026-03-28", "17:00")).toBe("2026-03-28T16:00:00.000Z");
+    expect(localDateTimeISO("2026-03-29", "17:00")).toBe("2026-03-29T15:00:00.000Z");
+  });
+
+  it("accepts Postgres times and rejects garbage", () => {
+    expect(localDateTimeISO("2026-10-20", "17:30:00")).toBe("2026-10-20T15:30:00.000Z");
+    expect(localDateTimeISO("2026-10-20", "abends")).toBeNull();
+    expect(localDateTimeISO("20.10.2026", "17:00")).toBeNull();
+  });
+});
+
+describe("expandSeries", () => {
+  it("expands the weekdays at the same wall-clock time before and after the switch", () => {
+    const { occurrences, skipped } = expandSeries({ ...RULE, valid_to: "2026-10-29" });
+
+    expect(occurrences.map((o) => [o.date, o.start_at, o.end_at])).toEqual([
+      ["2026-10-13", "2026-10-13T15:00:00.000Z", "2026-10-13T16:30:00.000Z"],
+      ["2026-10-15", "2026-10-15T15:00:00.000Z", "2026-10-15T16:30:00.000Z"],
+      ["2026-10-20", "2026-10-20T15:00:00.000Z", "2026-10-20T16:30:00.000Z"],
+      ["2026-10-22", "2026-10-22T15:00:00.000Z", "2026-10-22T16:30:00.000Z"],
+      ["2026-10-27", "2026-10-27T16:00:00.000Z", "2026-10-27T17:30:00.000Z"],
+      ["2026-10-29", "2026-10-29T16:00:00.000Z", "2026-10-29T17:30:00.000Z"],
+    ]);
+    expect(occurrences.every((o) => !o.moved)).toBe(true);
+    expect(skipped).toEqual([]);
+  });
+
+  it("keeps the time across the spring switch as well", () => {
+    const sunday: SeriesRule = {
+      ...RULE,
+      weekdays: [7],
+      start_time: "10:00",
+      end_time: "11:30",
+      valid_from: "2026-03-22",
+      valid_to: "2026-04-05",
+    };
+    expect(expandSeries(sunday).occurrences.map((o) => o.start_at)).toEqual([
+      "2026-03-22T09:00:00.000Z",
+      "2026-03-29T08:00:00.000Z",
+      "2026-04-05T08:00:00.000Z",
+    ]);
+  });
+
+  it("skips school holidays only when the series asks for it", () => {
+    const skipping = expandSeries(RULE, [], [HERBSTFERIEN]);
+    expect(skipping.occurrences.map((o) => o.date)).not.toContain("2026-11-03");
+    expect(skipping.skipped).toEqual([
+      { date: "2026-11-03", reason: "HOLIDAY", label: "Herbstferien" },
+      { date: "2026-11-05", reason: "HOLIDAY", label: "Herbstferien" },
+    ]);
+
+    const through = expandSeries({ ...RULE, skip_school_holidays: false }, [], [HERBSTFERIEN]);
+    expect(through.occurrences.map((o) => o.date).slice(-2)).toEqual(["2026-11-03", "2026-11-05"]);
+    expect(through.skipped).toEqual([]);
+
+    // Ferien ohne Namen
+    expect(expandSeries(RULE, [], [{ start_date: "2026-11-05", end_date: "2026-11-05" }]).skipped).toEqual([
+      { date: "2026-11-05", reason: "HOLIDAY", label: "Schulferien" },
+    ]);
+  });
+
+  it("applies exception dates: cancelled and moved occurrences", () => {
+    const { occurrences, skipped } = expandSeries(
+      RULE,
+      [
+        { occurrence_date: "2026-10-15", action: "CANCEL" },
+        {
+          occurrence_date: "2026-10-22",
+          action: "MOVE",
+          new_start_at: "2026-10-23T17:00:00.000Z",
+          new_end_at: "2026-10-23T18:30:00.000Z",
+        },
+        // ohne neue Zeit bleibt der Termin wie er ist
+        { occurrence_date: "2026-10-27", action: "MOVE", new_start_at: null, new_end_at: null },
+        // kein Termin der Serie (Montag): egal
+        { occurrence_date: "2026-10-19", action: "CANCEL" },
+      ],
+      [HERBSTFERIEN]
+    );
+
+    expect(occurrences.map((o) => [o.date, o.start_at, o.moved])).toEqual([
+      ["2026-10-13", "2026-10-13T15:00:00.000Z", false],
+      ["2026-10-20", "2026-10-20T15:00:00.000Z", false],
+      ["2026-10-22", "2026-10-23T17:00:00.000Z", true],
+      ["2026-10-27", "2026-10-27T16:00:00.000Z", false],
+      ["2026-10-29", "2026-10-29T16:00:00.000Z", false],
+    ]);
+    expect(skipped.map((s) => [s.date, s.reason])).toEqual([
+      ["2026-10-15", "CANCELLED"],
+      ["2026-11-03", "HOLIDAY"],
+      ["2026-11-05", "HOLIDAY"],
+    ]);
+  });
+
+  it("lets the holiday win over an exception on the same date", () => {
+    const { skipped } = expandSeries(RULE, [{ occurrence_date: "2026-11-03", action: "CANCEL" }], [HERBSTFERIEN]);
+    expect(skipped.find((s) => s.date === "2026-11-03")?.reason).toBe("HOLIDAY");
+  });
+
+  it("returns nothing for invalid rules", () => {
+    expect(expandSeries({ ...RULE, valid_to: "2026-10-01" }).occurrences).toEqual([]);
+    expect(expandSeries({ ...RULE, valid_from: "13.10.2026" }).occurrences).toEqual([]);
+    expect(expandSeries({ ...RULE, start_time: "" }).occurrences).toEqual([]);
+  });
+});
+
+describe("seriesLabel", () => {
+  it("sorts the weekdays and trims seconds", () => {
+    expect(seriesLabel({ weekdays: [4, 2], start_time: "17:00:00", end_time: "18:30:00" })).toBe("Di/Do 17:00–18:30");
+  });
+});
@@ -0,0 +1,165 @@
+// src/lib/recurrence.ts
+//
+// Weekly training series (pure, no Supabase access).
+// A series is "every <weekday> <start>–<end> from <valid_from> to <valid_to>",
+// optionally skipping school holidays, with per-date exceptions (cancel / move).
+// Days and times are club time (Europe/Berlin, src/lib/berlinTime.ts), whatever the timezone
+// of the browser; a series keeps its wall-clock time across DST switches.
+import { addDaysYmd, berlinDateTime, berlinDayStart, berlinParts, berlinYmd, weekdayOfYmd } from "@/lib/berlinTime";
+
+/** ISO weekday: 1 = Montag … 7 = Sonntag */
+export type Weekday = 1 | 2 | 3 | 4 | 5 | 6 | 7;
+
+export const WEEKDAY_LABELS: Record<Weekday, string> = {
+  1: "Mo",
+  2: "Di",
+  3: "Mi",
+  4: "Do",
+  5: "Fr",
+  6: "Sa",
+  7: "So",
+};
+
+export type SeriesRule = {
+  weekdays: number[];
+  start_time: string; // "HH:MM" (or "HH:MM:SS" from Postgres)
+  end_time: string;
+  valid_from: string; // "YYYY-MM-DD"
+  valid_to: string; // "YYYY-MM-DD" (inclusive)
+  skip_school_holidays: boolean;
+};
+
+export type SeriesExceptionAction = "CANCEL" | "MOVE";
+
+export type SeriesException = {
+  occurrence_date: string; // original date of the occurrence, "YYYY-MM-DD"
+  action: SeriesExceptionAction;
+  new_start_at?: string | null; // ISO, only for MOVE
+  new_end_at?: string | null;
+};
+
+/** Closed date range, e.g. a school holiday. */
+export type DateRange = {
+  name?: string | null;
+  start_date: string; // "YYYY-MM-DD"
+  end_date: string; // "YYYY-MM-DD" (inclusive)
+};
+
+export type Occurrence = {
+  /** original date in the series (key for exceptions) */
+  date: string;
+  start_at: string; // ISO
+  end_at: string; // ISO
+  moved: boolean;
+};
+
+export type SkippedOccurrence = {
+  date: string;
+  reason: "HOLIDAY" | "CANCELLED";
+  label: string;
+};
+
+/** Safety net against typos like valid_to = 2062 */
+const MAX_OCCURRENCES = 400;
+
+/** Club-time day (YYYY-MM-DD) of an instant */
+export function toYMD(d: Date) {
+  return berlinYmd(d);
+}
+
+/** Start of a club-time day; null for invalid input */
+export function parseYMD(s: string) {
+  return berlinDayStart(s);
+}
+
+function parseHM(s: string) {
+  const [h, m] = (s || "").split(":").map((x) => parseInt(x, 10));
+  if (!Number.isFinite(h) || !Number.isFinite(m)) return null;
+  return { h, m };
+}
+
+/** ISO weekday of an instant in club time */
+export function isoWeekday(d: Date): Weekday {
+  return berlinParts(d).weekday as Weekday;
+}
+
+/** Club wall-clock time on a date → ISO timestamp */
+export function localDateTimeISO(ymd: string, hm: string) {
+  if (!parseHM(hm)) return null;
+  return berlinDateTime(ymd, hm)?.toISOString() ?? null;
+}
+
+/** ISO timestamp -> "YYYY-MM-DDTHH:mm" in club time (value of an <input type="datetime-local">) */
+export function toLocalInput(iso: string) {
+  const p = berlinParts(new Date(iso));
+  return `${p.ymd}T${p.hm}`;
+}
+
+/** "YYYY-MM-DDTHH:mm" (club time, from an <input type="datetime-local">) -> instant; Invalid Date like new Date() */
+export function fromLocalInput(value: string) {
+  const m = (value || "").match(/^(\d{4}-\d{2}-\d{2})T(\d{2}:\d{2})/);
+  return (m && berlinDateTime(m[1], m[2])) || new Date(NaN);
+}
+
+export function holidayFor(ymd: string, holidays: DateRange[]) {
+  return holidays.find((h) => h.start_date <= ymd && ymd <= h.end_date) ?? null;
+}
+
+/**
+ * Expands a series into its concrete occurrences, applying holidays and exceptions.
+ * Skipped dates are returned separately so the UI can show why a week is missing.
+ */
+export function expandSeries(
+  rule: SeriesRule,
+  exceptions: SeriesException[] = [],
+  holidays: DateRange[] = []
+): { occurrences: Occurrence[]; skipped: SkippedOccurrence[] } {
+  const from = parseYMD(rule.valid_from) ? rule.valid_from : null;
+  const to = parseYMD(rule.valid_to) ? rule.valid_to : null;
+  const startHM = parseHM(rule.start_time);
+  const endHM = parseHM(rule.end_time);
+
+  const occurrences: Occurrence[] = [];
+  const skipped: SkippedOccurrence[] = [];
+  if (!from || !to || !startHM || !endHM || to < from) return { occurrences, skipped };
+
+  const weekdays = new Set(rule.weekdays);
+  const exByDate = new Map(exceptions.map((e) => [e.occurrence_date, e]));
+
+  for (let ymd = from; ymd <= to && occurrences.length < MAX_OCCURRENCES; ymd = addDaysYmd(ymd, 1)) {
+    if (!weekdays.has(weekdayOfYmd(ymd) ?? 0)) continue;
+
+    if (rule.skip_school_holidays) {
+      const h = holidayFor(ymd, holidays);
+      if (h) {
+        skipped.push({ date: ymd, reason: "HOLIDAY", label: h.name || "Schulferien" });
+        continue;
+      }
+    }
+
+    const ex = exByDate.get(ymd);
+    if (ex?.action === "CANCEL") {
+      skipped.push({ date: ymd, reason: "CANCELLED", label: "abgesagt" });
+      continue;
+    }
+    if (ex?.action === "MOVE" && ex.new_start_at && ex.new_end_at) {
+      occurrences.push({ date: ymd, start_at: ex.new_start_at, end_at: ex.new_end_at, moved: true });
+      continue;
+    }
+
+    const start_at = localDateTimeISO(ymd, rule.start_time);
+    const end_at = localDateTimeISO(ymd, rule.end_time);
+    if (!start_at || !end_at) continue;
+    occurrences.push({ date: ymd, start_at, end_at, moved: false });
+  }
+
+  return { occurrences, skipped };
+}
+
+export function seriesLabel(rule: Pick<SeriesRule, "weekdays" | "start_time" | "end_time">) {
+  const days = [...rule.weekdays]
+    .sort((a, b) => a - b)
+    .map((d) => WEEKDAY_LABELS[d as Weekday] ?? "?")
+    .join("/");
+  return `${days} ${rule.start_time.slice(0, 5)}–${rule.end_time.slice(0, 5)}`;
+}
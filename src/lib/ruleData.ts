@@ -0,0 +1,133 @@
+// src/lib/ruleData.ts
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { BLOCKING_STATUSES, isPitchSegment, RuleBooking, RulePitch } from "@/lib/bookingRules";
+import { loadClosures } from "@/lib/closures";
+import { OPENING_HOURS_COLUMNS, OpeningWindow } from "@/lib/openingHours";
+
+/** Request body item of the booking API routes (validate / alternatives). */
+export type ProposalInput = {
+  id?: string | null;
+  team_id: string;
+  pitch_id: string;
+  segment?: string | null;
+  start_at: string;
+  end_at: string;
+};
+
+export function isProposalInput(x: unknown): x is ProposalInput {
+  if (!x || typeof x !== "object") return false;
+  const p = x as Record<string, unknown>;
+  return (
+    typeof p.team_id === "string" &&
+    typeof p.pitch_id === "string" &&
+    typeof p.start_at === "string" &&
+    typeof p.end_at === "string" &&
+    (p.segment == null || isPitchSegment(p.segment))
+  );
+}
+
+/**
+ * Ids of the given existing bookings that are league games (source = 'BFV'); opening hours
+ * and dusk do not apply to them. Read from the database, never taken from the request.
+ * Throws the Supabase error on failure.
+ */
+export async function loadLeagueBookingIds(supabase: SupabaseClient, ids: string[]): Promise<Set<string>> {
+  if (ids.length === 0) return new Set();
+  const { data, error } = await supabase.from("bookings").select("id").eq("source", "BFV").in("id", ids);
+  if (error) throw error;
+  return new Set(((data ?? []) as { id: string }[]).map((b) => b.id));
+}
+
+export type RuleTeam = { id: string; age_u: number | null; pitch_units: number | null };
+
+type BookingTeam = { age_u: number | null; pitch_units: number | null };
+type BookingRow = {
+  id: string;
+  pitch_id: string;
+  start_at: string;
+  end_at: string;
+  status: string;
+  segment: string | null;
+  team: BookingTeam | BookingTeam[] | null;
+};
+
+export type RuleData = {
+  pitches: RulePitch[];
+  teamById: Map<string, RuleTeam>;
+  bookings: RuleBooking[];
+};
+
+function bookingTeam(b: BookingRow): BookingTeam | null {
+  return (Array.isArray(b.team) ? b.team[0] : b.team) ?? null;
+}
+
+/** Opening hours of all pitches, by pitch id. Throws the Supabase error on failure. */
+export async function loadOpeningHours(supabase: SupabaseClient) {
+  const { data, error } = await supabase.from("pitch_opening_hours").select(OPENING_HOURS_COLUMNS);
+  if (error) throw error;
+
+  const byPitch = new Map<string, OpeningWindow[]>();
+  for (const row of (data ?? []) as (OpeningWindow & { pitch_id: string })[]) {
+    const list = byPitch.get(row.pitch_id) ?? [];
+    list.push({ weekday: row.weekday, opens: row.opens, closes: row.closes });
+    byPitch.set(row.pitch_id, list);
+  }
+  return byPitch;
+}
+
+/**
+ * Loads what the pitch rules need (server side, as the calling user):
+ * all pitches (with opening hours and closures), the given teams and every blocking booking overlapping [from, to).
+ * Throws the Supabase error on failure.
+ */
+export async function loadRuleData(
+  supabase: SupabaseClient,
+  teamIds: string[],
+  from: Date | null,
+  to: Date | null
+): Promise<RuleData> {
+  const [pitchesRes, teamsRes, openingHours] = await Promise.all([
+    supabase.from("pitches").select("id,name,type,capacity_units,venue_id,has_floodlight"),
+    supabase.from("teams").select("id,age_u,pitch_units").in("id", teamIds),
+    loadOpeningHours(supabase),
+  ]);
+
+  if (pitchesRes.error) throw pitchesRes.error;
+  if (teamsRes.error) throw teamsRes.error;
+
+  let bookings: RuleBooking[] = [];
+  let pitches = ((pitchesRes.data ?? []) as RulePitch[]).map((p) => ({
+    ...p,
+    opening_hours: openingHours.get(p.id) ?? [],
+  }));
+  if (from && to) {
+    const closures = await loadClosures(supabase, from, to);
+    pitches = pitches.map((p) => ({ ...p, closures: closures.get(p.id) ?? [] }));
+
+    const { data, error } = await supabase
+      .from("bookings")
+      .select("id,pitch_id,start_at,end_at,status,segment,team:team_id(age_u,pitch_units)")
+      .in("status", [...BLOCKING_STATUSES])
+      .lt("start_at", to.toISOString())
+      .gt("end_at", from.toISOString());
+
+    if (error) throw error;
+
+    bookings = ((data ?? []) as BookingRow[]).map((b) => ({
+      id: b.id,
+      pitch_id: b.pitch_id,
+      start_at: b.start_at,
+      end_at: b.end_at,
+      status: b.status,
+      segment: isPitchSegment(b.segment) ? b.segment : null,
+      age_u: bookingTeam(b)?.age_u ?? null,
+      units: bookingTeam(b)?.pitch_units ?? null,
+    }));
+  }
+
+  return {
+    pitches,
+    teamById: new Map(((teamsRes.data ?? []) as RuleTeam[]).map((t) => [t.id, t])),
+    bookings,
+  };
+}
@@ -0,0 +1,150 @@
+import { describe, expect, it } from "vitest";
+import type { RulePitch } from "@/lib/bookingRules";
+import {
+  nextSeasonDates,
+  nextSeasonName,
+  planRollover,
+  RolloverTeam,
+  TemplateSlot,
+  templateConflicts,
+  withConflicts,
+} from "@/lib/seasonRollover";
+
+const GROSS: RulePitch = { id: "p1", name: "Platz 1", type: "GROSSFELD" };
+const GROSS2: RulePitch = { id: "p3", name: "Platz 2", type: "GROSSFELD" };
+const KOMPAKT: RulePitch = { id: "p2", name: "Kompaktfeld", type: "KOMPAKT" };
+
+// age_u ist um 1 verschoben: 8 = U9, 12 = U13
+const TEAMS: RolloverTeam[] = [
+  { id: "u9", name: "U9", age_u: 8 },
+  { id: "u13", name: "U13", age_u: 12 },
+  { id: "u13b", name: "U13 II", age_u: 12 },
+  { id: "u15", name: "U15", age_u: 14 },
+  { id: "ohne", name: "Freizeit", age_u: null },
+];
+
+function slot(team_id: string, pitch_id: string, extra: Partial<TemplateSlot> = {}): TemplateSlot {
+  return { team_id, pitch_id, segment: null, weekday: 1, start_time: "17:00", end_time: "18:30", ...extra };
+}
+
+describe("nextSeasonName", () => {
+  it("counts both years up", () => {
+    expect(nextSeasonName("2026/27")).toBe("2027/28");
+    expect(nextSeasonName("Saison 2026 / 27")).toBe("Saison 2027/28");
+    expect(nextSeasonName("2099/00")).toBe("2100/01");
+    expect(nextSeasonName("2026/2027")).toBe("2027/2028");
+  });
+
+  it("handles single years and names without a year", () => {
+    expect(nextSeasonName("Saison 2026")).toBe("Saison 2027");
+    expect(nextSeasonName("Hallensaison")).toBe("Hallensaison (Folgesaison)");
+  });
+});
+
+describe("nextSeasonDates", () => {
+  it("moves the season one year on", () => {
+    expect(nextSeasonDates({ valid_from: "2026-09-01", valid_to: "2027-07-31" })).toEqual({
+      valid_from: "2027-09-01",
+      valid_to: "2028-07-31",
+    });
+  });
+
+  it("turns 29 February into 1 March", () => {
+    expect(nextSeasonDates({ valid_from: "2027-09-01", valid_to: "2028-02-29" })).toEqual({
+      valid_from: "2028-09-01",
+      valid_to: "2029-03-01",
+    });
+    expect(nextSeasonDates({ valid_from: "2027-02-28", valid_to: "2027-03-01" }).valid_from).toBe("2028-02-28");
+  });
+});
+
+describe("planRollover", () => {
+  it("shifts every team up one age group and keeps allowed pitches", () => {
+    const [row] = planRollover([slot("u9", "p1", { segment: "A" })], TEAMS, [GROSS, KOMPAKT], { shiftAges: true });
+
+    expect(row.change).toBe("AGE_SHIFTED");
+    expect([row.oldAgeU, row.newAgeU]).toEqual([8, 9]);
+    expect(row.slot).toEqual(slot("u9", "p1", { segment: "A" }));
+    expect(row.conflicts).toEqual([]);
+  });
+
+  it("keeps the ages without shiftAges", () => {
+    const [row] = planRollover([slot("u13", "p2")], TEAMS, [GROSS, KOMPAKT], { shiftAges: false });
+    expect(row.change).toBe("UNCHANGED");
+    expect(row.newAgeU).toBe(12);
+    expect(row.slot.pitch_id).toBe("p2");
+  });
+
+  it("swaps the compact pitch for an allowed one once a team turns U14", () => {
+    const [row] = planRollover([slot("u13", "p2", { segment: "B" })], TEAMS, [KOMPAKT, GROSS], { shiftAges: true });
+
+    expect(row.change).toBe("PITCH_CHANGED");
+    expect(row.oldPitchId).toBe("p2");
+    expect(row.slot.pitch_id).toBe("p1");
+    // Teilfläche passt nicht zwingend auf den neuen Platz
+    expect(row.slot.segment).toBeNull();
+  });
+
+  it("reports NO_PITCH when no pitch is allowed after the age shift", () => {
+    const rows = planRollover([slot("u13", "p2"), slot("u9", "p2")], TEAMS, [KOMPAKT], { shiftAges: true });
+
+    expect(rows.map((r) => r.change)).toEqual(["NO_PITCH", "AGE_SHIFTED"]);
+    expect(rows[0].slot.pitch_id).toBe("p2");
+    expect(rows[0].newAgeU).toBe(13);
+  });
+
+  it("leaves teams without age alone (and off the compact pitch)", () => {
+    const [row] = planRollover([slot("ohne", "p2")], TEAMS, [KOMPAKT, GROSS], { shiftAges: true });
+    expect([row.oldAgeU, row.newAgeU]).toEqual([null, null]);
+    expect(row.change).toBe("PITCH_CHANGED");
+  });
+
+  it("checks the new template against itself", () => {
+    // U13 -> U14 braucht den Platz exklusiv: zwei Teams zur gleichen Zeit auf Platz 1 kollidieren
+    const rows = planRollover([slot("u13", "p1"), slot("u13b", "p1")], TEAMS, [GROSS, GROSS2], { shiftAges: true });
+    expect(rows[0].conflicts).toEqual([]);
+    expect(rows[1].conflicts).toEqual([
+      "Platz 1: U14 braucht den Platz exklusiv, im Zeitraum gibt es bereits 1 Buchung(en).",
+    ]);
+
+    // Admin legt das zweite Team auf Platz 2 -> kein Konflikt mehr
+    const fixed = withConflicts([rows[0], { ...rows[1], slot: { ...rows[1].slot, pitch_id: "p3" } }], [GROSS, GROSS2]);
+    expect(fixed.map((r) => r.conflicts)).toEqual([[], []]);
+  });
+});
+
+describe("templateConflicts", () => {
+  it("reports each conflict only once, at the later slot", () => {
+    const conflicts = templateConflicts(
+      [slot("u13", "p1"), slot("u15", "p1", { start_time: "18:00", end_time: "19:00" }), slot("u13b", "p1")],
+      TEAMS,
+      [GROSS]
+    );
+
+    expect(conflicts[0]).toEqual([]);
+    expect(conflicts[1]).toHaveLength(1);
+    expect(conflicts[2]).toHaveLength(1);
+    expect(conflicts.flat()).toHaveLength(2);
+  });
+
+  it("only compares slots of the same weekday and pitch", () => {
+    expect(
+      templateConflicts(
+        [slot("u13", "p1"), slot("u13b", "p1", { weekday: 2 }), slot("u15", "p3"), slot("u9", "p1", { weekday: 3 })],
+        TEAMS,
+        [GROSS, GROSS2]
+      )
+    ).toEqual([[], [], [], []]);
+  });
+
+  it("lets two young teams share, but not with an exclusive one", () => {
+    expect(templateConflicts([slot("u9", "p1"), slot("u9", "p1", { segment: "B" })], TEAMS, [GROSS])).toEqual([[], []]);
+    expect(templateConflicts([slot("u9", "p1"), slot("u13", "p1")], TEAMS, [GROSS])[1]).toHaveLength(1);
+  });
+
+  it("flags slots with an invalid time", () => {
+    expect(templateConflicts([slot("u9", "p1", { start_time: "abends" })], TEAMS, [GROSS])).toEqual([
+      ["Ungültige Uhrzeit im Slot."],
+    ]);
+  });
+});
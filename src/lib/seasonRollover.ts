@@ -0,0 +1,193 @@
+// src/lib/seasonRollover.ts
+//
+// Season template (team × weekday × pitch × time) and rollover to the next season
+// (pure, no Supabase access). The rollover shifts every team up one age group and
+// re-checks the pitch rules with the new age, so the admin sees a diff before any
+// booking of the new season is generated.
+
+import {
+  allowedPitchesForAge,
+  isPitchSegment,
+  RuleBooking,
+  RulePitch,
+  toULabel,
+  validateBooking,
+} from "@/lib/bookingRules";
+import { localDateTimeISO } from "@/lib/recurrence";
+import { addDaysYmd } from "@/lib/berlinTime";
+
+export type Season = {
+  id: string;
+  name: string;
+  valid_from: string; // "YYYY-MM-DD"
+  valid_to: string; // "YYYY-MM-DD"
+  skip_school_holidays: boolean;
+};
+
+export type TemplateSlot = {
+  id?: string;
+  team_id: string;
+  pitch_id: string;
+  segment: string | null;
+  weekday: number; // ISO, 1 = Montag
+  start_time: string; // "HH:MM"
+  end_time: string;
+  series_id?: string | null;
+};
+
+export type RolloverTeam = { id: string; name: string; age_u: number | null; pitch_units?: number | null };
+
+export type RolloverChange = "UNCHANGED" | "AGE_SHIFTED" | "PITCH_CHANGED" | "NO_PITCH";
+
+export type RolloverRow = {
+  slot: TemplateSlot; // slot for the new season (pitch possibly replaced)
+  team: RolloverTeam | null;
+  oldAgeU: number | null;
+  newAgeU: number | null;
+  oldPitchId: string;
+  change: RolloverChange;
+  /** rule violations of the new template itself (slots of the same weekday against each other) */
+  conflicts: string[];
+};
+
+/** Monday of a fixed reference week; template slots are checked against each other on it. */
+const REFERENCE_MONDAY = "2024-01-01";
+
+function referenceDate(weekday: number) {
+  return addDaysYmd(REFERENCE_MONDAY, (weekday - 1 + 7) % 7);
+}
+
+/** Same calendar day `years` later; 29.02. becomes 01.03. */
+function shiftYear(ymd: string, years: number) {
+  const m = ymd.match(/^(\d{4})(-\d{2}-\d{2})$/);
+  // addDaysYmd normalisiert über Date.UTC (2027-02-29 -> 2027-03-01)
+  return m ? addDaysYmd(`${+m[1] + years}${m[2]}`, 0) : ymd;
+}
+
+/** "2026/27" -> "2027/28", "Saison 2026" -> "Saison 2027" */
+export function nextSeasonName(name: string) {
+  const m = name.match(/(\d{4})\s*\/\s*(\d{2,4})/);
+  if (m) {
+    const a = parseInt(m[1], 10) + 1;
+    const next = parseInt(m[2], 10) + 1;
+    const b = m[2].length === 2 ? String(next % 100).padStart(2, "0") : String(next);
+    return name.replace(m[0], `${a}/${b}`);
+  }
+  const y = name.match(/\d{4}/);
+  if (y) return name.replace(y[0], String(parseInt(y[0], 10) + 1));
+  return `${name} (Folgesaison)`;
+}
+
+export function nextSeasonDates(season: Pick<Season, "valid_from" | "valid_to">) {
+  return { valid_from: shiftYear(season.valid_from, 1), valid_to: shiftYear(season.valid_to, 1) };
+}
+
+/**
+ * Slot as a booking in the reference week (used for the template-internal rule check).
+ * age_u/units come from the team; `id` is the slot index so a slot never conflicts with itself.
+ */
+function slotAsBooking(slot: TemplateSlot, index: number, team: RolloverTeam | null): RuleBooking | null {
+  const day = referenceDate(slot.weekday);
+  const start_at = localDateTimeISO(day, slot.start_time);
+  const end_at = localDateTimeISO(day, slot.end_time);
+  if (!start_at || !end_at) return null;
+  return {
+    id: `slot-${index}`,
+    pitch_id: slot.pitch_id,
+    start_at,
+    end_at,
+    status: "APPROVED",
+    segment: isPitchSegment(slot.segment) ? slot.segment : null,
+    age_u: team?.age_u ?? null,
+    units: team?.pitch_units ?? null,
+  };
+}
+
+/** Rule violations between the slots of one template, per slot (same order). */
+export function templateConflicts(slots: TemplateSlot[], teams: RolloverTeam[], pitches: RulePitch[]) {
+  const teamById = new Map(teams.map((t) => [t.id, t]));
+  const bookings = slots.map((s, i) => slotAsBooking(s, i, teamById.get(s.team_id) ?? null));
+
+  return bookings.map((b, i) => {
+    if (!b) return ["Ungültige Uhrzeit im Slot."];
+    // nur gegen die Slots davor prüfen -> jeder Konflikt wird einmal gemeldet
+    const earlier = bookings.slice(0, i).filter((o): o is RuleBooking => !!o);
+    return validateBooking(b, pitches, earlier).violations.map((v) => v.message);
+  });
+}
+
+/**
+ * Builds the next season's template from the current one.
+ * With shiftAges every team moves up one age group (age_u + 1, label via toULabel);
+ * a pitch that is no longer allowed for the new age is replaced by the first allowed one.
+ */
+export function planRollover(
+  slots: TemplateSlot[],
+  teams: RolloverTeam[],
+  pitches: RulePitch[],
+  { shiftAges }: { shiftAges: boolean }
+): RolloverRow[] {
+  const teamById = new Map(teams.map((t) => [t.id, t]));
+
+  const rows: RolloverRow[] = slots.map((s) => {
+    const team = teamById.get(s.team_id) ?? null;
+    const oldAgeU = team?.age_u ?? null;
+    const newAgeU = oldAgeU != null && shiftAges ? oldAgeU + 1 : oldAgeU;
+
+    const allowed = allowedPitchesForAge(pitches, newAgeU);
+    let pitchId = s.pitch_id;
+    let segment = s.segment;
+    let change: RolloverChange = newAgeU !== oldAgeU ? "AGE_SHIFTED" : "UNCHANGED";
+
+    if (!allowed.some((p) => p.id === s.pitch_id)) {
+      const replacement = allowed[0] ?? null;
+      if (replacement) {
+        pitchId = replacement.id;
+        segment = null; // Teilflächen passen nicht zwingend auf den anderen Platz
+        change = "PITCH_CHANGED";
+      } else {
+        change = "NO_PITCH";
+      }
+    }
+
+    return {
+      slot: {
+        team_id: s.team_id,
+        pitch_id: pitchId,
+        segment,
+        weekday: s.weekday,
+        start_time: s.start_time,
+        end_time: s.end_time,
+      },
+      team,
+      oldAgeU,
+      newAgeU,
+      oldPitchId: s.pitch_id,
+      change,
+      conflicts: [],
+    };
+  });
+
+  return withConflicts(rows, pitches);
+}
+
+/** Recomputes the template-internal conflicts (e.g. after the admin picked another pitch in the preview). */
+export function withConflicts(rows: RolloverRow[], pitches: RulePitch[]): RolloverRow[] {
+  const shiftedTeams = rows.map((r) => ({
+    id: r.slot.team_id,
+    name: r.team?.name ?? r.slot.team_id,
+    age_u: r.newAgeU,
+    pitch_units: r.team?.pitch_units ?? null,
+  }));
+  const conflicts = templateConflicts(rows.map((r) => r.slot), shiftedTeams, pitches);
+  return rows.map((r, i) => ({ ...r, conflicts: conflicts[i] }));
+}
+
+export function ageLabel(ageU: number | null) {
+  const u = toULabel(ageU);
+  return u == null ? "—" : `U${u}`;
+}
+
+export function weekdayOrder(a: TemplateSlot, b: TemplateSlot) {
+  return a.weekday - b.weekday || a.start_time.localeCompare(b.start_time);
+}
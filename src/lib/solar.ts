@@ -0,0 +1,71 @@
+// src/lib/solar.ts
+//
+// Sunset and civil twilight for the club's location, computed offline (pure, no web service).
+// Sunrise equation with the usual low-precision solar position (accurate to about a minute
+// at our latitude), see https://en.wikipedia.org/wiki/Sunrise_equation.
+// The database check uses the same formula (public.civil_dusk), keep both in sync.
+import { berlinParts } from "@/lib/berlinTime";
+
+export type GeoLocation = { lat: number; lon: number }; // degrees, east positive
+
+/** BSA Feldbergstraße, München-Trudering */
+export const CLUB_LOCATION: GeoLocation = { lat: 48.1226, lon: 11.6628 };
+
+/** Sun altitude at sunset (refraction + disc) and at the end of civil twilight. */
+const SUNSET_ALTITUDE = -0.833;
+const CIVIL_TWILIGHT_ALTITUDE = -6;
+
+const DAY_MS = 24 * 3600 * 1000;
+const J2000 = 2451545.0;
+const UNIX_EPOCH_JD = 2440587.5;
+
+const rad = (deg: number) => (deg * Math.PI) / 180;
+const deg = (r: number) => (r * 180) / Math.PI;
+
+/**
+ * Instant in the evening of the given day (YYYY-MM-DD, club time) at which the sun sinks
+ * below `altitude`; null if it does not (polar day/night, never at our latitude).
+ */
+export function sunBelowAltitude(ymd: string, altitude: number, loc: GeoLocation = CLUB_LOCATION): Date | null {
+  const m = (ymd || "").match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!m) return null;
+
+  // Tage seit 2000-01-01, Sonnendurchgang am Ort (mittlere Sonnenzeit)
+  const n = Math.round((Date.UTC(+m[1], +m[2] - 1, +m[3]) - Date.UTC(2000, 0, 1)) / DAY_MS);
+  const meanNoon = n - loc.lon / 360;
+
+  const anomaly = (357.5291 + 0.98560028 * meanNoon) % 360;
+  const center =
+    1.9148 * Math.sin(rad(anomaly)) + 0.02 * Math.sin(rad(2 * anomaly)) + 0.0003 * Math.sin(rad(3 * anomaly));
+  const eclipticLon = (anomaly + center + 180 + 102.9372) % 360;
+  const transit = J2000 + meanNoon + 0.0053 * Math.sin(rad(anomaly)) - 0.0069 * Math.sin(rad(2 * eclipticLon));
+
+  const sinDecl = Math.sin(rad(eclipticLon)) * Math.sin(rad(23.4397));
+  const cosDecl = Math.cos(Math.asin(sinDecl));
+  const cosHourAngle =
+    (Math.sin(rad(altitude)) - Math.sin(rad(loc.lat)) * sinDecl) / (Math.cos(rad(loc.lat)) * cosDecl);
+  if (cosHourAngle < -1 || cosHourAngle > 1) return null;
+
+  const setJd = transit + deg(Math.acos(cosHourAngle)) / 360;
+  return new Date(Math.round((setJd - UNIX_EPOCH_JD) * DAY_MS));
+}
+
+export function sunset(ymd: string, loc: GeoLocation = CLUB_LOCATION) {
+  return sunBelowAltitude(ymd, SUNSET_ALTITUDE, loc);
+}
+
+/** End of civil twilight (sun 6° below the horizon): without floodlight it is too dark to train. */
+export function civilDusk(ymd: string, loc: GeoLocation = CLUB_LOCATION) {
+  return sunBelowAltitude(ymd, CIVIL_TWILIGHT_ALTITUDE, loc);
+}
+
+/** Civil dusk on the club-time day of an instant. */
+export function civilDuskOn(at: Date, loc: GeoLocation = CLUB_LOCATION) {
+  return civilDusk(berlinParts(at).ymd, loc);
+}
+
+/** Whether [start, end) ends after dusk of its start day (or runs into the next day). */
+export function endsAfterDusk(start: Date, end: Date, loc: GeoLocation = CLUB_LOCATION) {
+  const dusk = civilDuskOn(start, loc);
+  return !!dusk && end > dusk;
+}
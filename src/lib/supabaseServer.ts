@@ -0,0 +1,54 @@
+// src/lib/supabaseServer.ts
+import { createClient, SupabaseClient } from "@supabase/supabase-js";
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
+
+/**
+ * Server-side client acting as the calling user.
+ * The browser keeps its session in localStorage (no auth cookies), so API routes
+ * expect the access token as "Authorization: Bearer <token>" and pass it through,
+ * which keeps RLS in effect.
+ */
+export function supabaseForRequest(req: Request) {
+  const authorization = req.headers.get("authorization") || "";
+  if (!/^Bearer\s+\S+/i.test(authorization)) return null;
+
+  return createClient(supabaseUrl, supabaseAnonKey, {
+    auth: { persistSession: false, autoRefreshToken: false, detectSessionInUrl: false },
+    global: { headers: { authorization } },
+  });
+}
+
+/**
+ * Server-side client with the service role key (bypasses RLS).
+ * Only for jobs without a calling user (e.g. the scheduled BFV sync); null when
+ * SUPABASE_SERVICE_ROLE_KEY is not configured.
+ */
+export function supabaseService() {
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!serviceKey) return null;
+
+  return createClient(supabaseUrl, serviceKey, {
+    auth: { persistSession: false, autoRefreshToken: false, detectSessionInUrl: false },
+  });
+}
+
+/**
+ * supabaseForRequest() plus an admin check for admin-only API routes.
+ * Returns the client and user id, or an error with the HTTP status to answer with.
+ */
+export async function adminForRequest(
+  req: Request
+): Promise<{ supabase: SupabaseClient; userId: string } | { error: string; status: number }> {
+  const supabase = supabaseForRequest(req);
+  if (!supabase) return { error: "Missing bearer token", status: 401 };
+
+  const { data: userRes, error: userErr } = await supabase.auth.getUser();
+  if (userErr || !userRes.user) return { error: "Invalid session", status: 401 };
+
+  const { data: profile } = await supabase.from("profiles").select("role").eq("id", userRes.user.id).maybeSingle();
+  if ((profile?.role || "TRAINER").toUpperCase() !== "ADMIN") return { error: "Admins only", status: 403 };
+
+  return { supabase, userId: userRes.user.id };
+}
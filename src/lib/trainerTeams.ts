@@ -0,0 +1,48 @@
+// src/lib/trainerTeams.ts
+// Trainer ↔ team assignments (table trainer_teams). Trainers may only request and change
+// bookings for their own teams (enforced by RLS on insert and update); admins may book for every team.
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+export type TrainerTeam = { user_id: string; team_id: string };
+
+/** Team ids assigned to a user. Throws the Supabase error on failure. */
+export async function loadTrainerTeamIds(supabase: SupabaseClient, userId: string): Promise<string[]> {
+  const { data, error } = await supabase.from("trainer_teams").select("team_id").eq("user_id", userId);
+  if (error) throw error;
+  return ((data ?? []) as Pick<TrainerTeam, "team_id">[]).map((r) => r.team_id);
+}
+
+/**
+ * Assignment suggestions for the admin review on /trainers: who created bookings for which
+ * team (e.g. in the last year) without being assigned to it yet. Most bookings first.
+ */
+export function suggestTrainerTeams(
+  bookings: { created_by: string | null; team_id: string | null }[],
+  assignments: TrainerTeam[]
+): (TrainerTeam & { bookings: number })[] {
+  const assigned = new Set(assignments.map((a) => `${a.user_id}|${a.team_id}`));
+  const counts = new Map<string, TrainerTeam & { bookings: number }>();
+  for (const b of bookings) {
+    if (!b.created_by || !b.team_id) continue;
+    const key = `${b.created_by}|${b.team_id}`;
+    if (assigned.has(key)) continue;
+    const entry = counts.get(key) ?? { user_id: b.created_by, team_id: b.team_id, bookings: 0 };
+    entry.bookings += 1;
+    counts.set(key, entry);
+  }
+  return [...counts.values()].sort((a, b) => b.bookings - a.bookings);
+}
+
+/** Teams the user may request for: all for admins, else the assigned ones (order kept). */
+export function bookableTeams<T extends { id: string }>(teams: T[], teamIds: string[], isAdmin: boolean) {
+  if (isAdmin) return teams;
+  const own = new Set(teamIds);
+  return teams.filter((t) => own.has(t.id));
+}
+
+/** Insert rejected by the trainer_teams policies (request for a team the user does not train). */
+export function isTeamPermissionError(message: string | null | undefined) {
+  return /row-level security/i.test(String(message || ""));
+}
+
+export const TEAM_PERMISSION_TEXT = "Du darfst nur für deine eigenen Mannschaften Anträge stellen.";
@@ -0,0 +1,80 @@
+// src/lib/venues.ts
+// Club venues (table venues, see migration 20261019101000_venues.sql). A BFV game is a home
+// game when its ICS LOCATION matches an active venue; league games are only planned on the
+// pitches of that venue (pitches.venue_id).
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { normalizeForMatch } from "@/lib/bfvGame";
+
+export type Venue = {
+  id: string;
+  name: string;
+  address: string | null;
+  aliases: string[];
+  is_default: boolean;
+  active: boolean;
+};
+
+export const VENUE_COLUMNS = "id,name,address,aliases,is_default,active";
+
+/** Active venues, default venue first. Throws the Supabase error on failure. */
+export async function loadVenues(supabase: SupabaseClient): Promise<Venue[]> {
+  const { data, error } = await supabase
+    .from("venues")
+    .select(VENUE_COLUMNS)
+    .eq("active", true)
+    .order("is_default", { ascending: false })
+    .order("name");
+  if (error) throw error;
+  return ((data ?? []) as Venue[]).map((v) => ({ ...v, aliases: v.aliases ?? [] }));
+}
+
+// kürzere Schlüssel ("str", "65") würden fast jede Adresse treffen
+const MIN_KEY_LENGTH = 5;
+
+/** Normalized strings a LOCATION is matched against: name, aliases and the street of the address. */
+export function venueMatchKeys(venue: Pick<Venue, "name" | "address" | "aliases">) {
+  const street = (venue.address || "").split(",")[0];
+  return [venue.name, street, ...(venue.aliases ?? [])]
+    .map(normalizeForMatch)
+    .filter((k) => k.length >= MIN_KEY_LENGTH);
+}
+
+/** Venue of an ICS LOCATION (longest matching key wins), null for away games / unknown places. */
+export function matchVenue<V extends Venue>(location: string | null | undefined, venues: V[]): V | null {
+  const loc = normalizeForMatch(location ?? "");
+  if (!loc) return null;
+
+  let best: V | null = null;
+  let bestLength = 0;
+  for (const v of venues) {
+    if (!v.active) continue;
+    for (const key of venueMatchKeys(v)) {
+      if (key.length > bestLength && loc.includes(key)) {
+        best = v;
+        bestLength = key.length;
+      }
+    }
+  }
+  return best;
+}
+
+/** "Heimspiel" im Sinne der App: das Spiel findet auf einer unserer Anlagen statt. */
+export function isHomeLocation(location: string | null | undefined, venues: Venue[]) {
+  return matchVenue(location, venues) !== null;
+}
+
+/** Venue used for home games without LOCATION (BFV festivals): is_default, else the first one. */
+export function defaultVenue(venues: Venue[]) {
+  const active = venues.filter((v) => v.active);
+  return active.find((v) => v.is_default) ?? active[0] ?? null;
+}
+
+/** "BSA Feldbergstraße, Feldbergstr. 65, 81825 München" */
+export function venueLabel(venue: Pick<Venue, "name" | "address">) {
+  return [venue.name, venue.address].filter((s) => !!s?.trim()).join(", ");
+}
+
+/** Pitches of a venue; none when the game is not at one of our venues. */
+export function pitchesAtVenue<P extends { venue_id?: string | null }>(pitches: P[], venue: Pick<Venue, "id"> | null) {
+  return venue ? pitches.filter((p) => p.venue_id === venue.id) : [];
+}
@@ -0,0 +1,29 @@
+-- Capacity units per pitch and units consumed per team.
+-- A pitch is split into capacity_units (Großfeld = 4 quarters, Kompaktfeld = 2 halves);
+-- a team occupies pitch_units of them. NULL pitch_units = default by age
+-- (U13+ the whole pitch, <=U12 half of it), see src/lib/bookingRules.ts.
+
+alter table public.pitches
+  add column if not exists capacity_units integer;
+
+update public.pitches
+set capacity_units = case type when 'GROSSFELD' then 4 when 'KOMPAKT' then 2 else 1 end
+where capacity_units is null;
+
+alter table public.pitches
+  alter column capacity_units set not null,
+  alter column capacity_units set default 4;
+
+alter table public.pitches
+  drop constraint if exists pitches_capacity_units_positive,
+  add constraint pitches_capacity_units_positive check (capacity_units > 0);
+
+alter table public.teams
+  add column if not exists pitch_units integer;
+
+alter table public.teams
+  drop constraint if exists teams_pitch_units_positive,
+  add constraint teams_pitch_units_positive check (pitch_units is null or pitch_units > 0);
+
+comment on column public.pitches.capacity_units is 'Number of units the pitch can be split into (Großfeld 4 quarters, Kompakt 2 halves).';
+comment on column public.teams.pitch_units is 'Units the team occupies per booking; NULL = default by age (U13+ whole pitch, <=U12 half).';
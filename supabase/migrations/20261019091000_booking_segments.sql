@@ -0,0 +1,14 @@
+-- Bookings can target a named part of a pitch:
+--   A / B   = halves, Q1..Q4 = quarters (Q1+Q2 = A, Q3+Q4 = B)
+-- NULL = no fixed part (the team's units are taken from whatever is free).
+-- Which segments exist depends on pitches.capacity_units, see src/lib/bookingRules.ts.
+
+alter table public.bookings
+  add column if not exists segment text;
+
+alter table public.bookings
+  drop constraint if exists bookings_segment_valid,
+  add constraint bookings_segment_valid
+    check (segment is null or segment in ('A', 'B', 'Q1', 'Q2', 'Q3', 'Q4'));
+
+comment on column public.bookings.segment is 'Booked part of the pitch (A/B halves, Q1-Q4 quarters); NULL = no fixed part.';
@@ -0,0 +1,122 @@
+-- Recurring training series.
+-- A series ("Di/Do 17:00–18:30, Sept–Juni, ohne Schulferien") is stored once in
+-- booking_series; each concrete date is a normal row in bookings with series_id /
+-- series_date set, so calendar, overlap constraint and rules keep working per date.
+-- Per-date changes (cancel / move one training) are recorded in
+-- booking_series_exceptions, keyed by the original date of the occurrence.
+-- Expansion logic: src/lib/recurrence.ts.
+
+create or replace function public.is_admin()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.profiles p
+    where p.id = auth.uid() and upper(coalesce(p.role, '')) = 'ADMIN'
+  );
+$$;
+
+create table if not exists public.booking_series (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  created_by uuid not null default auth.uid() references auth.users (id),
+  team_id uuid not null references public.teams (id) on delete cascade,
+  pitch_id uuid not null references public.pitches (id) on delete cascade,
+  segment text,
+  weekdays smallint[] not null,
+  start_time time not null,
+  end_time time not null,
+  valid_from date not null,
+  valid_to date not null,
+  skip_school_holidays boolean not null default true,
+  note text,
+  constraint booking_series_segment_valid
+    check (segment is null or segment in ('A', 'B', 'Q1', 'Q2', 'Q3', 'Q4')),
+  constraint booking_series_weekdays_valid
+    check (cardinality(weekdays) > 0 and weekdays <@ array[1, 2, 3, 4, 5, 6, 7]::smallint[]),
+  constraint booking_series_time_valid check (end_time > start_time),
+  constraint booking_series_range_valid check (valid_to >= valid_from)
+);
+
+create table if not exists public.booking_series_exceptions (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  created_by uuid default auth.uid() references auth.users (id),
+  series_id uuid not null references public.booking_series (id) on delete cascade,
+  occurrence_date date not null,
+  action text not null,
+  new_start_at timestamptz,
+  new_end_at timestamptz,
+  constraint booking_series_exceptions_action_valid check (action in ('CANCEL', 'MOVE')),
+  constraint booking_series_exceptions_move_valid
+    check (action <> 'MOVE' or (new_start_at is not null and new_end_at > new_start_at)),
+  constraint booking_series_exceptions_unique unique (series_id, occurrence_date)
+);
+
+create table if not exists public.school_holidays (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  start_date date not null,
+  end_date date not null,
+  constraint school_holidays_range_valid check (end_date >= start_date)
+);
+
+alter table public.bookings
+  add column if not exists series_id uuid references public.booking_series (id) on delete set null,
+  add column if not exists series_date date;
+
+create index if not exists bookings_series_id_idx on public.bookings (series_id);
+
+comment on table public.booking_series is 'Weekly recurring booking (training series); occurrences live in bookings.series_id.';
+comment on column public.booking_series.weekdays is 'ISO weekdays, 1 = Monday … 7 = Sunday.';
+comment on table public.booking_series_exceptions is 'Per-date exception of a series: CANCEL or MOVE (new_start_at/new_end_at).';
+comment on table public.school_holidays is 'School holidays, skipped by series with skip_school_holidays = true. Maintained by admins.';
+comment on column public.bookings.series_date is 'Original date of the occurrence within its series (key for exceptions).';
+
+-- RLS: everyone logged in may read; trainers manage their own series, admins all.
+alter table public.booking_series enable row level security;
+alter table public.booking_series_exceptions enable row level security;
+alter table public.school_holidays enable row level security;
+
+drop policy if exists booking_series_select on public.booking_series;
+create policy booking_series_select on public.booking_series
+  for select to authenticated using (true);
+
+drop policy if exists booking_series_insert on public.booking_series;
+create policy booking_series_insert on public.booking_series
+  for insert to authenticated with check (created_by = auth.uid());
+
+drop policy if exists booking_series_modify on public.booking_series;
+create policy booking_series_modify on public.booking_series
+  for update to authenticated using (created_by = auth.uid() or public.is_admin());
+
+drop policy if exists booking_series_delete on public.booking_series;
+create policy booking_series_delete on public.booking_series
+  for delete to authenticated using (created_by = auth.uid() or public.is_admin());
+
+drop policy if exists booking_series_exceptions_select on public.booking_series_exceptions;
+create policy booking_series_exceptions_select on public.booking_series_exceptions
+  for select to authenticated using (true);
+
+drop policy if exists booking_series_exceptions_write on public.booking_series_exceptions;
+create policy booking_series_exceptions_write on public.booking_series_exceptions
+  for all to authenticated
+  using (
+    public.is_admin()
+    or exists (select 1 from public.booking_series s where s.id = series_id and s.created_by = auth.uid())
+  )
+  with check (
+    public.is_admin()
+    or exists (select 1 from public.booking_series s where s.id = series_id and s.created_by = auth.uid())
+  );
+
+drop policy if exists school_holidays_select on public.school_holidays;
+create policy school_holidays_select on public.school_holidays
+  for select to authenticated using (true);
+
+drop policy if exists school_holidays_admin on public.school_holidays;
+create policy school_holidays_admin on public.school_holidays
+  for all to authenticated using (public.is_admin()) with check (public.is_admin());
@@ -0,0 +1,58 @@
+-- Seasons with a weekly training template.
+-- season_template_slots is the grid team × weekday × pitch × time; generating a season
+-- turns every slot into a booking_series (series_id set once generated).
+-- Rollover to the next season (ages +1, pitch re-check, diff preview): src/lib/seasonRollover.ts.
+
+create table if not exists public.seasons (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  name text not null,
+  valid_from date not null,
+  valid_to date not null,
+  skip_school_holidays boolean not null default true,
+  previous_season_id uuid references public.seasons (id) on delete set null,
+  constraint seasons_range_valid check (valid_to >= valid_from),
+  constraint seasons_name_unique unique (name)
+);
+
+create table if not exists public.season_template_slots (
+  id uuid primary key default gen_random_uuid(),
+  season_id uuid not null references public.seasons (id) on delete cascade,
+  team_id uuid not null references public.teams (id) on delete cascade,
+  pitch_id uuid not null references public.pitches (id) on delete cascade,
+  segment text,
+  weekday smallint not null,
+  start_time time not null,
+  end_time time not null,
+  series_id uuid references public.booking_series (id) on delete set null,
+  constraint season_template_slots_segment_valid
+    check (segment is null or segment in ('A', 'B', 'Q1', 'Q2', 'Q3', 'Q4')),
+  constraint season_template_slots_weekday_valid check (weekday between 1 and 7),
+  constraint season_template_slots_time_valid check (end_time > start_time)
+);
+
+create index if not exists season_template_slots_season_idx on public.season_template_slots (season_id);
+
+comment on table public.seasons is 'Season (date range) with a weekly training template.';
+comment on table public.season_template_slots is 'Weekly template slot of a season; series_id = generated booking_series.';
+comment on column public.season_template_slots.weekday is 'ISO weekday, 1 = Monday … 7 = Sunday.';
+
+-- RLS: everyone logged in may read, only admins plan seasons.
+alter table public.seasons enable row level security;
+alter table public.season_template_slots enable row level security;
+
+drop policy if exists seasons_select on public.seasons;
+create policy seasons_select on public.seasons
+  for select to authenticated using (true);
+
+drop policy if exists seasons_admin on public.seasons;
+create policy seasons_admin on public.seasons
+  for all to authenticated using (public.is_admin()) with check (public.is_admin());
+
+drop policy if exists season_template_slots_select on public.season_template_slots;
+create policy season_template_slots_select on public.season_template_slots
+  for select to authenticated using (true);
+
+drop policy if exists season_template_slots_admin on public.season_template_slots;
+create policy season_template_slots_admin on public.season_template_slots
+  for all to authenticated using (public.is_admin()) with check (public.is_admin());
@@ -0,0 +1,95 @@
+-- Waitlist for taken slots.
+-- A WAITLISTED booking queues behind the booking that blocks it (waitlist_for).
+-- When that booking stops blocking (CANCELLED / REJECTED / deleted), the first entry of
+-- its queue is promoted to REQUESTED and the rest of the queue moves behind it.
+-- WAITLISTED does not block a pitch: like REJECTED/CANCELLED it is not part of
+-- bookings_no_overlap, which is redefined below with an explicit status predicate.
+
+-- status is either an enum or text with a check constraint, depending on the project setup
+do $$
+begin
+  if exists (select 1 from pg_type where typname = 'booking_status') then
+    execute 'alter type public.booking_status add value if not exists ''WAITLISTED''';
+  elsif exists (select 1 from pg_constraint where conname = 'bookings_status_check') then
+    alter table public.bookings drop constraint bookings_status_check;
+    alter table public.bookings add constraint bookings_status_check
+      check (status in ('REQUESTED', 'APPROVED', 'REJECTED', 'CANCELLED', 'WAITLISTED'));
+  end if;
+end $$;
+
+-- Overlap constraint with explicit status predicate: only REQUESTED/APPROVED block, so a
+-- WAITLISTED entry for a taken slot can be inserted and never blocks another booking.
+-- Same pitch and same segment only; bookings without segment share a pitch by capacity
+-- units (checked by the booking rules, see booking_slot_violation()). Forced overlaps
+-- (force_overlap, set by admins in the BFV planner) are left out as before.
+create extension if not exists btree_gist;
+
+alter table public.bookings add column if not exists force_overlap boolean default false;
+
+alter table public.bookings drop constraint if exists bookings_no_overlap;
+alter table public.bookings add constraint bookings_no_overlap
+  exclude using gist (pitch_id with =, segment with =, tstzrange(start_at, end_at, '[)') with &&)
+  where (status in ('REQUESTED', 'APPROVED') and force_overlap is not true);
+
+alter table public.bookings
+  -- deferred: on delete the trigger below re-links the queue before the FK is checked
+  add column if not exists waitlist_for uuid references public.bookings (id) deferrable initially deferred,
+  add column if not exists waitlisted_at timestamptz;
+
+create index if not exists bookings_waitlist_for_idx on public.bookings (waitlist_for) where waitlist_for is not null;
+
+comment on column public.bookings.waitlist_for is 'WAITLISTED: booking this entry waits behind.';
+comment on column public.bookings.waitlisted_at is 'WAITLISTED: queue position (earliest first).';
+
+create or replace function public.promote_waitlist()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  blocker uuid := old.id;
+  next_id uuid;
+  candidate record;
+begin
+  -- nur wenn die blockierende Buchung wegfällt
+  if tg_op = 'UPDATE'
+     and (old.status::text not in ('REQUESTED', 'APPROVED') or new.status::text in ('REQUESTED', 'APPROVED')) then
+    return new;
+  end if;
+
+  if old.status::text in ('REQUESTED', 'APPROVED') then
+    for candidate in
+      select id from public.bookings
+      where waitlist_for = blocker and status::text = 'WAITLISTED'
+      order by waitlisted_at nulls last, created_at
+    loop
+      begin
+        update public.bookings
+        set status = 'REQUESTED', waitlist_for = null
+        where id = candidate.id;
+        next_id := candidate.id;
+        exit;
+      exception when exclusion_violation then
+        -- noch von einer anderen Buchung blockiert -> nächster in der Schlange
+        null;
+      end;
+    end loop;
+  end if;
+
+  -- Rest der Schlange wartet jetzt hinter dem Nachgerückten (Reihenfolge bleibt)
+  -- (ohne Nachrücker bei DELETE: Bezug lösen, sonst zeigt der FK ins Leere)
+  if next_id is not null or tg_op = 'DELETE' then
+    update public.bookings
+    set waitlist_for = next_id
+    where waitlist_for = blocker;
+  end if;
+
+  return case when tg_op = 'DELETE' then old else new end;
+end;
+$$;
+
+drop trigger if exists bookings_promote_waitlist on public.bookings;
+create trigger bookings_promote_waitlist
+  after update of status or delete on public.bookings
+  for each row execute function public.promote_waitlist();
@@ -0,0 +1,85 @@
+-- Change requests for existing bookings (move / shorten / other pitch).
+-- A trainer proposes new values; the booking keeps its current values until an admin
+-- approves the change. Each row keeps both versions (old_* and new_*), so the table is
+-- also the change history of a booking.
+
+create table if not exists public.booking_changes (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  created_by uuid not null default auth.uid() references auth.users (id),
+  booking_id uuid not null references public.bookings (id) on delete cascade,
+  status text not null default 'PENDING',
+  reason text,
+  old_pitch_id uuid not null references public.pitches (id),
+  old_segment text,
+  old_start_at timestamptz not null,
+  old_end_at timestamptz not null,
+  new_pitch_id uuid not null references public.pitches (id),
+  new_segment text,
+  new_start_at timestamptz not null,
+  new_end_at timestamptz not null,
+  decided_by uuid references auth.users (id),
+  decided_at timestamptz,
+  constraint booking_changes_status_valid check (status in ('PENDING', 'APPROVED', 'REJECTED', 'WITHDRAWN')),
+  constraint booking_changes_time_valid check (new_end_at > new_start_at),
+  constraint booking_changes_segment_valid
+    check (new_segment is null or new_segment in ('A', 'B', 'Q1', 'Q2', 'Q3', 'Q4'))
+);
+
+-- höchstens ein offener Änderungsantrag pro Buchung
+create unique index if not exists booking_changes_one_pending
+  on public.booking_changes (booking_id) where status = 'PENDING';
+
+comment on table public.booking_changes is 'Change requests for bookings; old_*/new_* keep both versions (history).';
+
+alter table public.booking_changes enable row level security;
+
+drop policy if exists booking_changes_select on public.booking_changes;
+create policy booking_changes_select on public.booking_changes
+  for select to authenticated using (true);
+
+drop policy if exists booking_changes_insert on public.booking_changes;
+create policy booking_changes_insert on public.booking_changes
+  for insert to authenticated with check (created_by = auth.uid() and status = 'PENDING');
+
+-- Trainer dürfen nur den eigenen offenen Antrag zurückziehen, Admins entscheiden
+drop policy if exists booking_changes_update on public.booking_changes;
+create policy booking_changes_update on public.booking_changes
+  for update to authenticated
+  using (public.is_admin() or (created_by = auth.uid() and status = 'PENDING'))
+  with check (public.is_admin() or (created_by = auth.uid() and status = 'WITHDRAWN'));
+
+-- Applies a pending change in one transaction: the booking gets the new values and the
+-- change is marked APPROVED. Admins only; the overlap constraint still applies.
+create or replace function public.approve_booking_change(change_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  c public.booking_changes%rowtype;
+begin
+  if not public.is_admin() then
+    raise exception 'Only admins can approve booking changes' using errcode = '42501';
+  end if;
+
+  select * into c from public.booking_changes where id = change_id for update;
+  if not found or c.status <> 'PENDING' then
+    raise exception 'Change request % is not pending', change_id;
+  end if;
+
+  update public.bookings
+  set pitch_id = c.new_pitch_id,
+      segment = c.new_segment,
+      start_at = c.new_start_at,
+      end_at = c.new_end_at
+  where id = c.booking_id;
+
+  update public.booking_changes
+  set status = 'APPROVED', decided_by = auth.uid(), decided_at = now()
+  where id = change_id;
+end;
+$$;
+
+grant execute on function public.approve_booking_change(uuid) to authenticated;
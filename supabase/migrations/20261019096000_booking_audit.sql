@@ -0,0 +1,165 @@
+-- Append-only audit log for bookings.
+-- Every insert/update/delete on public.bookings writes one row with the actor, the old
+-- and new row (jsonb) and an optional reason. The client passes the reason per request
+-- in the `x-audit-reason` header (URL-encoded, see src/lib/audit.ts); functions can set
+-- `audit.reason` via set_config(..., true) instead.
+-- booking_id has no foreign key on purpose: entries must survive the deletion of the booking.
+
+create table if not exists public.booking_audit (
+  id bigint generated always as identity primary key,
+  at timestamptz not null default now(),
+  booking_id uuid not null,
+  action text not null,
+  actor uuid,
+  actor_name text,
+  reason text,
+  old_row jsonb,
+  new_row jsonb,
+  constraint booking_audit_action_valid check (action in ('INSERT', 'UPDATE', 'DELETE'))
+);
+
+create index if not exists booking_audit_booking_idx on public.booking_audit (booking_id, at);
+create index if not exists booking_audit_at_idx on public.booking_audit (at desc);
+create index if not exists booking_audit_actor_idx on public.booking_audit (actor, at desc);
+
+comment on table public.booking_audit is 'Append-only history of bookings (written by trigger only).';
+
+alter table public.booking_audit enable row level security;
+
+-- lesen nur Admins (alte/neue Zeilen, Notizen, Gründe, wer was geändert hat); schreiben nur der Trigger
+drop policy if exists booking_audit_select on public.booking_audit;
+create policy booking_audit_select on public.booking_audit
+  for select to authenticated using (public.is_admin());
+
+revoke insert, update, delete, truncate on public.booking_audit from anon, authenticated;
+
+create or replace function public.booking_audit_immutable()
+returns trigger
+language plpgsql
+as $$
+begin
+  raise exception 'booking_audit is append-only' using errcode = '42501';
+end;
+$$;
+
+drop trigger if exists booking_audit_immutable on public.booking_audit;
+create trigger booking_audit_immutable
+  before update or delete on public.booking_audit
+  for each row execute function public.booking_audit_immutable();
+
+-- decodes the percent-encoded reason header (encodeURIComponent on the client)
+create or replace function public.audit_url_decode(s text)
+returns text
+language plpgsql
+immutable
+as $$
+declare
+  bytes bytea := '';
+  i int := 1;
+  c text;
+begin
+  if s is null then
+    return null;
+  end if;
+
+  while i <= length(s) loop
+    c := substr(s, i, 1);
+    if c = '%' and i + 2 <= length(s) then
+      bytes := bytes || decode(substr(s, i + 1, 2), 'hex');
+      i := i + 3;
+    else
+      bytes := bytes || convert_to(c, 'UTF8');
+      i := i + 1;
+    end if;
+  end loop;
+
+  return convert_from(bytes, 'UTF8');
+exception when others then
+  return s;
+end;
+$$;
+
+create or replace function public.audit_booking()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_actor uuid := auth.uid();
+  v_name text;
+  v_reason text;
+begin
+  v_reason := nullif(current_setting('audit.reason', true), '');
+  if v_reason is null then
+    v_reason := public.audit_url_decode(
+      nullif(current_setting('request.headers', true), '')::json ->> 'x-audit-reason'
+    );
+  end if;
+  -- Folgeänderungen aus anderen Triggern (z. B. Nachrücken von der Warteliste)
+  if pg_trigger_depth() > 1 then
+    v_reason := 'Automatisch' || coalesce(' (nach: ' || v_reason || ')', '');
+  end if;
+
+  if v_actor is not null then
+    select p.full_name into v_name from public.profiles p where p.id = v_actor;
+    v_name := coalesce(v_name, nullif(current_setting('request.jwt.claims', true), '')::json ->> 'email');
+  end if;
+
+  insert into public.booking_audit (booking_id, action, actor, actor_name, reason, old_row, new_row)
+  values (
+    coalesce(new.id, old.id),
+    tg_op,
+    v_actor,
+    v_name,
+    nullif(trim(v_reason), ''),
+    case when tg_op <> 'INSERT' then to_jsonb(old) end,
+    case when tg_op <> 'DELETE' then to_jsonb(new) end
+  );
+
+  return null;
+end;
+$$;
+
+drop trigger if exists bookings_audit on public.bookings;
+create trigger bookings_audit
+  after insert or update or delete on public.bookings
+  for each row execute function public.audit_booking();
+
+-- Änderungsanträge: Grund im Audit-Log auf den Antrag verweisen
+create or replace function public.approve_booking_change(change_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  c public.booking_changes%rowtype;
+begin
+  if not public.is_admin() then
+    raise exception 'Only admins can approve booking changes' using errcode = '42501';
+  end if;
+
+  select * into c from public.booking_changes where id = change_id for update;
+  if not found or c.status <> 'PENDING' then
+    raise exception 'Change request % is not pending', change_id;
+  end if;
+
+  perform set_config(
+    'audit.reason',
+    'Änderungsantrag übernommen' || coalesce(': ' || nullif(trim(c.reason), ''), ''),
+    true
+  );
+
+  update public.bookings
+  set pitch_id = c.new_pitch_id,
+      segment = c.new_segment,
+      start_at = c.new_start_at,
+      end_at = c.new_end_at
+  where id = c.booking_id;
+
+  update public.booking_changes
+  set status = 'APPROVED', decided_by = auth.uid(), decided_at = now()
+  where id = change_id;
+end;
+$$;
@@ -0,0 +1,17 @@
+-- Decision reasons for rejected / cancelled bookings.
+-- decision_code is one of the codes in src/lib/decisionReasons.ts, decision_comment is
+-- free text for the trainer. Both are shown to the trainer (calendar tooltip, booking view).
+
+alter table public.bookings
+  add column if not exists decision_code text,
+  add column if not exists decision_comment text,
+  add column if not exists decided_by uuid references auth.users (id),
+  add column if not exists decided_at timestamptz;
+
+comment on column public.bookings.decision_code is 'Reason code of the last REJECTED/CANCELLED decision.';
+comment on column public.bookings.decision_comment is 'Comment for the trainer on the last decision.';
+
+-- Ablehnen/Absagen nur mit Grund; Altbestand bleibt gültig (not valid)
+alter table public.bookings drop constraint if exists bookings_decision_reason_required;
+alter table public.bookings add constraint bookings_decision_reason_required
+  check (status::text not in ('REJECTED', 'CANCELLED') or decision_code is not null) not valid;
@@ -0,0 +1,81 @@
+-- Structured metadata for imported league games (see src/lib/bfvGame.ts).
+-- Until now the BFV planner wrote [BFV_TEAM_ID:…], [BFV_UID:…] and [FORCE_OVERLAP:true]
+-- into bookings.note. These become real columns; existing notes are parsed once below
+-- and the tags are removed from the note text.
+
+alter table public.bookings
+  add column if not exists source text not null default 'MANUAL',
+  add column if not exists external_uid text,
+  add column if not exists bfv_team_id uuid references public.bfv_teams (id) on delete set null,
+  add column if not exists force_overlap boolean,
+  add column if not exists opponent text,
+  add column if not exists competition text;
+
+-- force_overlap gab es in manchen Installationen schon (optional, nullable; seit der Warteliste für bookings_no_overlap)
+update public.bookings set force_overlap = false where force_overlap is null;
+alter table public.bookings alter column force_overlap set default false;
+alter table public.bookings alter column force_overlap set not null;
+
+alter table public.bookings drop constraint if exists bookings_source_valid;
+alter table public.bookings add constraint bookings_source_valid check (source in ('MANUAL', 'BFV'));
+
+comment on column public.bookings.source is 'Where the booking comes from: MANUAL (request form, series) or BFV (league game).';
+comment on column public.bookings.external_uid is 'UID of the game in the source system (ICS UID for BFV).';
+comment on column public.bookings.bfv_team_id is 'BFV team whose schedule the game was imported from.';
+comment on column public.bookings.force_overlap is 'Booked on purpose although the pitch was not free.';
+
+-- Einmalige Übernahme aus note
+with parsed as (
+  select
+    b.id,
+    substring(b.note from '\[BFV_UID:([^\]]+)\]') as uid,
+    substring(b.note from '\[BFV_TEAM_ID:([^\]]+)\]') as bfv_team,
+    b.note ~* '\[FORCE_OVERLAP:true\]' as forced,
+    -- Zeile 1: "[BFV] Verein – Mannschaft", Zeile 2: ICS-Summary "Heim - Gast, Wettbewerb"
+    nullif(trim(substring(split_part(b.note, E'\n', 1) from '^\[BFV\]\s*(.*?)\s+–\s+')), '') as club,
+    nullif(trim(replace(split_part(b.note, E'\n', 2), '\,', ',')), '') as summary
+  from public.bookings b
+  where b.note ~* '\[BFV_UID:'
+),
+sides as (
+  select
+    p.*,
+    nullif(trim(substring(p.summary from position(',' in p.summary) + 1)), '') as competition,
+    trim(split_part(split_part(p.summary, ',', 1), ' - ', 1)) as home,
+    trim(split_part(split_part(p.summary, ',', 1), ' - ', 2)) as away
+  from parsed p
+)
+update public.bookings b
+set source = 'BFV',
+    external_uid = s.uid,
+    bfv_team_id = (select t.id from public.bfv_teams t where t.id::text = s.bfv_team),
+    force_overlap = b.force_overlap or s.forced,
+    competition = case when position(',' in coalesce(s.summary, '')) > 0 then s.competition end,
+    opponent = case
+      when s.club is null or s.away = '' then null
+      when position(lower(s.club) in lower(s.home)) > 0 or position(lower(s.home) in lower(s.club)) > 0 then s.away
+      when position(lower(s.club) in lower(s.away)) > 0 or position(lower(s.away) in lower(s.club)) > 0 then s.home
+    end,
+    note = nullif(coalesce(s.summary, ''), '')
+from sides s
+where b.id = s.id;
+
+create index if not exists bookings_external_uid_idx on public.bookings (source, external_uid)
+  where external_uid is not null;
+
+-- Dedupe: ein aktives Booking je externem Spiel. Bestehende Dubletten zuerst bereinigen,
+-- sonst wird der Index übersprungen (Hinweis im Migrations-Log).
+do $$
+begin
+  if exists (
+    select 1 from public.bookings
+    where external_uid is not null and status::text in ('REQUESTED', 'APPROVED')
+    group by source, external_uid
+    having count(*) > 1
+  ) then
+    raise notice 'bookings: duplicate active external_uid found, unique index bookings_external_uid_active not created';
+  else
+    create unique index if not exists bookings_external_uid_active on public.bookings (source, external_uid)
+      where external_uid is not null and status::text in ('REQUESTED', 'APPROVED');
+  end if;
+end $$;
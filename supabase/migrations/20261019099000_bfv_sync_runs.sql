@@ -0,0 +1,30 @@
+-- Scheduled BFV sync (/api/bfv/sync): one row per run with counters and the full report.
+-- The sync itself runs with the service role key; admins read the reports in /bfv.
+
+create table if not exists public.bfv_sync_runs (
+  id uuid primary key default gen_random_uuid(),
+  started_at timestamptz not null default now(),
+  finished_at timestamptz,
+  trigger text not null default 'CRON',
+  triggered_by uuid references auth.users (id),
+  status text not null default 'OK',
+  created_count int not null default 0,
+  moved_count int not null default 0,
+  cancelled_count int not null default 0,
+  conflict_count int not null default 0,
+  error_count int not null default 0,
+  report jsonb not null default '[]'::jsonb,
+  constraint bfv_sync_runs_trigger_valid check (trigger in ('CRON', 'MANUAL')),
+  constraint bfv_sync_runs_status_valid check (status in ('OK', 'PARTIAL', 'FAILED'))
+);
+
+create index if not exists bfv_sync_runs_started_idx on public.bfv_sync_runs (started_at desc);
+
+comment on table public.bfv_sync_runs is 'Reports of the automatic BFV sync (created/moved/cancelled league bookings).';
+
+alter table public.bfv_sync_runs enable row level security;
+
+-- nur Admins lesen; geschrieben wird ausschließlich mit dem Service-Role-Key
+drop policy if exists bfv_sync_runs_select on public.bfv_sync_runs;
+create policy bfv_sync_runs_select on public.bfv_sync_runs
+  for select to authenticated using (public.is_admin());
@@ -0,0 +1,17 @@
+-- Shared cache for the BFV ICS proxy (src/lib/icsCache.ts): last response per source URL
+-- with its validators (ETag / Last-Modified) for conditional requests against BFV.
+-- Only the server touches it (service role key); without the key the proxy caches in memory.
+
+create table if not exists public.bfv_ics_cache (
+  url text primary key,
+  body text not null,
+  etag text,
+  last_modified text,
+  fetched_at timestamptz not null default now(), -- letzter Download (200)
+  checked_at timestamptz not null default now()  -- letzte Prüfung bei BFV (200 oder 304)
+);
+
+comment on table public.bfv_ics_cache is 'Cached BFV ICS responses (proxy /api/bfv/ics, sync), written with the service role only.';
+
+alter table public.bfv_ics_cache enable row level security;
+-- keine Policies: anon/authenticated haben keinen Zugriff
@@ -0,0 +1,49 @@
+-- Club venues (Sportanlagen). A BFV game counts as home game when its ICS LOCATION matches
+-- a venue (address or alias, see src/lib/venues.ts); pitches belong to one venue.
+-- Replaces the hard-coded "Feldbergstraße" check in the BFV planner, sync and proxy.
+
+create table if not exists public.venues (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  name text not null,
+  address text,
+  aliases text[] not null default '{}',
+  -- Ort für Heim-Kinderfestivals ohne LOCATION im BFV-ICS
+  is_default boolean not null default false,
+  active boolean not null default true,
+  constraint venues_name_unique unique (name)
+);
+
+create unique index if not exists venues_one_default on public.venues (is_default) where is_default;
+
+alter table public.pitches
+  add column if not exists venue_id uuid references public.venues (id) on delete set null;
+
+comment on table public.venues is 'Club venues; BFV games at one of them are home games.';
+comment on column public.venues.aliases is 'Extra spellings matched against the ICS LOCATION (e.g. "Feldbergstr").';
+comment on column public.pitches.venue_id is 'Venue the pitch belongs to (null = not assigned).';
+
+-- bisherige Anlage übernehmen, alle Plätze zuordnen
+insert into public.venues (name, address, aliases, is_default)
+values ('BSA Feldbergstraße', 'Feldbergstr. 65, 81825 München', array['Feldbergstr', 'Feldbergstraße'], true)
+on conflict (name) do nothing;
+
+update public.pitches
+set venue_id = (select id from public.venues where name = 'BSA Feldbergstraße')
+where venue_id is null;
+
+-- RLS: alle Angemeldeten lesen, Admins pflegen
+alter table public.venues enable row level security;
+
+drop policy if exists venues_select on public.venues;
+create policy venues_select on public.venues
+  for select to authenticated using (true);
+
+drop policy if exists venues_admin on public.venues;
+create policy venues_admin on public.venues
+  for all to authenticated using (public.is_admin()) with check (public.is_admin());
+
+-- Admins ordnen Plätze einer Anlage zu
+drop policy if exists pitches_admin_update on public.pitches;
+create policy pitches_admin_update on public.pitches
+  for update to authenticated using (public.is_admin()) with check (public.is_admin());
@@ -0,0 +1,21 @@
+-- Subscribable ICS feeds (/api/feeds/team/<id>.ics, /api/feeds/pitch/<id>.ics, /api/feeds/me.ics).
+-- Calendar apps cannot log in, so every feed URL carries the personal token of a user (?token=...).
+-- One token per user; a new token (/feeds) invalidates all links handed out before.
+-- The feed routes read with the service role key, see src/lib/calendarFeeds.ts.
+
+create table if not exists public.calendar_feed_tokens (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  token text not null default replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+  created_at timestamptz not null default now(),
+  last_used_at timestamptz,
+  constraint calendar_feed_tokens_token_unique unique (token)
+);
+
+comment on table public.calendar_feed_tokens is 'Personal token for the ICS feed URLs (calendar subscriptions).';
+
+alter table public.calendar_feed_tokens enable row level security;
+
+-- jeder sieht und erneuert nur den eigenen Token
+drop policy if exists calendar_feed_tokens_own on public.calendar_feed_tokens;
+create policy calendar_feed_tokens_own on public.calendar_feed_tokens
+  for all to authenticated using (user_id = auth.uid()) with check (user_id = auth.uid());
@@ -0,0 +1,60 @@
+-- External ICS calendars (city pitch closures, school hall plan, …) imported as pitch closures.
+-- Each source lists the hosts its URL may point to; events are mapped to pitches by keyword rules
+-- (pitch_rules) or go to all default pitches (pitch_ids). Synced by /api/closures/sync (cron + admin),
+-- see src/lib/externalIcs.ts. Closures block the pitch for the booking rules (src/lib/bookingRules.ts).
+
+create table if not exists public.external_ics_sources (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  name text not null,
+  url text not null,
+  allowed_hosts text[] not null default '{}',
+  -- nur Termine, deren SUMMARY/DESCRIPTION das enthält (leer = alle)
+  summary_filter text,
+  pitch_ids uuid[] not null default '{}',
+  -- [{ "pattern": "Platz 2", "pitch_id": "<uuid>" }] – Treffer in SUMMARY/LOCATION
+  pitch_rules jsonb not null default '[]'::jsonb,
+  active boolean not null default true,
+  last_synced_at timestamptz,
+  last_status text,
+  last_error text,
+  last_count int,
+  constraint external_ics_sources_status_valid check (last_status is null or last_status in ('OK', 'FAILED'))
+);
+
+create table if not exists public.pitch_closures (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  pitch_id uuid not null references public.pitches (id) on delete cascade,
+  start_at timestamptz not null,
+  end_at timestamptz not null,
+  reason text,
+  source_id uuid references public.external_ics_sources (id) on delete cascade,
+  external_uid text,
+  constraint pitch_closures_time_valid check (end_at > start_at),
+  constraint pitch_closures_source_uid check ((source_id is null) = (external_uid is null))
+);
+
+create unique index if not exists pitch_closures_source_event
+  on public.pitch_closures (source_id, external_uid, pitch_id) where source_id is not null;
+create index if not exists pitch_closures_pitch_time_idx on public.pitch_closures (pitch_id, start_at, end_at);
+
+comment on table public.external_ics_sources is 'External ICS calendar imported as pitch closures.';
+comment on column public.external_ics_sources.allowed_hosts is 'Hosts the URL may use (subdomains included).';
+comment on table public.pitch_closures is 'Time range in which a pitch cannot be booked (imported or entered by admins).';
+
+-- RLS: alle Angemeldeten lesen Sperrungen (Platzregeln im Browser), Admins pflegen
+alter table public.external_ics_sources enable row level security;
+alter table public.pitch_closures enable row level security;
+
+drop policy if exists external_ics_sources_admin on public.external_ics_sources;
+create policy external_ics_sources_admin on public.external_ics_sources
+  for all to authenticated using (public.is_admin()) with check (public.is_admin());
+
+drop policy if exists pitch_closures_select on public.pitch_closures;
+create policy pitch_closures_select on public.pitch_closures
+  for select to authenticated using (true);
+
+drop policy if exists pitch_closures_admin on public.pitch_closures;
+create policy pitch_closures_admin on public.pitch_closures
+  for all to authenticated using (public.is_admin()) with check (public.is_admin());
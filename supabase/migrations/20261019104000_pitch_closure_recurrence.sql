@@ -0,0 +1,52 @@
+-- Manual pitch closures (weather, maintenance, winter break) on top of the imported ones,
+-- optionally repeating every year (e.g. winter break 15.12.–28.02.), plus in-app notifications
+-- for trainers whose bookings were cancelled by "Platz sofort sperren" (src/lib/closures.ts).
+
+alter table public.pitch_closures
+  add column if not exists repeat_yearly boolean not null default false,
+  -- last day (club time) on which a yearly closure still starts; null = open-ended
+  add column if not exists repeat_until date,
+  add column if not exists created_by uuid references auth.users (id) on delete set null;
+
+alter table public.pitch_closures drop constraint if exists pitch_closures_repeat_manual;
+alter table public.pitch_closures add constraint pitch_closures_repeat_manual
+  check (not repeat_yearly or source_id is null);
+
+-- jährliche Sperrungen liegen mit ihrem ersten Jahr in der Tabelle und werden beim Laden aufgefächert
+alter table public.pitch_closures drop constraint if exists pitch_closures_repeat_length;
+alter table public.pitch_closures add constraint pitch_closures_repeat_length
+  check (not repeat_yearly or end_at - start_at < interval '365 days');
+
+create index if not exists pitch_closures_repeat_idx on public.pitch_closures (pitch_id) where repeat_yearly;
+
+comment on column public.pitch_closures.repeat_yearly is 'Closure repeats every year on the same dates (manual closures only).';
+
+create table if not exists public.notifications (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  title text not null,
+  body text,
+  booking_id uuid references public.bookings (id) on delete set null,
+  read_at timestamptz
+);
+
+create index if not exists notifications_user_unread_idx on public.notifications (user_id, created_at desc)
+  where read_at is null;
+
+comment on table public.notifications is 'In-app messages for users (e.g. booking cancelled because the pitch was closed).';
+
+-- RLS: jeder sieht und quittiert nur seine eigenen, Admins schreiben sie
+alter table public.notifications enable row level security;
+
+drop policy if exists notifications_select_own on public.notifications;
+create policy notifications_select_own on public.notifications
+  for select to authenticated using (user_id = auth.uid() or public.is_admin());
+
+drop policy if exists notifications_update_own on public.notifications;
+create policy notifications_update_own on public.notifications
+  for update to authenticated using (user_id = auth.uid()) with check (user_id = auth.uid());
+
+drop policy if exists notifications_admin_insert on public.notifications;
+create policy notifications_admin_insert on public.notifications
+  for insert to authenticated with check (public.is_admin());
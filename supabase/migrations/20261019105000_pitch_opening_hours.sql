@@ -0,0 +1,30 @@
+-- Opening hours per pitch and weekday (floodlight pitch until 22:00, grass pitch shorter,
+-- no training on Sunday mornings). A pitch without rows is open around the clock; once it has
+-- rows, weekdays without a row are closed. Checked by the booking rules (src/lib/openingHours.ts)
+-- for requests; BFV league games keep their fixed times. Also sizes the calendar's time grid.
+
+create table if not exists public.pitch_opening_hours (
+  id uuid primary key default gen_random_uuid(),
+  pitch_id uuid not null references public.pitches (id) on delete cascade,
+  weekday smallint not null,
+  opens time not null,
+  -- 00:00 = Mitternacht (Tagesende)
+  closes time not null,
+  constraint pitch_opening_hours_weekday_valid check (weekday between 1 and 7),
+  constraint pitch_opening_hours_time_valid check (closes > opens or closes = '00:00')
+);
+
+create index if not exists pitch_opening_hours_pitch_idx on public.pitch_opening_hours (pitch_id, weekday);
+
+comment on table public.pitch_opening_hours is 'Bookable time windows per pitch and ISO weekday (1 = Monday).';
+
+-- RLS: alle Angemeldeten lesen (Antragsformular, Kalender), Admins pflegen
+alter table public.pitch_opening_hours enable row level security;
+
+drop policy if exists pitch_opening_hours_select on public.pitch_opening_hours;
+create policy pitch_opening_hours_select on public.pitch_opening_hours
+  for select to authenticated using (true);
+
+drop policy if exists pitch_opening_hours_admin on public.pitch_opening_hours;
+create policy pitch_opening_hours_admin on public.pitch_opening_hours
+  for all to authenticated using (public.is_admin()) with check (public.is_admin());
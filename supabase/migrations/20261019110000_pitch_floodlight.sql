@@ -0,0 +1,9 @@
+-- Floodlight per pitch. Pitches without floodlight (our grass pitches) can only be used until
+-- civil dusk, which the app computes offline for the club's location (src/lib/solar.ts).
+-- Requests ending later are rejected by the booking rules; BFV league games keep their times.
+-- Existing pitches count as lit until an admin unticks them on the venues page.
+
+alter table public.pitches
+  add column if not exists has_floodlight boolean not null default true;
+
+comment on column public.pitches.has_floodlight is 'false = no floodlight, bookable only until civil dusk.';
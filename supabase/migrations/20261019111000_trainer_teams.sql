@@ -0,0 +1,66 @@
+-- Trainer ↔ team assignments. Trainers may only request pitch time (single bookings and
+-- series) for their own teams and only change bookings of those teams; admins keep full
+-- access. Enforced by restrictive insert and update policies, so the existing permissive
+-- policies on bookings still apply on top.
+-- Maintained by admins on /trainers (nothing is assigned automatically: the page suggests
+-- who booked for which team in the last year, an admin takes each one over explicitly);
+-- the request form and the calendar's "Meine Teams" filter read it via src/lib/trainerTeams.ts.
+
+create table if not exists public.trainer_teams (
+  user_id uuid not null references auth.users (id) on delete cascade,
+  team_id uuid not null references public.teams (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  primary key (user_id, team_id)
+);
+
+create index if not exists trainer_teams_team_idx on public.trainer_teams (team_id);
+
+comment on table public.trainer_teams is 'Teams a trainer may request bookings for (admins: all teams).';
+
+create or replace function public.is_team_trainer(team uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.trainer_teams t
+    where t.user_id = auth.uid() and t.team_id = team
+  );
+$$;
+
+-- RLS: eigene Zuordnungen lesen, Admins alles
+alter table public.trainer_teams enable row level security;
+
+drop policy if exists trainer_teams_select on public.trainer_teams;
+create policy trainer_teams_select on public.trainer_teams
+  for select to authenticated using (user_id = auth.uid() or public.is_admin());
+
+drop policy if exists trainer_teams_admin on public.trainer_teams;
+create policy trainer_teams_admin on public.trainer_teams
+  for all to authenticated using (public.is_admin()) with check (public.is_admin());
+
+-- Anträge nur für eigene Teams (restriktiv: gilt zusätzlich zu den bestehenden Policies)
+drop policy if exists bookings_insert_own_team on public.bookings;
+create policy bookings_insert_own_team on public.bookings
+  as restrictive for insert to authenticated
+  with check (public.is_admin() or public.is_team_trainer(team_id));
+
+drop policy if exists booking_series_insert_own_team on public.booking_series;
+create policy booking_series_insert_own_team on public.booking_series
+  as restrictive for insert to authenticated
+  with check (public.is_admin() or public.is_team_trainer(team_id));
+
+-- Änderungen (Stornieren, Verschieben) nur an Buchungen und Serien eigener Teams, auch nicht auf ein fremdes Team umhängen
+drop policy if exists bookings_update_own_team on public.bookings;
+create policy bookings_update_own_team on public.bookings
+  as restrictive for update to authenticated
+  using (public.is_admin() or public.is_team_trainer(team_id))
+  with check (public.is_admin() or public.is_team_trainer(team_id));
+
+drop policy if exists booking_series_update_own_team on public.booking_series;
+create policy booking_series_update_own_team on public.booking_series
+  as restrictive for update to authenticated
+  using (public.is_admin() or public.is_team_trainer(team_id))
+  with check (public.is_admin() or public.is_team_trainer(team_id));
@@ -0,0 +1,46 @@
+-- Feed tokens are only created and rotated by the database: the own-row policy for all commands
+-- let users write any token (short, guessable, someone else's old one). Clients now read and
+-- delete their own row and get a new random token through calendar_feed_token().
+
+drop policy if exists calendar_feed_tokens_own on public.calendar_feed_tokens;
+
+drop policy if exists calendar_feed_tokens_select on public.calendar_feed_tokens;
+create policy calendar_feed_tokens_select on public.calendar_feed_tokens
+  for select to authenticated using (user_id = auth.uid());
+
+drop policy if exists calendar_feed_tokens_delete on public.calendar_feed_tokens;
+create policy calendar_feed_tokens_delete on public.calendar_feed_tokens
+  for delete to authenticated using (user_id = auth.uid());
+
+-- Token of the calling user, created on first use; rotate = true replaces it (old links stop working).
+create or replace function public.calendar_feed_token(rotate boolean default false)
+returns public.calendar_feed_tokens
+language plpgsql
+volatile
+security definer
+set search_path = public
+as $$
+declare
+  uid uuid := auth.uid();
+  result public.calendar_feed_tokens;
+begin
+  if uid is null then
+    raise exception 'not authenticated' using errcode = '28000';
+  end if;
+
+  if rotate then
+    insert into public.calendar_feed_tokens (user_id) values (uid)
+    on conflict (user_id) do update
+      set token = default, created_at = now(), last_used_at = null;
+  else
+    insert into public.calendar_feed_tokens (user_id) values (uid)
+    on conflict (user_id) do nothing;
+  end if;
+
+  select * into result from public.calendar_feed_tokens where user_id = uid;
+  return result;
+end;
+$$;
+
+revoke all on function public.calendar_feed_token(boolean) from public, anon;
+grant execute on function public.calendar_feed_token(boolean) to authenticated;
@@ -0,0 +1,243 @@
+-- Waitlist promotion checks the whole slot.
+-- A waitlist entry used to be promoted as soon as the one booking in waitlist_for stopped
+-- blocking, even if other bookings still filled the pitch (only the overlap constraint was
+-- caught). Now every WAITLISTED booking overlapping a freed slot is re-checked against the
+-- pitch rules in booking_slot_violation() – closures, age, segments and capacity units,
+-- mirroring checkBooking in src/lib/bookingRules.ts – and promoted only when the slot is free.
+-- waitlist_for stays the booking the entry currently waits behind; when that one goes away
+-- and the entry still does not fit, it moves behind another booking that still blocks it.
+
+-- Unit indices of a segment on a pitch with `capacity` units; null = segment not available.
+create or replace function public.segment_units(capacity integer, segment text)
+returns integer[]
+language sql
+immutable
+as $$
+  select case
+    when segment in ('A', 'B') and capacity % 2 = 0 then
+      array(select generate_series(
+        case segment when 'A' then 0 else capacity / 2 end,
+        case segment when 'A' then capacity / 2 else capacity end - 1))
+    when segment in ('Q1', 'Q2', 'Q3', 'Q4') and capacity % 4 = 0 then
+      array(select generate_series(
+        (substr(segment, 2)::int - 1) * (capacity / 4),
+        substr(segment, 2)::int * (capacity / 4) - 1))
+    else null
+  end;
+$$;
+
+-- Units a team needs without a segment: declared pitch_units (capped), else U13+/unknown the
+-- whole pitch, <=U12 half of it. age_u is shifted by one (U9 -> 8), see toULabel.
+create or replace function public.units_needed(capacity integer, age_u integer, declared integer)
+returns integer
+language sql
+immutable
+as $$
+  select case
+    when declared is not null and declared > 0 then least(declared, capacity)
+    when age_u is null or age_u + 1 >= 13 then capacity
+    else greatest(1, ceil(capacity / 2.0)::int)
+  end;
+$$;
+
+-- Whether a closure (yearly ones in every year since their first) overlaps [p_start, p_end).
+create or replace function public.pitch_closed(p_pitch_id uuid, p_start timestamptz, p_end timestamptz)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from public.pitch_closures c
+    left join lateral (
+      select
+        ((c.start_at at time zone 'Europe/Berlin') + make_interval(years => k)) as wall_start,
+        ((c.end_at at time zone 'Europe/Berlin') + make_interval(years => k)) as wall_end
+      from generate_series(
+        0,
+        case when c.repeat_yearly
+          then greatest(0, extract(year from p_end at time zone 'Europe/Berlin')::int
+                           - extract(year from c.start_at at time zone 'Europe/Berlin')::int)
+          else 0 end
+      ) as k
+    ) y on true
+    where c.pitch_id = p_pitch_id
+      and (y.wall_start at time zone 'Europe/Berlin') < p_end
+      and (y.wall_end at time zone 'Europe/Berlin') > p_start
+      and (not c.repeat_yearly or c.repeat_until is null or y.wall_start::date <= c.repeat_until)
+  );
+$$;
+
+-- First rule a booking of p_team_id on [p_start, p_end) breaks, ignoring booking p_booking_id
+-- itself: 'INVALID_TIME_RANGE', 'UNKNOWN_PITCH', 'INVALID_SEGMENT', 'PITCH_CLOSED',
+-- 'PITCH_NOT_ALLOWED_FOR_AGE', 'SEGMENT_TAKEN', 'PITCH_FULL'; null when the slot is free.
+-- Opening hours and dusk stay in the app (they need the rule data of src/lib/openingHours.ts).
+create or replace function public.booking_slot_violation(
+  p_booking_id uuid,
+  p_pitch_id uuid,
+  p_segment text,
+  p_start timestamptz,
+  p_end timestamptz,
+  p_team_id uuid
+)
+returns text
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_capacity integer;
+  v_type text;
+  v_age integer;
+  v_declared integer;
+  v_own integer[];
+  v_needed integer;
+  t timestamptz;
+  v_fixed integer[];
+  v_floating integer;
+begin
+  if p_start is null or p_end is null or p_end <= p_start then
+    return 'INVALID_TIME_RANGE';
+  end if;
+
+  select p.capacity_units, p.type::text into v_capacity, v_type from public.pitches p where p.id = p_pitch_id;
+  if not found then
+    return 'UNKNOWN_PITCH';
+  end if;
+  v_capacity := coalesce(nullif(v_capacity, 0), case v_type when 'GROSSFELD' then 4 when 'KOMPAKT' then 2 else 1 end);
+
+  if p_segment is not null then
+    v_own := public.segment_units(v_capacity, p_segment);
+    if v_own is null then
+      return 'INVALID_SEGMENT';
+    end if;
+  end if;
+
+  if public.pitch_closed(p_pitch_id, p_start, p_end) then
+    return 'PITCH_CLOSED';
+  end if;
+
+  select tm.age_u, tm.pitch_units into v_age, v_declared from public.teams tm where tm.id = p_team_id;
+  -- U14+ und ohne Jahrgang nicht aufs Kompaktfeld (allowedPitchesForAge)
+  if v_type = 'KOMPAKT' and (v_age is null or v_age + 1 >= 14) then
+    return 'PITCH_NOT_ALLOWED_FOR_AGE';
+  end if;
+
+  v_needed := coalesce(array_length(v_own, 1), public.units_needed(v_capacity, v_age, v_declared));
+
+  -- Belegung an jedem Zeitpunkt, an dem sie sich ändern kann (checkPoints in bookingRules.ts)
+  for t in
+    select p_start
+    union
+    select b.start_at from public.bookings b
+    where b.pitch_id = p_pitch_id
+      and b.status::text in ('REQUESTED', 'APPROVED')
+      and b.id is distinct from p_booking_id
+      and b.start_at > p_start and b.start_at < p_end
+  loop
+    select
+      coalesce(array(
+        select distinct u
+        from public.bookings b, unnest(public.segment_units(v_capacity, b.segment)) as u
+        where b.pitch_id = p_pitch_id
+          and b.status::text in ('REQUESTED', 'APPROVED')
+          and b.id is distinct from p_booking_id
+          and b.start_at <= t and b.end_at > t
+      ), '{}'),
+      coalesce((
+        select sum(public.units_needed(v_capacity, tm.age_u, tm.pitch_units))
+        from public.bookings b
+        left join public.teams tm on tm.id = b.team_id
+        where b.pitch_id = p_pitch_id
+          and b.status::text in ('REQUESTED', 'APPROVED')
+          and b.id is distinct from p_booking_id
+          and b.start_at <= t and b.end_at > t
+          and public.segment_units(v_capacity, b.segment) is null
+      ), 0)
+    into v_fixed, v_floating;
+
+    if v_own is not null then
+      -- Segment: belegt, wenn ein Teil fest vergeben ist oder für die Buchungen ohne Segment kein Platz bliebe
+      if v_fixed && v_own
+         or (select count(distinct u) from unnest(v_fixed || v_own) as u) + v_floating > v_capacity then
+        return 'SEGMENT_TAKEN';
+      end if;
+    elsif coalesce(array_length(v_fixed, 1), 0) + v_floating + v_needed > v_capacity then
+      return 'PITCH_FULL';
+    end if;
+  end loop;
+
+  return null;
+end;
+$$;
+
+grant execute on function public.booking_slot_violation(uuid, uuid, text, timestamptz, timestamptz, uuid) to authenticated;
+
+create or replace function public.promote_waitlist()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  blocker uuid := old.id;
+  candidate record;
+begin
+  -- nur wenn die blockierende Buchung wegfällt
+  if tg_op = 'UPDATE'
+     and (old.status::text not in ('REQUESTED', 'APPROVED') or new.status::text in ('REQUESTED', 'APPROVED')) then
+    return new;
+  end if;
+
+  if old.status::text in ('REQUESTED', 'APPROVED') then
+    -- alle Wartenden im frei gewordenen Zeitraum, in Reihenfolge der Warteliste; jeder Nachrücker
+    -- belegt den Platz sofort, die folgenden werden gegen die neue Belegung geprüft
+    for candidate in
+      select id, pitch_id, segment, start_at, end_at, team_id
+      from public.bookings
+      where status::text = 'WAITLISTED'
+        and pitch_id = old.pitch_id
+        and start_at < old.end_at
+        and end_at > old.start_at
+      order by waitlisted_at nulls last, created_at
+    loop
+      if public.booking_slot_violation(
+           candidate.id, candidate.pitch_id, candidate.segment, candidate.start_at, candidate.end_at, candidate.team_id
+         ) is null then
+        begin
+          update public.bookings
+          set status = 'REQUESTED', waitlist_for = null
+          where id = candidate.id;
+        exception when exclusion_violation then
+          -- noch von einer anderen Buchung blockiert
+          null;
+        end;
+      end if;
+    end loop;
+  end if;
+
+  -- wer weiter wartet, wartet jetzt hinter einer Buchung, die ihn noch blockiert
+  -- (keine mehr, z.B. nur eine Sperrung: Bezug lösen, sonst zeigt der FK beim DELETE ins Leere)
+  update public.bookings w
+  set waitlist_for = (
+    select b.id
+    from public.bookings b
+    where b.pitch_id = w.pitch_id
+      and b.id <> blocker
+      and b.status::text in ('REQUESTED', 'APPROVED')
+      and b.start_at < w.end_at
+      and b.end_at > w.start_at
+    order by b.end_at, b.id
+    limit 1
+  )
+  where w.waitlist_for = blocker;
+
+  return case when tg_op = 'DELETE' then old else new end;
+end;
+$$;
+
+comment on column public.bookings.waitlist_for is
+  'WAITLISTED: a booking this entry currently waits behind (promotion re-checks the whole slot).';
@@ -0,0 +1,91 @@
+-- Change requests are checked by the database, not only by the client.
+-- * Insert only for bookings the user created or whose team they train (admins: all), and
+--   only while the booking still blocks its slot.
+-- * old_* always come from the booking itself (whatever the client sent is overwritten).
+-- * approve_booking_change() re-checks the new slot with booking_slot_violation()
+--   (closures, age, segments, capacity units) before applying it.
+
+drop policy if exists booking_changes_insert on public.booking_changes;
+create policy booking_changes_insert on public.booking_changes
+  for insert to authenticated
+  with check (
+    created_by = auth.uid()
+    and status = 'PENDING'
+    and exists (
+      select 1 from public.bookings b
+      where b.id = booking_id
+        and b.status::text in ('REQUESTED', 'APPROVED')
+        and (b.created_by = auth.uid() or public.is_team_trainer(b.team_id) or public.is_admin())
+    )
+  );
+
+create or replace function public.booking_changes_fill_old()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  select b.pitch_id, b.segment, b.start_at, b.end_at
+  into new.old_pitch_id, new.old_segment, new.old_start_at, new.old_end_at
+  from public.bookings b
+  where b.id = new.booking_id;
+
+  if not found then
+    raise exception 'Booking % not found', new.booking_id using errcode = '23503';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists booking_changes_fill_old on public.booking_changes;
+create trigger booking_changes_fill_old
+  before insert on public.booking_changes
+  for each row execute function public.booking_changes_fill_old();
+
+-- Applies a pending change in one transaction: the booking gets the new values and the
+-- change is marked APPROVED. Admins only; the new slot must pass the pitch rules
+-- (the booking itself does not count as a conflict) and the overlap constraint.
+create or replace function public.approve_booking_change(change_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  c public.booking_changes%rowtype;
+  v_team uuid;
+  v_violation text;
+begin
+  if not public.is_admin() then
+    raise exception 'Only admins can approve booking changes' using errcode = '42501';
+  end if;
+
+  select * into c from public.booking_changes where id = change_id for update;
+  if not found or c.status <> 'PENDING' then
+    raise exception 'Change request % is not pending', change_id;
+  end if;
+
+  -- Buchung sperren, damit zwischen Prüfung und Update niemand dazwischenfunkt
+  select team_id into v_team from public.bookings where id = c.booking_id for update;
+
+  v_violation := public.booking_slot_violation(
+    c.booking_id, c.new_pitch_id, c.new_segment, c.new_start_at, c.new_end_at, v_team
+  );
+  if v_violation is not null then
+    raise exception 'booking rule violated: %', v_violation
+      using errcode = 'P0001', detail = format('change request %s', change_id);
+  end if;
+
+  update public.bookings
+  set pitch_id = c.new_pitch_id,
+      segment = c.new_segment,
+      start_at = c.new_start_at,
+      end_at = c.new_end_at
+  where id = c.booking_id;
+
+  update public.booking_changes
+  set status = 'APPROVED', decided_by = auth.uid(), decided_at = now()
+  where id = change_id;
+end;
+$$;
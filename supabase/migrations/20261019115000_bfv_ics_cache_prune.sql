@@ -0,0 +1,38 @@
+-- Keeps bfv_ics_cache bounded. The proxy only caches links stored in bfv_teams (and the
+-- external closure calendars), but old rows stay behind when a link changes.
+-- src/lib/icsCache.ts calls prune_bfv_ics_cache() after every write: rows not checked for
+-- max_age_days are dropped, then the least recently checked ones beyond max_entries.
+
+create index if not exists bfv_ics_cache_checked_at_idx on public.bfv_ics_cache (checked_at);
+
+create or replace function public.prune_bfv_ics_cache(max_entries integer default 500, max_age_days integer default 30)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  removed integer;
+  removed_over integer;
+begin
+  delete from public.bfv_ics_cache
+  where checked_at < now() - make_interval(days => max_age_days);
+  get diagnostics removed = row_count;
+
+  delete from public.bfv_ics_cache
+  where url in (
+    select url from public.bfv_ics_cache
+    order by checked_at desc
+    offset greatest(max_entries, 0)
+  );
+  get diagnostics removed_over = row_count;
+
+  return removed + removed_over;
+end;
+$$;
+
+revoke execute on function public.prune_bfv_ics_cache(integer, integer) from public, anon, authenticated;
+grant execute on function public.prune_bfv_ics_cache(integer, integer) to service_role;
+
+-- Schlüssel sind jetzt normalisiert (icsCacheKey): alten Bestand verwerfen, er füllt sich beim nächsten Abruf neu
+delete from public.bfv_ics_cache;
@@ -0,0 +1,227 @@
+-- The pitch rules are enforced by the database on every booking write, not only by the
+-- request form: a BEFORE INSERT / UPDATE trigger runs booking_slot_violation() for bookings
+-- that (start to) block a pitch and rejects the row with "booking rule violated: <code>".
+-- booking_slot_violation() now also checks the opening hours (src/lib/openingHours.ts) via
+-- booking_time_violation(). League games (source = 'BFV') keep their fixed times; whether a
+-- booking is one is read from bookings.source, never taken from the client. Only admins may
+-- write BFV bookings or force an overlap (force_overlap skips the capacity rules only).
+
+-- Zeitregeln eines Slots (Öffnungszeiten, Clubzeit); null = erlaubt.
+create or replace function public.booking_time_violation(p_pitch_id uuid, p_start timestamptz, p_end timestamptz)
+returns text
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  s timestamp := p_start at time zone 'Europe/Berlin';
+  e timestamp := p_end at time zone 'Europe/Berlin';
+  s_min integer;
+  e_min integer;
+begin
+  -- ohne Zeilen ist der Platz immer offen
+  if exists (select 1 from public.pitch_opening_hours h where h.pitch_id = p_pitch_id) then
+    s_min := extract(hour from s)::int * 60 + extract(minute from s)::int;
+    e_min := case
+      when e::date = s::date then extract(hour from e)::int * 60 + extract(minute from e)::int
+      when e = (s::date + 1)::timestamp then 24 * 60
+    end;
+
+    -- über Mitternacht passt nie
+    if e_min is null or not exists (
+      select 1 from public.pitch_opening_hours h
+      where h.pitch_id = p_pitch_id
+        and h.weekday = extract(isodow from s)::int
+        and s_min >= extract(hour from h.opens)::int * 60 + extract(minute from h.opens)::int
+        and e_min <= case when h.closes = '00:00' then 24 * 60
+                          else extract(hour from h.closes)::int * 60 + extract(minute from h.closes)::int end
+    ) then
+      return 'OUTSIDE_OPENING_HOURS';
+    end if;
+  end if;
+
+  return null;
+end;
+$$;
+
+drop function if exists public.booking_slot_violation(uuid, uuid, text, timestamptz, timestamptz, uuid);
+
+-- First rule a booking of p_team_id on [p_start, p_end) breaks, ignoring booking p_booking_id
+-- itself: 'INVALID_TIME_RANGE', 'UNKNOWN_PITCH', 'INVALID_SEGMENT', 'PITCH_CLOSED',
+-- the codes of booking_time_violation() (not for league games), 'PITCH_NOT_ALLOWED_FOR_AGE',
+-- 'SEGMENT_TAKEN', 'PITCH_FULL'; null when the slot is free.
+-- p_league null = read from the existing booking p_booking_id (source = 'BFV').
+create or replace function public.booking_slot_violation(
+  p_booking_id uuid,
+  p_pitch_id uuid,
+  p_segment text,
+  p_start timestamptz,
+  p_end timestamptz,
+  p_team_id uuid,
+  p_league boolean default null
+)
+returns text
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_capacity integer;
+  v_type text;
+  v_age integer;
+  v_declared integer;
+  v_own integer[];
+  v_needed integer;
+  v_time text;
+  t timestamptz;
+  v_fixed integer[];
+  v_floating integer;
+begin
+  if p_start is null or p_end is null or p_end <= p_start then
+    return 'INVALID_TIME_RANGE';
+  end if;
+
+  select p.capacity_units, p.type::text into v_capacity, v_type from public.pitches p where p.id = p_pitch_id;
+  if not found then
+    return 'UNKNOWN_PITCH';
+  end if;
+  v_capacity := coalesce(nullif(v_capacity, 0), case v_type when 'GROSSFELD' then 4 when 'KOMPAKT' then 2 else 1 end);
+
+  if p_segment is not null then
+    v_own := public.segment_units(v_capacity, p_segment);
+    if v_own is null then
+      return 'INVALID_SEGMENT';
+    end if;
+  end if;
+
+  if public.pitch_closed(p_pitch_id, p_start, p_end) then
+    return 'PITCH_CLOSED';
+  end if;
+
+  -- Ligaspiele haben feste Termine (Öffnungszeiten/Dämmerung gelten nicht)
+  if not coalesce(
+    p_league,
+    exists (select 1 from public.bookings b where b.id = p_booking_id and b.source = 'BFV')
+  ) then
+    v_time := public.booking_time_violation(p_pitch_id, p_start, p_end);
+    if v_time is not null then
+      return v_time;
+    end if;
+  end if;
+
+  select tm.age_u, tm.pitch_units into v_age, v_declared from public.teams tm where tm.id = p_team_id;
+  -- U14+ und ohne Jahrgang nicht aufs Kompaktfeld (allowedPitchesForAge)
+  if v_type = 'KOMPAKT' and (v_age is null or v_age + 1 >= 14) then
+    return 'PITCH_NOT_ALLOWED_FOR_AGE';
+  end if;
+
+  v_needed := coalesce(array_length(v_own, 1), public.units_needed(v_capacity, v_age, v_declared));
+
+  -- Belegung an jedem Zeitpunkt, an dem sie sich ändern kann (checkPoints in bookingRules.ts)
+  for t in
+    select p_start
+    union
+    select b.start_at from public.bookings b
+    where b.pitch_id = p_pitch_id
+      and b.status::text in ('REQUESTED', 'APPROVED')
+      and b.id is distinct from p_booking_id
+      and b.start_at > p_start and b.start_at < p_end
+  loop
+    select
+      coalesce(array(
+        select distinct u
+        from public.bookings b, unnest(public.segment_units(v_capacity, b.segment)) as u
+        where b.pitch_id = p_pitch_id
+          and b.status::text in ('REQUESTED', 'APPROVED')
+          and b.id is distinct from p_booking_id
+          and b.start_at <= t and b.end_at > t
+      ), '{}'),
+      coalesce((
+        select sum(public.units_needed(v_capacity, tm.age_u, tm.pitch_units))
+        from public.bookings b
+        left join public.teams tm on tm.id = b.team_id
+        where b.pitch_id = p_pitch_id
+          and b.status::text in ('REQUESTED', 'APPROVED')
+          and b.id is distinct from p_booking_id
+          and b.start_at <= t and b.end_at > t
+          and public.segment_units(v_capacity, b.segment) is null
+      ), 0)
+    into v_fixed, v_floating;
+
+    if v_own is not null then
+      -- Segment: belegt, wenn ein Teil fest vergeben ist oder für die Buchungen ohne Segment kein Platz bliebe
+      if v_fixed && v_own
+         or (select count(distinct u) from unnest(v_fixed || v_own) as u) + v_floating > v_capacity then
+        return 'SEGMENT_TAKEN';
+      end if;
+    elsif coalesce(array_length(v_fixed, 1), 0) + v_floating + v_needed > v_capacity then
+      return 'PITCH_FULL';
+    end if;
+  end loop;
+
+  return null;
+end;
+$$;
+
+grant execute on function public.booking_slot_violation(uuid, uuid, text, timestamptz, timestamptz, uuid, boolean) to authenticated;
+
+create or replace function public.enforce_booking_rules()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_violation text;
+begin
+  if new.status::text not in ('REQUESTED', 'APPROVED') then
+    return new;
+  end if;
+
+  -- Updates nur prüfen, wenn sich Slot oder Team ändert oder die Buchung wieder zu blocken beginnt
+  -- (Genehmigen einer geprüften Anfrage bleibt möglich, auch wenn daneben bewusst überbucht wurde)
+  if tg_op = 'UPDATE'
+     and old.status::text in ('REQUESTED', 'APPROVED')
+     and new.pitch_id is not distinct from old.pitch_id
+     and new.segment is not distinct from old.segment
+     and new.start_at is not distinct from old.start_at
+     and new.end_at is not distinct from old.end_at
+     and new.team_id is not distinct from old.team_id then
+    return new;
+  end if;
+
+  v_violation := public.booking_slot_violation(
+    new.id, new.pitch_id, new.segment, new.start_at, new.end_at, new.team_id, new.source = 'BFV'
+  );
+
+  -- bewusst überbucht (nur Admins, siehe Policy unten): Kapazität zählt nicht, alles andere schon
+  if v_violation in ('SEGMENT_TAKEN', 'PITCH_FULL') and new.force_overlap then
+    return new;
+  end if;
+
+  if v_violation is not null then
+    raise exception 'booking rule violated: %', v_violation
+      using errcode = 'P0001', detail = format('booking %s', new.id);
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists bookings_enforce_rules on public.bookings;
+create trigger bookings_enforce_rules
+  before insert or update of status, pitch_id, segment, start_at, end_at, team_id on public.bookings
+  for each row execute function public.enforce_booking_rules();
+
+-- Ligaspiele und bewusstes Überbuchen nur durch Admins (die Sync läuft mit der Service-Rolle)
+drop policy if exists bookings_league_admin_insert on public.bookings;
+create policy bookings_league_admin_insert on public.bookings
+  as restrictive for insert to authenticated
+  with check (public.is_admin() or (source = 'MANUAL' and not force_overlap));
+
+drop policy if exists bookings_league_admin_update on public.bookings;
+create policy bookings_league_admin_update on public.bookings
+  as restrictive for update to authenticated
+  using (true)
+  with check (public.is_admin() or (source = 'MANUAL' and not force_overlap));
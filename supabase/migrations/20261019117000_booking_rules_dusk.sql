@@ -0,0 +1,80 @@
+-- Dusk rule in the database check: on pitches without floodlight (pitches.has_floodlight = false)
+-- a booking must end by civil dusk of its start day, like AFTER_DUSK in src/lib/bookingRules.ts.
+-- civil_dusk() is the sunrise equation of src/lib/solar.ts (same constants, club location);
+-- keep both in sync. League games stay exempt (booking_slot_violation skips the time rules).
+
+-- Ende der bürgerlichen Dämmerung (Sonne 6° unter dem Horizont) am Tag d, Vereinsgelände
+create or replace function public.civil_dusk(d date, lat double precision default 48.1226, lon double precision default 11.6628)
+returns timestamptz
+language plpgsql
+immutable
+as $$
+declare
+  mean_noon double precision := (d - date '2000-01-01') - lon / 360;
+  anomaly double precision;
+  center double precision;
+  ecliptic_lon double precision;
+  transit double precision;
+  sin_decl double precision;
+  cos_hour_angle double precision;
+begin
+  anomaly := 357.5291 + 0.98560028 * mean_noon;
+  anomaly := anomaly - 360 * floor(anomaly / 360);
+  center := 1.9148 * sind(anomaly) + 0.02 * sind(2 * anomaly) + 0.0003 * sind(3 * anomaly);
+  ecliptic_lon := anomaly + center + 180 + 102.9372;
+  ecliptic_lon := ecliptic_lon - 360 * floor(ecliptic_lon / 360);
+  transit := 2451545.0 + mean_noon + 0.0053 * sind(anomaly) - 0.0069 * sind(2 * ecliptic_lon);
+
+  sin_decl := sind(ecliptic_lon) * sind(23.4397);
+  cos_hour_angle := (sind(-6) - sind(lat) * sin_decl) / (cosd(lat) * cos(asin(sin_decl)));
+  if cos_hour_angle < -1 or cos_hour_angle > 1 then
+    return null;
+  end if;
+
+  return to_timestamp((transit + acosd(cos_hour_angle) / 360 - 2440587.5) * 86400);
+end;
+$$;
+
+-- Zeitregeln eines Slots (Öffnungszeiten, Dämmerung ohne Flutlicht); null = erlaubt.
+create or replace function public.booking_time_violation(p_pitch_id uuid, p_start timestamptz, p_end timestamptz)
+returns text
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  s timestamp := p_start at time zone 'Europe/Berlin';
+  e timestamp := p_end at time zone 'Europe/Berlin';
+  s_min integer;
+  e_min integer;
+begin
+  -- ohne Zeilen ist der Platz immer offen
+  if exists (select 1 from public.pitch_opening_hours h where h.pitch_id = p_pitch_id) then
+    s_min := extract(hour from s)::int * 60 + extract(minute from s)::int;
+    e_min := case
+      when e::date = s::date then extract(hour from e)::int * 60 + extract(minute from e)::int
+      when e = (s::date + 1)::timestamp then 24 * 60
+    end;
+
+    -- über Mitternacht passt nie
+    if e_min is null or not exists (
+      select 1 from public.pitch_opening_hours h
+      where h.pitch_id = p_pitch_id
+        and h.weekday = extract(isodow from s)::int
+        and s_min >= extract(hour from h.opens)::int * 60 + extract(minute from h.opens)::int
+        and e_min <= case when h.closes = '00:00' then 24 * 60
+                          else extract(hour from h.closes)::int * 60 + extract(minute from h.closes)::int end
+    ) then
+      return 'OUTSIDE_OPENING_HOURS';
+    end if;
+  end if;
+
+  if exists (select 1 from public.pitches p where p.id = p_pitch_id and p.has_floodlight = false)
+     and p_end > public.civil_dusk(s::date) then
+    return 'AFTER_DUSK';
+  end if;
+
+  return null;
+end;
+$$;
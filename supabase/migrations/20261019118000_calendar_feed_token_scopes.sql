@@ -0,0 +1,57 @@
+-- One feed token per feed instead of one per user: a token only unlocks the feed it was
+-- issued for ('me', 'team:<id>' or 'pitch:<id>'), so a team link handed to parents no
+-- longer opens the trainer's personal feed or any other team or pitch. Tokens are created
+-- per feed on /feeds through calendar_feed_token(for_feed); the routes check token and feed
+-- together, see src/lib/calendarFeeds.ts.
+
+alter table public.calendar_feed_tokens add column if not exists feed text not null default 'me';
+
+alter table public.calendar_feed_tokens drop constraint if exists calendar_feed_tokens_pkey;
+alter table public.calendar_feed_tokens add constraint calendar_feed_tokens_pkey primary key (user_id, feed);
+
+alter table public.calendar_feed_tokens drop constraint if exists calendar_feed_tokens_feed_valid;
+alter table public.calendar_feed_tokens add constraint calendar_feed_tokens_feed_valid
+  check (feed ~ '^(me|(team|pitch):[0-9a-f-]{36})$');
+
+comment on table public.calendar_feed_tokens is 'Token per user and ICS feed (calendar subscriptions).';
+comment on column public.calendar_feed_tokens.feed is 'Feed the token unlocks: me, team:<id> or pitch:<id>.';
+
+-- die bisherigen Tokens steckten in allen Links (auch in weitergegebenen Team-Links) und öffneten
+-- jeden Feed: verwerfen, Links werden auf /feeds neu erzeugt
+delete from public.calendar_feed_tokens;
+
+drop function if exists public.calendar_feed_token(boolean);
+
+-- Token of the calling user for one feed, created on first use; rotate = true replaces it
+-- (old links to that feed stop working, the other feeds keep theirs).
+create or replace function public.calendar_feed_token(for_feed text default 'me', rotate boolean default false)
+returns public.calendar_feed_tokens
+language plpgsql
+volatile
+security definer
+set search_path = public
+as $$
+declare
+  uid uuid := auth.uid();
+  result public.calendar_feed_tokens;
+begin
+  if uid is null then
+    raise exception 'not authenticated' using errcode = '28000';
+  end if;
+
+  if rotate then
+    insert into public.calendar_feed_tokens (user_id, feed) values (uid, for_feed)
+    on conflict (user_id, feed) do update
+      set token = default, created_at = now(), last_used_at = null;
+  else
+    insert into public.calendar_feed_tokens (user_id, feed) values (uid, for_feed)
+    on conflict (user_id, feed) do nothing;
+  end if;
+
+  select * into result from public.calendar_feed_tokens t where t.user_id = uid and t.feed = for_feed;
+  return result;
+end;
+$$;
+
+revoke all on function public.calendar_feed_token(text, boolean) from public, anon;
+grant execute on function public.calendar_feed_token(text, boolean) to authenticated;